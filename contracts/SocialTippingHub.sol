@@ -50,6 +50,9 @@ contract SocialTippingHub is Ownable, ReentrancyGuard {
     uint256 public treasuryBalance;
     TreasuryAllocation public allocation;
     
+    // Gas forwarded to each batched tip recipient
+    uint256 public constant BATCH_TIP_GAS = 30000;
+    
     // Events
     event TipSent(
         address indexed from,
@@ -59,6 +62,12 @@ contract SocialTippingHub is Ownable, ReentrancyGuard {
         uint256 qualityScore
     );
     
+    event TipBatchSettled(
+        address indexed from,
+        uint256 count,
+        uint256 total
+    );
+    
     event CreatorRegistered(
         string platformId,
         address wallet,
@@ -152,6 +161,45 @@ contract SocialTippingHub is Ownable, ReentrancyGuard {
         emit TipSent(msg.sender, creator.wallet, msg.value, contentId, qualityScore);
     }
     
+    /**
+     * @dev Settle many tips in one transaction. Each tip is paid straight to
+     * its recipient; a recipient that cannot receive is credited to
+     * creatorBalances for withdrawTips instead of failing the batch.
+     */
+    function sendTipBatch(
+        address[] calldata recipients,
+        uint256[] calldata amounts,
+        string[] calldata contentIds,
+        uint256[] calldata qualityScores
+    ) external payable nonReentrant {
+        require(recipients.length > 0, "Empty batch");
+        require(
+            recipients.length == amounts.length &&
+            recipients.length == contentIds.length &&
+            recipients.length == qualityScores.length,
+            "Array length mismatch"
+        );
+        
+        uint256 total = 0;
+        for (uint256 i = 0; i < recipients.length; i++) {
+            require(recipients[i] != address(0), "Invalid recipient");
+            require(amounts[i] > 0, "Tip amount must be greater than 0");
+            require(qualityScores[i] <= 100, "Invalid quality score");
+            total += amounts[i];
+            
+            (bool success, ) = recipients[i].call{value: amounts[i], gas: BATCH_TIP_GAS}("");
+            if (!success) {
+                creatorBalances[recipients[i]] += amounts[i];
+            }
+            
+            emit TipSent(msg.sender, recipients[i], amounts[i], contentIds[i], qualityScores[i]);
+        }
+        require(total == msg.value, "Value does not match tip total");
+        
+        totalTipped += total;
+        emit TipBatchSettled(msg.sender, recipients.length, total);
+    }
+    
     /**
      * @dev Withdraw accumulated tips
      */
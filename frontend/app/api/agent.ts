@@ -0,0 +1,17 @@
+// Server-side only. Without the NEXT_PUBLIC_ prefix these are never bundled
+// for the browser, which only ever talks to the routes under /api.
+const AGENT_API_URL = process.env.AGENT_API_URL || 'http://localhost:3000';
+
+/**
+ * Call the agent API with the dashboard's key (a viewer key is enough).
+ */
+export function agentFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const key = process.env.AGENT_API_KEY;
+  if (!key) {
+    throw new Error('AGENT_API_KEY is not set');
+  }
+
+  const headers = new Headers(init.headers);
+  headers.set('X-API-Key', key);
+  return fetch(`${AGENT_API_URL}${path}`, { ...init, headers, cache: 'no-store' });
+}
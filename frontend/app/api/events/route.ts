@@ -0,0 +1,36 @@
+import { agentFetch } from '../agent';
+
+export const dynamic = 'force-dynamic';
+
+// Relays the agent's SSE stream so the browser's EventSource never needs
+// the API key. Last-Event-ID is passed through, so reconnects still resume
+// where they left off.
+export async function GET(request: Request) {
+  const query = new URL(request.url).searchParams;
+  const params = new URLSearchParams();
+  for (const name of ['types', 'cursor']) {
+    const value = query.get(name);
+    if (value) params.set(name, value);
+  }
+
+  const headers = new Headers({ Accept: 'text/event-stream' });
+  const lastEventId = request.headers.get('last-event-id');
+  if (lastEventId) headers.set('Last-Event-ID', lastEventId);
+
+  try {
+    const upstream = await agentFetch(`/events?${params}`, { headers, signal: request.signal });
+    if (!upstream.ok || !upstream.body) {
+      return new Response(null, { status: upstream.ok ? 502 : upstream.status });
+    }
+    return new Response(upstream.body, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive'
+      }
+    });
+  } catch (error) {
+    console.error('Agent event stream unavailable:', error);
+    return new Response(null, { status: 502 });
+  }
+}
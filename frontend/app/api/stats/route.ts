@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { agentFetch } from '../agent';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const upstream = await agentFetch('/stats');
+    return NextResponse.json(await upstream.json(), { status: upstream.status });
+  } catch (error) {
+    console.error('Agent stats unavailable:', error);
+    return NextResponse.json({ error: 'Agent API unavailable' }, { status: 502 });
+  }
+}
@@ -1,31 +1,29 @@
 export default function LiveMetrics({ data }: { data: any }) {
   const metrics = [
     {
-      label: 'Tips Today',
-      value: '12',
-      change: '+3',
-      trend: 'up',
+      label: 'Investments Today',
+      value: String(data?.performance?.dailyCount ?? 0),
+      trend: 'stable',
       icon: '💰'
     },
     {
       label: 'Active Creators',
-      value: '23',
-      change: '+2',
-      trend: 'up',
+      value: String(data?.investments?.topCreators?.length ?? 0),
+      trend: 'stable',
       icon: '👥'
     },
     {
       label: 'Avg Quality',
-      value: '85',
-      change: '+5',
-      trend: 'up',
+      value: (data?.investments?.averageQuality ?? 0).toFixed(0),
+      trend: 'stable',
       icon: '⭐'
     },
     {
-      label: 'Gas Spent',
-      value: '0.011',
+      label: 'Spent Today',
+      value: (data?.performance?.dailySpent ?? 0).toFixed(3),
       unit: 'SEI',
-      trend: 'stable',
+      change: data?.performance ? `${data.performance.utilizationRate.toFixed(0)}% of budget` : undefined,
+      trend: (data?.performance?.utilizationRate ?? 0) > 90 ? 'down' : 'stable',
       icon: '⛽'
     }
   ];
@@ -80,9 +78,9 @@ export default function LiveMetrics({ data }: { data: any }) {
         <div className="flex items-center justify-between">
           <div>
             <div className="text-green-400 text-sm font-semibold">System Status</div>
-            <div className="text-white">All Systems Operational</div>
+            <div className="text-white">{data?.paused ? 'Paused' : 'All Systems Operational'}</div>
           </div>
-          <div className="w-3 h-3 bg-green-500 rounded-full animate-pulse" />
+          <div className={`w-3 h-3 rounded-full ${data?.paused ? 'bg-yellow-500' : 'bg-green-500 animate-pulse'}`} />
         </div>
       </div>
     </div>
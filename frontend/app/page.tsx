@@ -8,16 +8,66 @@ import TreasuryChart from './components/TreasuryChart';
 import CreatorTokens from './components/CreatorTokens';
 import LiveMetrics from './components/LiveMetrics';
 
+// Map agent stream events onto the activity cards the feed knows how to render
+const toActivity = (event: any) => {
+  const { decision, result } = event.data || {};
+
+  switch (event.type) {
+    case 'investmentExecuted':
+      if (decision.investmentType === 'tip') {
+        return {
+          type: 'tip',
+          creator: decision.creator,
+          platform: decision.platform,
+          amount: decision.amount,
+          score: Math.round(decision.qualityScore),
+          tx: result?.transactionHash || 'escrowed',
+          time: event.timestamp
+        };
+      }
+      if (decision.investmentType === 'token') {
+        return {
+          type: 'token',
+          creator: decision.creator,
+          action: 'Token Purchased',
+          symbol: result?.tokenAddress?.slice(0, 10) || '-',
+          supply: decision.amount,
+          time: event.timestamp
+        };
+      }
+      return {
+        type: 'defi',
+        protocol: decision.investmentType === 'stake' ? 'Creator Staking' : 'NFT Reward',
+        amount: decision.amount,
+        apy: `${decision.expectedReturn}%`,
+        time: event.timestamp
+      };
+    case 'treasuryUpdate':
+      return {
+        type: 'treasury',
+        action: 'Rebalanced',
+        details: `Total value ${Number(event.data.totalValue).toFixed(3)} SEI`,
+        apy: `${Number(event.data.totalAPY).toFixed(1)}%`,
+        time: event.timestamp
+      };
+    default:
+      return undefined;
+  }
+};
+
 export default function Home() {
   const [agentData, setAgentData] = useState<any>(null);
   const [activities, setActivities] = useState<any[]>([]);
   const [isConnected, setIsConnected] = useState(false);
 
   useEffect(() => {
-    // Connect to agent API
+    // Connect to agent API through the dashboard's server, which holds the key
     const fetchData = async () => {
       try {
-        const response = await fetch('http://localhost:3000/stats');
+        const response = await fetch('/api/stats');
+        if (!response.ok) {
+          throw new Error(`Agent API returned ${response.status}`);
+        }
         const data = await response.json();
         setAgentData(data);
         setIsConnected(true);
@@ -29,58 +79,37 @@ export default function Home() {
     };
 
     fetchData();
-    const interval = setInterval(fetchData, 5000); // Update every 5 seconds
+    const interval = setInterval(fetchData, 30000); // Stream covers live changes
+
+    // Follow agent activity live; EventSource resumes from Last-Event-ID on reconnect
+    const params = new URLSearchParams({
+      types: 'stateChange,investmentExecuted,treasuryUpdate'
+    });
+    const events = new EventSource(`/api/events?${params}`);
+
+    events.onopen = () => setIsConnected(true);
+    events.onerror = () => setIsConnected(false);
 
-    // Simulate live activities
-    const activityInterval = setInterval(() => {
-      generateMockActivity();
-    }, 8000);
+    events.addEventListener('stateChange', (message) => {
+      const event = JSON.parse((message as MessageEvent).data);
+      setAgentData((prev: any) => prev && { ...prev, state: event.data });
+    });
+
+    const onActivity = (message: Event) => {
+      const activity = toActivity(JSON.parse((message as MessageEvent).data));
+      if (activity) {
+        setActivities(prev => [activity, ...prev].slice(0, 10));
+      }
+    };
+    events.addEventListener('investmentExecuted', onActivity);
+    events.addEventListener('treasuryUpdate', onActivity);
 
     return () => {
       clearInterval(interval);
-      clearInterval(activityInterval);
+      events.close();
     };
   }, []);
 
-  const generateMockActivity = () => {
-    const activities = [
-      {
-        type: 'tip',
-        creator: 'alice_creator',
-        platform: 'Twitter',
-        amount: '0.001',
-        score: 85,
-        tx: '0x' + Math.random().toString(16).substring(2, 10),
-        time: new Date().toISOString()
-      },
-      {
-        type: 'treasury',
-        action: 'Rebalancing',
-        details: 'Moved 0.002 SEI to Takara Lending',
-        apy: '8%',
-        time: new Date().toISOString()
-      },
-      {
-        type: 'token',
-        creator: 'bob_builder',
-        action: 'Token Deployed',
-        symbol: 'BOB',
-        supply: '1,000,000',
-        time: new Date().toISOString()
-      },
-      {
-        type: 'defi',
-        protocol: 'Silo Staking',
-        amount: '0.005',
-        apy: '12%',
-        time: new Date().toISOString()
-      }
-    ];
-
-    const randomActivity = activities[Math.floor(Math.random() * activities.length)];
-    setActivities(prev => [randomActivity, ...prev].slice(0, 10));
-  };
-
   const getMockData = () => ({
     state: 'MONITORING',
     treasury: {
@@ -130,7 +159,7 @@ export default function Home() {
             <div className="flex items-center space-x-4">
               <div className={`px-4 py-2 rounded-lg ${isConnected ? 'bg-green-500' : 'bg-red-500'}`}>
                 <span className="text-white font-semibold">
-                  {isConnected ? '● LIVE' : '● LIVE'}
+                  {isConnected ? '● LIVE' : '● OFFLINE'}
                 </span>
               </div>
               <div className="bg-gray-800 px-4 py-2 rounded-lg">
@@ -0,0 +1,101 @@
+#!/usr/bin/env tsx
+
+import fs from 'fs';
+import path from 'path';
+import { Backtester, BacktestStrategy } from '../src/simulation/backtester';
+import { loadContentFixtures } from '../src/simulation/scripted-platform';
+import { logger } from '../src/utils/logger';
+
+const BASELINE: BacktestStrategy = {
+  name: 'baseline',
+  tipping: { dailyBudget: 10, minQualityScore: 70, maxTipAmount: 1, creatorCooldownMinutes: 60 },
+  investment: { nftRewardsEnabled: false, stakingEnabled: true, minInvestmentScore: 55 }
+};
+
+const DEFAULT_STRATEGIES: BacktestStrategy[] = [
+  BASELINE,
+  {
+    name: 'strict',
+    tipping: { ...BASELINE.tipping, minQualityScore: 75, maxTipAmount: 0.5 },
+    investment: { ...BASELINE.investment, minInvestmentScore: 60 }
+  },
+  {
+    name: 'generous',
+    tipping: { ...BASELINE.tipping, minQualityScore: 60, maxTipAmount: 2, creatorCooldownMinutes: 0 },
+    investment: { ...BASELINE.investment, minInvestmentScore: 45 }
+  }
+];
+
+// Strategies file entries override the baseline, so each only lists what differs
+function loadStrategies(filePath: string): BacktestStrategy[] {
+  const entries: Partial<BacktestStrategy>[] = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  return entries.map((entry, index) => ({
+    name: entry.name || `strategy-${index + 1}`,
+    tipping: { ...BASELINE.tipping, ...entry.tipping },
+    investment: { ...BASELINE.investment, ...entry.investment }
+  }));
+}
+
+function parseArgs(argv: string[]) {
+  const args = { fixture: '', strategies: '', out: '' };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--strategies') args.strategies = argv[++i];
+    else if (argv[i] === '--out') args.out = argv[++i];
+    else args.fixture = argv[i];
+  }
+  return args;
+}
+
+// Replays a content fixture under several tipping strategies and compares
+// how much each would have spent, on whom, and how fast budgets ran out.
+async function backtest() {
+  const args = parseArgs(process.argv.slice(2));
+  const fixture = args.fixture || path.join(__dirname, 'fixtures', 'sample-feed.jsonl');
+  const strategies = args.strategies ? loadStrategies(args.strategies) : DEFAULT_STRATEGIES;
+
+  const corpus = loadContentFixtures(fixture);
+  const backtester = new Backtester(corpus, {
+    topics: ['sei', 'blockchain', 'web3', 'defi', 'ai']
+  });
+  const reports = await backtester.compare(strategies);
+
+  logger.info(`Backtested ${strategies.length} strategies over ${corpus.length} posts`);
+  for (const report of reports) {
+    const { totals, skipped } = report;
+    const exhausted = report.days.filter(day => day.exhaustedAt).length;
+
+    logger.info(
+      `${report.strategy}: ${totals.count} investments, ${totals.amount.toFixed(4)} SEI ` +
+      `(tip ${totals.byType.tip.count}, stake ${totals.byType.stake.count}, ` +
+      `token ${totals.byType.token.count}, nft ${totals.byType.nft.count})`
+    );
+    logger.info(
+      `  skipped: ${Object.entries(skipped).map(([reason, count]) => `${reason}=${count}`).join(', ')}`
+    );
+    for (const day of report.days) {
+      logger.info(
+        `  ${day.day}: ${day.spent.toFixed(4)}/${day.budget} SEI ` +
+        `(${(day.utilization * 100).toFixed(1)}%)` +
+        (day.exhaustedAt ? `, exhausted at ${day.exhaustedAt.toISOString()}` : '')
+      );
+    }
+    for (const creator of report.creators) {
+      logger.info(
+        `  ${creator.platform}/${creator.username}: ${creator.count} x, ${creator.amount.toFixed(4)} SEI`
+      );
+    }
+    if (exhausted > 0) {
+      logger.info(`  budget exhausted on ${exhausted} of ${report.days.length} days`);
+    }
+  }
+
+  if (args.out) {
+    fs.writeFileSync(args.out, JSON.stringify(reports, null, 2));
+    logger.info(`Report written to ${args.out}`);
+  }
+}
+
+backtest().catch(error => {
+  logger.error('Backtest failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,84 @@
+#!/usr/bin/env tsx
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DeFiAgent } from '../src/core/defi-agent';
+import { logger } from '../src/utils/logger';
+
+// Replays a content fixture through the full agent loop against a simulated
+// chain and facilitator, then prints what was paid and where the money went.
+async function simulate() {
+  const feed = process.argv[2] || path.join(__dirname, 'fixtures', 'sample-feed.jsonl');
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sei-agent-sim-'));
+
+  const agent = new DeFiAgent({
+    treasury: {
+      initialBalance: 100,
+      targetAPY: 15,
+      riskTolerance: 'moderate',
+      allocationStrategy: { tipping: 40, lending: 20, staking: 20, trading: 10, liquidity: 10 },
+      rebalancePeriod: 24
+    },
+    tipping: {
+      dailyBudget: 10,
+      minQualityScore: 70,
+      maxTipAmount: 1,
+      creatorCooldownMinutes: 60,
+      escrowExpiryHours: 168
+    },
+    investment: {
+      creatorTokensEnabled: false,
+      nftRewardsEnabled: false,
+      stakingEnabled: true,
+      minInvestmentScore: 55
+    },
+    platforms: ['twitter', 'discord'],
+    preferences: {
+      topics: ['sei', 'blockchain', 'web3', 'defi', 'ai'],
+      creators: [],
+      keywords: ['#sei', '#defi', '#web3']
+    },
+    dataDir,
+    simulation: {
+      feed,
+      initialBalance: 100,
+      genesisTime: 1717200000,
+      rpcPort: parseInt(process.env.SIMULATION_RPC_PORT || '8545'),
+      facilitatorPort: parseInt(process.env.SIMULATION_FACILITATOR_PORT || '3402')
+    }
+  });
+
+  try {
+    await agent.initialize();
+    const simulation = agent.getSimulation()!;
+
+    const finished = new Promise(resolve => simulation.platform.once('feedExhausted', resolve));
+    await agent.startMonitoring();
+    await finished;
+
+    const analytics = await agent.getAnalytics();
+    const history = agent.getInvestmentHistory({ limit: 500, offset: 0 });
+
+    logger.info('Simulation complete');
+    logger.info(`Investments: ${history.total} (${analytics.investments.totalAmount.toFixed(4)} SEI)`);
+    for (const investment of history.items.reverse()) {
+      logger.info(
+        `  ${investment.investmentType} ${investment.amount.toFixed(4)} SEI -> ` +
+        `${investment.platform}/${investment.creator} (score ${investment.qualityScore})`
+      );
+    }
+    logger.info(`Escrowed: ${analytics.escrow.held} tips (${analytics.escrow.heldAmount.toFixed(4)} SEI)`);
+    logger.info(`Replies posted: ${simulation.platform.getReplies().length}`);
+    logger.info(`Chain transactions: ${simulation.chain.getTransactions().length}`);
+    logger.info(`Agent wallet: ${simulation.chain.getBalance(simulation.walletAddress).toFixed(4)} SEI`);
+  } finally {
+    await agent.shutdown();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+}
+
+simulate().catch(error => {
+  logger.error('Simulation failed:', error);
+  process.exit(1);
+});
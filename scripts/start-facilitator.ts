@@ -0,0 +1,42 @@
+#!/usr/bin/env tsx
+
+import 'dotenv/config';
+import { X402Facilitator } from '../src/payments/x402-facilitator';
+import { logger } from '../src/utils/logger';
+
+const DEFAULT_RPC_URLS = {
+  'sei-pacific': 'https://evm-rpc.pacific-1.seinetwork.io',
+  'sei-arctic': 'https://evm-rpc-testnet.sei-apis.com'
+};
+
+// Runs a self-hosted x402 facilitator; point X402_FACILITATOR_URL at it
+async function startFacilitator() {
+  const network = process.env.X402_NETWORK === 'sei-pacific' ? 'sei-pacific' : 'sei-arctic';
+
+  const facilitator = new X402Facilitator({
+    network,
+    rpcUrl: process.env.FACILITATOR_RPC_URL || DEFAULT_RPC_URLS[network],
+    dataDir: process.env.DATA_DIR,
+    maxAuthorizationAgeSeconds: parseInt(process.env.FACILITATOR_MAX_AUTHORIZATION_AGE || '300'),
+    confirmations: parseInt(process.env.FACILITATOR_CONFIRMATIONS || '1')
+  });
+
+  await facilitator.initialize();
+  await facilitator.listen(
+    parseInt(process.env.FACILITATOR_PORT || '3001'),
+    process.env.FACILITATOR_HOST || '127.0.0.1'
+  );
+
+  const shutdown = async () => {
+    logger.info('Shutting down x402 facilitator...');
+    await facilitator.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+startFacilitator().catch(error => {
+  logger.error('Failed to start x402 facilitator:', error);
+  process.exit(1);
+});
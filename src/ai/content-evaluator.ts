@@ -16,15 +16,22 @@ interface ContentEvaluation {
   sentiment: 'positive' | 'neutral' | 'negative';
 }
 
+export interface ContentEvaluatorOptions {
+  // Score with the heuristic evaluator only, never calling OpenAI
+  offline?: boolean;
+}
+
 export class ContentEvaluator {
-  private openai: OpenAI;
+  private openai?: OpenAI;
   private evaluationCache: Map<string, ContentEvaluation> = new Map();
   private modelPreferences: any = {};
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    });
+  constructor(options: ContentEvaluatorOptions = {}) {
+    if (!options.offline) {
+      this.openai = new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY
+      });
+    }
   }
 
   async loadModels(): Promise<void> {
@@ -57,6 +64,12 @@ export class ContentEvaluator {
       return this.evaluationCache.get(cacheKey)!;
     }
 
+    if (!this.openai) {
+      const evaluation = this.basicEvaluation(content, criteria);
+      this.evaluationCache.set(cacheKey, evaluation);
+      return evaluation;
+    }
+
     try {
       // Prepare evaluation prompt
       const evaluationPrompt = this.buildEvaluationPrompt(content, criteria);
@@ -0,0 +1,231 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+
+export type Role = 'viewer' | 'operator' | 'owner';
+
+const ROLE_RANK: Record<Role, number> = {
+  viewer: 1,
+  operator: 2,
+  owner: 3
+};
+
+export interface Principal {
+  id: string;
+  role: Role;
+  method: 'api_key' | 'wallet_signature';
+}
+
+export interface AuthConfig {
+  // name -> { key, role }
+  apiKeys: Array<{ name: string; key: string; role: Role }>;
+  // EVM address -> role
+  wallets: Array<{ address: string; role: Role }>;
+  signatureMaxAgeSeconds: number;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      principal?: Principal;
+      rawBody?: Buffer;
+    }
+  }
+}
+
+function isRole(value: string): value is Role {
+  return value in ROLE_RANK;
+}
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Parse `name:role:key` API key entries and `address:role` wallet entries
+ * from comma separated environment variables.
+ */
+export function loadAuthConfig(env: NodeJS.ProcessEnv = process.env): AuthConfig {
+  const apiKeys = (env.API_KEYS || '').split(',').filter(Boolean).map(entry => {
+    const [name, role, ...rest] = entry.trim().split(':');
+    const key = rest.join(':');
+    if (!name || !key || !isRole(role)) {
+      throw new Error(`Invalid API_KEYS entry for "${name}": expected name:role:key`);
+    }
+    return { name, role, key };
+  });
+
+  const wallets = (env.AUTH_WALLETS || '').split(',').filter(Boolean).map(entry => {
+    const [address, role] = entry.trim().split(':');
+    if (!ethers.isAddress(address) || !isRole(role)) {
+      throw new Error(`Invalid AUTH_WALLETS entry "${entry}": expected address:role`);
+    }
+    return { address: ethers.getAddress(address), role };
+  });
+
+  return {
+    apiKeys,
+    wallets,
+    signatureMaxAgeSeconds: parseInt(env.AUTH_SIGNATURE_MAX_AGE || '300')
+  };
+}
+
+/**
+ * Canonical message a wallet signs to authenticate a single request.
+ */
+export function buildSignedRequestMessage(
+  method: string,
+  path: string,
+  timestamp: string,
+  body?: Buffer
+): string {
+  const bodyHash = crypto.createHash('sha256').update(body || Buffer.alloc(0)).digest('hex');
+  return `${method.toUpperCase()} ${path}\n${timestamp}\n${bodyHash}`;
+}
+
+export interface AuthenticateOptions {
+  // GET paths that may pass the API key as `?api_key=`, for clients like
+  // EventSource that cannot set headers. Keys in URLs end up in logs, so
+  // keep this to streams.
+  queryKeyPaths?: string[];
+}
+
+/**
+ * Resolves the caller of an HTTP request from either an API key
+ * (`Authorization: Bearer`, `X-API-Key` or, where allowed, `?api_key=`) or
+ * a wallet signature over the request (`X-Wallet-Address`,
+ * `X-Wallet-Timestamp`, `X-Wallet-Signature`).
+ */
+export class Authenticator {
+  private config: AuthConfig;
+  private keysByHash: Map<string, { name: string; role: Role }> = new Map();
+  private walletRoles: Map<string, Role> = new Map();
+  private usedSignatures: Map<string, number> = new Map();
+
+  constructor(config: AuthConfig) {
+    this.config = config;
+
+    for (const { name, key, role } of config.apiKeys) {
+      this.keysByHash.set(hashKey(key), { name, role });
+    }
+    for (const { address, role } of config.wallets) {
+      this.walletRoles.set(address, role);
+    }
+
+    if (this.keysByHash.size === 0 && this.walletRoles.size === 0) {
+      logger.warn('No API keys or wallets configured; protected routes will reject all requests');
+    }
+  }
+
+  authenticate(req: Request, allowQueryKey: boolean = false): Principal | undefined {
+    const apiKey = this.extractApiKey(req, allowQueryKey);
+    if (apiKey) {
+      const entry = this.keysByHash.get(hashKey(apiKey));
+      if (!entry) {
+        throw new Error('Invalid API key');
+      }
+      return { id: entry.name, role: entry.role, method: 'api_key' };
+    }
+
+    const address = req.header('x-wallet-address');
+    if (address) {
+      return this.authenticateWallet(req, address);
+    }
+
+    return undefined;
+  }
+
+  private extractApiKey(req: Request, allowQueryKey: boolean): string | undefined {
+    const authorization = req.header('authorization');
+    if (authorization?.startsWith('Bearer ')) {
+      return authorization.slice('Bearer '.length).trim();
+    }
+    const queryKey = allowQueryKey ? req.query.api_key : undefined;
+    return req.header('x-api-key') || (typeof queryKey === 'string' ? queryKey : undefined);
+  }
+
+  private authenticateWallet(req: Request, address: string): Principal {
+    const timestamp = req.header('x-wallet-timestamp');
+    const signature = req.header('x-wallet-signature');
+    if (!timestamp || !signature) {
+      throw new Error('Wallet authentication requires X-Wallet-Timestamp and X-Wallet-Signature');
+    }
+
+    const ageSeconds = Math.abs(Date.now() - Number(timestamp)) / 1000;
+    if (!Number.isFinite(ageSeconds) || ageSeconds > this.config.signatureMaxAgeSeconds) {
+      throw new Error('Wallet signature timestamp is outside the allowed window');
+    }
+
+    this.pruneUsedSignatures();
+    if (this.usedSignatures.has(signature)) {
+      throw new Error('Wallet signature has already been used');
+    }
+
+    const message = buildSignedRequestMessage(req.method, req.originalUrl, timestamp, req.rawBody);
+    let signer: string;
+    try {
+      signer = ethers.verifyMessage(message, signature);
+    } catch {
+      throw new Error('Malformed wallet signature');
+    }
+
+    if (!ethers.isAddress(address) || signer !== ethers.getAddress(address)) {
+      throw new Error('Wallet signature does not match address');
+    }
+
+    const role = this.walletRoles.get(signer);
+    if (!role) {
+      throw new Error('Wallet is not authorized');
+    }
+
+    this.usedSignatures.set(signature, Date.now());
+    return { id: signer, role, method: 'wallet_signature' };
+  }
+
+  private pruneUsedSignatures(): void {
+    const cutoff = Date.now() - this.config.signatureMaxAgeSeconds * 2 * 1000;
+    for (const [signature, usedAt] of this.usedSignatures) {
+      if (usedAt < cutoff) this.usedSignatures.delete(signature);
+    }
+  }
+}
+
+/**
+ * Attach `req.principal` when credentials are present. Invalid credentials
+ * are rejected outright; missing ones are left to `requireRole`. Requests
+ * already authenticated upstream pass straight through, since a wallet
+ * signature is only accepted once.
+ */
+export function authenticate(authenticator: Authenticator, options: AuthenticateOptions = {}): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.principal) {
+      next();
+      return;
+    }
+
+    try {
+      const allowQueryKey = req.method === 'GET' && (options.queryKeyPaths ?? []).includes(req.path);
+      req.principal = authenticator.authenticate(req, allowQueryKey);
+      next();
+    } catch (error: any) {
+      res.status(401).json({ error: error.message });
+    }
+  };
+}
+
+export function requireRole(role: Role): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.principal) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (ROLE_RANK[req.principal.role] < ROLE_RANK[role]) {
+      res.status(403).json({ error: `Requires ${role} role` });
+      return;
+    }
+
+    next();
+  };
+}
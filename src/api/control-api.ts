@@ -0,0 +1,238 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { DeFiAgent } from '../core/defi-agent';
+import { isEvmAddress, isSeiAddress } from '../blockchain/sei-address';
+import { requireRole } from './auth';
+
+const PlatformSchema = z.enum(['twitter', 'discord', 'linkedin']);
+
+export const ManualTipSchema = z.object({
+  recipient: z.string().min(1),
+  platform: PlatformSchema,
+  amount: z.number().positive(),
+  asset: z.string().min(1).max(64).optional(),
+  contentId: z.string().min(1).optional(),
+  memo: z.string().max(256).optional()
+}).refine(
+  tip => isEvmAddress(tip.recipient) || isSeiAddress(tip.recipient) || /^[A-Za-z0-9_.@-]{1,64}$/.test(tip.recipient),
+  { message: 'recipient must be a 0x address, sei1 address or platform user id', path: ['recipient'] }
+);
+
+export const PreferencesUpdateSchema = z.object({
+  topics: z.array(z.string().min(1)).optional(),
+  creators: z.array(z.string().min(1)).optional(),
+  keywords: z.array(z.string().min(1)).optional()
+}).strict();
+
+export const TippingUpdateSchema = z.object({
+  dailyBudget: z.number().positive().optional(),
+  minQualityScore: z.number().min(0).max(100).optional(),
+  maxTipAmount: z.number().positive().optional(),
+  creatorCooldownMinutes: z.number().int().min(0).optional()
+}).strict();
+
+export const SpendingLimitsUpdateSchema = z.object({
+  dailyLimit: z.number().positive().optional(),
+  perTransactionLimit: z.number().positive().optional(),
+  approvalRequiredAbove: z.number().min(0).optional(),
+  platformLimits: z.record(z.number().positive()).optional(),
+  currencyLimits: z.record(z.number().positive()).optional()
+}).strict();
+
+export const WithdrawalSchema = z.object({
+  address: z.string().refine(isEvmAddress, { message: 'address must be a 0x address' }),
+  amount: z.number().positive()
+});
+
+export const ApprovalResponseSchema = z.object({
+  approved: z.boolean(),
+  notes: z.string().max(1024).optional()
+});
+
+export const InvestmentHistoryQuerySchema = z.object({
+  investmentType: z.enum(['tip', 'stake', 'token', 'nft']).optional(),
+  platform: PlatformSchema.optional(),
+  creator: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  minQualityScore: z.coerce.number().min(0).max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+/**
+ * Parse input against a schema, answering 400 with the zod issues on failure.
+ */
+function parseOrReject<T extends z.ZodTypeAny>(
+  schema: T,
+  input: unknown,
+  res: Response
+): z.infer<T> | undefined {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    res.status(400).json({ error: 'Invalid request', issues: result.error.issues });
+    return undefined;
+  }
+  return result.data;
+}
+
+/**
+ * Endpoints for controlling a running DeFiAgent. Expects `authenticate` to
+ * have run first; each route declares the minimum role it needs.
+ */
+export function createControlApi(agent: DeFiAgent): Router {
+  const router = Router();
+
+  router.post('/tip', requireRole('operator'), async (req, res) => {
+    const tip = parseOrReject(ManualTipSchema, req.body, res);
+    if (!tip) return;
+
+    try {
+      const result = await agent.sendManualTip({ ...tip, requestedBy: req.principal!.id });
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  router.post('/monitoring/start', requireRole('operator'), async (_req, res) => {
+    try {
+      await agent.startMonitoring();
+      res.json({ monitoring: true });
+    } catch (error: any) {
+      res.status(409).json({ error: error.message });
+    }
+  });
+
+  router.post('/monitoring/stop', requireRole('operator'), async (_req, res) => {
+    try {
+      await agent.stopMonitoring();
+      res.json({ monitoring: false });
+    } catch (error: any) {
+      res.status(409).json({ error: error.message });
+    }
+  });
+
+  router.post('/pause', requireRole('operator'), (_req, res) => {
+    agent.pause();
+    res.json({ paused: true });
+  });
+
+  router.post('/resume', requireRole('operator'), (_req, res) => {
+    agent.resume();
+    res.json({ paused: false });
+  });
+
+  router.get('/config', requireRole('viewer'), (_req, res) => {
+    const { preferences, tipping } = agent.getConfig();
+    const { spending_limits } = agent.getAutonomyController().getConfig();
+    res.json({ preferences, tipping, spendingLimits: spending_limits });
+  });
+
+  router.patch('/config/preferences', requireRole('operator'), async (req, res) => {
+    const preferences = parseOrReject(PreferencesUpdateSchema, req.body, res);
+    if (!preferences) return;
+
+    try {
+      res.json(await agent.updatePreferences(preferences));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Budget and per-tip caps are spending limits, so they are owner-only
+  router.patch('/config/tipping', requireRole('owner'), (req, res) => {
+    const tipping = parseOrReject(TippingUpdateSchema, req.body, res);
+    if (!tipping) return;
+
+    res.json(agent.updateTippingConfig(tipping));
+  });
+
+  router.patch('/config/spending-limits', requireRole('owner'), (req, res) => {
+    const limits = parseOrReject(SpendingLimitsUpdateSchema, req.body, res);
+    if (!limits) return;
+
+    res.json(agent.updateSpendingLimits(limits));
+  });
+
+  // Checked against the withdrawal rules: whitelist, time-lock, approvals
+  router.post('/withdraw', requireRole('owner'), async (req, res) => {
+    const withdrawal = parseOrReject(WithdrawalSchema, req.body, res);
+    if (!withdrawal) return;
+
+    try {
+      const request = await agent.withdraw(withdrawal.address, withdrawal.amount, req.principal!.id);
+      res.status(request.status === 'rejected' ? 400 : 200).json(request);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  router.get('/withdrawals', requireRole('viewer'), async (_req, res) => {
+    res.json(await agent.getWithdrawals());
+  });
+
+  router.post('/withdrawals/:id/approve', requireRole('owner'), async (req, res) => {
+    try {
+      res.json(await agent.approveWithdrawal(req.params.id, req.principal!.id));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  router.post('/withdrawals/:id/cancel', requireRole('owner'), async (req, res) => {
+    try {
+      res.json(await agent.cancelWithdrawal(req.params.id, req.principal!.id));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  router.get('/tips/batches', requireRole('viewer'), (_req, res) => {
+    res.json(agent.getTipBatches());
+  });
+
+  router.get('/tips/batches/:id/receipts', requireRole('viewer'), async (req, res) => {
+    res.json(await agent.getTipReceipts(req.params.id));
+  });
+
+  router.post('/tips/batches/settle', requireRole('operator'), async (_req, res) => {
+    try {
+      res.json({ batch: await agent.settleTipBatch() });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  router.get('/approvals', requireRole('viewer'), (_req, res) => {
+    res.json(agent.getPendingApprovals());
+  });
+
+  router.post('/approvals/:id', requireRole('operator'), async (req, res) => {
+    const response = parseOrReject(ApprovalResponseSchema, req.body, res);
+    if (!response) return;
+
+    // Whoever asked for an escalated action needs someone else to approve it
+    const pending = agent.getPendingApprovals().find(request => request.id === req.params.id);
+    if (response.approved && pending?.decision.requested_by === req.principal!.id) {
+      res.status(403).json({ error: 'Approval requests cannot be approved by their requester' });
+      return;
+    }
+
+    try {
+      await agent.processApproval(req.params.id, response.approved, req.principal!.id, response.notes);
+      res.json({ id: req.params.id, approved: response.approved });
+    } catch (error: any) {
+      res.status(404).json({ error: error.message });
+    }
+  });
+
+  router.get('/investments', requireRole('viewer'), (req, res) => {
+    const query = parseOrReject(InvestmentHistoryQuerySchema, req.query, res);
+    if (!query) return;
+
+    res.json(agent.getInvestmentHistory(query));
+  });
+
+  return router;
+}
@@ -0,0 +1,60 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+const ALLOWED_METHODS = 'GET, POST, PATCH';
+const ALLOWED_HEADERS = [
+  'Authorization',
+  'Content-Type',
+  'Last-Event-ID',
+  'X-API-Key',
+  'X-Wallet-Address',
+  'X-Wallet-Timestamp',
+  'X-Wallet-Signature'
+].join(', ');
+
+/**
+ * Browser origins allowed to call the API, from DASHBOARD_ORIGINS
+ * (comma separated, e.g. `https://dashboard.example.com`).
+ */
+export function loadCorsOrigins(env: NodeJS.ProcessEnv = process.env): string[] {
+  return (env.DASHBOARD_ORIGINS || '').split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    let origin: string;
+    try {
+      origin = new URL(entry).origin;
+    } catch {
+      throw new Error(`Invalid DASHBOARD_ORIGINS entry "${entry}": expected scheme://host[:port]`);
+    }
+    if (origin !== entry.replace(/\/$/, '')) {
+      throw new Error(`Invalid DASHBOARD_ORIGINS entry "${entry}": expected scheme://host[:port]`);
+    }
+    return origin;
+  });
+}
+
+/**
+ * CORS for the listed origins only. Requests from them get the headers a
+ * browser needs to send credentials and read the response, and their
+ * preflights are answered here, before authentication, since browsers send
+ * those without credentials. Every other origin gets no CORS headers, so
+ * browsers keep blocking it; this grants no access by itself.
+ */
+export function allowOrigins(origins: string[]): RequestHandler {
+  const allowed = new Set(origins);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const origin = req.header('origin');
+    if (!origin || !allowed.has(origin)) {
+      return next();
+    }
+
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.vary('Origin');
+
+    if (req.method === 'OPTIONS' && req.header('access-control-request-method')) {
+      res.setHeader('Access-Control-Allow-Methods', ALLOWED_METHODS);
+      res.setHeader('Access-Control-Allow-Headers', ALLOWED_HEADERS);
+      res.setHeader('Access-Control-Max-Age', '600');
+      return res.sendStatus(204);
+    }
+    next();
+  };
+}
@@ -0,0 +1,220 @@
+import { EventEmitter } from 'events';
+import { Router, Request, Response } from 'express';
+import { DeFiAgent } from '../core/defi-agent';
+import { requireRole } from './auth';
+import { logger } from '../utils/logger';
+
+export const AGENT_STREAM_EVENTS = [
+  'stateChange',
+  'investmentExecuted',
+  'investmentFailed',
+  'investmentBlocked',
+  'investmentEscalated',
+  'treasuryUpdate',
+  'tipEscrowed',
+  'escrowReleased',
+  'escrowReleaseFailed',
+  'escrowRefunded',
+  'dailyRollover',
+  'configUpdated',
+  'withdrawal',
+  'withdrawalRequested',
+  'withdrawalRejected',
+  'withdrawalFailed'
+] as const;
+
+export const AUTONOMY_STREAM_EVENTS = [
+  'decision_approved',
+  'owner_notification',
+  'approval_requested',
+  'approval_processed',
+  'approval_timeout',
+  'guardrail_violation',
+  'autonomy_level_changed',
+  'emergency_stop_triggered'
+] as const;
+
+export type AgentStreamEventType =
+  | typeof AGENT_STREAM_EVENTS[number]
+  | typeof AUTONOMY_STREAM_EVENTS[number];
+
+export interface AgentStreamEvent {
+  id: number;
+  type: AgentStreamEventType;
+  source: 'agent' | 'autonomy';
+  timestamp: string;
+  data: unknown;
+}
+
+export interface ReplayResult {
+  events: AgentStreamEvent[];
+  // True when the cursor is older than the buffer (or from a previous run)
+  // and some events between it and the first replayed one were dropped
+  gap: boolean;
+}
+
+/**
+ * Buffers agent and autonomy events with monotonically increasing ids so
+ * subscribers can resume from the last id they saw.
+ */
+export class AgentEventStream extends EventEmitter {
+  private buffer: AgentStreamEvent[] = [];
+  private nextId: number = 1;
+  private bufferSize: number;
+  private detachers: Array<() => void> = [];
+
+  constructor(bufferSize: number = 1000) {
+    super();
+    this.bufferSize = bufferSize;
+    this.setMaxListeners(0);
+  }
+
+  attach(agent: DeFiAgent): void {
+    for (const type of AGENT_STREAM_EVENTS) {
+      this.forward(agent, type, 'agent');
+    }
+
+    const autonomy = agent.getAutonomyController();
+    for (const type of AUTONOMY_STREAM_EVENTS) {
+      this.forward(autonomy, type, 'autonomy');
+    }
+  }
+
+  detach(): void {
+    this.detachers.forEach(detach => detach());
+    this.detachers = [];
+  }
+
+  publish(type: AgentStreamEventType, source: AgentStreamEvent['source'], data: unknown): AgentStreamEvent {
+    const event: AgentStreamEvent = {
+      id: this.nextId++,
+      type,
+      source,
+      timestamp: new Date().toISOString(),
+      data: toSerializable(data)
+    };
+
+    this.buffer.push(event);
+    if (this.buffer.length > this.bufferSize) {
+      this.buffer.shift();
+    }
+
+    this.emit('event', event);
+    return event;
+  }
+
+  /**
+   * Events after `cursor`, oldest first. Without a cursor nothing is replayed.
+   */
+  replay(cursor?: number): ReplayResult {
+    if (cursor === undefined) {
+      return { events: [], gap: false };
+    }
+
+    const lastId = this.nextId - 1;
+    if (cursor > lastId) {
+      // Cursor from before a restart; everything we hold is new to the client
+      return { events: [...this.buffer], gap: true };
+    }
+
+    const events = this.buffer.filter(event => event.id > cursor);
+    const oldestId = this.buffer[0]?.id ?? this.nextId;
+    return { events, gap: cursor < oldestId - 1 };
+  }
+
+  getLastId(): number {
+    return this.nextId - 1;
+  }
+
+  private forward(emitter: EventEmitter, type: AgentStreamEventType, source: AgentStreamEvent['source']): void {
+    const listener = (data: unknown) => this.publish(type, source, data);
+    emitter.on(type, listener);
+    this.detachers.push(() => emitter.off(type, listener));
+  }
+}
+
+function toSerializable(data: unknown): unknown {
+  return JSON.parse(JSON.stringify(data ?? null, (_key, value) => {
+    if (value instanceof Error) {
+      return { name: value.name, message: value.message };
+    }
+    if (typeof value === 'bigint') {
+      return value.toString();
+    }
+    return value;
+  }));
+}
+
+function parseCursor(req: Request): number | undefined {
+  const raw = req.header('last-event-id') ?? req.query.cursor;
+  if (typeof raw !== 'string' || raw === '') return undefined;
+
+  const cursor = Number(raw);
+  return Number.isInteger(cursor) && cursor >= 0 ? cursor : undefined;
+}
+
+function writeEvent(res: Response, event: AgentStreamEvent): void {
+  res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+/**
+ * `GET /events` as a Server-Sent Events stream. Clients resume with the
+ * standard `Last-Event-ID` header (sent automatically by EventSource on
+ * reconnect) or `?cursor=<id>`, and may narrow the feed with `?types=a,b`.
+ * `GET /events/history` returns the same replay as JSON for bots that poll.
+ */
+export function createEventStreamApi(stream: AgentEventStream, heartbeatMs: number = 15000): Router {
+  const router = Router();
+
+  const parseTypes = (req: Request): Set<string> | undefined => {
+    const types = typeof req.query.types === 'string'
+      ? req.query.types.split(',').map(t => t.trim()).filter(Boolean)
+      : [];
+    return types.length > 0 ? new Set(types) : undefined;
+  };
+
+  router.get('/events', requireRole('viewer'), (req, res) => {
+    const types = parseTypes(req);
+    const matches = (event: AgentStreamEvent) => !types || types.has(event.type);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.write('retry: 5000\n\n');
+
+    const { events, gap } = stream.replay(parseCursor(req));
+    if (gap) {
+      res.write(`event: gap\ndata: ${JSON.stringify({ lastId: stream.getLastId() })}\n\n`);
+    }
+    events.filter(matches).forEach(event => writeEvent(res, event));
+
+    const onEvent = (event: AgentStreamEvent) => {
+      if (matches(event)) writeEvent(res, event);
+    };
+    stream.on('event', onEvent);
+
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), heartbeatMs);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      stream.off('event', onEvent);
+      logger.debug(`Event stream subscriber ${req.principal?.id} disconnected`);
+    });
+  });
+
+  router.get('/events/history', requireRole('viewer'), (req, res) => {
+    const types = parseTypes(req);
+    const { events, gap } = stream.replay(parseCursor(req) ?? 0);
+
+    res.json({
+      lastId: stream.getLastId(),
+      gap,
+      events: events.filter(event => !types || types.has(event.type))
+    });
+  });
+
+  return router;
+}
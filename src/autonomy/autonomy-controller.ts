@@ -1,4 +1,5 @@
 import { EventEmitter } from 'events';
+import { utcDayKey } from '../storage/tip-ledger';
 
 export enum AutonomyLevel {
   SUPERVISED = 'supervised',     // All actions require approval
@@ -69,6 +70,9 @@ export interface Decision {
   estimated_cost?: number;
   estimated_revenue?: number;
   requires_approval?: boolean;
+  // Principal who asked for this action, when it was not the agent itself;
+  // they cannot approve it
+  requested_by?: string;
   timestamp: number;
   confidence: number;
 }
@@ -142,11 +146,16 @@ export interface AutonomyMetrics {
 export class AutonomyController extends EventEmitter {
   private config: AutonomyConfig;
   private currentSpending: Map<string, number> = new Map(); // Daily spending by currency
+  private platformSpending: Map<string, number> = new Map(); // Daily spending by platform
+  private spendingDay: string = utcDayKey(); // UTC day the spending counters cover
+  private recordedSpends: Map<string, Decision> = new Map(); // Spends counted today, by decision id
   private interactionCounts: Map<string, number> = new Map(); // Hourly interaction counts
   private pendingApprovals: Map<string, ApprovalRequest> = new Map();
   private violationHistory: GuardrailViolation[] = [];
   private decisionHistory: Decision[] = [];
   private metrics: AutonomyMetrics;
+  private maintenanceTimers: NodeJS.Timeout[] = [];
+  private approvalTimers: Map<string, NodeJS.Timeout> = new Map();
 
   constructor(level: AutonomyLevel, spendingLimits: SpendingLimits) {
     super();
@@ -274,13 +283,14 @@ export class AutonomyController extends EventEmitter {
     });
 
     // Set timeout for auto-denial
-    setTimeout(() => {
+    this.approvalTimers.set(approvalId, setTimeout(() => {
+      this.approvalTimers.delete(approvalId);
       const pendingRequest = this.pendingApprovals.get(approvalId);
       if (pendingRequest && pendingRequest.status === 'pending') {
         pendingRequest.status = 'timeout';
         this.emit('approval_timeout', { requestId: approvalId, decision });
       }
-    }, this.config.approval_timeout * 1000);
+    }, this.config.approval_timeout * 1000));
 
     return request;
   }
@@ -290,6 +300,9 @@ export class AutonomyController extends EventEmitter {
     if (!request || request.status !== 'pending') {
       throw new Error('Invalid or expired approval request');
     }
+    if (approved && request.decision.requested_by === approver) {
+      throw new Error('Approval requests cannot be approved by their requester');
+    }
 
     request.status = approved ? 'approved' : 'denied';
     request.approver = approver;
@@ -312,6 +325,8 @@ export class AutonomyController extends EventEmitter {
     });
 
     // Clean up
+    clearTimeout(this.approvalTimers.get(requestId));
+    this.approvalTimers.delete(requestId);
     this.pendingApprovals.delete(requestId);
   }
 
@@ -368,6 +383,34 @@ export class AutonomyController extends EventEmitter {
     this.emit('emergency_stop_triggered', { reason, timestamp: Date.now() });
   }
 
+  /**
+   * Seed today's counters with spend recorded before a restart.
+   */
+  restoreDailySpending(amount: number, currency: string, platform?: string): void {
+    this.addSpending(amount, currency, platform);
+  }
+
+  /**
+   * Give back an approved spend that never went out (the send failed or was
+   * refunded). Only spends counted today are released; a previous day's
+   * counters are already gone.
+   */
+  releaseSpending(decisionId: string): boolean {
+    this.rollSpendingDay();
+    const decision = this.recordedSpends.get(decisionId);
+    if (!decision) return false;
+
+    this.recordedSpends.delete(decisionId);
+    this.addSpending(-(decision.estimated_cost || 0), decision.context.currency, decision.context.platform);
+    this.emit('spending_released', { decision });
+    return true;
+  }
+
+  getDailySpending(currency: string = 'SEI'): number {
+    this.rollSpendingDay();
+    return this.currentSpending.get(currency) || 0;
+  }
+
   getMetrics(): AutonomyMetrics {
     this.metrics.autonomy_score = this.calculateAutonomyScore();
     return { ...this.metrics };
@@ -413,6 +456,7 @@ export class AutonomyController extends EventEmitter {
   }
 
   private async validateSpending(decision: Decision): Promise<ValidationResult> {
+    this.rollSpendingDay();
     const cost = decision.estimated_cost || 0;
     const currency = decision.context.currency || 'SEI';
     
@@ -435,6 +479,20 @@ export class AutonomyController extends EventEmitter {
       );
     }
 
+    // Check the platform's daily limit, if it has one
+    const platform = decision.context.platform;
+    const platformLimit = platform ? this.config.spending_limits.platformLimits[platform] : undefined;
+    if (platform && platformLimit !== undefined) {
+      const platformSpent = this.platformSpending.get(platform) || 0;
+      if (platformSpent + cost > platformLimit) {
+        return this.createValidationResult(
+          false,
+          `Transaction would exceed ${platform} daily limit (${platformSpent + cost} > ${platformLimit})`,
+          true
+        );
+      }
+    }
+
     // Check approval threshold
     if (cost > this.config.spending_limits.approvalRequiredAbove) {
       return this.createValidationResult(
@@ -586,10 +644,9 @@ export class AutonomyController extends EventEmitter {
 
   private async recordApprovedDecision(decision: Decision): Promise<void> {
     // Update spending tracking
-    if (decision.estimated_cost && decision.context.currency) {
-      const currency = decision.context.currency;
-      const currentSpent = this.currentSpending.get(currency) || 0;
-      this.currentSpending.set(currency, currentSpent + decision.estimated_cost);
+    if (decision.estimated_cost) {
+      this.addSpending(decision.estimated_cost, decision.context.currency, decision.context.platform);
+      this.recordedSpends.set(decision.id, decision);
     }
 
     // Update interaction tracking
@@ -603,6 +660,30 @@ export class AutonomyController extends EventEmitter {
     this.emit('decision_approved', { decision });
   }
 
+  /**
+   * Counters cover the current UTC day, the same day the tip ledger buckets
+   * spend by, so they reset at midnight UTC whenever the process started.
+   */
+  private rollSpendingDay(): void {
+    const today = utcDayKey();
+    if (today === this.spendingDay) return;
+
+    this.spendingDay = today;
+    this.currentSpending.clear();
+    this.platformSpending.clear();
+    this.recordedSpends.clear();
+  }
+
+  private addSpending(amount: number, currency?: string, platform?: string): void {
+    this.rollSpendingDay();
+    if (currency) {
+      this.currentSpending.set(currency, Math.max(0, (this.currentSpending.get(currency) || 0) + amount));
+    }
+    if (platform) {
+      this.platformSpending.set(platform, Math.max(0, (this.platformSpending.get(platform) || 0) + amount));
+    }
+  }
+
   private recordViolation(violation: GuardrailViolation): void {
     this.violationHistory.push(violation);
     this.metrics.violations++;
@@ -731,14 +812,16 @@ export class AutonomyController extends EventEmitter {
     ];
   }
 
-  private startMaintenanceTasks(): void {
-    // Reset daily spending limits
-    setInterval(() => {
-      this.currentSpending.clear();
-    }, 24 * 60 * 60 * 1000); // Daily
+  shutdown(): void {
+    this.maintenanceTimers.forEach(timer => clearInterval(timer));
+    this.maintenanceTimers = [];
+    this.approvalTimers.forEach(timer => clearTimeout(timer));
+    this.approvalTimers.clear();
+  }
 
+  private startMaintenanceTasks(): void {
     // Clean up old interaction counts
-    setInterval(() => {
+    this.maintenanceTimers.push(setInterval(() => {
       const cutoff = Math.floor(Date.now() / (60 * 60 * 1000)) - 24; // 24 hours ago
       for (const [key] of this.interactionCounts) {
         const timestamp = parseInt(key.split('_').pop() || '0');
@@ -746,10 +829,10 @@ export class AutonomyController extends EventEmitter {
           this.interactionCounts.delete(key);
         }
       }
-    }, 60 * 60 * 1000); // Hourly
+    }, 60 * 60 * 1000)); // Hourly
 
     // Clean up expired approval requests
-    setInterval(() => {
+    this.maintenanceTimers.push(setInterval(() => {
       const now = Date.now();
       for (const [id, request] of this.pendingApprovals) {
         if (request.timeout_at < now && request.status === 'pending') {
@@ -758,6 +841,6 @@ export class AutonomyController extends EventEmitter {
           this.emit('approval_timeout', { requestId: id, decision: request.decision });
         }
       }
-    }, 60 * 1000); // Every minute
+    }, 60 * 1000)); // Every minute
   }
 }
\ No newline at end of file
@@ -0,0 +1,312 @@
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+
+export interface PriceQuote {
+  symbol: string;
+  usd: number;
+  // When the source last updated the price (ms)
+  timestamp: number;
+  source: string;
+}
+
+/**
+ * Somewhere a USD price can be read from. Returns null for symbols the
+ * source does not cover.
+ */
+export interface PriceSource {
+  readonly name: string;
+  getPrice(symbol: string): Promise<PriceQuote | null>;
+}
+
+const AGGREGATOR_ABI = [
+  'function decimals() view returns (uint8)',
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)'
+];
+
+const POOL_ABI = [
+  'function observe(uint32[] secondsAgos) view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)'
+];
+
+/**
+ * Reads Chainlink-style aggregator contracts (AggregatorV3Interface), one
+ * feed per symbol. The quote carries the feed's own update time so a feed
+ * that has stopped updating shows up as stale.
+ */
+export class OnChainPriceSource implements PriceSource {
+  readonly name = 'onchain';
+  private provider: ethers.Provider;
+  private feeds: Map<string, ethers.Contract> = new Map();
+  private decimals: Map<string, number> = new Map();
+
+  constructor(rpcUrl: string, feeds: Record<string, string>) {
+    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    for (const [symbol, address] of Object.entries(feeds)) {
+      if (!ethers.isAddress(address)) {
+        throw new Error(`Invalid price feed address for ${symbol}: ${address}`);
+      }
+      this.feeds.set(symbol.toUpperCase(), new ethers.Contract(address, AGGREGATOR_ABI, this.provider));
+    }
+  }
+
+  async getPrice(symbol: string): Promise<PriceQuote | null> {
+    const key = symbol.toUpperCase();
+    const feed = this.feeds.get(key);
+    if (!feed) return null;
+
+    if (!this.decimals.has(key)) {
+      this.decimals.set(key, Number(await feed.decimals()));
+    }
+    const [, answer, , updatedAt] = await feed.latestRoundData();
+    if (answer <= 0n) {
+      throw new Error(`Price feed for ${key} returned ${answer}`);
+    }
+
+    return {
+      symbol: key,
+      usd: parseFloat(ethers.formatUnits(answer, this.decimals.get(key)!)),
+      timestamp: Number(updatedAt) * 1000,
+      source: this.name
+    };
+  }
+}
+
+export interface TwapPool {
+  // Uniswap V3-style pool pairing the asset with a USD stablecoin
+  pool: string;
+  baseIsToken0: boolean;
+  baseDecimals: number;
+  quoteDecimals: number;
+}
+
+/**
+ * Time-weighted average price from a concentrated-liquidity DEX pool's
+ * tick accumulator. Averaging over a window makes the price expensive to
+ * move with a single trade. The pool's quote token is taken to be worth $1.
+ */
+export class DexTwapPriceSource implements PriceSource {
+  readonly name = 'dex-twap';
+  private provider: ethers.Provider;
+  private pools: Map<string, TwapPool> = new Map();
+  private windowSeconds: number;
+
+  constructor(rpcUrl: string, pools: Record<string, TwapPool>, windowSeconds: number = 1800) {
+    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.windowSeconds = windowSeconds;
+    for (const [symbol, pool] of Object.entries(pools)) {
+      if (!ethers.isAddress(pool.pool)) {
+        throw new Error(`Invalid TWAP pool address for ${symbol}: ${pool.pool}`);
+      }
+      this.pools.set(symbol.toUpperCase(), pool);
+    }
+  }
+
+  async getPrice(symbol: string): Promise<PriceQuote | null> {
+    const key = symbol.toUpperCase();
+    const config = this.pools.get(key);
+    if (!config) return null;
+
+    const pool = new ethers.Contract(config.pool, POOL_ABI, this.provider);
+    const [tickCumulatives] = await pool.observe([this.windowSeconds, 0]);
+    const delta = BigInt(tickCumulatives[1]) - BigInt(tickCumulatives[0]);
+    const window = BigInt(this.windowSeconds);
+    let tick = delta / window;
+    // Round towards negative infinity like the pool's own oracle library
+    if (delta < 0n && delta % window !== 0n) tick--;
+
+    // Raw price is token1 per token0; scale to whole units of each
+    const [decimals0, decimals1] = config.baseIsToken0
+      ? [config.baseDecimals, config.quoteDecimals]
+      : [config.quoteDecimals, config.baseDecimals];
+    const token1PerToken0 = Math.pow(1.0001, Number(tick)) * Math.pow(10, decimals0 - decimals1);
+
+    return {
+      symbol: key,
+      usd: config.baseIsToken0 ? token1PerToken0 : 1 / token1PerToken0,
+      timestamp: Date.now(),
+      source: this.name
+    };
+  }
+}
+
+/**
+ * Fixed prices, inline or from a JSON file of `{ "SYMBOL": usd }`. Without
+ * `asOf` the prices never go stale, which suits pegged assets and tests.
+ */
+export class StaticPriceSource implements PriceSource {
+  readonly name = 'static';
+  private prices?: Map<string, number>;
+  private filePath?: string;
+  private asOf?: number;
+
+  constructor(prices: Record<string, number> | string, asOf?: number) {
+    if (typeof prices === 'string') {
+      this.filePath = prices;
+    } else {
+      this.prices = StaticPriceSource.toMap(prices);
+    }
+    this.asOf = asOf;
+  }
+
+  async getPrice(symbol: string): Promise<PriceQuote | null> {
+    if (!this.prices) {
+      const raw = await fs.readFile(this.filePath!, 'utf8');
+      this.prices = StaticPriceSource.toMap(JSON.parse(raw));
+    }
+
+    const key = symbol.toUpperCase();
+    const usd = this.prices.get(key);
+    if (usd === undefined) return null;
+    return { symbol: key, usd, timestamp: this.asOf ?? Date.now(), source: this.name };
+  }
+
+  private static toMap(prices: Record<string, number>): Map<string, number> {
+    return new Map(Object.entries(prices).map(([symbol, usd]) => [symbol.toUpperCase(), Number(usd)]));
+  }
+}
+
+export interface PriceOracleConfig {
+  // Tried in order; later sources are fallbacks
+  sources: PriceSource[];
+  // How long a fetched price is reused before asking again (default 1 minute)
+  cacheTtlMs?: number;
+  // Quotes older than this are rejected as stale (default 10 minutes)
+  maxAgeMs?: number;
+  // When every source fails, the last good price is used for this long (default 1 hour)
+  fallbackMaxAgeMs?: number;
+}
+
+/**
+ * USD prices for the assets the agent values, budgets and reports in.
+ * Sources are tried in order and a quote is only accepted if it is positive
+ * and fresh; otherwise the next source is asked. Good quotes are cached, and
+ * if every source fails the last good quote is served until it is too old,
+ * after which pricing fails loudly rather than guessing.
+ */
+export class PriceOracle extends EventEmitter {
+  private sources: PriceSource[];
+  private cacheTtlMs: number;
+  private maxAgeMs: number;
+  private fallbackMaxAgeMs: number;
+  // Last good quote per symbol, with when it was fetched
+  private cache: Map<string, { quote: PriceQuote; fetchedAt: number }> = new Map();
+  private inflight: Map<string, Promise<PriceQuote>> = new Map();
+
+  constructor(config: PriceOracleConfig) {
+    super();
+    if (config.sources.length === 0) {
+      throw new Error('Price oracle needs at least one price source');
+    }
+    this.sources = config.sources;
+    this.cacheTtlMs = config.cacheTtlMs ?? 60 * 1000;
+    this.maxAgeMs = config.maxAgeMs ?? 10 * 60 * 1000;
+    this.fallbackMaxAgeMs = config.fallbackMaxAgeMs ?? 60 * 60 * 1000;
+  }
+
+  async getPrice(symbol: string): Promise<PriceQuote> {
+    const key = symbol.toUpperCase();
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < this.cacheTtlMs) {
+      return { ...cached.quote };
+    }
+
+    // Concurrent lookups for the same symbol share one fetch
+    let pending = this.inflight.get(key);
+    if (!pending) {
+      pending = this.fetch(key).finally(() => this.inflight.delete(key));
+      this.inflight.set(key, pending);
+    }
+    return { ...(await pending) };
+  }
+
+  async getUsdPrice(symbol: string): Promise<number> {
+    return (await this.getPrice(symbol)).usd;
+  }
+
+  async toUsd(symbol: string, amount: number): Promise<number> {
+    return amount * await this.getUsdPrice(symbol);
+  }
+
+  /**
+   * Most recent good quote without fetching, if there is one
+   */
+  getCachedPrice(symbol: string): PriceQuote | undefined {
+    const cached = this.cache.get(symbol.toUpperCase());
+    return cached && { ...cached.quote };
+  }
+
+  private async fetch(symbol: string): Promise<PriceQuote> {
+    const now = Date.now();
+
+    for (const source of this.sources) {
+      try {
+        const quote = await source.getPrice(symbol);
+        if (!quote) continue;
+
+        if (!(quote.usd > 0) || !Number.isFinite(quote.usd)) {
+          throw new Error(`invalid price ${quote.usd}`);
+        }
+        if (now - quote.timestamp > this.maxAgeMs) {
+          throw new Error(`stale price from ${new Date(quote.timestamp).toISOString()}`);
+        }
+
+        this.cache.set(symbol, { quote, fetchedAt: now });
+        return quote;
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        logger.warn(`Price source ${source.name} failed for ${symbol}: ${reason}`);
+        this.emit('source_failed', { symbol, source: source.name, error: reason });
+      }
+    }
+
+    const last = this.cache.get(symbol);
+    if (last && now - last.quote.timestamp <= this.fallbackMaxAgeMs) {
+      logger.warn(`No fresh ${symbol} price, using last known $${last.quote.usd} from ${last.quote.source}`);
+      this.emit('fallback', { ...last.quote });
+      return last.quote;
+    }
+
+    throw new Error(`No usable USD price for ${symbol}`);
+  }
+}
+
+export interface PriceOracleSettings {
+  rpcUrl?: string;
+  // Aggregator contract per symbol
+  feeds?: Record<string, string>;
+  twapPools?: Record<string, TwapPool>;
+  twapWindowSeconds?: number;
+  // Last-resort prices, inline or a JSON file path
+  staticPrices?: Record<string, number> | string;
+  cacheTtlMs?: number;
+  maxAgeMs?: number;
+  fallbackMaxAgeMs?: number;
+}
+
+/**
+ * Build an oracle from settings, most trusted source first: on-chain feeds,
+ * then DEX TWAPs, then static prices.
+ */
+export function createPriceOracle(settings: PriceOracleSettings): PriceOracle {
+  const sources: PriceSource[] = [];
+
+  if (settings.feeds && Object.keys(settings.feeds).length > 0) {
+    if (!settings.rpcUrl) throw new Error('On-chain price feeds need an rpcUrl');
+    sources.push(new OnChainPriceSource(settings.rpcUrl, settings.feeds));
+  }
+  if (settings.twapPools && Object.keys(settings.twapPools).length > 0) {
+    if (!settings.rpcUrl) throw new Error('DEX TWAP prices need an rpcUrl');
+    sources.push(new DexTwapPriceSource(settings.rpcUrl, settings.twapPools, settings.twapWindowSeconds));
+  }
+  if (settings.staticPrices) {
+    sources.push(new StaticPriceSource(settings.staticPrices));
+  }
+
+  return new PriceOracle({
+    sources,
+    cacheTtlMs: settings.cacheTtlMs,
+    maxAgeMs: settings.maxAgeMs,
+    fallbackMaxAgeMs: settings.fallbackMaxAgeMs
+  });
+}
@@ -0,0 +1,157 @@
+import { ethers } from 'ethers';
+
+export const SEI_BECH32_PREFIX = 'sei';
+
+// Sei's address precompile maps between associated EVM and bech32 accounts
+export const SEI_ADDR_PRECOMPILE = '0x0000000000000000000000000000000000001004';
+
+const ADDR_PRECOMPILE_ABI = [
+  'function getSeiAddr(address addr) view returns (string)',
+  'function getEvmAddr(string addr) view returns (address)'
+];
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+function polymod(values: number[]): number {
+  let chk = 1;
+  for (const value of values) {
+    const top = chk >> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >> i) & 1) chk ^= BECH32_GENERATOR[i];
+    }
+  }
+  return chk;
+}
+
+function expandPrefix(prefix: string): number[] {
+  const result: number[] = [];
+  for (const char of prefix) result.push(char.charCodeAt(0) >> 5);
+  result.push(0);
+  for (const char of prefix) result.push(char.charCodeAt(0) & 31);
+  return result;
+}
+
+function convertBits(data: ArrayLike<number>, from: number, to: number, pad: boolean): number[] {
+  let acc = 0;
+  let bits = 0;
+  const result: number[] = [];
+  const maxValue = (1 << to) - 1;
+
+  for (let i = 0; i < data.length; i++) {
+    acc = (acc << from) | data[i];
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      result.push((acc >> bits) & maxValue);
+    }
+  }
+
+  if (pad) {
+    if (bits > 0) result.push((acc << (to - bits)) & maxValue);
+  } else if (bits >= from || ((acc << (to - bits)) & maxValue)) {
+    throw new Error('Invalid bech32 padding');
+  }
+
+  return result;
+}
+
+export function toBech32(bytes: Uint8Array, prefix: string = SEI_BECH32_PREFIX): string {
+  const words = convertBits(bytes, 8, 5, true);
+  const checksumInput = [...expandPrefix(prefix), ...words, 0, 0, 0, 0, 0, 0];
+  const mod = polymod(checksumInput) ^ 1;
+  const checksum = Array.from({ length: 6 }, (_, i) => (mod >> (5 * (5 - i))) & 31);
+
+  return prefix + '1' + [...words, ...checksum].map(w => BECH32_CHARSET[w]).join('');
+}
+
+export function fromBech32(address: string): { prefix: string; bytes: Uint8Array } {
+  const lower = address.toLowerCase();
+  if (lower !== address && address.toUpperCase() !== address) {
+    throw new Error('Mixed-case bech32 address');
+  }
+
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > lower.length) {
+    throw new Error('Invalid bech32 address');
+  }
+
+  const prefix = lower.slice(0, separator);
+  const data: number[] = [];
+  for (const char of lower.slice(separator + 1)) {
+    const value = BECH32_CHARSET.indexOf(char);
+    if (value === -1) throw new Error(`Invalid bech32 character: ${char}`);
+    data.push(value);
+  }
+
+  if (polymod([...expandPrefix(prefix), ...data]) !== 1) {
+    throw new Error('Invalid bech32 checksum');
+  }
+
+  return {
+    prefix,
+    bytes: Uint8Array.from(convertBits(data.slice(0, -6), 5, 8, false))
+  };
+}
+
+export function isSeiAddress(address: string): boolean {
+  try {
+    const { prefix, bytes } = fromBech32(address);
+    return prefix === SEI_BECH32_PREFIX && (bytes.length === 20 || bytes.length === 32);
+  } catch {
+    return false;
+  }
+}
+
+export function isEvmAddress(address: string): boolean {
+  return ethers.isAddress(address) && address.startsWith('0x');
+}
+
+/**
+ * Derive both address forms from a secp256k1 public key. On Sei the bech32
+ * account is ripemd160(sha256(compressed key)) while the EVM account is the
+ * keccak-based address, so the two are not a simple byte re-encoding.
+ */
+export function addressesFromPublicKey(publicKey: string): { evmAddress: string; seiAddress: string } {
+  const compressed = ethers.SigningKey.computePublicKey(publicKey, true);
+  const accountBytes = ethers.getBytes(ethers.ripemd160(ethers.sha256(compressed)));
+
+  return {
+    evmAddress: ethers.computeAddress(publicKey),
+    seiAddress: toBech32(accountBytes)
+  };
+}
+
+/**
+ * Look up the bech32 address associated with an EVM address on chain.
+ * Returns undefined when the account has not been associated yet.
+ */
+export async function lookupSeiAddress(
+  evmAddress: string,
+  provider: ethers.Provider
+): Promise<string | undefined> {
+  const precompile = new ethers.Contract(SEI_ADDR_PRECOMPILE, ADDR_PRECOMPILE_ABI, provider);
+  try {
+    const seiAddress: string = await precompile.getSeiAddr(evmAddress);
+    return seiAddress || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Look up the EVM address associated with a bech32 address on chain.
+ */
+export async function lookupEvmAddress(
+  seiAddress: string,
+  provider: ethers.Provider
+): Promise<string | undefined> {
+  const precompile = new ethers.Contract(SEI_ADDR_PRECOMPILE, ADDR_PRECOMPILE_ABI, provider);
+  try {
+    const evmAddress: string = await precompile.getEvmAddr(seiAddress);
+    return evmAddress && evmAddress !== ethers.ZeroAddress ? evmAddress : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -243,10 +243,15 @@ export class SeiDeFiService extends EventEmitter {
         return await erc20Tool.transfer({ tokenAddress, recipient, amount });
       }
       
-      const erc20Abi = ['function transfer(address to, uint256 amount) returns (bool)'];
+      const erc20Abi = [
+        'function transfer(address to, uint256 amount) returns (bool)',
+        'function decimals() view returns (uint8)'
+      ];
       const token = new ethers.Contract(tokenAddress, erc20Abi, this.wallet);
       
-      const tx = await token.transfer(recipient, ethers.parseEther(amount));
+      // Not every token has 18 decimals (USDC has 6)
+      const decimals = await token.decimals();
+      const tx = await token.transfer(recipient, ethers.parseUnits(amount, decimals));
       await tx.wait();
       
       logger.info(`Transferred ${amount} tokens to ${recipient}`);
@@ -298,6 +303,29 @@ export class SeiDeFiService extends EventEmitter {
     }
   }
 
+  async mintNFT(contractAddress: string, recipient: string, tokenURI: string): Promise<{ tokenId: string; transactionHash: string }> {
+    try {
+      const erc721Abi = [
+        'function safeMint(address to, string uri) returns (uint256)',
+        'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)'
+      ];
+      const nft = new ethers.Contract(contractAddress, erc721Abi, this.wallet);
+
+      const tx = await nft.safeMint(recipient, tokenURI);
+      const receipt = await tx.wait();
+      const minted = receipt.logs
+        .map((log: any) => nft.interface.parseLog(log))
+        .find((event: any) => event?.name === 'Transfer');
+
+      const tokenId = minted ? minted.args.tokenId.toString() : '';
+      logger.info(`Minted NFT #${tokenId} on ${contractAddress} to ${recipient}`);
+      return { tokenId, transactionHash: tx.hash };
+    } catch (error) {
+      logger.error('NFT minting failed:', error);
+      throw error;
+    }
+  }
+
   // Portfolio Analytics
   async getPortfolio(): Promise<any> {
     try {
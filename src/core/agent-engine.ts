@@ -1,13 +1,18 @@
 import { EventEmitter } from 'events';
+import { ethers } from 'ethers';
 import { PersonalityModule } from '../personality/personality-engine.js';
 import { MemorySystem } from '../memory/memory-system.js';
-import { ReasoningEngine } from './reasoning-engine.js';
+import { ReasoningEngine, AgentDecision, ContentCreationDecision } from './reasoning-engine.js';
 import { ToolRegistry } from './tool-registry.js';
-import { PlatformAdapter } from '../platforms/platform-sdk.js';
-import { AutonomyController } from '../autonomy/autonomy-controller.js';
-import { PaymentSystem } from '../payments/x402-integration.js';
+import { AgentPipeline, autonomyGuard, executor } from './pipeline.js';
+import { PlatformAdapter, PlatformEvent } from '../platforms/platform-sdk.js';
+import { AutonomyController, DecisionType } from '../autonomy/autonomy-controller.js';
+import { PaymentSystem, RevenueConfig, RevenueModel, WithdrawalRules } from '../payments/x402-integration.js';
+import { PlatformSubscriptionNotifier } from '../payments/subscription-manager.js';
 import { SeiBlockchainService } from '../blockchain/sei-integration.js';
 
+export type { RevenueConfig, RevenueModel, WithdrawalRules };
+
 export interface AgentConfig {
   id: string;
   name: string;
@@ -17,6 +22,8 @@ export interface AgentConfig {
   autonomyLevel: AutonomyLevel;
   spendingLimits: SpendingLimits;
   revenueConfig: RevenueConfig;
+  // Receives payments; defaults to the SEI_PRIVATE_KEY wallet
+  walletAddress?: string;
 }
 
 export enum AgentType {
@@ -40,25 +47,8 @@ export interface SpendingLimits {
   perTransactionLimit: number;
   platformLimits: Record<string, number>;
   approvalRequiredAbove: number;
-}
-
-export interface RevenueConfig {
-  models: RevenueModel[];
-  paymentMethods: string[];
-  withdrawalRules: WithdrawalRules;
-}
-
-export interface RevenueModel {
-  type: 'content' | 'service' | 'subscription' | 'commission';
-  rate: number;
-  currency: string;
-  billingCycle: 'per_use' | 'hourly' | 'daily' | 'monthly';
-}
-
-export interface WithdrawalRules {
-  minimumBalance: number;
-  frequency: 'daily' | 'weekly' | 'monthly';
-  destinationAddress: string;
+  // Per-currency caps, passed through to the AutonomyController
+  currencyLimits?: Record<string, number>;
 }
 
 export class AgentCore extends EventEmitter {
@@ -71,26 +61,55 @@ export class AgentCore extends EventEmitter {
   private autonomy: AutonomyController;
   private payments: PaymentSystem;
   private blockchain: SeiBlockchainService;
+  private events: AgentPipeline<{ platform: string; event: PlatformEvent }>;
   private isActive: boolean = false;
 
   constructor(config: AgentConfig) {
     super();
     this.config = config;
     this.platforms = new Map();
+    this.events = new AgentPipeline('agent-core');
+
+    // Core components
+    this.personality = new PersonalityModule(config.personalityTemplate);
+    this.memory = new MemorySystem(config.id);
+    this.reasoning = new ReasoningEngine(this.personality, this.memory, {
+      platforms: config.platforms
+    });
+    this.autonomy = new AutonomyController(config.autonomyLevel, {
+      currencyLimits: {},
+      ...config.spendingLimits
+    });
+    // Dunning notices go out as DMs on the platform a subscriber signed up from
+    this.payments = new PaymentSystem({
+      ...config.revenueConfig,
+      subscriptions: {
+        notifier: new PlatformSubscriptionNotifier(this.platforms),
+        ...config.revenueConfig.subscriptions
+      }
+    }, this.resolveWalletAddress());
+    this.blockchain = new SeiBlockchainService(config.id);
+    this.tools = new ToolRegistry({
+      services: { blockchain: this.blockchain, platforms: this.platforms },
+      autonomy: this.autonomy
+    });
+
+    this.buildEventPipeline();
     this.initializeComponents();
   }
 
+  private resolveWalletAddress(): string {
+    if (this.config.walletAddress) return this.config.walletAddress;
+
+    const privateKey = process.env.SEI_PRIVATE_KEY;
+    if (!privateKey) {
+      throw new Error('Set walletAddress or SEI_PRIVATE_KEY so the agent can receive payments');
+    }
+    return new ethers.Wallet(privateKey).address;
+  }
+
   private async initializeComponents(): Promise<void> {
     try {
-      // Initialize core components
-      this.personality = new PersonalityModule(this.config.personalityTemplate);
-      this.memory = new MemorySystem(this.config.id);
-      this.reasoning = new ReasoningEngine(this.personality, this.memory);
-      this.tools = new ToolRegistry();
-      this.autonomy = new AutonomyController(this.config.autonomyLevel, this.config.spendingLimits);
-      this.payments = new PaymentSystem(this.config.revenueConfig);
-      this.blockchain = new SeiBlockchainService(this.config.id);
-
       // Load personality-specific tools
       await this.loadAgentTypeTools();
       
@@ -164,6 +183,7 @@ export class AgentCore extends EventEmitter {
 
       // Start blockchain services
       await this.blockchain.initialize();
+      await this.payments.startBilling();
 
       // Begin autonomous operation
       this.isActive = true;
@@ -182,6 +202,7 @@ export class AgentCore extends EventEmitter {
     }
 
     this.isActive = false;
+    this.payments.stopBilling();
 
     // Disconnect from platforms
     for (const [platformName, adapter] of this.platforms) {
@@ -204,8 +225,8 @@ export class AgentCore extends EventEmitter {
         const decisions = await this.reasoning.generateDecisions();
         
         for (const decision of decisions) {
-          const approved = await this.autonomy.validateDecision(decision);
-          if (approved) {
+          const validation = await this.autonomy.validateDecision(decision);
+          if (validation.approved) {
             await this.executeDecision(decision);
           } else {
             await this.escalateDecision(decision);
@@ -230,80 +251,112 @@ export class AgentCore extends EventEmitter {
 
   private async handlePlatformEvent(platformName: string, event: any): Promise<void> {
     try {
-      // Store event in memory
-      await this.memory.storeEvent(event);
-
-      // Analyze event and generate response
-      const response = await this.reasoning.processEvent(event);
-
-      if (response) {
-        // Check autonomy permissions
-        const approved = await this.autonomy.validateAction(response);
-        
-        if (approved) {
-          const platform = this.platforms.get(platformName);
-          await platform?.executeAction(response);
-          
-          // Track performance
-          this.emit('action_executed', {
-            platform: platformName,
-            action: response.type,
-            success: true
-          });
-        } else {
-          await this.escalateAction(response);
-        }
-      }
+      await this.events.process({ platform: platformName, event });
     } catch (error) {
       this.emit('error', { type: 'event_handling', platformName, error });
     }
   }
 
-  private async executeDecision(decision: any): Promise<void> {
-    // Implementation depends on decision type
+  /**
+   * Platform events go through the shared agent pipeline: remembered,
+   * reasoned about, checked against autonomy limits, acted on and the
+   * outcome remembered for learning.
+   */
+  private buildEventPipeline(): void {
+    this.events
+      .use({
+        name: 'memory',
+        phase: 'ingest',
+        run: async run => this.memory.storeEvent(run.input.event)
+      })
+      .use({
+        name: 'reasoning',
+        phase: 'decide',
+        run: async run => {
+          const response = await this.reasoning.processEvent(run.input.event);
+          if (response) {
+            run.propose('respond', response, { action: response });
+          }
+        }
+      })
+      .use(autonomyGuard(this.autonomy))
+      .use(executor('platform-action', ['respond'], async (decision, run) => {
+        const platform = this.platforms.get(run.input.platform);
+        if (!platform) {
+          throw new Error(`Platform ${run.input.platform} is not connected`);
+        }
+        await platform.executeAction(decision.payload);
+      }))
+      .use({
+        name: 'outcome',
+        phase: 'record',
+        run: async run => {
+          for (const decision of run.decisions) {
+            if (decision.status === 'blocked') {
+              await this.escalateAction(decision.payload);
+              continue;
+            }
+            if (decision.status !== 'executed' && decision.status !== 'failed') continue;
+
+            const success = decision.status === 'executed';
+            await this.memory.storeInteractionOutcome(
+              { platform: run.input.platform, type: decision.payload.type, eventId: run.input.event.id },
+              { success, error: decision.reason }
+            );
+            this.emit('action_executed', {
+              platform: run.input.platform,
+              action: decision.payload.type,
+              success
+            });
+            if (!success) {
+              this.emit('error', { type: 'event_handling', platformName: run.input.platform, error: decision.reason });
+            }
+          }
+        }
+      });
+  }
+
+  private async executeDecision(decision: AgentDecision): Promise<void> {
     switch (decision.type) {
-      case 'content_creation':
+      case DecisionType.CONTENT_CREATION:
         await this.createContent(decision);
         break;
-      case 'payment_acceptance':
-        await this.processPayment(decision);
+      case DecisionType.PLATFORM_INTERACTION: {
+        const platform = this.platforms.get(decision.platform);
+        if (!platform) return;
+        await platform.executeAction(decision.response);
         break;
-      case 'platform_interaction':
-        await this.interactOnPlatform(decision);
-        break;
-      case 'learning_adaptation':
-        await this.adaptBehavior(decision);
+      }
+      case DecisionType.LEARNING_ADAPTATION:
+        await this.personality.adaptFromFeedback(decision.feedback);
         break;
     }
   }
 
-  private async createContent(decision: any): Promise<void> {
+  private async createContent(decision: ContentCreationDecision): Promise<void> {
     const platform = this.platforms.get(decision.platform);
     if (!platform) return;
 
     const content = await this.tools.execute('content-generator', {
       type: decision.contentType,
       prompt: decision.prompt,
-      style: this.personality.getCommunicationStyle()
+      style: this.personality.getPersonalityState().communication
     });
 
     await platform.post(content);
-    
-    // Set up payment requirement if specified
-    if (decision.monetize) {
-      await this.payments.setupPaymentRequirement(content.id, decision.price);
-    }
-  }
 
-  private async processPayment(decision: any): Promise<void> {
-    const result = await this.payments.acceptPayment(decision.paymentRequest);
-    
-    if (result.success) {
-      // Provide the requested service/content
-      await this.deliverService(decision.serviceType, result.payer);
-      
-      // Update earnings
-      await this.blockchain.recordEarnings(result.amount);
+    // Offer the post as a paid service so it can be unlocked through x402
+    if (decision.monetize && decision.price !== undefined) {
+      this.payments.addService({
+        id: content.id,
+        name: `${decision.platform} post ${content.id}`,
+        description: decision.prompt,
+        price: decision.price,
+        currency: 'SEI',
+        billing: 'one_time',
+        availability: 'premium'
+      });
+      await this.payments.setupPaymentRequirement(content.id, decision.price);
     }
   }
 
@@ -1,10 +1,38 @@
 import { EventEmitter } from 'events';
 import { z } from 'zod';
 import { PlatformSDK } from '../platforms/simple-platform';
-import { PaymentProcessor } from '../payments/payment-processor';
+import { PaymentProcessor, PaymentResponse } from '../payments/payment-processor';
 import { ContentEvaluator } from '../ai/content-evaluator';
 import { SeiDeFiService } from '../blockchain/sei-defi-service';
+import { PriceOracle, PriceOracleSettings, createPriceOracle } from '../blockchain/price-oracle';
 import { TreasuryManager, TreasuryConfig } from '../treasury/treasury-manager';
+import { TipLedger, DailySpendSnapshot, utcDayKey } from '../storage/tip-ledger';
+import { TipDeduplicator } from '../storage/tip-deduplicator';
+import { CreatorRegistry, CreatorWallet, ClaimChallenge } from '../identity/creator-registry';
+import { TipEscrow, EscrowRecord } from '../payments/tip-escrow';
+import { TipAssets, TipAssetsConfig, NATIVE_ASSET } from '../payments/tip-assets';
+import {
+  TipBatcher,
+  TipBatchSettler,
+  HubBatchSettler,
+  BatchedTip,
+  TipBatch,
+  TipReceipt
+} from '../payments/tip-batcher';
+import { WithdrawalManager, WithdrawalRequest } from '../payments/withdrawal-manager';
+import type { WithdrawalRules } from '../payments/x402-integration';
+import { SimulationEnvironment, SimulationConfig } from '../simulation/simulation-environment';
+import { planInvestment, updateCreatorQuality } from './investment-strategy';
+import { AgentPipeline, autonomyGuard } from './pipeline';
+import {
+  AutonomyController,
+  AutonomyLevel,
+  SpendingLimits,
+  ApprovalRequest,
+  Decision,
+  DecisionType,
+  RiskLevel
+} from '../autonomy/autonomy-controller';
 import { logger } from '../utils/logger';
 
 export enum AgentState {
@@ -15,7 +43,8 @@ export enum AgentState {
   TIPPING = 'TIPPING',
   TRADING = 'TRADING',
   REBALANCING = 'REBALANCING',
-  LEARNING = 'LEARNING'
+  LEARNING = 'LEARNING',
+  PAUSED = 'PAUSED'
 }
 
 export const InvestmentDecisionSchema = z.object({
@@ -25,6 +54,9 @@ export const InvestmentDecisionSchema = z.object({
   qualityScore: z.number().min(0).max(100),
   investmentType: z.enum(['tip', 'stake', 'token', 'nft']),
   amount: z.number().positive(),
+  // What `amount` is denominated in; SEI when absent
+  asset: z.string().optional(),
+  usdValue: z.number().nonnegative().optional(),
   expectedReturn: z.number(),
   riskLevel: z.enum(['low', 'medium', 'high']),
   reason: z.string(),
@@ -33,6 +65,36 @@ export const InvestmentDecisionSchema = z.object({
 
 export type InvestmentDecision = z.infer<typeof InvestmentDecisionSchema>;
 
+export interface ManualTipRequest {
+  recipient: string;
+  platform: InvestmentDecision['platform'];
+  amount: number;
+  // Symbol or token address; SEI by default
+  asset?: string;
+  contentId?: string;
+  memo?: string;
+  // Principal sending the tip; they cannot approve it if it escalates
+  requestedBy?: string;
+}
+
+export interface InvestmentHistoryQuery {
+  investmentType?: InvestmentDecision['investmentType'];
+  platform?: InvestmentDecision['platform'];
+  creator?: string;
+  from?: Date;
+  to?: Date;
+  minQualityScore?: number;
+  limit: number;
+  offset: number;
+}
+
+export interface InvestmentHistoryPage {
+  total: number;
+  limit: number;
+  offset: number;
+  items: InvestmentDecision[];
+}
+
 export interface CreatorProfile {
   id: string;
   username: string;
@@ -47,6 +109,29 @@ export interface CreatorProfile {
   tokenAddress?: string;
 }
 
+// Collaborators DeFiAgent normally builds itself; pass any of them to
+// the constructor to swap in alternatives
+export interface DeFiAgentServices {
+  platformSDK: PlatformSDK;
+  contentEvaluator: ContentEvaluator;
+  defiService: SeiDeFiService;
+  creatorRegistry: CreatorRegistry;
+  paymentProcessor: PaymentProcessor;
+  priceOracle: PriceOracle;
+  // Only used when tip batching is enabled
+  tipBatchSettler?: TipBatchSettler;
+}
+
+// Spending the autonomy layer escalated, waiting on an operator
+interface AwaitingApproval {
+  decision: InvestmentDecision;
+  // SEI reserved from the treasury, returned if the spend never happens
+  reservedSei: number;
+  // Counted against the autonomy limits once approved
+  spendId: string;
+  execute: () => Promise<void>;
+}
+
 interface DeFiAgentConfig {
   // Treasury configuration
   treasury: TreasuryConfig;
@@ -54,8 +139,28 @@ interface DeFiAgentConfig {
   // Tipping configuration
   tipping: {
     dailyBudget: number;
+    // Cap across all assets by USD value; required to tip in anything but SEI
+    dailyBudgetUsd?: number;
     minQualityScore: number;
     maxTipAmount: number;
+    // Asset autonomous tips are paid in (default SEI)
+    defaultAsset?: string;
+    // Tip creators in their own token when it is a registered asset
+    creatorTokenTips?: boolean;
+    creatorCooldownMinutes?: number;
+    escrowExpiryHours?: number;
+    claimBaseUrl?: string;
+    // Settle small SEI tips together through SocialTippingHub.sendTipBatch
+    batching?: {
+      // Defaults to SOCIAL_TIPPING_HUB_ADDRESS
+      hubAddress?: string;
+      windowMinutes?: number;
+      // Settle early once this many SEI are queued
+      thresholdAmount?: number;
+      maxBatchSize?: number;
+      // Larger tips are sent straight away
+      maxBatchedTip?: number;
+    };
   };
   
   // Investment configuration
@@ -73,6 +178,28 @@ interface DeFiAgentConfig {
     creators: string[];
     keywords: string[];
   };
+
+  // Autonomy guardrails and approval queue
+  autonomy?: {
+    level: AutonomyLevel;
+    spendingLimits: SpendingLimits;
+  };
+  
+  // Tokens tips may be paid in
+  assets?: TipAssetsConfig;
+
+  // Where USD prices for budgets, tips and treasury valuation come from
+  prices?: PriceOracleSettings;
+
+  // Whitelist, time-lock and approvals for withdrawing agent funds;
+  // withdrawals are refused until these are configured
+  withdrawals?: WithdrawalRules;
+
+  // Directory for the persistent tip ledger (defaults to DATA_DIR)
+  dataDir?: string;
+
+  // Run offline against a simulated chain, facilitator and scripted feed
+  simulation?: SimulationConfig;
 }
 
 export class DeFiAgent extends EventEmitter {
@@ -83,29 +210,107 @@ export class DeFiAgent extends EventEmitter {
   private contentEvaluator: ContentEvaluator;
   private defiService: SeiDeFiService;
   private treasuryManager: TreasuryManager;
+  private ledger: TipLedger;
+  private deduplicator: TipDeduplicator;
+  private creatorRegistry: CreatorRegistry;
+  private escrow: TipEscrow;
+  private tipAssets: TipAssets;
+  private priceOracle: PriceOracle;
+  private tipBatcher?: TipBatcher;
+  private withdrawals?: WithdrawalManager;
+  private escrowTimer?: NodeJS.Timeout;
+  private autonomy: AutonomyController;
+  private awaitingApproval: Map<string, AwaitingApproval> = new Map();
+  private pipeline: AgentPipeline<any>;
+  private simulation?: SimulationEnvironment;
   
   private creatorProfiles: Map<string, CreatorProfile> = new Map();
-  private investmentHistory: InvestmentDecision[] = [];
-  private dailySpent: number = 0;
   private isInitialized: boolean = false;
+  private isMonitoring: boolean = false;
+  private isPaused: boolean = false;
 
-  constructor(config: DeFiAgentConfig) {
+  constructor(config: DeFiAgentConfig, services: Partial<DeFiAgentServices> = {}) {
     super();
     this.config = config;
     
+    if (config.simulation) {
+      this.simulation = new SimulationEnvironment(config.simulation, {
+        platforms: config.platforms,
+        dataDir: config.dataDir
+      });
+      services = { ...this.simulation.services, ...services };
+    }
+    
     // Initialize core services
-    this.platformSDK = new PlatformSDK(config.platforms);
-    this.paymentProcessor = new PaymentProcessor();
-    this.contentEvaluator = new ContentEvaluator();
+    this.platformSDK = services.platformSDK ?? new PlatformSDK(config.platforms);
+    this.creatorRegistry = services.creatorRegistry ?? new CreatorRegistry({
+      dataDir: config.dataDir,
+      rpcUrl: process.env.SEI_RPC_URL,
+      hubAddress: process.env.SOCIAL_TIPPING_HUB_ADDRESS,
+      fromBlock: parseInt(process.env.SOCIAL_TIPPING_HUB_FROM_BLOCK || '0')
+    });
+    this.paymentProcessor = services.paymentProcessor ?? new PaymentProcessor(this.creatorRegistry);
+    this.escrow = new TipEscrow({
+      dataDir: config.dataDir,
+      expiryHours: config.tipping.escrowExpiryHours ?? 168,
+      claimBaseUrl: config.tipping.claimBaseUrl || 'http://localhost:3000'
+    });
+    this.contentEvaluator = services.contentEvaluator ?? new ContentEvaluator();
     
     // Initialize DeFi services
-    this.defiService = new SeiDeFiService({
+    this.defiService = services.defiService ?? new SeiDeFiService({
       privateKey: process.env.SEI_PRIVATE_KEY!,
       rpcUrl: process.env.SEI_RPC_URL!,
       chainId: process.env.SEI_CHAIN_ID || 'arctic-1'
     });
     
-    this.treasuryManager = new TreasuryManager(config.treasury);
+    this.priceOracle = services.priceOracle ?? createPriceOracle({
+      rpcUrl: process.env.SEI_RPC_URL,
+      ...config.prices
+    });
+    this.tipAssets = new TipAssets(this.defiService, this.priceOracle, config.assets);
+    this.paymentProcessor.setTipAssets(this.tipAssets);
+    this.paymentProcessor.setPriceOracle(this.priceOracle);
+    const tipsInTokens = (config.tipping.defaultAsset || NATIVE_ASSET) !== NATIVE_ASSET ||
+      config.tipping.creatorTokenTips;
+    if (tipsInTokens && !config.tipping.dailyBudgetUsd) {
+      throw new Error('Tipping in tokens requires tipping.dailyBudgetUsd');
+    }
+    
+    // An injected DeFi service is shared so the treasury trades on the same backend
+    this.treasuryManager = new TreasuryManager(config.treasury, services.defiService, this.priceOracle);
+    this.autonomy = new AutonomyController(
+      config.autonomy?.level ?? AutonomyLevel.AUTONOMOUS,
+      config.autonomy?.spendingLimits ?? {
+        dailyLimit: config.tipping.dailyBudget,
+        perTransactionLimit: config.tipping.dailyBudget,
+        platformLimits: {},
+        approvalRequiredAbove: config.tipping.dailyBudget,
+        currencyLimits: {}
+      }
+    );
+    this.ledger = new TipLedger(config.dataDir);
+    if (config.tipping.batching) {
+      this.tipBatcher = this.createTipBatcher(config.tipping.batching, services.tipBatchSettler);
+    }
+    if (config.withdrawals) {
+      this.withdrawals = new WithdrawalManager(
+        config.withdrawals,
+        {
+          getAvailableBalance: () => this.paymentProcessor.getSeiBalance(),
+          transfer: async (amount, destination) => ({
+            success: true,
+            txHash: await this.paymentProcessor.withdraw(destination, amount)
+          })
+        },
+        { dataDir: config.dataDir }
+      );
+    }
+    this.deduplicator = new TipDeduplicator({
+      dataDir: config.dataDir,
+      creatorCooldownMinutes: config.tipping.creatorCooldownMinutes ?? 0
+    });
+    this.pipeline = this.createContentPipeline();
   }
 
   async initialize(): Promise<void> {
@@ -114,13 +319,21 @@ export class DeFiAgent extends EventEmitter {
     logger.info('Initializing DeFi Agent...');
     
     try {
+      // Simulated chain and facilitator must be up before services connect
+      await this.simulation?.start();
+      
       // Initialize all services
       await Promise.all([
         this.defiService.initialize(),
         this.treasuryManager.initialize(),
         this.paymentProcessor.initialize(),
         this.platformSDK.connectAll(),
-        this.contentEvaluator.loadModels()
+        this.contentEvaluator.loadModels(),
+        this.ledger.initialize(),
+        this.deduplicator.initialize(),
+        this.creatorRegistry.initialize(),
+        this.escrow.initialize(),
+        this.tipBatcher?.initialize()
       ]);
       
       // Setup event listeners
@@ -128,6 +341,19 @@ export class DeFiAgent extends EventEmitter {
       
       // Load creator profiles
       await this.loadCreatorProfiles();
+      await this.restoreDailySpending();
+      
+      // Settle escrows for creators linked while we were offline, then
+      // start watching for expiries
+      await this.releaseLinkedEscrows();
+      await this.refundExpiredEscrows();
+      this.escrowTimer = setInterval(() => {
+        this.refundExpiredEscrows().catch(error =>
+          logger.error('Escrow expiry sweep failed:', error)
+        );
+      }, 10 * 60 * 1000);
+      // Picks up time-locked withdrawals left from before a restart
+      this.withdrawals?.start();
       
       this.state = AgentState.IDLE;
       this.isInitialized = true;
@@ -157,14 +383,102 @@ export class DeFiAgent extends EventEmitter {
     
     // Platform content events
     this.platformSDK.on('newContent', async (content) => {
+      // Wallet claim proofs link accounts; they are not content to invest in
+      if (this.creatorRegistry.recordAccountPost(content.platform, content.creator.id, content.text || '')) {
+        return;
+      }
       await this.processContent(content);
     });
+    
+    // Creator wallet links (hub registrations and signed claims)
+    this.creatorRegistry.on('creatorLinked', async (wallet: CreatorWallet) => {
+      const profile = this.creatorProfiles.get(this.getCreatorKey({
+        platform: wallet.platform,
+        id: wallet.userId
+      }));
+      if (profile) {
+        profile.walletAddress = wallet.evmAddress || wallet.seiAddress;
+        await this.ledger.saveCreatorProfile(this.getCreatorKey(profile), profile);
+      }
+      await this.releaseEscrowedTips(wallet);
+    });
+    
+    // Autonomy guardrails
+    this.autonomy.on('emergency_stop_triggered', ({ reason }) => {
+      logger.warn(`Emergency stop: ${reason}`);
+      this.pause();
+    });
+    this.autonomy.on('approval_timeout', ({ requestId }) => {
+      this.releaseAwaitingApproval(requestId, 'Approval timed out');
+    });
+    this.autonomy.on('approval_cancelled', ({ requestId, reason }) => {
+      this.releaseAwaitingApproval(requestId, `Approval cancelled: ${reason}`);
+    });
+    
+    // Batched tip settlement
+    this.tipBatcher?.on('batch_settled', (settled) => this.emit('tipBatchSettled', settled));
+    this.tipBatcher?.on('batch_unconfirmed', (batch) => this.emit('tipBatchUnconfirmed', batch));
+    this.tipBatcher?.on('batch_failed', (failure) => this.emit('tipBatchFailed', failure));
+
+    this.withdrawals?.on('withdrawal_requested', (request: WithdrawalRequest) => this.emit('withdrawalRequested', request));
+    this.withdrawals?.on('withdrawal_rejected', (request: WithdrawalRequest) => this.emit('withdrawalRejected', request));
+    this.withdrawals?.on('withdrawal_failed', (request: WithdrawalRequest) => this.emit('withdrawalFailed', request));
+    this.withdrawals?.on('withdrawal_completed', (request: WithdrawalRequest) => {
+      logger.info(`Withdrew ${request.amount} SEI to ${request.destination} (requested by ${request.requestedBy})`);
+      this.emit('withdrawal', {
+        address: request.destination,
+        amount: request.amount,
+        requestedBy: request.requestedBy,
+        transactionHash: request.transactionHash,
+        withdrawal: request
+      });
+    });
+  }
+
+  private createTipBatcher(
+    batching: NonNullable<DeFiAgentConfig['tipping']['batching']>,
+    settler?: TipBatchSettler
+  ): TipBatcher {
+    const hubAddress = batching.hubAddress || process.env.SOCIAL_TIPPING_HUB_ADDRESS;
+    if (!settler && !hubAddress) {
+      throw new Error('Tip batching requires a SocialTippingHub address');
+    }
+    
+    return new TipBatcher({
+      settler: settler ?? new HubBatchSettler(process.env.SEI_PRIVATE_KEY!, process.env.SEI_RPC_URL!, hubAddress!),
+      windowMs: batching.windowMinutes !== undefined ? batching.windowMinutes * 60 * 1000 : undefined,
+      thresholdAmount: batching.thresholdAmount,
+      maxBatchSize: batching.maxBatchSize,
+      dataDir: this.config.dataDir
+    });
   }
 
   private async loadCreatorProfiles(): Promise<void> {
-    // Load existing creator profiles from storage
-    // In production, this would load from a database
     logger.info('Loading creator profiles...');
+    this.creatorProfiles = this.ledger.getCreatorProfiles();
+    logger.info(`Loaded ${this.creatorProfiles.size} creator profiles`);
+  }
+
+  /**
+   * Count what the ledger says was already spent today against the
+   * autonomy limits, so a restart does not hand out a fresh daily budget.
+   */
+  private async restoreDailySpending(): Promise<void> {
+    const today = utcDayKey();
+    let restored = 0;
+    for (const decision of this.ledger.getHistory()) {
+      if (utcDayKey(decision.timestamp) !== today) continue;
+      const seiCost = await this.tipAssets.toSei(decision.asset || NATIVE_ASSET, decision.amount);
+      this.autonomy.restoreDailySpending(seiCost, NATIVE_ASSET, decision.platform);
+      restored += seiCost;
+    }
+    if (restored > 0) {
+      logger.info(`Restored ${restored.toFixed(4)} SEI of today's spending`);
+    }
+  }
+
+  private getCreatorKey(creator: { platform: string; id: string }): string {
+    return `${creator.platform}_${creator.id}`;
   }
 
   async startMonitoring(): Promise<void> {
@@ -176,6 +490,7 @@ export class DeFiAgent extends EventEmitter {
       throw new Error(`Cannot start monitoring from state: ${this.state}`);
     }
 
+    this.isMonitoring = true;
     this.state = AgentState.MONITORING;
     this.emit('stateChange', this.state);
 
@@ -188,46 +503,201 @@ export class DeFiAgent extends EventEmitter {
     logger.info('Started monitoring social platforms with DeFi features');
   }
 
-  private async processContent(content: any): Promise<void> {
-    this.state = AgentState.EVALUATING;
+  async stopMonitoring(): Promise<void> {
+    if (!this.isMonitoring) {
+      throw new Error('Agent is not monitoring');
+    }
+
+    await this.platformSDK.stopMonitoring();
+    this.isMonitoring = false;
+    this.isPaused = false;
+    this.state = AgentState.IDLE;
     this.emit('stateChange', this.state);
 
-    try {
-      // Evaluate content quality
-      const evaluation = await this.contentEvaluator.evaluate(content, {
-        topics: this.config.preferences.topics,
-        minQuality: this.config.tipping.minQualityScore
-      });
+    logger.info('Stopped monitoring social platforms');
+  }
 
-      // Get or create creator profile
-      const creator = await this.getOrCreateCreatorProfile(content.creator);
-      
-      // Update creator metrics
-      creator.contentQuality = 
-        (creator.contentQuality * 0.8) + (evaluation.qualityScore * 0.2);
-      
-      // Make investment decision
-      const decision = await this.makeInvestmentDecision(
-        content, 
-        evaluation, 
-        creator
-      );
-      
-      if (decision) {
-        await this.executeInvestment(decision, content, creator);
-      }
+  /**
+   * Keep monitoring but stop acting on new content until resumed.
+   */
+  pause(): void {
+    if (this.isPaused) return;
+
+    this.isPaused = true;
+    this.state = AgentState.PAUSED;
+    this.emit('stateChange', this.state);
+    logger.info('Agent paused');
+  }
+
+  resume(): void {
+    if (!this.isPaused) return;
+
+    this.isPaused = false;
+    this.state = this.getRestingState();
+    this.emit('stateChange', this.state);
+    logger.info('Agent resumed');
+  }
+
+  private getRestingState(): AgentState {
+    if (this.isPaused) return AgentState.PAUSED;
+    return this.isMonitoring ? AgentState.MONITORING : AgentState.IDLE;
+  }
+
+  private async processContent(content: any): Promise<void> {
+    try {
+      await this.pipeline.process(content);
     } catch (error) {
       logger.error('Error processing content:', error);
-    } finally {
-      this.state = AgentState.MONITORING;
-      this.emit('stateChange', this.state);
     }
   }
 
+  /**
+   * Content goes through the shared agent pipeline: filtered, evaluated,
+   * turned into at most one investment, guarded by the autonomy controller,
+   * then executed. Each step is a named stage integrators can replace or
+   * add to through `getPipeline()`.
+   */
+  private createContentPipeline(): AgentPipeline<any> {
+    return new AgentPipeline<any>('defi-agent')
+      .use({
+        name: 'dedupe',
+        phase: 'ingest',
+        run: async run => {
+          const content = run.input;
+          if (this.isPaused) {
+            logger.debug(`Agent paused, ignoring content ${content.id}`);
+            return run.halt('paused');
+          }
+          
+          // Drop re-delivered events and creators in cooldown before spending on evaluation
+          const dedupe = this.deduplicator.check(content.platform, content.id, content.creator.id, content.timestamp);
+          if (!dedupe.allowed) {
+            logger.debug(`Skipping content ${content.id}: ${dedupe.reason}`);
+            return run.halt(dedupe.reason || 'duplicate');
+          }
+        }
+      })
+      .use({
+        name: 'content-evaluation',
+        phase: 'evaluate',
+        run: async run => {
+          const content = run.input;
+          this.state = AgentState.EVALUATING;
+          this.emit('stateChange', this.state);
+          run.state.evaluating = true;
+          
+          // Evaluate content quality
+          const evaluation = await this.contentEvaluator.evaluate(content, {
+            topics: this.config.preferences.topics,
+            minQuality: this.config.tipping.minQualityScore
+          });
+          
+          // Get or create creator profile
+          const creator = await this.getOrCreateCreatorProfile({
+            ...content.creator,
+            platform: content.platform
+          });
+          
+          // Update creator metrics
+          updateCreatorQuality(creator, evaluation.qualityScore);
+          await this.ledger.saveCreatorProfile(this.getCreatorKey(creator), creator);
+          
+          run.state.evaluation = evaluation;
+          run.state.creator = creator;
+        }
+      })
+      .use({
+        name: 'investment-decision',
+        phase: 'decide',
+        run: async run => {
+          const decision = await this.makeInvestmentDecision(
+            run.input,
+            run.state.evaluation,
+            run.state.creator
+          );
+          if (decision) {
+            run.propose(decision.investmentType, decision, {
+              autonomy: await this.toSpendDecision(decision)
+            });
+          }
+        }
+      })
+      .use(autonomyGuard(this.autonomy))
+      .use({
+        name: 'investment-execution',
+        phase: 'execute',
+        run: async run => {
+          for (const proposal of run.approved()) {
+            const decision: InvestmentDecision = proposal.payload;
+            // Reserved from the treasury by checkBudget; returned if nothing is spent
+            const reservedSei = proposal.autonomy?.estimated_cost ?? 0;
+            const claimed = await this.deduplicator.claim(
+              decision.platform,
+              decision.contentId,
+              decision.creator,
+              run.input.timestamp
+            );
+            if (!claimed) {
+              await this.treasuryManager.refundToTipping(reservedSei, `content_claimed:${decision.contentId}`);
+              this.autonomy.releaseSpending(proposal.autonomy!.id);
+              run.fail(proposal, 'Content already claimed');
+              continue;
+            }
+            if (await this.executeInvestment(decision, run.input, run.state.creator)) {
+              run.complete(proposal);
+            } else {
+              await this.treasuryManager.refundToTipping(reservedSei, `investment_failed:${decision.contentId}`);
+              this.autonomy.releaseSpending(proposal.autonomy!.id);
+              run.fail(proposal, 'Investment failed');
+            }
+          }
+        }
+      })
+      .use({
+        name: 'guardrail-outcome',
+        phase: 'record',
+        run: async run => {
+          for (const proposal of run.decisions.filter(candidate => candidate.status === 'blocked')) {
+            const decision: InvestmentDecision = proposal.payload;
+            await this.holdBlockedSpend(decision, proposal.autonomy!, proposal.reason!, !!proposal.escalate, async () => {
+              const claimed = await this.deduplicator.claim(
+                decision.platform,
+                decision.contentId,
+                decision.creator,
+                run.input.timestamp
+              );
+              if (!claimed) {
+                throw new Error(`Content ${decision.contentId} has already been claimed`);
+              }
+              if (!await this.executeInvestment(decision, run.input, run.state.creator)) {
+                throw new Error('Investment failed');
+              }
+            });
+          }
+        }
+      })
+      .use({
+        name: 'resting-state',
+        phase: 'record',
+        run: async run => {
+          if (!run.state.evaluating) return;
+          this.state = this.getRestingState();
+          this.emit('stateChange', this.state);
+        }
+      });
+  }
+
+  /**
+   * The content pipeline, for adding or replacing stages
+   */
+  getPipeline(): AgentPipeline<any> {
+    return this.pipeline;
+  }
+
   private async getOrCreateCreatorProfile(
     creatorInfo: any
   ): Promise<CreatorProfile> {
-    const id = `${creatorInfo.platform}_${creatorInfo.id}`;
+    const id = this.getCreatorKey(creatorInfo);
     
     if (!this.creatorProfiles.has(id)) {
       const profile: CreatorProfile = {
@@ -246,7 +716,14 @@ export class DeFiAgent extends EventEmitter {
       this.creatorProfiles.set(id, profile);
     }
     
-    return this.creatorProfiles.get(id)!;
+    // Prefer a verified wallet from the registry over platform-supplied data
+    const profile = this.creatorProfiles.get(id)!;
+    const linked = this.creatorRegistry.get(profile.platform, profile.id);
+    if (linked) {
+      profile.walletAddress = linked.evmAddress || linked.seiAddress;
+    }
+    
+    return profile;
   }
 
   private async makeInvestmentDecision(
@@ -254,54 +731,22 @@ export class DeFiAgent extends EventEmitter {
     evaluation: any,
     creator: CreatorProfile
   ): Promise<InvestmentDecision | null> {
-    // Calculate investment score
-    const investmentScore = this.calculateInvestmentScore(
-      evaluation.qualityScore,
-      creator.contentQuality,
-      creator.engagementRate
-    );
-    
-    creator.investmentScore = investmentScore;
-    
-    // Skip if below minimum score
-    if (investmentScore < this.config.investment.minInvestmentScore) {
+    const plan = planInvestment(evaluation.qualityScore, creator, this.config);
+    if (!plan) {
       return null;
     }
     
-    // Determine investment type based on score and creator status
-    let investmentType: 'tip' | 'stake' | 'token' | 'nft';
-    let amount: number;
-    let expectedReturn: number;
-    let riskLevel: 'low' | 'medium' | 'high';
-    
-    if (investmentScore >= 90 && creator.hasToken) {
-      // High quality + has token = buy creator token
-      investmentType = 'token';
-      amount = this.calculateTokenInvestment(investmentScore);
-      expectedReturn = 25; // 25% expected return
-      riskLevel = 'medium';
-    } else if (investmentScore >= 80 && this.config.investment.stakingEnabled) {
-      // Good quality = stake in creator pool
-      investmentType = 'stake';
-      amount = this.calculateStakeAmount(investmentScore);
-      expectedReturn = 12; // 12% APY from staking
-      riskLevel = 'low';
-    } else if (investmentScore >= 85 && this.config.investment.nftRewardsEnabled) {
-      // Exceptional content = mint NFT reward
-      investmentType = 'nft';
-      amount = 0.1; // NFT minting cost
-      expectedReturn = 0; // NFTs are rewards, not investments
-      riskLevel = 'low';
-    } else {
-      // Default to tipping
-      investmentType = 'tip';
-      amount = this.calculateTipAmount(evaluation.qualityScore);
-      expectedReturn = 0; // Tips don't have direct returns
-      riskLevel = 'low';
+    // Plans are sized in SEI; tips are paid in whichever asset applies,
+    // in an amount the token can represent
+    const asset = plan.investmentType === 'tip' ? this.selectTipAsset(creator) : NATIVE_ASSET;
+    const amount = await this.tipAssets.roundAmount(asset, await this.tipAssets.fromSei(asset, plan.amount));
+    if (amount <= 0) {
+      return null;
     }
+    const usdValue = await this.tipAssets.toUsd(asset, amount);
     
     // Check budget constraints
-    if (!await this.checkBudget(amount)) {
+    if (!await this.checkBudget(amount, asset)) {
       return null;
     }
     
@@ -310,65 +755,144 @@ export class DeFiAgent extends EventEmitter {
       platform: content.platform,
       creator: creator.id,
       qualityScore: evaluation.qualityScore,
-      investmentType,
+      investmentType: plan.investmentType,
       amount,
-      expectedReturn,
-      riskLevel,
+      asset,
+      usdValue,
+      expectedReturn: plan.expectedReturn,
+      riskLevel: plan.riskLevel,
       reason: evaluation.reason,
       timestamp: new Date()
     };
   }
 
-  private calculateInvestmentScore(
-    contentQuality: number,
-    creatorQuality: number,
-    engagementRate: number
-  ): number {
-    // Weighted scoring: 40% content, 40% creator history, 20% engagement
-    return (
-      contentQuality * 0.4 +
-      creatorQuality * 0.4 +
-      engagementRate * 0.2
+  private selectTipAsset(creator: CreatorProfile): string {
+    if (this.config.tipping.creatorTokenTips && creator.tokenAddress && this.tipAssets.has(creator.tokenAddress)) {
+      return this.tipAssets.get(creator.tokenAddress).symbol;
+    }
+    return this.config.tipping.defaultAsset || NATIVE_ASSET;
+  }
+
+  // SEI value of a decision, using the USD value it was recorded with
+  private seiValue(decision: InvestmentDecision, seiUsdPrice: number): number {
+    if (!decision.asset || decision.asset === NATIVE_ASSET) {
+      return decision.amount;
+    }
+    return (decision.usdValue ?? 0) / seiUsdPrice;
+  }
+
+  /**
+   * An investment as the autonomy layer sees it. Costs are in SEI so its
+   * limits apply the same whichever asset a tip is paid in.
+   */
+  private async toSpendDecision(decision: InvestmentDecision): Promise<Decision> {
+    const asset = decision.asset || NATIVE_ASSET;
+    return this.spendDecision(
+      decision.investmentType,
+      await this.tipAssets.toSei(asset, decision.amount),
+      decision.platform,
+      decision.creator,
+      decision.riskLevel,
+      `${decision.investmentType} of ${decision.amount} ${asset} to ${decision.creator} on ${decision.platform}`,
+      decision.qualityScore / 100
     );
   }
 
-  private calculateTokenInvestment(score: number): number {
-    // Scale investment based on score (90-100 -> 10-100 SEI)
-    const base = 10;
-    const multiplier = (score - 90) / 10;
-    return base + (90 * multiplier);
+  private spendDecision(
+    kind: InvestmentDecision['investmentType'],
+    seiCost: number,
+    platform: string,
+    target: string,
+    risk: InvestmentDecision['riskLevel'],
+    description: string,
+    confidence: number
+  ): Decision {
+    return {
+      id: `spend_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type: DecisionType.FINANCIAL_TRANSACTION,
+      description,
+      context: {
+        platform,
+        target,
+        amount: seiCost,
+        currency: NATIVE_ASSET,
+        urgency: 'low',
+        potential_impact: risk === 'high' ? 'significant' : 'moderate',
+        // Stakes can be withdrawn; tips, token buys and mints cannot be undone
+        reversible: kind === 'stake',
+        precedent_exists: true
+      },
+      risk_level: risk as RiskLevel,
+      estimated_cost: seiCost,
+      timestamp: Date.now(),
+      confidence
+    };
   }
 
-  private calculateStakeAmount(score: number): number {
-    // Scale stake based on score (80-100 -> 5-50 SEI)
-    const base = 5;
-    const multiplier = (score - 80) / 20;
-    return base + (45 * multiplier);
+  /**
+   * Deal with spending the autonomy layer refused. Escalated spends wait
+   * for an operator with their treasury reservation held and run once
+   * approved; the rest, and everything during an emergency stop, are
+   * dropped and their reservation returned.
+   */
+  private async holdBlockedSpend(
+    decision: InvestmentDecision,
+    spend: Decision,
+    reason: string,
+    escalate: boolean,
+    execute: () => Promise<void>
+  ): Promise<ApprovalRequest | undefined> {
+    const reservedSei = spend.estimated_cost ?? 0;
+
+    if (escalate && this.autonomy.getConfig().level !== AutonomyLevel.RESTRICTED) {
+      // Escalation triggers may already have opened a request for it
+      const request = this.autonomy.getPendingApprovals().find(pending => pending.decision.id === spend.id) ??
+        await this.autonomy.requestApproval(spend);
+      this.awaitingApproval.set(request.id, { decision, reservedSei, spendId: spend.id, execute });
+      this.emit('investmentEscalated', { decision, reason, requestId: request.id });
+
+      logger.info(`${decision.investmentType} for ${decision.creator} needs approval (${request.id}): ${reason}`);
+      return request;
+    }
+
+    await this.treasuryManager.refundToTipping(reservedSei, `autonomy_blocked:${decision.contentId}`);
+    this.emit('investmentBlocked', { decision, reason });
+    logger.warn(`${decision.investmentType} for ${decision.creator} blocked: ${reason}`);
+    return undefined;
   }
 
-  private calculateTipAmount(qualityScore: number): number {
-    const baseAmount = 0.01;
-    const maxAmount = Math.min(
-      this.config.tipping.maxTipAmount, 
-      5.0
-    );
-    
-    const scaleFactor = 
-      (qualityScore - this.config.tipping.minQualityScore) / 
-      (100 - this.config.tipping.minQualityScore);
-    
-    return baseAmount + (maxAmount - baseAmount) * scaleFactor;
+  private async releaseAwaitingApproval(requestId: string, reason: string): Promise<void> {
+    const awaiting = this.awaitingApproval.get(requestId);
+    if (!awaiting) return;
+
+    this.awaitingApproval.delete(requestId);
+    await this.treasuryManager.refundToTipping(awaiting.reservedSei, `approval_released:${requestId}`);
+    this.emit('investmentBlocked', { decision: awaiting.decision, reason });
+    logger.info(`Released ${awaiting.decision.investmentType} for ${awaiting.decision.creator}: ${reason}`);
   }
 
-  private async checkBudget(amount: number): Promise<boolean> {
-    // Check daily budget
-    if (this.dailySpent + amount > this.config.tipping.dailyBudget) {
+  private async checkBudget(amount: number, asset: string = NATIVE_ASSET): Promise<boolean> {
+    const isNative = this.tipAssets.isNative(asset);
+    
+    // Check daily budget (spend is tracked per UTC day in the ledger)
+    if (isNative && this.ledger.getDailySpent() + amount > this.config.tipping.dailyBudget) {
       logger.warn('Daily budget would be exceeded');
       return false;
     }
     
-    // Check treasury availability
-    const canWithdraw = await this.treasuryManager.withdrawForTipping(amount);
+    // Every asset counts against the USD budget; tokens need one
+    const dailyBudgetUsd = this.config.tipping.dailyBudgetUsd;
+    if (!isNative && !dailyBudgetUsd) {
+      logger.warn(`No USD budget configured for tips in ${asset}`);
+      return false;
+    }
+    if (dailyBudgetUsd && this.ledger.getDailySpentUsd() + await this.tipAssets.toUsd(asset, amount) > dailyBudgetUsd) {
+      logger.warn('Daily USD budget would be exceeded');
+      return false;
+    }
+    
+    // Check treasury availability (token tips are funded from SEI)
+    const canWithdraw = await this.treasuryManager.withdrawForTipping(await this.tipAssets.toSei(asset, amount));
     if (!canWithdraw) {
       logger.warn('Insufficient treasury funds');
       return false;
@@ -381,12 +905,14 @@ export class DeFiAgent extends EventEmitter {
     decision: InvestmentDecision,
     content: any,
     creator: CreatorProfile
-  ): Promise<void> {
+  ): Promise<boolean> {
     this.state = AgentState.INVESTING;
     this.emit('stateChange', this.state);
 
+    let result: any;
     try {
-      let result: any;
+      // Priced before any funds move so a pricing failure cannot strand a sent tip
+      const seiUsdPrice = await this.tipAssets.getUsdPrice(NATIVE_ASSET);
       
       switch (decision.investmentType) {
         case 'tip':
@@ -404,25 +930,39 @@ export class DeFiAgent extends EventEmitter {
       }
       
       // Record investment
-      this.investmentHistory.push(decision);
-      this.dailySpent += decision.amount;
+      await this.ledger.record(decision);
       
       // Update creator profile
       if (decision.investmentType === 'tip') {
-        creator.totalTipsReceived += decision.amount;
+        creator.totalTipsReceived += this.seiValue(decision, seiUsdPrice);
       } else if (decision.investmentType === 'stake') {
         creator.totalStaked += decision.amount;
       }
+      await this.ledger.saveCreatorProfile(this.getCreatorKey(creator), creator);
+      await this.deduplicator.complete(
+        decision.platform,
+        decision.contentId,
+        decision.creator,
+        result?.transactionHash
+      );
       
       this.emit('investmentExecuted', { decision, result });
       
       logger.info(
         `Investment executed: ${decision.investmentType} ` +
-        `${decision.amount} SEI to ${creator.username}`
+        `${decision.amount} ${decision.asset || NATIVE_ASSET} to ${creator.username}`
       );
+      return true;
     } catch (error) {
       logger.error('Failed to execute investment:', error);
+      if (result) {
+        // Funds went out but the investment was not recorded
+        await this.deduplicator.fail(decision.platform, decision.contentId, decision.creator, result.transactionHash);
+      } else {
+        await this.deduplicator.release(decision.platform, decision.contentId, decision.creator);
+      }
       this.emit('investmentFailed', { decision, error });
+      return false;
     }
   }
 
@@ -431,17 +971,33 @@ export class DeFiAgent extends EventEmitter {
     content: any,
     creator: CreatorProfile
   ): Promise<any> {
+    // Creators without a linked wallet get an escrowed tip and a claim link
+    if (!creator.walletAddress) {
+      return this.executeEscrowedTip(decision, content, creator);
+    }
+    
+    // Small SEI tips wait for the next batch settlement
+    const asset = decision.asset || NATIVE_ASSET;
+    const maxBatchedTip = this.config.tipping.batching?.maxBatchedTip ?? Infinity;
+    if (this.tipBatcher && asset === NATIVE_ASSET && decision.amount <= maxBatchedTip) {
+      const recipient = await this.creatorRegistry.toEvmAddress(creator.walletAddress);
+      if (recipient) {
+        return this.executeBatchedTip(decision, content, creator, recipient);
+      }
+    }
+    
     // Execute payment
     const payment = await this.paymentProcessor.sendTip({
       recipient: creator.walletAddress || creator.id,
+      platform: creator.platform,
       amount: decision.amount,
-      currency: 'SEI',
+      currency: asset,
       memo: `Tip for quality content: ${content.id}`
     });
 
     // Reply to content with tip confirmation
     await this.platformSDK.replyToContent(content, {
-      message: `🎉 You've been tipped ${decision.amount} SEI for this quality content! ` +
+      message: `🎉 You've been tipped ${decision.amount} ${asset} for this quality content! ` +
                `Your investment score: ${creator.investmentScore.toFixed(0)}/100 ` +
                `Transaction: ${payment.transactionHash.slice(0, 8)}...`
     });
@@ -449,6 +1005,123 @@ export class DeFiAgent extends EventEmitter {
     return payment;
   }
 
+  private async executeBatchedTip(
+    decision: InvestmentDecision,
+    content: any,
+    creator: CreatorProfile,
+    recipient: string
+  ): Promise<BatchedTip> {
+    const tip = await this.tipBatcher!.enqueue({
+      recipient,
+      amount: decision.amount,
+      contentId: content.id,
+      qualityScore: decision.qualityScore,
+      platform: creator.platform
+    });
+    
+    await this.platformSDK.replyToContent(content, {
+      message: `🎉 You've been tipped ${decision.amount} ${NATIVE_ASSET} for this quality content! ` +
+               `Your investment score: ${creator.investmentScore.toFixed(0)}/100 ` +
+               `It will arrive with the next batch of tips.`
+    });
+    
+    this.emit('tipQueued', tip);
+    return tip;
+  }
+
+  private async executeEscrowedTip(
+    decision: InvestmentDecision,
+    content: any,
+    creator: CreatorProfile
+  ): Promise<EscrowRecord> {
+    const record = await this.escrow.hold({
+      platform: creator.platform,
+      creatorId: creator.id,
+      creatorUsername: creator.username,
+      contentId: content.id,
+      amount: decision.amount,
+      currency: decision.asset || NATIVE_ASSET
+    });
+    
+    const expiryDays = Math.round((record.expiresAt - record.createdAt) / (24 * 60 * 60 * 1000));
+    await this.platformSDK.replyToContent(content, {
+      message: `🎉 You've earned a ${decision.amount} ${record.currency} tip for this quality content! ` +
+               `Link a Sei wallet within ${expiryDays} days to claim it: ` +
+               this.escrow.getClaimUrl(creator.platform, creator.id)
+    });
+    
+    this.emit('tipEscrowed', record);
+    return record;
+  }
+
+  /**
+   * Pay out every escrow held for a creator once their wallet is verified.
+   * Each escrow is claimed before its payout is sent, so overlapping
+   * releases for the same creator never pay one twice.
+   */
+  private async releaseEscrowedTips(wallet: CreatorWallet): Promise<void> {
+    const held = this.escrow.getHeldFor(wallet.platform, wallet.userId);
+    const recipient = wallet.evmAddress || wallet.seiAddress;
+    if (held.length === 0 || !recipient) return;
+    
+    for (const record of held) {
+      if (!await this.escrow.beginRelease(record.id, recipient)) continue;
+      
+      let payment: PaymentResponse;
+      try {
+        payment = await this.paymentProcessor.sendTip({
+          recipient,
+          platform: record.platform,
+          amount: record.amount,
+          currency: record.currency,
+          memo: `Escrowed tip for content: ${record.contentId}`
+        });
+      } catch (error) {
+        // The payout may or may not have gone out; leave it releasing for an operator
+        logger.error(`Failed to release escrow ${record.id}, left for review:`, error);
+        this.emit('escrowReleaseFailed', { record, error });
+        continue;
+      }
+      
+      await this.escrow.markReleased(record.id, recipient, payment.transactionHash);
+      this.emit('escrowReleased', { record, payment });
+      
+      logger.info(`Released escrow ${record.id}: ${record.amount} ${record.currency} to ${recipient}`);
+    }
+  }
+
+  private async releaseLinkedEscrows(): Promise<void> {
+    for (const wallet of this.creatorRegistry.getAll()) {
+      await this.releaseEscrowedTips(wallet);
+    }
+  }
+
+  /**
+   * Return expired escrows to the treasury's tipping reserve.
+   */
+  private async refundExpiredEscrows(): Promise<void> {
+    for (const record of this.escrow.getExpired()) {
+      // Token escrows go back to the reserve at their SEI value
+      await this.treasuryManager.refundToTipping(
+        await this.tipAssets.toSei(record.currency, record.amount),
+        `escrow_expired:${record.id}`
+      );
+      await this.escrow.markRefunded(record.id);
+      await this.deduplicator.release(record.platform, record.contentId, record.creatorId);
+      this.emit('escrowRefunded', record);
+      
+      logger.info(`Escrow ${record.id} expired, refunded ${record.amount} ${record.currency} to treasury`);
+    }
+  }
+
+  createWalletClaim(platform: string, userId: string): ClaimChallenge {
+    return this.creatorRegistry.createClaimChallenge(platform, userId);
+  }
+
+  async verifyWalletClaim(nonce: string, signature: string): Promise<CreatorWallet> {
+    return this.creatorRegistry.verifyClaim(nonce, signature);
+  }
+
   private async executeStaking(
     decision: InvestmentDecision,
     creator: CreatorProfile
@@ -539,6 +1212,22 @@ export class DeFiAgent extends EventEmitter {
     const perCreator = amount / topCreators.length;
     
     for (const creator of topCreators) {
+      const kind = creator.hasToken ? 'token' : 'stake';
+      const spend = this.spendDecision(
+        kind,
+        perCreator,
+        creator.platform,
+        creator.id,
+        'medium',
+        `Reinvest ${perCreator} SEI of rewards in ${creator.username}`,
+        creator.investmentScore / 100
+      );
+      const validation = await this.autonomy.validateDecision(spend);
+      if (!validation.approved) {
+        logger.warn(`Skipping reinvestment in ${creator.username}: ${validation.reason}`);
+        continue;
+      }
+      
       if (creator.hasToken) {
         // Buy more creator tokens
         await this.defiService.swapTokens({
@@ -557,6 +1246,259 @@ export class DeFiAgent extends EventEmitter {
     }
   }
 
+  /**
+   * Send a tip on an operator's behalf. Goes through the same budget checks,
+   * autonomy guardrails and ledger as autonomous tips; a tip that needs
+   * approval is sent once it is given.
+   */
+  async sendManualTip(request: ManualTipRequest): Promise<{ decision: InvestmentDecision; payment: any }> {
+    const asset = this.tipAssets.get(request.asset || NATIVE_ASSET).symbol;
+    request = { ...request, amount: await this.tipAssets.roundAmount(asset, request.amount) };
+    if (request.amount <= 0) {
+      throw new Error(`Tip amount is below the smallest unit of ${asset}`);
+    }
+    // maxTipAmount is in SEI, so other assets are compared by value
+    if (await this.tipAssets.toSei(asset, request.amount) > this.config.tipping.maxTipAmount) {
+      throw new Error(
+        `Tip of ${request.amount} ${asset} exceeds max tip amount ${this.config.tipping.maxTipAmount} SEI`
+      );
+    }
+
+    if (!await this.checkBudget(request.amount, asset)) {
+      throw new Error('Tip would exceed the daily budget or available treasury funds');
+    }
+
+    const decision = InvestmentDecisionSchema.parse({
+      contentId: request.contentId || `manual_${Date.now()}`,
+      platform: request.platform,
+      creator: request.recipient,
+      qualityScore: 0,
+      investmentType: 'tip',
+      amount: request.amount,
+      asset,
+      usdValue: await this.tipAssets.toUsd(asset, request.amount),
+      expectedReturn: 0,
+      riskLevel: 'low',
+      reason: request.memo || 'Manual tip',
+      timestamp: new Date()
+    });
+
+    const spend: Decision = { ...await this.toSpendDecision(decision), requested_by: request.requestedBy };
+    const validation = await this.autonomy.validateDecision(spend);
+    if (!validation.approved) {
+      const reason = validation.reason ?? 'Not approved';
+      const approval = await this.holdBlockedSpend(
+        decision,
+        spend,
+        reason,
+        !!validation.escalation_required,
+        async () => { await this.payManualTip(request, decision, asset); }
+      );
+      throw new Error(approval
+        ? `Tip needs approval (${approval.id}): ${reason}`
+        : `Tip blocked by autonomy guardrails: ${reason}`);
+    }
+
+    try {
+      return await this.payManualTip(request, decision, asset);
+    } catch (error) {
+      await this.treasuryManager.refundToTipping(spend.estimated_cost ?? 0, `tip_failed:${decision.contentId}`);
+      this.autonomy.releaseSpending(spend.id);
+      throw error;
+    }
+  }
+
+  private async payManualTip(
+    request: ManualTipRequest,
+    decision: InvestmentDecision,
+    asset: string
+  ): Promise<{ decision: InvestmentDecision; payment: any }> {
+    // Manual tips for a specific post share the autonomous tips' idempotency
+    if (request.contentId) {
+      const claimed = await this.deduplicator.claim(request.platform, request.contentId, request.recipient);
+      if (!claimed) {
+        throw new Error(`Content ${request.contentId} has already been tipped`);
+      }
+    }
+
+    let payment;
+    try {
+      payment = await this.paymentProcessor.sendTip({
+        recipient: request.recipient,
+        platform: request.platform,
+        amount: request.amount,
+        currency: asset,
+        memo: request.memo || 'Manual tip via Sei Tipping Agent'
+      });
+    } catch (error) {
+      if (request.contentId) {
+        await this.deduplicator.release(request.platform, request.contentId, request.recipient);
+      }
+      throw error;
+    }
+
+    if (request.contentId) {
+      await this.deduplicator.complete(
+        request.platform,
+        request.contentId,
+        request.recipient,
+        payment.transactionHash
+      );
+    }
+    await this.ledger.record(decision);
+    this.emit('investmentExecuted', { decision, result: payment });
+
+    return { decision, payment };
+  }
+
+  async updatePreferences(preferences: Partial<DeFiAgentConfig['preferences']>): Promise<DeFiAgentConfig['preferences']> {
+    this.config.preferences = {
+      ...this.config.preferences,
+      ...preferences
+    };
+
+    await this.contentEvaluator.updatePreferences(this.config.preferences);
+    this.emit('configUpdated', { preferences: this.config.preferences });
+
+    return this.config.preferences;
+  }
+
+  updateTippingConfig(tipping: Partial<DeFiAgentConfig['tipping']>): DeFiAgentConfig['tipping'] {
+    this.config.tipping = {
+      ...this.config.tipping,
+      ...tipping
+    };
+
+    if (tipping.creatorCooldownMinutes !== undefined) {
+      this.deduplicator.setCreatorCooldown(tipping.creatorCooldownMinutes);
+    }
+
+    this.emit('configUpdated', { tipping: this.config.tipping });
+    return this.config.tipping;
+  }
+
+  getConfig(): DeFiAgentConfig {
+    return this.config;
+  }
+
+  getPendingApprovals(): ApprovalRequest[] {
+    return this.autonomy.getPendingApprovals();
+  }
+
+  async processApproval(
+    requestId: string,
+    approved: boolean,
+    approver: string,
+    notes?: string
+  ): Promise<void> {
+    const awaiting = this.awaitingApproval.get(requestId);
+    await this.autonomy.processApprovalResponse(requestId, approved, approver, notes);
+    if (!awaiting) return;
+
+    if (!approved) {
+      await this.releaseAwaitingApproval(requestId, `Denied by ${approver}`);
+      return;
+    }
+
+    this.awaitingApproval.delete(requestId);
+    try {
+      await awaiting.execute();
+    } catch (error) {
+      logger.error(`Approved ${awaiting.decision.investmentType} for ${awaiting.decision.creator} failed:`, error);
+      await this.treasuryManager.refundToTipping(awaiting.reservedSei, `approval_failed:${requestId}`);
+      this.autonomy.releaseSpending(awaiting.spendId);
+      this.emit('investmentFailed', { decision: awaiting.decision, error });
+    }
+  }
+
+  getAutonomyController(): AutonomyController {
+    return this.autonomy;
+  }
+
+  /**
+   * Tips waiting for batch settlement and the batches already sent
+   */
+  getTipBatches(): { pending: BatchedTip[]; batches: TipBatch[] } {
+    return {
+      pending: this.tipBatcher?.getPending() ?? [],
+      batches: this.tipBatcher?.getBatches() ?? []
+    };
+  }
+
+  async getTipReceipts(batchId?: string): Promise<TipReceipt[]> {
+    return this.tipBatcher ? this.tipBatcher.getReceipts(batchId) : [];
+  }
+
+  /**
+   * Settle queued tips now instead of waiting for the window
+   */
+  async settleTipBatch(): Promise<TipBatch | null> {
+    if (!this.tipBatcher) {
+      throw new Error('Tip batching is not enabled');
+    }
+    return this.tipBatcher.flush();
+  }
+
+  getSimulation(): SimulationEnvironment | undefined {
+    return this.simulation;
+  }
+
+  updateSpendingLimits(limits: Partial<SpendingLimits>): SpendingLimits {
+    this.autonomy.updateSpendingLimits(limits);
+    const updated = this.autonomy.getConfig().spending_limits;
+
+    this.emit('configUpdated', { spendingLimits: updated });
+    return updated;
+  }
+
+  /**
+   * Ask to move agent funds to `address` under the withdrawal rules. The
+   * request comes back rejected, waiting on approvals or a time-lock, or
+   * already executed.
+   */
+  async withdraw(address: string, amount: number, requestedBy: string): Promise<WithdrawalRequest> {
+    return this.requireWithdrawals().request(amount, address, requestedBy);
+  }
+
+  async approveWithdrawal(withdrawalId: string, approver: string): Promise<WithdrawalRequest> {
+    return this.requireWithdrawals().approve(withdrawalId, approver);
+  }
+
+  async cancelWithdrawal(withdrawalId: string, actor: string): Promise<WithdrawalRequest> {
+    return this.requireWithdrawals().cancel(withdrawalId, actor);
+  }
+
+  async getWithdrawals(): Promise<WithdrawalRequest[]> {
+    return this.withdrawals ? this.withdrawals.getRequests() : [];
+  }
+
+  private requireWithdrawals(): WithdrawalManager {
+    if (!this.withdrawals) {
+      throw new Error('Withdrawals are disabled until withdrawal rules are configured');
+    }
+    return this.withdrawals;
+  }
+
+  getInvestmentHistory(query: InvestmentHistoryQuery): InvestmentHistoryPage {
+    const matches = this.ledger.getHistory()
+      .filter(inv =>
+        (!query.investmentType || inv.investmentType === query.investmentType) &&
+        (!query.platform || inv.platform === query.platform) &&
+        (!query.creator || inv.creator === query.creator) &&
+        (!query.from || inv.timestamp >= query.from) &&
+        (!query.to || inv.timestamp <= query.to) &&
+        (query.minQualityScore === undefined || inv.qualityScore >= query.minQualityScore)
+      )
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+    return {
+      total: matches.length,
+      limit: query.limit,
+      offset: query.offset,
+      items: matches.slice(query.offset, query.offset + query.limit)
+    };
+  }
+
   async getAnalytics(): Promise<any> {
     const treasuryMetrics = this.treasuryManager.getMetrics();
     const portfolio = await this.defiService.getPortfolio();
@@ -565,31 +1507,46 @@ export class DeFiAgent extends EventEmitter {
     const creatorAnalytics = this.calculateCreatorAnalytics();
     
     // Calculate ROI
-    const totalInvested = this.investmentHistory.reduce(
-      (sum, inv) => sum + inv.amount, 
+    const investmentHistory = this.ledger.getHistory();
+    const {
+      spent: dailySpent,
+      count: dailyCount,
+      spentUsd: dailySpentUsd,
+      byAsset: dailyByAsset
+    } = this.ledger.getDailySnapshot();
+    const seiUsdPrice = await this.tipAssets.getUsdPrice(NATIVE_ASSET);
+    const totalInvested = investmentHistory.reduce(
+      (sum, inv) => sum + this.seiValue(inv, seiUsdPrice), 
       0
     );
-    const expectedReturns = this.investmentHistory.reduce(
-      (sum, inv) => sum + (inv.amount * inv.expectedReturn / 100), 
+    const expectedReturns = investmentHistory.reduce(
+      (sum, inv) => sum + (this.seiValue(inv, seiUsdPrice) * inv.expectedReturn / 100), 
       0
     );
     
     return {
       state: this.state,
+      monitoring: this.isMonitoring,
+      paused: this.isPaused,
       treasury: treasuryMetrics,
       portfolio,
+      escrow: this.escrow.getSummary(),
       investments: {
-        total: this.investmentHistory.length,
+        total: investmentHistory.length,
         totalAmount: totalInvested,
         expectedReturns,
-        byType: this.getInvestmentBreakdown(),
+        byType: this.getInvestmentBreakdown(seiUsdPrice),
         topCreators: creatorAnalytics.topCreators,
         averageQuality: creatorAnalytics.averageQuality
       },
       performance: {
-        dailySpent: this.dailySpent,
+        dailySpent,
+        dailyCount,
         dailyBudget: this.config.tipping.dailyBudget,
-        utilizationRate: (this.dailySpent / this.config.tipping.dailyBudget) * 100,
+        utilizationRate: (dailySpent / this.config.tipping.dailyBudget) * 100,
+        dailySpentUsd,
+        dailyBudgetUsd: this.config.tipping.dailyBudgetUsd,
+        dailyByAsset,
         roi: expectedReturns > 0 ? (expectedReturns / totalInvested) * 100 : 0
       }
     };
@@ -617,7 +1574,7 @@ export class DeFiAgent extends EventEmitter {
     return { topCreators, averageQuality };
   }
 
-  private getInvestmentBreakdown(): any {
+  private getInvestmentBreakdown(seiUsdPrice: number): any {
     const breakdown: any = {
       tip: { count: 0, amount: 0 },
       stake: { count: 0, amount: 0 },
@@ -625,26 +1582,55 @@ export class DeFiAgent extends EventEmitter {
       nft: { count: 0, amount: 0 }
     };
     
-    for (const inv of this.investmentHistory) {
+    for (const inv of this.ledger.getHistory()) {
       breakdown[inv.investmentType].count++;
-      breakdown[inv.investmentType].amount += inv.amount;
+      breakdown[inv.investmentType].amount += this.seiValue(inv, seiUsdPrice);
     }
     
     return breakdown;
   }
 
+  /**
+   * Close out the current UTC day's budget. Called by the midnight scheduler;
+   * the daily budget itself is derived from the ledger, so a missed run does
+   * not leave yesterday's spend counted against today.
+   */
+  rolloverDailyBudget(): DailySpendSnapshot {
+    const closed = this.ledger.rollover();
+    this.emit('dailyRollover', closed);
+    return closed;
+  }
+
   async shutdown(): Promise<void> {
     logger.info('Shutting down DeFi Agent...');
     
+    if (this.escrowTimer) {
+      clearInterval(this.escrowTimer);
+    }
+    this.withdrawals?.stop();
+    this.autonomy.shutdown();
+    
+    // Tips already promised to creators go out before we disconnect
+    if (this.tipBatcher) {
+      this.tipBatcher.stop();
+      await this.tipBatcher.flush().catch(error =>
+        logger.error('Failed to settle queued tips on shutdown:', error)
+      );
+    }
+    
     await Promise.all([
       this.platformSDK.disconnect(),
       this.paymentProcessor.disconnect(),
       this.treasuryManager.shutdown(),
-      this.defiService.disconnect()
+      this.defiService.disconnect(),
+      this.creatorRegistry.shutdown()
     ]);
+    await this.simulation?.stop();
     
     this.state = AgentState.IDLE;
     this.isInitialized = false;
+    this.isMonitoring = false;
+    this.isPaused = false;
     logger.info('DeFi Agent shutdown complete');
   }
 }
\ No newline at end of file
@@ -0,0 +1,142 @@
+export type InvestmentType = 'tip' | 'stake' | 'token' | 'nft';
+
+export interface StrategyParameters {
+  tipping: {
+    minQualityScore: number;
+    maxTipAmount: number;
+  };
+  investment: {
+    nftRewardsEnabled: boolean;
+    stakingEnabled: boolean;
+    minInvestmentScore: number;
+  };
+}
+
+export interface StrategyCreator {
+  contentQuality: number;
+  engagementRate: number;
+  investmentScore: number;
+  hasToken: boolean;
+}
+
+export interface InvestmentPlan {
+  investmentType: InvestmentType;
+  amount: number;
+  expectedReturn: number;
+  riskLevel: 'low' | 'medium' | 'high';
+  investmentScore: number;
+}
+
+/**
+ * Fold a new content score into the creator's running quality (80/20 EMA).
+ */
+export function updateCreatorQuality(creator: StrategyCreator, qualityScore: number): void {
+  creator.contentQuality = (creator.contentQuality * 0.8) + (qualityScore * 0.2);
+}
+
+export function calculateInvestmentScore(
+  contentQuality: number,
+  creatorQuality: number,
+  engagementRate: number
+): number {
+  // Weighted scoring: 40% content, 40% creator history, 20% engagement
+  return (
+    contentQuality * 0.4 +
+    creatorQuality * 0.4 +
+    engagementRate * 0.2
+  );
+}
+
+/**
+ * Decide what (if anything) to invest in a piece of content. Pure apart from
+ * recording the score on the creator; budget and treasury checks are left
+ * to the caller so the same rules can be replayed offline.
+ */
+export function planInvestment(
+  qualityScore: number,
+  creator: StrategyCreator,
+  params: StrategyParameters
+): InvestmentPlan | null {
+  const investmentScore = calculateInvestmentScore(
+    qualityScore,
+    creator.contentQuality,
+    creator.engagementRate
+  );
+
+  creator.investmentScore = investmentScore;
+
+  // Skip if below minimum score
+  if (investmentScore < params.investment.minInvestmentScore) {
+    return null;
+  }
+
+  if (investmentScore >= 90 && creator.hasToken) {
+    // High quality + has token = buy creator token
+    return {
+      investmentType: 'token',
+      amount: calculateTokenInvestment(investmentScore),
+      expectedReturn: 25, // 25% expected return
+      riskLevel: 'medium',
+      investmentScore
+    };
+  }
+
+  if (investmentScore >= 80 && params.investment.stakingEnabled) {
+    // Good quality = stake in creator pool
+    return {
+      investmentType: 'stake',
+      amount: calculateStakeAmount(investmentScore),
+      expectedReturn: 12, // 12% APY from staking
+      riskLevel: 'low',
+      investmentScore
+    };
+  }
+
+  if (investmentScore >= 85 && params.investment.nftRewardsEnabled) {
+    // Exceptional content = mint NFT reward
+    return {
+      investmentType: 'nft',
+      amount: 0.1, // NFT minting cost
+      expectedReturn: 0, // NFTs are rewards, not investments
+      riskLevel: 'low',
+      investmentScore
+    };
+  }
+
+  // Default to tipping
+  return {
+    investmentType: 'tip',
+    amount: calculateTipAmount(qualityScore, params),
+    expectedReturn: 0, // Tips don't have direct returns
+    riskLevel: 'low',
+    investmentScore
+  };
+}
+
+function calculateTokenInvestment(score: number): number {
+  // Scale investment based on score (90-100 -> 10-100 SEI)
+  const base = 10;
+  const multiplier = (score - 90) / 10;
+  return base + (90 * multiplier);
+}
+
+function calculateStakeAmount(score: number): number {
+  // Scale stake based on score (80-100 -> 5-50 SEI)
+  const base = 5;
+  const multiplier = (score - 80) / 20;
+  return base + (45 * multiplier);
+}
+
+function calculateTipAmount(qualityScore: number, params: StrategyParameters): number {
+  const baseAmount = 0.01;
+  const maxAmount = Math.min(
+    params.tipping.maxTipAmount,
+    5.0
+  );
+
+  const scaleFactor =
+    (qualityScore - params.tipping.minQualityScore) /
+    (100 - params.tipping.minQualityScore);
+
+  return baseAmount + (maxAmount - baseAmount) * scaleFactor;
+}
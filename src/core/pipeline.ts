@@ -0,0 +1,255 @@
+import { EventEmitter } from 'events';
+import { AutonomyController, Decision } from '../autonomy/autonomy-controller';
+import { logger } from '../utils/logger';
+
+export type PipelinePhase = 'ingest' | 'evaluate' | 'decide' | 'guard' | 'execute' | 'record';
+
+// Stages run in this order, and in the order they were added within a phase
+export const PIPELINE_PHASES: PipelinePhase[] = ['ingest', 'evaluate', 'decide', 'guard', 'execute', 'record'];
+
+export type PipelineDecisionStatus = 'proposed' | 'approved' | 'blocked' | 'executed' | 'failed';
+
+export interface PipelineDecision<T = any> {
+  id: string;
+  // What the decision does: 'tip', 'stake', 'reply', ...
+  kind: string;
+  payload: T;
+  // Checked with AutonomyController.validateDecision by the guard
+  autonomy?: Decision;
+  // Checked with AutonomyController.validateAction when there is no autonomy decision
+  action?: any;
+  status: PipelineDecisionStatus;
+  reason?: string;
+  // Blocked pending a human rather than refused outright
+  escalate?: boolean;
+  result?: any;
+}
+
+export interface ProposeOptions {
+  autonomy?: Decision;
+  action?: any;
+}
+
+/**
+ * One input's pass through a pipeline. Stages share what they learn
+ * through `state` and act on the decisions proposed so far.
+ */
+export class PipelineRun<TInput = any> {
+  readonly id: string;
+  readonly input: TInput;
+  readonly startedAt: number = Date.now();
+  // Scratch space stages share: evaluations, profiles, ...
+  state: Record<string, any> = {};
+  decisions: PipelineDecision[] = [];
+  halted?: { stage: string; reason: string };
+  stage?: string;
+  completedAt?: number;
+
+  constructor(input: TInput) {
+    this.id = `run_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    this.input = input;
+  }
+
+  /**
+   * Stop the run after the current stage; record stages still run
+   */
+  halt(reason: string): void {
+    if (!this.halted) {
+      this.halted = { stage: this.stage ?? 'unknown', reason };
+    }
+  }
+
+  propose<T>(kind: string, payload: T, options: ProposeOptions = {}): PipelineDecision<T> {
+    const decision: PipelineDecision<T> = {
+      id: `${this.id}_${this.decisions.length}`,
+      kind,
+      payload,
+      autonomy: options.autonomy,
+      action: options.action,
+      status: 'proposed'
+    };
+    this.decisions.push(decision);
+    return decision;
+  }
+
+  approve(decision: PipelineDecision): void {
+    decision.status = 'approved';
+  }
+
+  block(decision: PipelineDecision, reason: string, escalate: boolean = false): void {
+    decision.status = 'blocked';
+    decision.reason = reason;
+    decision.escalate = escalate;
+  }
+
+  complete(decision: PipelineDecision, result?: any): void {
+    decision.status = 'executed';
+    decision.result = result;
+  }
+
+  fail(decision: PipelineDecision, reason: string): void {
+    decision.status = 'failed';
+    decision.reason = reason;
+  }
+
+  pending(): PipelineDecision[] {
+    return this.decisions.filter(decision => decision.status === 'proposed');
+  }
+
+  approved(kinds?: string[]): PipelineDecision[] {
+    return this.decisions.filter(decision =>
+      decision.status === 'approved' && (!kinds || kinds.includes(decision.kind))
+    );
+  }
+}
+
+export interface PipelineStage<TInput = any> {
+  name: string;
+  phase: PipelinePhase;
+  run(run: PipelineRun<TInput>): Promise<void>;
+}
+
+/**
+ * The path every agent takes from something happening to something done:
+ * ingest → evaluate → decide → guard → execute → record. Agents assemble
+ * one from named stages, so tipping, investing and social replies are
+ * interchangeable parts and a stage like the autonomy guard applies to
+ * every agent that uses it.
+ *
+ * Only decisions a guard approved reach the execute phase; any still
+ * proposed by then were never reviewed and are blocked, so a pipeline
+ * without a guard fails closed. A stage that throws halts the run; record
+ * stages run either way, so halts and failures are recorded too.
+ */
+export class AgentPipeline<TInput = any> extends EventEmitter {
+  readonly name: string;
+  private stages: PipelineStage<TInput>[] = [];
+
+  constructor(name: string) {
+    super();
+    this.name = name;
+  }
+
+  use(stage: PipelineStage<TInput>): this {
+    if (this.stages.some(existing => existing.name === stage.name)) {
+      throw new Error(`Pipeline ${this.name} already has a stage named ${stage.name}`);
+    }
+    this.stages.push(stage);
+    return this;
+  }
+
+  replace(name: string, stage: PipelineStage<TInput>): this {
+    const index = this.stages.findIndex(existing => existing.name === name);
+    if (index === -1) {
+      throw new Error(`Pipeline ${this.name} has no stage named ${name}`);
+    }
+    this.stages[index] = stage;
+    return this;
+  }
+
+  remove(name: string): boolean {
+    const before = this.stages.length;
+    this.stages = this.stages.filter(stage => stage.name !== name);
+    return this.stages.length < before;
+  }
+
+  getStages(): Array<{ name: string; phase: PipelinePhase }> {
+    return this.ordered().map(stage => ({ name: stage.name, phase: stage.phase }));
+  }
+
+  async process(input: TInput): Promise<PipelineRun<TInput>> {
+    const run = new PipelineRun(input);
+
+    for (const phase of PIPELINE_PHASES) {
+      if (run.halted && phase !== 'record') continue;
+
+      if (phase === 'execute') {
+        for (const decision of run.pending()) {
+          run.block(decision, 'Not reviewed by a guard');
+        }
+      }
+
+      for (const stage of this.ordered().filter(candidate => candidate.phase === phase)) {
+        if (run.halted && phase !== 'record') break;
+        run.stage = stage.name;
+        try {
+          await stage.run(run);
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          logger.error(`Pipeline ${this.name} stage ${stage.name} failed:`, error);
+          this.emit('stage_failed', { runId: run.id, stage: stage.name, error: reason });
+          run.halt(reason);
+        }
+      }
+    }
+
+    run.stage = undefined;
+    run.completedAt = Date.now();
+    for (const decision of run.decisions.filter(candidate => candidate.status === 'blocked')) {
+      this.emit('decision_blocked', { runId: run.id, decision });
+    }
+    this.emit('run_completed', run);
+    return run;
+  }
+
+  private ordered(): PipelineStage<TInput>[] {
+    return PIPELINE_PHASES.flatMap(phase => this.stages.filter(stage => stage.phase === phase));
+  }
+}
+
+/**
+ * Guard stage that puts every proposed decision to the AutonomyController:
+ * decisions through `validateDecision`, platform actions through
+ * `validateAction`. Decisions carrying neither cannot be checked and are
+ * blocked, so a stage that forgets to describe its decision fails closed.
+ */
+export function autonomyGuard<TInput = any>(autonomy: AutonomyController): PipelineStage<TInput> {
+  return {
+    name: 'autonomy',
+    phase: 'guard',
+    run: async run => {
+      for (const decision of run.pending()) {
+        if (decision.autonomy) {
+          const validation = await autonomy.validateDecision(decision.autonomy);
+          if (validation.approved) {
+            run.approve(decision);
+          } else {
+            run.block(decision, validation.reason ?? 'Not approved', validation.escalation_required ?? false);
+          }
+        } else if (decision.action) {
+          if (await autonomy.validateAction(decision.action)) {
+            run.approve(decision);
+          } else {
+            run.block(decision, 'Action not approved', true);
+          }
+        } else {
+          run.block(decision, 'Nothing for the autonomy guard to validate');
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Execute stage that runs approved decisions of the given kinds through
+ * a handler, recording each result or failure on the decision.
+ */
+export function executor<TInput = any>(
+  name: string,
+  kinds: string[],
+  handler: (decision: PipelineDecision, run: PipelineRun<TInput>) => Promise<any>
+): PipelineStage<TInput> {
+  return {
+    name,
+    phase: 'execute',
+    run: async run => {
+      for (const decision of run.approved(kinds)) {
+        try {
+          run.complete(decision, await handler(decision, run));
+        } catch (error) {
+          run.fail(decision, error instanceof Error ? error.message : String(error));
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,469 @@
+import OpenAI from 'openai';
+import { z } from 'zod';
+import {
+  PersonalityModule,
+  PersonalityState,
+  PersonalityFeedback
+} from '../personality/personality-engine';
+import { MemorySystem, Memory, MemoryType } from '../memory/memory-system';
+import { Decision, DecisionType, RiskLevel } from '../autonomy/autonomy-controller';
+import {
+  PlatformEvent,
+  EventType,
+  AgentResponse,
+  ResponseType,
+  ContentType
+} from '../platforms/platform-sdk';
+import { logger } from '../utils/logger';
+
+export interface ContentCreationDecision extends Decision {
+  type: DecisionType.CONTENT_CREATION;
+  platform: string;
+  contentType: ContentType;
+  prompt: string;
+  monetize: boolean;
+  // SEI charged for access when monetized
+  price?: number;
+}
+
+export interface PlatformInteractionDecision extends Decision {
+  type: DecisionType.PLATFORM_INTERACTION;
+  platform: string;
+  response: ReasonedResponse;
+}
+
+export interface LearningAdaptationDecision extends Decision {
+  type: DecisionType.LEARNING_ADAPTATION;
+  feedback: PersonalityFeedback;
+}
+
+export type AgentDecision =
+  | ContentCreationDecision
+  | PlatformInteractionDecision
+  | LearningAdaptationDecision;
+
+/**
+ * An AgentResponse with the fields AutonomyController.validateAction reads
+ * to classify and risk-rate it.
+ */
+export interface ReasonedResponse extends AgentResponse {
+  platform: string;
+  description: string;
+  // 0-1, how sure the engine is this is the right response
+  confidence: number;
+  urgency: 'low' | 'medium' | 'high' | 'critical';
+  impact: 'minimal' | 'moderate' | 'significant' | 'major';
+  reversible: boolean;
+  public: boolean;
+  // Why the engine chose this, for audit and escalation
+  reasoning: string;
+}
+
+export interface ReasoningEngineOptions {
+  // Use the rule-based reasoner only, never calling OpenAI
+  offline?: boolean;
+  model?: string;
+  // Platforms proactive content may be posted to
+  platforms?: string[];
+  // Minimum time between proactive posts (default 1 hour)
+  contentIntervalMs?: number;
+  // SEI charged for monetized content; unset never monetizes
+  contentPrice?: number;
+  // Responses below this confidence are dropped (default 0.3)
+  minConfidence?: number;
+}
+
+// Memories consulted per decision
+const CONTEXT_LIMIT = 10;
+const CONTEXT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const RESPONSIVE_EVENTS = [
+  EventType.MENTION,
+  EventType.MESSAGE_RECEIVED,
+  EventType.COMMENT,
+  EventType.PAYMENT_RECEIVED
+];
+
+const LlmReplySchema = z.object({
+  respond: z.boolean(),
+  reply: z.string().max(2000).optional(),
+  confidence: z.number().min(0).max(1),
+  reasoning: z.string().max(500)
+});
+
+const LlmPostSchema = z.object({
+  post: z.boolean(),
+  prompt: z.string().max(1000).optional(),
+  confidence: z.number().min(0).max(1),
+  reasoning: z.string().max(500)
+});
+
+/**
+ * Decides what AgentCore does next. Each decision draws on the personality's
+ * traits and communication style and on related memories; an LLM proposes
+ * replies and posts when one is configured, and a deterministic rule-based
+ * reasoner takes over when it is not or when its output does not parse.
+ * Every decision and response carries a confidence the AutonomyController
+ * can weigh, and LLM confidence is blended with the rule-based estimate so
+ * a model cannot talk itself into certainty.
+ */
+export class ReasoningEngine {
+  private personality: PersonalityModule;
+  private memory: MemorySystem;
+  private openai?: OpenAI;
+  private model: string;
+  private platforms: string[];
+  private contentIntervalMs: number;
+  private contentPrice?: number;
+  private minConfidence: number;
+  private lastContentAt: number = 0;
+  private lastAdaptationAt: number = 0;
+
+  constructor(personality: PersonalityModule, memory: MemorySystem, options: ReasoningEngineOptions = {}) {
+    this.personality = personality;
+    this.memory = memory;
+    this.model = options.model ?? 'gpt-4-turbo-preview';
+    this.platforms = options.platforms ?? [];
+    this.contentIntervalMs = options.contentIntervalMs ?? 60 * 60 * 1000;
+    this.contentPrice = options.contentPrice;
+    this.minConfidence = options.minConfidence ?? 0.3;
+
+    if (!options.offline && process.env.OPENAI_API_KEY) {
+      this.openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+  }
+
+  /**
+   * Proactive decisions for this cycle: content to publish and behaviour to
+   * adapt. Cheap to call often; nothing is proposed until the relevant
+   * interval has passed.
+   */
+  async generateDecisions(): Promise<AgentDecision[]> {
+    const state = this.personality.getPersonalityState();
+    const context = await this.recallRecent();
+    const decisions: AgentDecision[] = [];
+
+    const content = await this.decideContent(state, context);
+    if (content) decisions.push(content);
+
+    const adaptation = await this.decideAdaptation(context);
+    if (adaptation) decisions.push(adaptation);
+
+    return decisions;
+  }
+
+  /**
+   * How to respond to a platform event, or null to let it pass.
+   */
+  async processEvent(event: PlatformEvent): Promise<ReasonedResponse | null> {
+    if (!RESPONSIVE_EVENTS.includes(event.type) || event.source?.type === 'bot') {
+      return null;
+    }
+
+    const state = this.personality.getPersonalityState();
+    const context = await this.recallAbout(event);
+    const ruleBased = await this.ruleBasedReply(event, state, context);
+
+    if (!this.openai) {
+      return this.accept(ruleBased);
+    }
+
+    try {
+      const llm = await this.askLlm(LlmReplySchema, this.replyPrompt(event, state, context));
+      if (!llm.respond || !llm.reply) {
+        return null;
+      }
+      return this.accept({
+        ...this.replyResponse(event, llm.reply),
+        confidence: this.blendConfidence(llm.confidence, ruleBased?.confidence ?? 0),
+        reasoning: llm.reasoning
+      });
+    } catch (error) {
+      logger.warn('LLM reasoning failed, using rule-based reply:', error);
+      return this.accept(ruleBased);
+    }
+  }
+
+  private async decideContent(state: PersonalityState, context: Memory[]): Promise<ContentCreationDecision | null> {
+    // More outgoing personalities post more often
+    const interval = this.contentIntervalMs * (1.5 - state.traits.social_energy);
+    if (this.platforms.length === 0 || Date.now() - this.lastContentAt < interval) {
+      return null;
+    }
+
+    const topics = this.topTopics(context);
+    const platform = this.mostActivePlatform(context);
+    let prompt = this.ruleBasedPrompt(state, topics);
+    let confidence = this.contentConfidence(state, context);
+    let reasoning = topics.length > 0
+      ? `Recent activity centres on ${topics.join(', ')}`
+      : 'No recent activity; posting to stay visible';
+
+    if (this.openai) {
+      try {
+        const llm = await this.askLlm(LlmPostSchema, this.postPrompt(state, topics, context));
+        if (!llm.post || !llm.prompt) {
+          this.lastContentAt = Date.now();
+          return null;
+        }
+        prompt = llm.prompt;
+        confidence = this.blendConfidence(llm.confidence, confidence);
+        reasoning = llm.reasoning;
+      } catch (error) {
+        logger.warn('LLM content planning failed, using rule-based prompt:', error);
+      }
+    }
+
+    if (confidence < this.minConfidence) {
+      return null;
+    }
+    this.lastContentAt = Date.now();
+
+    const monetize = this.contentPrice !== undefined && state.traits.creativity >= 0.6;
+    return {
+      id: this.decisionId(),
+      type: DecisionType.CONTENT_CREATION,
+      description: `Post on ${platform}: ${prompt}`,
+      context: {
+        platform,
+        amount: monetize ? this.contentPrice : undefined,
+        currency: monetize ? 'SEI' : undefined,
+        urgency: 'low',
+        potential_impact: monetize ? 'moderate' : 'minimal',
+        reversible: true,
+        precedent_exists: context.some(memory => memory.tags.includes('outcome'))
+      },
+      risk_level: monetize ? RiskLevel.MEDIUM : RiskLevel.LOW,
+      estimated_revenue: monetize ? this.contentPrice : undefined,
+      timestamp: Date.now(),
+      confidence,
+      platform,
+      contentType: ContentType.TEXT,
+      prompt: `${prompt}\n\nReasoning: ${reasoning}`,
+      monetize,
+      price: monetize ? this.contentPrice : undefined
+    };
+  }
+
+  /**
+   * When most recent interactions failed, dial back assertiveness. Runs at
+   * most once per consolidation window so one bad streak is one adjustment.
+   */
+  private async decideAdaptation(context: Memory[]): Promise<LearningAdaptationDecision | null> {
+    if (Date.now() - this.lastAdaptationAt < CONTEXT_WINDOW_MS / 4) {
+      return null;
+    }
+
+    const outcomes = context.filter(memory => memory.tags.includes('outcome'));
+    if (outcomes.length < 5) return null;
+
+    const failures = outcomes.filter(memory => memory.tags.includes('failure')).length;
+    const failureRate = failures / outcomes.length;
+    if (failureRate <= 0.5) return null;
+
+    this.lastAdaptationAt = Date.now();
+    return {
+      id: this.decisionId(),
+      type: DecisionType.LEARNING_ADAPTATION,
+      description: `Reduce assertiveness after ${failures} of ${outcomes.length} recent interactions failed`,
+      context: {
+        urgency: 'low',
+        potential_impact: 'minimal',
+        reversible: true,
+        precedent_exists: true
+      },
+      risk_level: RiskLevel.LOW,
+      timestamp: Date.now(),
+      // More evidence, more confidence
+      confidence: Math.min(0.95, 0.5 + failureRate * 0.3 + Math.min(outcomes.length, 20) / 100),
+      feedback: {
+        interaction_timestamp: outcomes[0].timestamp,
+        type: 'negative',
+        aspect: 'assertiveness',
+        direction: 'decrease',
+        intensity: failureRate,
+        comment: 'Automatic adjustment from interaction outcomes'
+      }
+    };
+  }
+
+  private async ruleBasedReply(
+    event: PlatformEvent,
+    state: PersonalityState,
+    context: Memory[]
+  ): Promise<ReasonedResponse | null> {
+    // Less sociable personalities let casual mentions pass
+    const direct = event.type === EventType.MESSAGE_RECEIVED || event.type === EventType.PAYMENT_RECEIVED;
+    if (!direct && state.traits.social_energy < 0.3) {
+      return null;
+    }
+
+    const input = event.type === EventType.PAYMENT_RECEIVED
+      ? `Thank ${event.data.author?.username ?? 'the sender'} for their payment of ${event.data.amount ?? ''} SEI`
+      : event.data.content ?? '';
+    const generated = await this.personality.generateResponse({
+      input,
+      platform: event.platform,
+      user_id: event.data.author?.id,
+      mentions: event.data.author ? [event.data.author.username] : [],
+      reply_to: event.id
+    });
+    if (generated.requires_approval && generated.confidence < this.minConfidence) {
+      return null;
+    }
+
+    // Prior successful exchanges with this author raise confidence
+    const history = context.filter(memory => memory.tags.includes('outcome'));
+    const successes = history.filter(memory => memory.tags.includes('success')).length;
+    const precedent = history.length > 0 ? (successes / history.length - 0.5) * 0.2 : 0;
+
+    return {
+      ...this.replyResponse(event, generated.content),
+      confidence: this.clamp(generated.confidence + precedent),
+      reasoning: `Rule-based reply to ${event.type}` +
+        (history.length > 0 ? ` with ${successes}/${history.length} prior successes` : '')
+    };
+  }
+
+  private replyResponse(event: PlatformEvent, text: string): Omit<ReasonedResponse, 'confidence' | 'reasoning'> {
+    return {
+      type: ResponseType.REPLY,
+      content: {
+        type: ContentType.TEXT,
+        text,
+        replyTo: event.id,
+        mentions: event.data.author ? [event.data.author.username] : undefined
+      },
+      platform: event.platform,
+      description: `Reply to ${event.type} from ${event.data.author?.username ?? event.source?.id ?? 'unknown'}`,
+      urgency: event.type === EventType.MESSAGE_RECEIVED ? 'medium' : 'low',
+      impact: 'minimal',
+      reversible: true,
+      public: event.type !== EventType.MESSAGE_RECEIVED
+    };
+  }
+
+  private ruleBasedPrompt(state: PersonalityState, topics: string[]): string {
+    const subject = topics.length > 0 ? topics.join(', ') : 'what the community has been discussing';
+    return `Write a ${state.communication.verbosity}, ${state.communication.tone} post ` +
+      `in a ${state.communication.formality} register about ${subject}`;
+  }
+
+  private contentConfidence(state: PersonalityState, context: Memory[]): number {
+    // Creative, outgoing personalities with recent material to work from are surest
+    const material = Math.min(context.length, CONTEXT_LIMIT) / CONTEXT_LIMIT;
+    return this.clamp(0.3 + state.traits.creativity * 0.3 + state.traits.social_energy * 0.2 + material * 0.2);
+  }
+
+  private blendConfidence(llm: number, ruleBased: number): number {
+    return this.clamp(llm * 0.6 + ruleBased * 0.4);
+  }
+
+  private accept(response: ReasonedResponse | null): ReasonedResponse | null {
+    return response && response.confidence >= this.minConfidence ? response : null;
+  }
+
+  private async askLlm<T extends z.ZodTypeAny>(schema: T, prompt: string): Promise<z.infer<T>> {
+    const completion = await this.openai!.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: 'system', content: this.systemPrompt() },
+        { role: 'user', content: prompt }
+      ],
+      temperature: 0.7,
+      response_format: { type: 'json_object' }
+    });
+
+    return schema.parse(JSON.parse(completion.choices[0].message.content || '{}'));
+  }
+
+  private systemPrompt(): string {
+    const { traits, communication } = this.personality.getPersonalityState();
+    return `You decide how an autonomous social agent acts. Its personality traits (0-1) are ` +
+      `${JSON.stringify(traits)} and its communication style is ${JSON.stringify(communication)}. ` +
+      `Stay in character. Answer in JSON only. Rate your confidence honestly from 0 to 1.`;
+  }
+
+  private replyPrompt(event: PlatformEvent, state: PersonalityState, context: Memory[]): string {
+    return `A ${event.type} arrived on ${event.platform} from ` +
+      `${event.data.author?.username ?? 'an unknown user'}: "${event.data.content ?? ''}".\n` +
+      `Relevant memories:\n${this.summarize(context)}\n` +
+      `Reply in a ${state.communication.tone} tone, or decline if no reply is warranted. ` +
+      `Return {"respond": boolean, "reply": string, "confidence": number, "reasoning": string}.`;
+  }
+
+  private postPrompt(state: PersonalityState, topics: string[], context: Memory[]): string {
+    return `Plan the agent's next post. Recent topics: ${topics.join(', ') || 'none'}.\n` +
+      `Recent memories:\n${this.summarize(context)}\n` +
+      `Posting style: ${state.communication.verbosity}, ${state.communication.tone}. ` +
+      `Return {"post": boolean, "prompt": string, "confidence": number, "reasoning": string}, ` +
+      `where prompt instructs the content generator.`;
+  }
+
+  private summarize(context: Memory[]): string {
+    if (context.length === 0) return '(none)';
+    return context
+      .map(memory => `- [${memory.tags.join(',')}] ${JSON.stringify(memory.content).slice(0, 200)}`)
+      .join('\n');
+  }
+
+  private async recallRecent(): Promise<Memory[]> {
+    return this.memory.retrieve({
+      timeRange: { start: Date.now() - CONTEXT_WINDOW_MS, end: Date.now() },
+      importance: { min: 0.5, max: 1 },
+      sortBy: 'importance',
+      limit: CONTEXT_LIMIT * 5
+    });
+  }
+
+  private async recallAbout(event: PlatformEvent): Promise<Memory[]> {
+    const memories = await this.memory.retrieve({
+      type: MemoryType.EPISODIC,
+      tags: [event.platform],
+      timeRange: { start: Date.now() - CONTEXT_WINDOW_MS, end: Date.now() },
+      sortBy: 'importance'
+    });
+
+    // Prefer what we remember about this author
+    const authorId = event.data.author?.id;
+    const about = authorId
+      ? memories.filter(memory => JSON.stringify(memory.content).includes(authorId))
+      : [];
+    return (about.length > 0 ? about : memories).slice(0, CONTEXT_LIMIT);
+  }
+
+  private topTopics(context: Memory[]): string[] {
+    const generic = new Set(['event', 'interaction', 'outcome', 'success', 'failure', 'mention', 'knowledge', ...this.platforms]);
+    const counts = new Map<string, number>();
+    for (const memory of context) {
+      for (const tag of memory.tags) {
+        if (tag && !generic.has(tag) && !Object.values(EventType).includes(tag as EventType)) {
+          counts.set(tag, (counts.get(tag) || 0) + 1);
+        }
+      }
+    }
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 3)
+      .map(([tag]) => tag);
+  }
+
+  private mostActivePlatform(context: Memory[]): string {
+    const counts = new Map<string, number>(this.platforms.map(platform => [platform, 0]));
+    for (const memory of context) {
+      const platform = memory.metadata?.platform;
+      if (counts.has(platform)) {
+        counts.set(platform, counts.get(platform)! + 1);
+      }
+    }
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+  }
+
+  private clamp(value: number): number {
+    return Math.max(0, Math.min(1, value));
+  }
+
+  private decisionId(): string {
+    return `decision_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
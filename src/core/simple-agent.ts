@@ -1,9 +1,19 @@
 import { EventEmitter } from 'events';
 import { z } from 'zod';
-import { PlatformSDK } from '../platforms/platform-sdk';
+import { PlatformSDK } from '../platforms/simple-platform';
 import { PaymentProcessor } from '../payments/payment-processor';
 import { ContentEvaluator } from '../ai/content-evaluator';
-import { SeiBlockchainService } from '../blockchain/simple-blockchain';
+import { TipDeduplicator } from '../storage/tip-deduplicator';
+import { CreatorRegistry } from '../identity/creator-registry';
+import {
+  AutonomyController,
+  AutonomyLevel,
+  Decision,
+  DecisionType,
+  RiskLevel,
+  SpendingLimits
+} from '../autonomy/autonomy-controller';
+import { AgentPipeline, PipelineDecision, autonomyGuard } from './pipeline';
 import { logger } from '../utils/logger';
 
 export enum AgentState {
@@ -30,7 +40,14 @@ interface AgentConfig {
   dailyBudget: number;
   minQualityScore: number;
   maxTipAmount: number;
+  creatorCooldownMinutes?: number;
+  dataDir?: string;
   platforms: string[];
+  // Guardrails every tip is checked against (default: autonomous, capped at dailyBudget)
+  autonomy?: {
+    level: AutonomyLevel;
+    spendingLimits: SpendingLimits;
+  };
   preferences: {
     topics: string[];
     creators: string[];
@@ -44,22 +61,39 @@ export class SocialTippingAgent extends EventEmitter {
   private platformSDK: PlatformSDK;
   private paymentProcessor: PaymentProcessor;
   private contentEvaluator: ContentEvaluator;
-  private blockchain: SeiBlockchainService;
+  private deduplicator: TipDeduplicator;
+  private creatorRegistry: CreatorRegistry;
+  private autonomy: AutonomyController;
   private dailySpent: number = 0;
   private tipHistory: TipDecision[] = [];
   private isInitialized: boolean = false;
+  private pipeline: AgentPipeline<any>;
 
   constructor(config: AgentConfig) {
     super();
     this.config = config;
     this.platformSDK = new PlatformSDK(config.platforms);
-    this.paymentProcessor = new PaymentProcessor();
+    this.creatorRegistry = new CreatorRegistry({
+      dataDir: config.dataDir,
+      rpcUrl: process.env.SEI_RPC_URL
+    });
+    this.paymentProcessor = new PaymentProcessor(this.creatorRegistry);
     this.contentEvaluator = new ContentEvaluator();
-    this.blockchain = new SeiBlockchainService('social-tipping-agent', {
-      privateKey: process.env.SEI_PRIVATE_KEY!,
-      rpcUrl: process.env.SEI_RPC_URL || 'https://evm-rpc.arctic-1.seinetwork.io',
-      chainId: process.env.SEI_CHAIN_ID || 'arctic-1'
+    this.deduplicator = new TipDeduplicator({
+      dataDir: config.dataDir,
+      creatorCooldownMinutes: config.creatorCooldownMinutes ?? 0
     });
+    this.autonomy = new AutonomyController(
+      config.autonomy?.level ?? AutonomyLevel.AUTONOMOUS,
+      config.autonomy?.spendingLimits ?? {
+        dailyLimit: config.dailyBudget,
+        perTransactionLimit: config.maxTipAmount,
+        platformLimits: {},
+        approvalRequiredAbove: config.maxTipAmount,
+        currencyLimits: {}
+      }
+    );
+    this.pipeline = this.createTipPipeline();
   }
 
   async initialize(): Promise<void> {
@@ -68,10 +102,8 @@ export class SocialTippingAgent extends EventEmitter {
     logger.info('Initializing Social Tipping Agent...');
     
     try {
-      // Initialize blockchain connection
-      await this.blockchain.initialize();
-      
-      // Initialize payment processor
+      // Load creator wallets, then initialize payment processor
+      await this.creatorRegistry.initialize();
       await this.paymentProcessor.initialize();
       
       // Connect to social platforms
@@ -80,6 +112,9 @@ export class SocialTippingAgent extends EventEmitter {
       // Load AI models
       await this.contentEvaluator.loadModels();
       
+      // Load tip claims so re-delivered content is not tipped again
+      await this.deduplicator.initialize();
+      
       this.state = AgentState.IDLE;
       this.isInitialized = true;
       logger.info('Agent initialized successfully');
@@ -115,20 +150,171 @@ export class SocialTippingAgent extends EventEmitter {
     logger.info('Started monitoring social platforms');
   }
 
+  /**
+   * Content → evaluation → tip decision → autonomy guard → payment →
+   * receipt and earnings record. Callers can add stages through
+   * `getPipeline()`.
+   */
+  private createTipPipeline(): AgentPipeline<any> {
+    return new AgentPipeline<any>('social-tipping')
+      .use({
+        name: 'content-evaluation',
+        phase: 'evaluate',
+        run: async run => {
+          run.state.evaluation = await this.contentEvaluator.evaluate(run.input, {
+            topics: this.config.preferences.topics,
+            minQuality: this.config.minQualityScore
+          });
+          if (run.state.evaluation.qualityScore < this.config.minQualityScore) {
+            run.halt('Below minimum quality');
+          }
+        }
+      })
+      .use({
+        name: 'tip-decision',
+        phase: 'decide',
+        run: async run => {
+          // Check budget constraints
+          if (this.dailySpent >= this.config.dailyBudget) {
+            logger.warn('Daily budget exceeded, skipping tip');
+            return run.halt('Daily budget exceeded');
+          }
+
+          // Calculate tip amount based on quality
+          const tipAmount = this.calculateTipAmount(run.state.evaluation.qualityScore);
+
+          if (tipAmount + this.dailySpent > this.config.dailyBudget) {
+            logger.warn('Tip would exceed daily budget, skipping');
+            return run.halt('Tip would exceed daily budget');
+          }
+
+          run.propose('tip', { amount: tipAmount }, {
+            autonomy: this.tipDecision(run.input, tipAmount, run.state.evaluation)
+          });
+        }
+      })
+      .use(autonomyGuard(this.autonomy))
+      .use({
+        name: 'tip-execution',
+        phase: 'execute',
+        run: async run => {
+          const content = run.input;
+          for (const decision of run.approved(['tip'])) {
+            // Reserve the post before paying so it can never be tipped twice
+            const claimed = await this.deduplicator.claim(content.platform, content.id, content.creator.id, content.timestamp);
+            if (!claimed) {
+              this.autonomy.releaseSpending(decision.autonomy!.id);
+              run.block(decision, 'Already tipped');
+              continue;
+            }
+
+            this.state = AgentState.TIPPING;
+            this.emit('stateChange', this.state);
+
+            let payment;
+            try {
+              payment = await this.paymentProcessor.sendTip({
+                recipient: content.creator.walletAddress || content.creator.id,
+                platform: content.platform,
+                amount: decision.payload.amount,
+                currency: 'SEI',
+                memo: `Tip for quality content: ${content.id}`
+              });
+            } catch (error) {
+              // Nothing was paid, so the post can be tipped again
+              logger.error('Failed to send tip:', error);
+              await this.deduplicator.release(content.platform, content.id, content.creator.id);
+              this.autonomy.releaseSpending(decision.autonomy!.id);
+              this.emit('tipFailed', { content, error });
+              run.fail(decision, error instanceof Error ? error.message : 'Tip failed');
+              continue;
+            }
+
+            await this.deduplicator.complete(
+              content.platform,
+              content.id,
+              content.creator.id,
+              payment.transactionHash
+            );
+            run.complete(decision, payment);
+          }
+        }
+      })
+      .use({
+        name: 'tip-record',
+        phase: 'record',
+        run: async run => {
+          for (const decision of run.decisions) {
+            if (decision.status === 'executed') {
+              await this.recordTip(run.input, run.state.evaluation, decision);
+            } else if (decision.status === 'blocked' && decision.reason !== 'Already tipped') {
+              logger.warn(`Tip for ${run.input.id} blocked: ${decision.reason}`);
+              this.emit('tipBlocked', {
+                content: run.input,
+                amount: decision.payload.amount,
+                reason: decision.reason,
+                escalate: decision.escalate
+              });
+            }
+          }
+        }
+      })
+      .use({
+        name: 'earnings-record',
+        phase: 'record',
+        run: async run => {
+          for (const decision of run.decisions.filter(candidate => candidate.status === 'executed')) {
+            this.recordEarnings(decision.payload.amount, 'SEI', 'tip', decision.result.transactionHash);
+          }
+        }
+      });
+  }
+
+  /**
+   * Emit `earnings_recorded` for SEI the agent moved, with the transaction
+   * that moved it
+   */
+  private recordEarnings(amount: number, currency: string, source: string, transactionHash?: string): void {
+    this.emit('earnings_recorded', {
+      agentId: 'social-tipping-agent',
+      amount,
+      currency,
+      source,
+      transactionHash,
+      timestamp: Date.now()
+    });
+    logger.info(`Recorded earnings: ${amount} ${currency} from ${source}`);
+  }
+
+  private tipDecision(content: any, amount: number, evaluation: any): Decision {
+    return {
+      id: `tip_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type: DecisionType.FINANCIAL_TRANSACTION,
+      description: `Tip ${amount} SEI to ${content.platform} creator ${content.creator.id}`,
+      context: {
+        platform: content.platform,
+        target: content.creator.id,
+        amount,
+        currency: 'SEI',
+        urgency: 'low',
+        potential_impact: 'minimal',
+        // Tips cannot be taken back once sent
+        reversible: false,
+        precedent_exists: this.tipHistory.length > 0
+      },
+      risk_level: RiskLevel.LOW,
+      estimated_cost: amount,
+      timestamp: Date.now(),
+      confidence: evaluation.qualityScore / 100
+    };
+  }
+
   private async processContent(content: any): Promise<void> {
     this.state = AgentState.EVALUATING;
     this.emit('stateChange', this.state);
 
     try {
-      // Evaluate content quality
-      const evaluation = await this.contentEvaluator.evaluate(content, {
-        topics: this.config.preferences.topics,
-        minQuality: this.config.minQualityScore
-      });
-
-      if (evaluation.qualityScore >= this.config.minQualityScore) {
-        await this.executeTip(content, evaluation);
-      }
+      await this.pipeline.process(content);
     } catch (error) {
       logger.error('Error processing content:', error);
     } finally {
@@ -137,62 +323,33 @@ export class SocialTippingAgent extends EventEmitter {
     }
   }
 
-  private async executeTip(content: any, evaluation: any): Promise<void> {
-    // Check budget constraints
-    if (this.dailySpent >= this.config.dailyBudget) {
-      logger.warn('Daily budget exceeded, skipping tip');
-      return;
-    }
-
-    // Calculate tip amount based on quality
-    const tipAmount = this.calculateTipAmount(evaluation.qualityScore);
-    
-    if (tipAmount + this.dailySpent > this.config.dailyBudget) {
-      logger.warn('Tip would exceed daily budget, skipping');
-      return;
-    }
+  private async recordTip(content: any, evaluation: any, decision: PipelineDecision): Promise<void> {
+    const tipAmount: number = decision.payload.amount;
+    this.dailySpent += tipAmount;
+
+    const tip: TipDecision = {
+      contentId: content.id,
+      platform: content.platform,
+      creator: content.creator.id,
+      qualityScore: evaluation.qualityScore,
+      tipAmount,
+      reason: evaluation.reason,
+      timestamp: new Date()
+    };
 
-    this.state = AgentState.TIPPING;
-    this.emit('stateChange', this.state);
+    this.tipHistory.push(tip);
+    this.emit('tipSent', tip);
 
+    // Reply to content with tip confirmation
     try {
-      // Execute payment
-      const payment = await this.paymentProcessor.sendTip({
-        recipient: content.creator.walletAddress || content.creator.id,
-        amount: tipAmount,
-        currency: 'SEI',
-        memo: `Tip for quality content: ${content.id}`
-      });
-
-      // Record on blockchain
-      await this.blockchain.recordEarnings(tipAmount, 'SEI', 'tip');
-
-      // Update state
-      this.dailySpent += tipAmount;
-      
-      const decision: TipDecision = {
-        contentId: content.id,
-        platform: content.platform,
-        creator: content.creator.id,
-        qualityScore: evaluation.qualityScore,
-        tipAmount,
-        reason: evaluation.reason,
-        timestamp: new Date()
-      };
-      
-      this.tipHistory.push(decision);
-      this.emit('tipSent', decision);
-
-      // Reply to content with tip confirmation
       await this.platformSDK.replyToContent(content, {
-        message: `🎉 You've been tipped ${tipAmount} SEI for this quality content! Transaction: ${payment.transactionHash.slice(0, 8)}...`
+        message: `🎉 You've been tipped ${tipAmount} SEI for this quality content! Transaction: ${decision.result.transactionHash.slice(0, 8)}...`
       });
-
-      logger.info(`Tip sent: ${tipAmount} SEI to ${content.creator.id}`);
     } catch (error) {
-      logger.error('Failed to send tip:', error);
-      this.emit('tipFailed', { content, error });
+      logger.error('Failed to reply with tip confirmation:', error);
     }
+
+    logger.info(`Tip sent: ${tipAmount} SEI to ${content.creator.id}`);
   }
 
   private calculateTipAmount(qualityScore: number): number {
@@ -223,6 +380,14 @@ export class SocialTippingAgent extends EventEmitter {
     this.emit('stateChange', this.state);
   }
 
+  getPipeline(): AgentPipeline<any> {
+    return this.pipeline;
+  }
+
+  getAutonomyController(): AutonomyController {
+    return this.autonomy;
+  }
+
   async getStats(): Promise<any> {
     return {
       state: this.state,
@@ -267,6 +432,8 @@ export class SocialTippingAgent extends EventEmitter {
     
     await this.platformSDK.disconnect();
     await this.paymentProcessor.disconnect();
+    await this.creatorRegistry.shutdown();
+    this.autonomy.shutdown();
     
     this.state = AgentState.IDLE;
     this.isInitialized = false;
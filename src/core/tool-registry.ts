@@ -0,0 +1,454 @@
+import { EventEmitter } from 'events';
+import OpenAI from 'openai';
+import { z } from 'zod';
+import { AutonomyController, Decision, DecisionType, RiskLevel } from '../autonomy/autonomy-controller';
+import { SeiBlockchainService } from '../blockchain/sei-integration';
+import { SeiDeFiService } from '../blockchain/sei-defi-service';
+import { PriceOracle } from '../blockchain/price-oracle';
+import { PlatformAdapter, ContentType } from '../platforms/platform-sdk';
+import { logger } from '../utils/logger';
+
+/**
+ * What tools act through. A tool whose service is missing fails when
+ * called, not when loaded, so an agent can load toolsets before every
+ * service is connected.
+ */
+export interface ToolServices {
+  blockchain?: SeiBlockchainService;
+  defi?: SeiDeFiService;
+  platforms?: Map<string, PlatformAdapter>;
+  openai?: OpenAI;
+  // Values non-SEI amounts in SEI for spending limits
+  priceOracle?: PriceOracle;
+}
+
+export interface AgentTool<I extends z.ZodTypeAny = z.ZodTypeAny, O extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  input: I;
+  output: O;
+  // How the AutonomyController classifies a call
+  decisionType: DecisionType;
+  riskLevel: RiskLevel;
+  reversible: boolean;
+  // Only reads state, so calls are not gated
+  readOnly?: boolean;
+  // SEI a call is expected to spend, checked against spending limits
+  estimateCost?: (input: z.infer<I>, services: ToolServices) => number | Promise<number>;
+  run: (input: z.infer<I>, services: ToolServices) => Promise<z.infer<O>>;
+}
+
+/**
+ * A tool as the reasoning layer sees it when choosing what to do.
+ */
+export interface ToolDescriptor {
+  name: string;
+  description: string;
+  toolset: string;
+  decisionType: DecisionType;
+  riskLevel: RiskLevel;
+  reversible: boolean;
+  readOnly: boolean;
+  costly: boolean;
+  // Field name to type, e.g. { amount: 'number', memo: 'string?' }
+  parameters: Record<string, string>;
+}
+
+export interface ToolCallOptions {
+  platform?: string;
+  // Confidence of whatever decided to call the tool (default 0.8)
+  confidence?: number;
+  // Why the tool is being called, recorded on the decision
+  reason?: string;
+}
+
+export interface ToolRegistryConfig {
+  services?: ToolServices;
+  // Gate every call through this controller; ungated when omitted
+  autonomy?: AutonomyController;
+}
+
+/**
+ * Declare a tool with its input and output types inferred from its schemas.
+ */
+export function defineTool<I extends z.ZodTypeAny, O extends z.ZodTypeAny>(tool: AgentTool<I, O>): AgentTool {
+  return tool as unknown as AgentTool;
+}
+
+const TxResultSchema = z.object({
+  success: z.boolean(),
+  transactionHash: z.string().optional(),
+  error: z.string().optional()
+});
+
+const tipTool = defineTool({
+  name: 'tip',
+  description: 'Send a SEI tip to a creator wallet',
+  input: z.object({
+    recipient: z.string().min(1),
+    amount: z.number().positive()
+  }),
+  output: TxResultSchema,
+  decisionType: DecisionType.FINANCIAL_TRANSACTION,
+  riskLevel: RiskLevel.MEDIUM,
+  reversible: false,
+  estimateCost: input => input.amount,
+  run: async (input, services) => requireService(services, 'blockchain', 'tip').transferTokens(input.recipient, input.amount)
+});
+
+const swapTool = defineTool({
+  name: 'swap',
+  description: 'Swap one token for another through Symphony',
+  input: z.object({
+    tokenIn: z.string().min(1),
+    tokenOut: z.string().min(1),
+    amountIn: z.number().positive(),
+    slippage: z.number().min(0).max(50).optional()
+  }),
+  output: z.object({
+    success: z.boolean(),
+    transactionHash: z.string().optional()
+  }),
+  decisionType: DecisionType.FINANCIAL_TRANSACTION,
+  riskLevel: RiskLevel.MEDIUM,
+  reversible: false,
+  // Whatever goes in counts against spending limits at its SEI value
+  estimateCost: async (input, services) => {
+    if (input.tokenIn.toUpperCase() === 'SEI') return input.amountIn;
+
+    const oracle = requireService(services, 'priceOracle', 'swap');
+    return input.amountIn * await oracle.getUsdPrice(input.tokenIn) / await oracle.getUsdPrice('SEI');
+  },
+  run: async (input, services) => {
+    const result = await requireService(services, 'defi', 'swap').swapTokens({
+      tokenIn: input.tokenIn,
+      tokenOut: input.tokenOut,
+      amountIn: input.amountIn.toString(),
+      slippage: input.slippage
+    });
+    return { success: true, transactionHash: result?.hash ?? result?.transactionHash };
+  }
+});
+
+const stakeTool = defineTool({
+  name: 'stake',
+  description: 'Stake SEI with a validator',
+  input: z.object({
+    amount: z.number().positive(),
+    validatorAddress: z.string().optional()
+  }),
+  output: TxResultSchema.extend({
+    stakedAmount: z.number().optional(),
+    validatorAddress: z.string().optional()
+  }),
+  decisionType: DecisionType.FINANCIAL_TRANSACTION,
+  riskLevel: RiskLevel.MEDIUM,
+  reversible: true,
+  estimateCost: input => input.amount,
+  run: async (input, services) =>
+    requireService(services, 'blockchain', 'stake').stakeSeiTokens(input.amount, input.validatorAddress)
+});
+
+const balanceTool = defineTool({
+  name: 'query-balance',
+  description: 'Read the agent wallet balance of SEI or an ERC-20 token',
+  input: z.object({
+    token: z.string().optional()
+  }),
+  output: z.object({
+    token: z.string(),
+    balance: z.number()
+  }),
+  decisionType: DecisionType.FINANCIAL_TRANSACTION,
+  riskLevel: RiskLevel.LOW,
+  reversible: true,
+  readOnly: true,
+  run: async (input, services) => ({
+    token: input.token ?? 'SEI',
+    balance: await requireService(services, 'blockchain', 'query-balance').getBalance(input.token)
+  })
+});
+
+const mintNftTool = defineTool({
+  name: 'mint-nft',
+  description: 'Mint an NFT from an ERC-721 collection the agent can mint on',
+  input: z.object({
+    contractAddress: z.string().min(1),
+    tokenURI: z.string().min(1),
+    // Defaults to the agent wallet
+    recipient: z.string().optional()
+  }),
+  output: z.object({
+    tokenId: z.string(),
+    transactionHash: z.string()
+  }),
+  decisionType: DecisionType.FINANCIAL_TRANSACTION,
+  riskLevel: RiskLevel.MEDIUM,
+  reversible: false,
+  // Gas only
+  estimateCost: () => 0.01,
+  run: async (input, services) => {
+    const defi = requireService(services, 'defi', 'mint-nft');
+    return defi.mintNFT(input.contractAddress, input.recipient ?? defi.getWalletAddress(), input.tokenURI);
+  }
+});
+
+const postTool = defineTool({
+  name: 'post',
+  description: 'Publish a text post on a connected platform',
+  input: z.object({
+    platform: z.string().min(1),
+    text: z.string().min(1).max(10000),
+    replyTo: z.string().optional()
+  }),
+  output: z.object({
+    success: z.boolean(),
+    postId: z.string().optional(),
+    url: z.string().optional(),
+    error: z.string().optional()
+  }),
+  decisionType: DecisionType.PLATFORM_INTERACTION,
+  riskLevel: RiskLevel.LOW,
+  reversible: true,
+  run: async (input, services) => {
+    const adapter = requireService(services, 'platforms', 'post').get(input.platform);
+    if (!adapter) {
+      throw new Error(`Platform ${input.platform} is not connected`);
+    }
+    const result = await adapter.post({ type: ContentType.TEXT, text: input.text, replyTo: input.replyTo });
+    return { success: result.success, postId: result.postId, url: result.url, error: result.error };
+  }
+});
+
+const contentGeneratorTool = defineTool({
+  name: 'content-generator',
+  description: 'Write post content from a prompt in the agent\'s communication style',
+  input: z.object({
+    type: z.nativeEnum(ContentType).default(ContentType.TEXT),
+    prompt: z.string().min(1),
+    style: z.record(z.any()).optional()
+  }),
+  output: z.object({
+    id: z.string(),
+    type: z.nativeEnum(ContentType),
+    text: z.string()
+  }),
+  decisionType: DecisionType.CONTENT_CREATION,
+  riskLevel: RiskLevel.LOW,
+  reversible: true,
+  run: async (input, services) => {
+    if (input.type !== ContentType.TEXT && input.type !== ContentType.THREAD) {
+      throw new Error(`content-generator cannot produce ${input.type} content`);
+    }
+    const completion = await requireService(services, 'openai', 'content-generator').chat.completions.create({
+      model: 'gpt-4-turbo-preview',
+      messages: [
+        {
+          role: 'system',
+          content: `Write social media content. Return only the post text.` +
+            (input.style ? ` Communication style: ${JSON.stringify(input.style)}.` : '')
+        },
+        { role: 'user', content: input.prompt }
+      ],
+      temperature: 0.8
+    });
+
+    const text = completion.choices[0].message.content?.trim();
+    if (!text) {
+      throw new Error('content-generator returned no text');
+    }
+    return {
+      id: `content_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type: input.type,
+      text
+    };
+  }
+});
+
+const BUILTIN_TOOLSETS: Record<string, AgentTool[]> = {
+  'social-media': [postTool],
+  'content-creation': [contentGeneratorTool],
+  'nft-minting': [mintNftTool, balanceTool],
+  'defi-protocols': [swapTool, stakeTool, balanceTool],
+  'tipping': [tipTool, balanceTool]
+};
+
+function requireService<K extends keyof ToolServices>(
+  services: ToolServices,
+  service: K,
+  tool: string
+): NonNullable<ToolServices[K]> {
+  const value = services[service];
+  if (!value) {
+    throw new Error(`Tool ${tool} needs the ${service} service`);
+  }
+  return value as NonNullable<ToolServices[K]>;
+}
+
+function describeParameters(schema: z.ZodTypeAny): Record<string, string> {
+  if (!(schema instanceof z.ZodObject)) return {};
+
+  const parameters: Record<string, string> = {};
+  for (const [field, type] of Object.entries(schema.shape as z.ZodRawShape)) {
+    const optional = type.isOptional();
+    let inner: z.ZodTypeAny = type;
+    while (inner instanceof z.ZodOptional || inner instanceof z.ZodDefault) {
+      inner = inner instanceof z.ZodOptional ? inner.unwrap() : inner.removeDefault();
+    }
+    const name = inner._def.typeName.replace(/^Zod/, '').toLowerCase();
+    parameters[field] = optional ? `${name}?` : name;
+  }
+  return parameters;
+}
+
+/**
+ * The actions an agent can take, grouped into toolsets it loads by agent
+ * type. Every tool declares typed input and output, the kind of decision a
+ * call is and what it is expected to cost, so the reasoning layer can see
+ * what is available and every call goes through the AutonomyController the
+ * same way: validated input, an approved decision, then validated output.
+ * Read-only tools skip the gate.
+ */
+export class ToolRegistry extends EventEmitter {
+  private services: ToolServices;
+  private autonomy?: AutonomyController;
+  private toolsets: Map<string, AgentTool[]> = new Map(Object.entries(BUILTIN_TOOLSETS));
+  // Loaded tools by name, with the toolset that provided them
+  private tools: Map<string, { tool: AgentTool; toolset: string }> = new Map();
+  private loadedToolsets: Set<string> = new Set();
+
+  constructor(config: ToolRegistryConfig = {}) {
+    super();
+    this.services = { ...config.services };
+    if (!this.services.openai && process.env.OPENAI_API_KEY) {
+      this.services.openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+    this.autonomy = config.autonomy;
+  }
+
+  /**
+   * Make a toolset available to `loadToolset`, adding to any tools it
+   * already has.
+   */
+  registerToolset(name: string, tools: AgentTool[]): void {
+    const existing = this.toolsets.get(name) ?? [];
+    this.toolsets.set(name, [...existing.filter(tool => !tools.some(t => t.name === tool.name)), ...tools]);
+
+    if (this.loadedToolsets.has(name)) {
+      for (const tool of tools) {
+        this.tools.set(tool.name, { tool, toolset: name });
+      }
+    }
+  }
+
+  /**
+   * Load a toolset's tools. Returns how many were loaded; a toolset
+   * nothing has registered loads none.
+   */
+  async loadToolset(name: string): Promise<number> {
+    const tools = this.toolsets.get(name);
+    if (!tools) {
+      logger.warn(`No tools registered for toolset ${name}`);
+      return 0;
+    }
+
+    for (const tool of tools) {
+      const loaded = this.tools.get(tool.name);
+      if (loaded && loaded.tool !== tool) {
+        throw new Error(`Tool ${tool.name} from ${name} conflicts with the one from ${loaded.toolset}`);
+      }
+      this.tools.set(tool.name, { tool, toolset: loaded?.toolset ?? name });
+    }
+    this.loadedToolsets.add(name);
+
+    logger.info(`Loaded toolset ${name}: ${tools.map(tool => tool.name).join(', ')}`);
+    return tools.length;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  listTools(): ToolDescriptor[] {
+    return Array.from(this.tools.values()).map(({ tool, toolset }) => ({
+      name: tool.name,
+      description: tool.description,
+      toolset,
+      decisionType: tool.decisionType,
+      riskLevel: tool.riskLevel,
+      reversible: tool.reversible,
+      readOnly: tool.readOnly ?? false,
+      costly: tool.estimateCost !== undefined,
+      parameters: describeParameters(tool.input)
+    }));
+  }
+
+  getLoadedToolsets(): string[] {
+    return Array.from(this.loadedToolsets);
+  }
+
+  /**
+   * Call a loaded tool. Throws if the input is invalid, its cost cannot be
+   * valued, the autonomy controller does not approve the call, the tool
+   * fails or it returns something other than its declared output.
+   */
+  async execute<T = any>(name: string, input: unknown, options: ToolCallOptions = {}): Promise<T> {
+    const loaded = this.tools.get(name);
+    if (!loaded) {
+      throw new Error(`Tool ${name} is not loaded`);
+    }
+    const { tool } = loaded;
+
+    const parsed = tool.input.safeParse(input);
+    if (!parsed.success) {
+      throw new Error(`Invalid input for ${name}: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+    }
+
+    const decision = await this.toDecision(tool, parsed.data, options);
+    if (this.autonomy && !tool.readOnly) {
+      const validation = await this.autonomy.validateDecision(decision);
+      if (!validation.approved) {
+        this.emit('tool_blocked', { tool: name, decision, reason: validation.reason });
+        throw new Error(`Tool ${name} was not approved: ${validation.reason}`);
+      }
+    }
+
+    const started = Date.now();
+    try {
+      const result = tool.output.parse(await tool.run(parsed.data, this.services));
+      this.emit('tool_executed', { tool: name, decisionId: decision.id, cost: decision.estimated_cost, durationMs: Date.now() - started });
+      return result;
+    } catch (error) {
+      logger.error(`Tool ${name} failed:`, error);
+      this.emit('tool_failed', {
+        tool: name,
+        decisionId: decision.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  private async toDecision(tool: AgentTool, input: any, options: ToolCallOptions): Promise<Decision> {
+    const cost = await tool.estimateCost?.(input, this.services);
+    return {
+      id: `tool_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type: tool.decisionType,
+      description: options.reason ? `${tool.name}: ${options.reason}` : tool.description,
+      context: {
+        platform: options.platform ?? input.platform,
+        target: input.recipient,
+        amount: cost,
+        currency: cost !== undefined ? 'SEI' : undefined,
+        urgency: 'low',
+        potential_impact: tool.riskLevel === RiskLevel.LOW ? 'minimal' : 'moderate',
+        reversible: tool.reversible,
+        precedent_exists: true
+      },
+      risk_level: tool.riskLevel,
+      estimated_cost: cost,
+      timestamp: Date.now(),
+      confidence: options.confidence ?? 0.8
+    };
+  }
+}
@@ -0,0 +1,311 @@
+import { EventEmitter } from 'events';
+import path from 'path';
+import { ethers } from 'ethers';
+import { JsonFileStore, DEFAULT_DATA_DIR } from '../storage/file-store';
+import {
+  isEvmAddress,
+  isSeiAddress,
+  addressesFromPublicKey,
+  lookupSeiAddress,
+  lookupEvmAddress
+} from '../blockchain/sei-address';
+import { logger } from '../utils/logger';
+
+export interface CreatorWallet {
+  platform: string;
+  userId: string;
+  username?: string;
+  evmAddress?: string;
+  seiAddress?: string;
+  source: 'contract' | 'signed_claim';
+  verifiedAt: number;
+  transactionHash?: string;
+}
+
+export interface ClaimChallenge {
+  platform: string;
+  userId: string;
+  nonce: string;
+  // Signed with the wallet
+  message: string;
+  // Posted (or sent to the agent) from the social account
+  proof: string;
+  expiresAt: number;
+  // When the proof was seen coming from the account
+  accountVerifiedAt?: number;
+}
+
+export interface CreatorRegistryConfig {
+  dataDir?: string;
+  rpcUrl?: string;
+  hubAddress?: string;
+  fromBlock?: number;
+  claimTtlSeconds?: number;
+}
+
+const HUB_EVENTS_ABI = [
+  'event CreatorRegistered(string platformId, address wallet, string platform, string username)'
+];
+
+/**
+ * Maps social identities (platform + user id) to verified Sei wallets.
+ * Entries come either from SocialTippingHub `CreatorRegistered` events or
+ * from a creator proving both sides of a one-time challenge: posting its
+ * proof from the social account and signing its message with the wallet.
+ */
+export class CreatorRegistry extends EventEmitter {
+  private config: CreatorRegistryConfig;
+  private store: JsonFileStore<Record<string, CreatorWallet>>;
+  private wallets: Map<string, CreatorWallet> = new Map();
+  private challenges: Map<string, ClaimChallenge> = new Map();
+  private provider?: ethers.JsonRpcProvider;
+  private hub?: ethers.Contract;
+  private isInitialized: boolean = false;
+
+  constructor(config: CreatorRegistryConfig = {}) {
+    super();
+    this.config = config;
+    this.store = new JsonFileStore(
+      path.join(config.dataDir || DEFAULT_DATA_DIR, 'creator-wallets.json'),
+      {}
+    );
+
+    if (config.rpcUrl) {
+      this.provider = new ethers.JsonRpcProvider(config.rpcUrl);
+    }
+    if (this.provider && config.hubAddress) {
+      this.hub = new ethers.Contract(config.hubAddress, HUB_EVENTS_ABI, this.provider);
+    }
+  }
+
+  static key(platform: string, userId: string): string {
+    return `${platform}:${userId}`;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
+
+    const stored = await this.store.load();
+    for (const [key, wallet] of Object.entries(stored)) {
+      this.wallets.set(key, wallet);
+    }
+
+    if (this.hub) {
+      try {
+        await this.syncFromContract(this.config.fromBlock);
+        this.hub.on('CreatorRegistered', (platformId, wallet, platform, username, event) => {
+          this.registerFromEvent(platformId, wallet, platform, username, event?.log?.transactionHash)
+            .catch(error => logger.error('Failed to record CreatorRegistered event:', error));
+        });
+      } catch (error) {
+        logger.warn('Could not sync creator registry from SocialTippingHub:', error);
+      }
+    }
+
+    this.isInitialized = true;
+    logger.info(`Creator registry loaded ${this.wallets.size} wallets`);
+  }
+
+  /**
+   * Replay historical CreatorRegistered events from the hub contract.
+   */
+  async syncFromContract(fromBlock: number = 0): Promise<number> {
+    if (!this.hub) return 0;
+
+    const events = await this.hub.queryFilter('CreatorRegistered', fromBlock);
+    for (const event of events) {
+      if (!('args' in event)) continue;
+      const [platformId, wallet, platform, username] = event.args;
+      await this.registerFromEvent(platformId, wallet, platform, username, event.transactionHash);
+    }
+
+    logger.info(`Synced ${events.length} creator registrations from SocialTippingHub`);
+    return events.length;
+  }
+
+  async registerFromEvent(
+    platformId: string,
+    wallet: string,
+    platform: string,
+    username: string,
+    transactionHash?: string
+  ): Promise<CreatorWallet> {
+    return this.link({
+      platform,
+      userId: platformId,
+      username,
+      evmAddress: ethers.getAddress(wallet),
+      source: 'contract',
+      verifiedAt: Date.now(),
+      transactionHash
+    });
+  }
+
+  /**
+   * Issue a one-time challenge for linking a wallet to a social account.
+   * The creator posts `proof` from the account and signs `message` with
+   * the wallet. The challenge expires after `claimTtlSeconds`.
+   */
+  createClaimChallenge(platform: string, userId: string): ClaimChallenge {
+    const nonce = ethers.hexlify(ethers.randomBytes(16));
+    const code = ethers.hexlify(ethers.randomBytes(6)).slice(2);
+    const expiresAt = Date.now() + (this.config.claimTtlSeconds ?? 900) * 1000;
+    const challenge: ClaimChallenge = {
+      platform,
+      userId,
+      nonce,
+      expiresAt,
+      proof: `Linking my wallet for Sei Social Tipping: sei-claim-${code}`,
+      message:
+        `Link ${platform} account ${userId} to this wallet for Sei Social Tipping.\n` +
+        `Nonce: ${nonce}\n` +
+        `Expires: ${new Date(expiresAt).toISOString()}`
+    };
+
+    this.challenges.set(nonce, challenge);
+    return challenge;
+  }
+
+  /**
+   * Check a post or message seen from a social account for the proof of one
+   * of its open challenges. Returns true if it proved one.
+   */
+  recordAccountPost(platform: string, userId: string, text: string): boolean {
+    let proven = false;
+    for (const challenge of this.challenges.values()) {
+      if (challenge.platform !== platform || challenge.userId !== userId) continue;
+      if (challenge.expiresAt < Date.now() || !text.includes(challenge.proof)) continue;
+
+      challenge.accountVerifiedAt = Date.now();
+      proven = true;
+      logger.info(`${platform} account ${userId} posted its wallet claim proof`);
+    }
+    return proven;
+  }
+
+  /**
+   * Verify a signed claim challenge whose proof the account has posted and
+   * link the signer's wallet, replacing any wallet linked before. Both the
+   * EVM and bech32 addresses are derived from the recovered public key.
+   */
+  async verifyClaim(nonce: string, signature: string): Promise<CreatorWallet> {
+    const challenge = this.challenges.get(nonce);
+    if (!challenge) {
+      throw new Error('Unknown or already used claim challenge');
+    }
+
+    if (challenge.expiresAt < Date.now()) {
+      this.challenges.delete(nonce);
+      throw new Error('Claim challenge has expired');
+    }
+
+    // Only the account itself can post the proof; the signature alone
+    // shows control of a wallet, not of the account
+    if (!challenge.accountVerifiedAt) {
+      throw new Error(
+        `Post "${challenge.proof}" from ${challenge.platform} account ${challenge.userId} before claiming`
+      );
+    }
+
+    this.challenges.delete(nonce);
+
+    const publicKey = ethers.SigningKey.recoverPublicKey(
+      ethers.hashMessage(challenge.message),
+      signature
+    );
+    const { evmAddress, seiAddress } = addressesFromPublicKey(publicKey);
+
+    return this.link({
+      platform: challenge.platform,
+      userId: challenge.userId,
+      evmAddress,
+      seiAddress,
+      source: 'signed_claim',
+      verifiedAt: Date.now()
+    });
+  }
+
+  get(platform: string, userId: string): CreatorWallet | undefined {
+    return this.wallets.get(CreatorRegistry.key(platform, userId));
+  }
+
+  /**
+   * Resolve a creator to a wallet address in the requested form, using the
+   * chain's address association when only the other form is known.
+   */
+  async resolveAddress(
+    platform: string,
+    userId: string,
+    format: 'evm' | 'sei' = 'evm'
+  ): Promise<string | undefined> {
+    const wallet = this.get(platform, userId);
+    if (!wallet) return undefined;
+
+    if (format === 'evm') {
+      if (!wallet.evmAddress && wallet.seiAddress) {
+        wallet.evmAddress = await this.toEvmAddress(wallet.seiAddress);
+        if (wallet.evmAddress) await this.persist();
+      }
+      return wallet.evmAddress;
+    }
+
+    if (!wallet.seiAddress && wallet.evmAddress) {
+      wallet.seiAddress = await this.toSeiAddress(wallet.evmAddress);
+      if (wallet.seiAddress) await this.persist();
+    }
+    return wallet.seiAddress;
+  }
+
+  async toEvmAddress(address: string): Promise<string | undefined> {
+    if (isEvmAddress(address)) return ethers.getAddress(address);
+    if (!isSeiAddress(address) || !this.provider) return undefined;
+    return lookupEvmAddress(address, this.provider);
+  }
+
+  async toSeiAddress(address: string): Promise<string | undefined> {
+    if (isSeiAddress(address)) return address;
+    if (!isEvmAddress(address) || !this.provider) return undefined;
+    return lookupSeiAddress(address, this.provider);
+  }
+
+  getAll(): CreatorWallet[] {
+    return Array.from(this.wallets.values());
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.hub) {
+      await this.hub.removeAllListeners();
+    }
+    this.challenges.clear();
+    this.isInitialized = false;
+  }
+
+  private async link(wallet: CreatorWallet): Promise<CreatorWallet> {
+    const key = CreatorRegistry.key(wallet.platform, wallet.userId);
+    const existing = this.wallets.get(key);
+    const linked: CreatorWallet = {
+      ...wallet,
+      username: wallet.username ?? existing?.username
+    };
+
+    const previous = existing?.evmAddress || existing?.seiAddress;
+    if (previous && previous !== (linked.evmAddress || linked.seiAddress)) {
+      logger.warn(`Replacing ${wallet.platform} creator ${wallet.userId} wallet ${previous} (${wallet.source})`);
+    }
+
+    this.wallets.set(key, linked);
+    await this.persist();
+
+    logger.info(
+      `Linked ${wallet.platform} creator ${wallet.userId} to ` +
+      `${linked.evmAddress || linked.seiAddress} (${wallet.source})`
+    );
+    this.emit('creatorLinked', linked);
+
+    return linked;
+  }
+
+  private async persist(): Promise<void> {
+    await this.store.save(Object.fromEntries(this.wallets));
+  }
+}
@@ -2,10 +2,25 @@ import 'dotenv/config';
 import express from 'express';
 import cron from 'node-cron';
 import { DeFiAgent } from './core/defi-agent';
+import { AutonomyLevel } from './autonomy/autonomy-controller';
+import { createControlApi } from './api/control-api';
+import { Authenticator, authenticate, loadAuthConfig, requireRole } from './api/auth';
+import { AgentEventStream, createEventStreamApi } from './api/event-stream';
+import { allowOrigins, loadCorsOrigins } from './api/cors';
 import { logger } from './utils/logger';
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // Keep the raw body so wallet-signed requests can be verified byte for byte
+  verify: (req, _res, buf) => {
+    (req as express.Request).rawBody = buf;
+  }
+}));
+
+// The dashboard's browser origin; preflights are answered before auth
+app.use(allowOrigins(loadCorsOrigins()));
+
+const authenticator = new Authenticator(loadAuthConfig());
 
 // Initialize agent with DeFi configuration
 const agent = new DeFiAgent({
@@ -28,7 +43,45 @@ const agent = new DeFiAgent({
   tipping: {
     dailyBudget: parseFloat(process.env.DAILY_BUDGET || '10'),
     minQualityScore: parseInt(process.env.MIN_QUALITY_SCORE || '70'),
-    maxTipAmount: parseFloat(process.env.MAX_TIP_AMOUNT || '1')
+    maxTipAmount: parseFloat(process.env.MAX_TIP_AMOUNT || '1'),
+    creatorCooldownMinutes: parseInt(process.env.CREATOR_COOLDOWN_MINUTES || '60'),
+    escrowExpiryHours: parseInt(process.env.ESCROW_EXPIRY_HOURS || '168'),
+    claimBaseUrl: process.env.CLAIM_BASE_URL || `http://localhost:${process.env.PORT || 3000}`,
+    dailyBudgetUsd: process.env.DAILY_BUDGET_USD ? parseFloat(process.env.DAILY_BUDGET_USD) : undefined,
+    defaultAsset: process.env.TIP_ASSET || undefined,
+    creatorTokenTips: process.env.CREATOR_TOKEN_TIPS === 'true',
+    batching: process.env.TIP_BATCHING === 'true'
+      ? {
+          windowMinutes: parseFloat(process.env.TIP_BATCH_WINDOW_MINUTES || '10'),
+          thresholdAmount: process.env.TIP_BATCH_THRESHOLD ? parseFloat(process.env.TIP_BATCH_THRESHOLD) : undefined,
+          maxBatchedTip: process.env.TIP_BATCH_MAX_TIP ? parseFloat(process.env.TIP_BATCH_MAX_TIP) : undefined
+        }
+      : undefined
+  },
+
+  // Assets tips can be paid in besides SEI
+  assets: {
+    tokens: process.env.USDC_ADDRESS ? [{ symbol: 'USDC', address: process.env.USDC_ADDRESS }] : []
+  },
+
+  // USD prices: on-chain feed first, then DEX TWAP, then static prices
+  prices: {
+    feeds: process.env.SEI_USD_FEED ? { SEI: process.env.SEI_USD_FEED } : undefined,
+    twapPools: process.env.SEI_USDC_POOL
+      ? {
+          SEI: {
+            pool: process.env.SEI_USDC_POOL,
+            baseIsToken0: process.env.SEI_USDC_POOL_SEI_IS_TOKEN0 !== 'false',
+            baseDecimals: 18,
+            quoteDecimals: 6
+          }
+        }
+      : undefined,
+    staticPrices: process.env.PRICES_FILE || {
+      ...(process.env.SEI_USD_PRICE ? { SEI: parseFloat(process.env.SEI_USD_PRICE) } : {}),
+      USDC: 1
+    },
+    maxAgeMs: parseInt(process.env.PRICE_MAX_AGE_MINUTES || '10') * 60 * 1000
   },
   
   // Investment features
@@ -42,12 +95,47 @@ const agent = new DeFiAgent({
   // Platform configuration
   platforms: (process.env.PLATFORMS || 'twitter').split(','),
   
+  // Autonomy guardrails
+  autonomy: {
+    level: (process.env.AUTONOMY_LEVEL || AutonomyLevel.AUTONOMOUS) as AutonomyLevel,
+    spendingLimits: {
+      dailyLimit: parseFloat(process.env.DAILY_BUDGET || '10'),
+      perTransactionLimit: parseFloat(process.env.PER_TRANSACTION_LIMIT || '100'),
+      platformLimits: {},
+      approvalRequiredAbove: parseFloat(process.env.APPROVAL_REQUIRED_ABOVE || '50'),
+      currencyLimits: {}
+    }
+  },
+  
+  // Withdrawals of agent funds (POST /withdraw); disabled without an address
+  withdrawals: process.env.WITHDRAWAL_ADDRESS ? {
+    destinationAddress: process.env.WITHDRAWAL_ADDRESS,
+    whitelist: (process.env.WITHDRAWAL_WHITELIST || '').split(',').filter(Boolean),
+    minimumBalance: parseFloat(process.env.WITHDRAWAL_MINIMUM_BALANCE || '0'),
+    frequency: (process.env.WITHDRAWAL_FREQUENCY || 'daily') as 'daily' | 'weekly' | 'monthly',
+    autoWithdraw: false,
+    gasBuffer: parseFloat(process.env.WITHDRAWAL_GAS_BUFFER || '1'),
+    timeLockHours: process.env.WITHDRAWAL_TIME_LOCK_HOURS ? parseFloat(process.env.WITHDRAWAL_TIME_LOCK_HOURS) : undefined,
+    timeLockAbove: process.env.WITHDRAWAL_TIME_LOCK_ABOVE ? parseFloat(process.env.WITHDRAWAL_TIME_LOCK_ABOVE) : undefined,
+    approvers: (process.env.WITHDRAWAL_APPROVERS || '').split(',').filter(Boolean),
+    requiredApprovals: parseInt(process.env.WITHDRAWAL_REQUIRED_APPROVALS || '0')
+  } : undefined,
+  
   // Content preferences
   preferences: {
     topics: (process.env.TOPICS || 'sei,blockchain,web3,defi,ai').split(','),
     creators: (process.env.FAVORITE_CREATORS || '').split(',').filter(Boolean),
     keywords: (process.env.KEYWORDS || '#sei,#defi,#web3').split(',')
-  }
+  },
+  
+  // Offline mode: local chain, x402 facilitator and a scripted content feed
+  simulation: process.env.SIMULATION_MODE === 'true' ? {
+    feed: process.env.SIMULATION_FEED || 'scripts/fixtures/sample-feed.jsonl',
+    feedIntervalMs: parseInt(process.env.SIMULATION_FEED_INTERVAL_MS || '1000'),
+    initialBalance: parseFloat(process.env.INITIAL_BALANCE || '100'),
+    rpcPort: parseInt(process.env.SIMULATION_RPC_PORT || '8545'),
+    facilitatorPort: parseInt(process.env.SIMULATION_FACILITATOR_PORT || '3402')
+  } : undefined
 });
 
 // API endpoints
@@ -59,7 +147,7 @@ app.get('/health', (req, res) => {
   });
 });
 
-app.get('/stats', async (req, res) => {
+app.get('/stats', authenticate(authenticator), requireRole('viewer'), async (req, res) => {
   try {
     const analytics = await agent.getAnalytics();
     res.json(analytics);
@@ -68,7 +156,7 @@ app.get('/stats', async (req, res) => {
   }
 });
 
-app.get('/treasury', async (req, res) => {
+app.get('/treasury', authenticate(authenticator), requireRole('viewer'), async (req, res) => {
   try {
     const treasury = await agent.getAnalytics();
     res.json(treasury.treasury);
@@ -77,16 +165,48 @@ app.get('/treasury', async (req, res) => {
   }
 });
 
-app.post('/tip', async (req, res) => {
-  // Manual tip endpoint for testing
-  res.json({ message: 'Manual tipping endpoint - coming soon' });
+// Wallet claim flow for creators with escrowed tips: post the challenge's
+// proof from the account, then sign its message with the wallet
+app.get('/claim', (req, res) => {
+  const { platform, userId } = req.query;
+  if (typeof platform !== 'string' || typeof userId !== 'string') {
+    return res.status(400).json({ error: 'platform and userId are required' });
+  }
+  
+  return res.json(agent.createWalletClaim(platform, userId));
 });
 
-// Reset daily budget at midnight
+app.post('/claim', async (req, res) => {
+  const { nonce, signature } = req.body || {};
+  if (typeof nonce !== 'string' || typeof signature !== 'string') {
+    return res.status(400).json({ error: 'nonce and signature are required' });
+  }
+  
+  try {
+    const wallet = await agent.verifyWalletClaim(nonce, signature);
+    return res.json(wallet);
+  } catch (error: any) {
+    return res.status(400).json({ error: error.message });
+  }
+});
+
+// Live activity feed (SSE) with replay from the last seen event id
+const eventStream = new AgentEventStream(parseInt(process.env.EVENT_STREAM_BUFFER || '1000'));
+eventStream.attach(agent);
+
+// Everything below authenticates once. The dashboard reaches the stream
+// through its server-side proxy, so keys never go in URLs
+app.use(authenticate(authenticator));
+app.use(createEventStreamApi(eventStream));
+
+// Control API (manual tips, monitoring, config, approvals, history, withdrawals)
+app.use(createControlApi(agent));
+
+// Roll the daily budget over at midnight UTC
 cron.schedule('0 0 * * *', () => {
   logger.info('Daily budget reset triggered');
-  // Agent handles this internally
-});
+  agent.rolloverDailyBudget();
+}, { timezone: 'Etc/UTC' });
 
 // Start server and agent
 async function start() {
@@ -113,6 +233,7 @@ async function start() {
     // Handle shutdown gracefully
     process.on('SIGINT', async () => {
       logger.info('Received SIGINT, shutting down gracefully...');
+      eventStream.detach();
       await agent.shutdown();
       process.exit(0);
     });
@@ -137,9 +258,21 @@ agent.on('treasuryUpdate', (metrics) => {
   logger.info(`Treasury: ${metrics.totalValue.toFixed(2)} SEI @ ${metrics.totalAPY.toFixed(2)}% APY`);
 });
 
+agent.on('dailyRollover', (closed) => {
+  logger.info(`Closed budget day ${closed.day}: ${closed.spent.toFixed(4)} SEI across ${closed.count} investments`);
+});
+
+agent.on('tipEscrowed', (record) => {
+  logger.info(`Escrowed ${record.amount} SEI for ${record.platform} creator ${record.creatorId}`);
+});
+
 agent.on('investmentFailed', ({ decision, error }) => {
   logger.error(`Failed investment for ${decision.creator}:`, error);
 });
 
+agent.on('investmentEscalated', ({ decision, reason, requestId }) => {
+  logger.warn(`Investment for ${decision.creator} awaiting approval ${requestId}: ${reason}`);
+});
+
 // Start the agent
 start().catch(console.error);
\ No newline at end of file
@@ -1,14 +1,20 @@
 import { X402Client } from './x402-client';
+import { TipAssets, NATIVE_ASSET } from './tip-assets';
+import { PriceOracle } from '../blockchain/price-oracle';
+import { CreatorRegistry } from '../identity/creator-registry';
+import { isEvmAddress, isSeiAddress } from '../blockchain/sei-address';
 import { logger } from '../utils/logger';
 
 interface PaymentRequest {
   recipient: string;
+  // Platform the recipient handle belongs to, used for registry lookups
+  platform?: string;
   amount: number;
   currency: string;
   memo?: string;
 }
 
-interface PaymentResponse {
+export interface PaymentResponse {
   transactionHash: string;
   status: 'pending' | 'confirmed' | 'failed';
   timestamp: Date;
@@ -21,9 +27,13 @@ export class PaymentProcessor {
   private totalFees: number = 0;
   private isInitialized: boolean = false;
   private paymentHistory: PaymentResponse[] = [];
+  private creatorRegistry?: CreatorRegistry;
+  private tipAssets?: TipAssets;
+  private priceOracle?: PriceOracle;
 
-  constructor() {
-    this.x402Client = new X402Client({
+  constructor(creatorRegistry?: CreatorRegistry, x402Client?: X402Client) {
+    this.creatorRegistry = creatorRegistry;
+    this.x402Client = x402Client ?? new X402Client({
       facilitatorUrl: process.env.X402_FACILITATOR_URL || 'http://localhost:3001',
       privateKey: process.env.SEI_PRIVATE_KEY,
       network: process.env.SEI_NETWORK === 'mainnet' ? 'sei-pacific' : 'sei-arctic'
@@ -52,6 +62,20 @@ export class PaymentProcessor {
     }
   }
 
+  /**
+   * Enable tips in ERC-20 tokens. Without this only SEI can be sent.
+   */
+  setTipAssets(tipAssets: TipAssets): void {
+    this.tipAssets = tipAssets;
+  }
+
+  /**
+   * Source of the SEI/USD price balances are reported with
+   */
+  setPriceOracle(priceOracle: PriceOracle): void {
+    this.priceOracle = priceOracle;
+  }
+
   async sendTip(request: PaymentRequest): Promise<PaymentResponse> {
     if (!this.isInitialized) {
       await this.initialize();
@@ -61,7 +85,12 @@ export class PaymentProcessor {
 
     try {
       // Validate recipient address
-      const recipientAddress = await this.resolveRecipientAddress(request.recipient);
+      const recipientAddress = await this.resolveRecipientAddress(request.recipient, request.platform);
+
+      const currency = request.currency || NATIVE_ASSET;
+      if (currency.toUpperCase() !== NATIVE_ASSET) {
+        return await this.sendTokenTip(recipientAddress, request.amount, currency);
+      }
 
       // Calculate fees
       const fee = this.calculateFee(request.amount);
@@ -70,7 +99,7 @@ export class PaymentProcessor {
       const x402Response = await this.x402Client.sendPayment({
         recipient: recipientAddress,
         amount: request.amount,
-        currency: request.currency || 'SEI',
+        currency,
         memo: request.memo || 'Social tip via Sei Tipping Agent'
       });
 
@@ -106,32 +135,54 @@ export class PaymentProcessor {
     }
   }
 
-  private async resolveRecipientAddress(recipient: string): Promise<string> {
-    // If it's already a valid address, return it
-    if (this.isValidAddress(recipient)) {
-      return recipient;
+  private async sendTokenTip(recipient: string, amount: number, currency: string): Promise<PaymentResponse> {
+    if (!this.tipAssets) {
+      throw new Error(`Tips in ${currency} are not enabled`);
     }
 
-    // For social media handles, try to resolve from our registry
-    // In production, this would query a mapping service
-    logger.info(`Resolving recipient address for: ${recipient}`);
-    
-    // For now, return as-is and let the payment processor handle it
-    return recipient;
+    // Top up from SEI if the treasury is short of the token
+    await this.tipAssets.ensureBalance(currency, amount);
+    const transactionHash = await this.tipAssets.transfer(currency, recipient, amount);
+
+    const paymentResponse: PaymentResponse = {
+      transactionHash,
+      status: 'confirmed',
+      timestamp: new Date(),
+      fee: 0,
+      explorerUrl: this.getExplorerUrl(transactionHash)
+    };
+    this.paymentHistory.push(paymentResponse);
+
+    logger.info(`Token tip sent: ${amount} ${currency} to ${recipient} (${transactionHash})`);
+    return paymentResponse;
   }
 
-  private isValidAddress(address: string): boolean {
-    // Check for Sei address format (sei1...)
-    if (address.startsWith('sei1') && address.length === 43) {
-      return true;
+  private async resolveRecipientAddress(recipient: string, platform?: string): Promise<string> {
+    // x402 settles on the EVM side, so EVM addresses are used as-is
+    if (isEvmAddress(recipient)) {
+      return recipient;
+    }
+
+    // Bech32 addresses need their associated EVM account
+    if (isSeiAddress(recipient)) {
+      const evmAddress = await this.creatorRegistry?.toEvmAddress(recipient);
+      if (!evmAddress) {
+        throw new Error(`No EVM address associated with ${recipient}`);
+      }
+      return evmAddress;
     }
-    
-    // Check for Ethereum/EVM address format (0x...)
-    if (address.startsWith('0x') && address.length === 42) {
-      return true;
+
+    // Social media handles are resolved through the creator registry
+    logger.info(`Resolving recipient address for: ${recipient}`);
+    const resolved = platform
+      ? await this.creatorRegistry?.resolveAddress(platform, recipient, 'evm')
+      : undefined;
+
+    if (!resolved) {
+      throw new Error(`No verified wallet registered for ${platform || 'unknown'} creator ${recipient}`);
     }
-    
-    return false;
+
+    return resolved;
   }
 
   private calculateFee(amount: number): number {
@@ -146,11 +197,13 @@ export class PaymentProcessor {
     return `https://seitrace.com/tx/${txHash}?chain=${network}`;
   }
 
+  async getSeiBalance(): Promise<number> {
+    return this.x402Client.getBalance();
+  }
+
   async getBalance(): Promise<{ sei: number; usd: number }> {
     try {
-      const seiBalance = await this.x402Client.getBalance();
-      
-      // Get USD price (mock for now, integrate with price oracle)
+      const seiBalance = await this.getSeiBalance();
       const usdPrice = await this.getSeiUsdPrice();
       
       return {
@@ -164,9 +217,10 @@ export class PaymentProcessor {
   }
 
   private async getSeiUsdPrice(): Promise<number> {
-    // In production, fetch from CoinGecko or similar
-    // For now, return mock price
-    return 0.50; // $0.50 per SEI
+    if (!this.priceOracle) {
+      throw new Error('No price oracle configured for USD balances');
+    }
+    return this.priceOracle.getUsdPrice(NATIVE_ASSET);
   }
 
   async withdraw(address: string, amount: number): Promise<string> {
@@ -0,0 +1,309 @@
+import { EventEmitter } from 'events';
+import { ethers } from 'ethers';
+import { X402Client } from './x402-client';
+import { toWei } from './tip-assets';
+import type { PaymentPayload, PaymentResult } from './x402-integration';
+import { logger } from '../utils/logger';
+
+export interface StreamVoucher {
+  streamId: string;
+  payer: string;
+  payee: string;
+  // Total owed since the stream opened, in wei
+  cumulativeAmount: string;
+  sequence: number;
+  timestamp: number;
+  signature: string;
+}
+
+export type UnsignedStreamVoucher = Omit<StreamVoucher, 'payer' | 'signature'>;
+
+/**
+ * The paying side of a stream: signs a voucher each interval and, at
+ * checkpoints, an x402 payment for what has been vouched but not settled.
+ */
+export interface StreamPayer {
+  getAddress(): string;
+  signVoucher(voucher: UnsignedStreamVoucher): Promise<StreamVoucher>;
+  createCheckpointPayment(streamId: string, payee: string, amount: bigint): Promise<PaymentPayload>;
+}
+
+export interface PaymentStreamConfig {
+  id: string;
+  serviceId: string;
+  payee: string;
+  // SEI per hour
+  rate: number;
+  // Voucher granularity (default 60s)
+  intervalSeconds?: number;
+  // Settle on-chain after this many vouchers (default 10)
+  checkpointEvery?: number;
+  // Close the stream after this many seconds
+  duration?: number;
+}
+
+export interface StreamCheckpoint {
+  streamId: string;
+  amount: number;
+  totalSettled: number;
+  transactionHash: string;
+  payer: string;
+  timestamp: number;
+  final: boolean;
+}
+
+export type StreamSettler = (payload: PaymentPayload, amount: bigint) => Promise<PaymentResult>;
+
+export function streamVoucherDigest(voucher: Omit<StreamVoucher, 'signature'>): string {
+  return ethers.solidityPackedKeccak256(
+    ['string', 'address', 'address', 'uint256', 'uint256', 'uint256'],
+    [
+      voucher.streamId,
+      voucher.payer,
+      voucher.payee,
+      voucher.cumulativeAmount,
+      voucher.sequence,
+      voucher.timestamp
+    ]
+  );
+}
+
+export function recoverVoucherSigner(voucher: StreamVoucher): string {
+  return ethers.verifyMessage(ethers.getBytes(streamVoucherDigest(voucher)), voucher.signature);
+}
+
+/**
+ * StreamPayer backed by the agent's own X402Client. Refuses to vouch for
+ * more than the wallet can still cover, which is how a stream learns the
+ * payer has run dry.
+ */
+export class X402StreamPayer implements StreamPayer {
+  private client: X402Client;
+  private checkpointed: Map<string, bigint> = new Map();
+
+  constructor(client: X402Client) {
+    this.client = client;
+  }
+
+  getAddress(): string {
+    return this.client.getWalletAddress();
+  }
+
+  async signVoucher(voucher: UnsignedStreamVoucher): Promise<StreamVoucher> {
+    const outstanding = BigInt(voucher.cumulativeAmount) - (this.checkpointed.get(voucher.streamId) ?? 0n);
+    const balance = toWei(await this.client.getBalance());
+    if (balance < outstanding) {
+      throw new Error(`Insufficient balance to vouch ${ethers.formatEther(outstanding)} SEI`);
+    }
+
+    const unsigned = { ...voucher, payer: this.getAddress() };
+    return { ...unsigned, signature: await this.client.signDigest(streamVoucherDigest(unsigned)) };
+  }
+
+  async createCheckpointPayment(streamId: string, payee: string, amount: bigint): Promise<PaymentPayload> {
+    const payload = await this.client.createPaymentPayload({
+      recipient: payee,
+      amount: parseFloat(ethers.formatEther(amount)),
+      amountWei: amount.toString(),
+      currency: 'SEI',
+      memo: `Stream ${streamId} checkpoint`
+    });
+    this.checkpointed.set(streamId, (this.checkpointed.get(streamId) ?? 0n) + amount);
+    return payload;
+  }
+}
+
+/**
+ * Receiving end of a streaming payment. Every interval the payer signs a
+ * voucher for the cumulative amount owed; vouchers cost nothing to issue and
+ * only the latest matters. Every `checkpointEvery` vouchers the unsettled
+ * difference is paid on-chain through x402. Stopping, reaching the duration,
+ * or the payer failing to vouch closes the stream and settles the rest.
+ */
+export class PaymentStream extends EventEmitter {
+  public id: string;
+  private config: Required<Omit<PaymentStreamConfig, 'duration'>> & { duration?: number };
+  private payer: StreamPayer;
+  private settle: StreamSettler;
+  private amountPerInterval: bigint;
+  private sequence: number = 0;
+  private vouched: bigint = 0n;
+  private settled: bigint = 0n;
+  private checkpoints: StreamCheckpoint[] = [];
+  private startTime: number = 0;
+  private active: boolean = false;
+  private interval?: NodeJS.Timeout;
+  private durationTimer?: NodeJS.Timeout;
+  // Ticks, checkpoints and closeout run one at a time
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(config: PaymentStreamConfig, payer: StreamPayer, settle: StreamSettler) {
+    super();
+    this.id = config.id;
+    this.config = {
+      ...config,
+      intervalSeconds: config.intervalSeconds ?? 60,
+      checkpointEvery: config.checkpointEvery ?? 10
+    };
+    this.payer = payer;
+    this.settle = settle;
+
+    const ratePerHour = toWei(config.rate);
+    this.amountPerInterval = ratePerHour * BigInt(this.config.intervalSeconds) / 3600n;
+    if (this.amountPerInterval <= 0n) {
+      throw new Error('Stream rate is too small for the voucher interval');
+    }
+  }
+
+  async start(): Promise<void> {
+    this.active = true;
+    this.startTime = Date.now();
+
+    this.interval = setInterval(() => {
+      this.enqueue(() => this.collectVoucher());
+    }, this.config.intervalSeconds * 1000);
+
+    // Auto-stop if duration is set
+    if (this.config.duration) {
+      this.durationTimer = setTimeout(() => {
+        this.stop('duration_reached');
+      }, this.config.duration * 1000);
+    }
+  }
+
+  /**
+   * Close the stream, settling everything vouched so far.
+   */
+  async stop(reason: string = 'stopped'): Promise<void> {
+    if (!this.active) return this.queue;
+
+    this.active = false;
+    clearInterval(this.interval);
+    clearTimeout(this.durationTimer);
+
+    return this.enqueue(async () => {
+      try {
+        await this.checkpoint(true);
+      } catch (error) {
+        logger.error(`Final settlement of stream ${this.id} failed:`, error);
+      }
+
+      this.emit('ended', {
+        streamId: this.id,
+        reason,
+        totalPaid: this.getTotalPaid(),
+        unsettled: parseFloat(ethers.formatEther(this.vouched - this.settled))
+      });
+    });
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  getTotalPaid(): number {
+    return parseFloat(ethers.formatEther(this.settled));
+  }
+
+  getTotalVouched(): number {
+    return parseFloat(ethers.formatEther(this.vouched));
+  }
+
+  getRate(): number {
+    return this.config.rate;
+  }
+
+  getStartTime(): number {
+    return this.startTime;
+  }
+
+  getCheckpoints(): StreamCheckpoint[] {
+    return [...this.checkpoints];
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async collectVoucher(): Promise<void> {
+    if (!this.active) return;
+
+    const sequence = this.sequence + 1;
+    const expected = this.amountPerInterval * BigInt(sequence);
+
+    let voucher: StreamVoucher;
+    try {
+      voucher = await this.payer.signVoucher({
+        streamId: this.id,
+        payee: this.config.payee,
+        cumulativeAmount: expected.toString(),
+        sequence,
+        timestamp: Math.floor(Date.now() / 1000)
+      });
+    } catch (error) {
+      logger.warn(`Payer stopped vouching for stream ${this.id}:`, error);
+      this.stop('payer_exhausted');
+      return;
+    }
+
+    if (!this.isValidVoucher(voucher, sequence, expected)) {
+      logger.warn(`Invalid voucher ${sequence} for stream ${this.id}`);
+      this.stop('invalid_voucher');
+      return;
+    }
+
+    this.sequence = sequence;
+    this.vouched = expected;
+    this.emit('voucher', voucher);
+
+    if (sequence % this.config.checkpointEvery === 0) {
+      try {
+        await this.checkpoint(false);
+      } catch (error) {
+        logger.error(`Checkpoint for stream ${this.id} failed:`, error);
+        this.stop('settlement_failed');
+      }
+    }
+  }
+
+  private isValidVoucher(voucher: StreamVoucher, sequence: number, expected: bigint): boolean {
+    try {
+      return (
+        voucher.streamId === this.id &&
+        voucher.sequence === sequence &&
+        BigInt(voucher.cumulativeAmount) === expected &&
+        ethers.getAddress(voucher.payee) === ethers.getAddress(this.config.payee) &&
+        ethers.getAddress(voucher.payer) === ethers.getAddress(this.payer.getAddress()) &&
+        recoverVoucherSigner(voucher) === ethers.getAddress(voucher.payer)
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  private async checkpoint(final: boolean): Promise<void> {
+    const amount = this.vouched - this.settled;
+    if (amount <= 0n) return;
+
+    const payload = await this.payer.createCheckpointPayment(this.id, this.config.payee, amount);
+    const result = await this.settle(payload, amount);
+    if (!result.success) {
+      throw new Error(`Checkpoint settlement rejected: ${result.error}`);
+    }
+
+    this.settled += amount;
+    const checkpoint: StreamCheckpoint = {
+      streamId: this.id,
+      amount: parseFloat(ethers.formatEther(amount)),
+      totalSettled: this.getTotalPaid(),
+      transactionHash: result.transactionHash!,
+      payer: result.payer || this.payer.getAddress(),
+      timestamp: Date.now(),
+      final
+    };
+    this.checkpoints.push(checkpoint);
+    this.emit('checkpoint', checkpoint);
+  }
+}
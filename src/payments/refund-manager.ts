@@ -0,0 +1,294 @@
+import { EventEmitter } from 'events';
+import path from 'path';
+import { ethers } from 'ethers';
+import { SplitTransferExecutor } from './revenue-splitter';
+import { toWei } from './tip-assets';
+import { JsonFileStore, JsonLinesLog, DEFAULT_DATA_DIR } from '../storage/file-store';
+import { logger } from '../utils/logger';
+
+export type RefundReason =
+  | 'service_failed'
+  | 'not_delivered'
+  | 'duplicate_payment'
+  | 'unsatisfactory'
+  | 'dispute'
+  | 'other';
+
+export interface RefundablePayment {
+  transactionHash: string;
+  serviceId: string;
+  payer: string;
+  amount: number;
+  refunded: number;
+  // Exact total refunded in wei; `refunded` is its rounded SEI value
+  refundedWei?: string;
+  timestamp: number;
+}
+
+export interface Refund {
+  id: string;
+  // The payment being refunded
+  transactionHash: string;
+  amount: number;
+  reason: RefundReason;
+  note?: string;
+  refundTransactionHash: string;
+  disputeId?: string;
+  timestamp: number;
+}
+
+export interface RefundRequest {
+  // Defaults to everything not yet refunded
+  amount?: number;
+  reason: RefundReason;
+  note?: string;
+}
+
+export type DisputeStatus = 'open' | 'refunded' | 'rejected';
+
+export interface Dispute {
+  id: string;
+  transactionHash: string;
+  openedBy: string;
+  reason: string;
+  status: DisputeStatus;
+  openedAt: number;
+  resolvedAt?: number;
+  resolution?: string;
+  refundId?: string;
+}
+
+export interface DisputeEvent {
+  disputeId: string;
+  transactionHash: string;
+  type: 'opened' | 'refunded' | 'rejected';
+  actor?: string;
+  detail: string;
+  timestamp: number;
+}
+
+export interface RefundConfig {
+  // Sends refunds from the agent wallet; WalletSplitExecutor works here
+  executor: SplitTransferExecutor;
+  dataDir?: string;
+  // Payments older than this cannot be refunded (default 30 days)
+  refundWindowDays?: number;
+}
+
+interface RefundState {
+  payments: Record<string, RefundablePayment>;
+  refunds: Refund[];
+  disputes: Record<string, Dispute>;
+}
+
+/**
+ * Refunds and disputes for payments the agent has received. Every settled
+ * payment is remembered by its transaction hash so it can later be refunded
+ * in full or in part, never beyond what was paid. Disputes are opened against
+ * the same hash and resolved by refunding or rejecting; each step is appended
+ * to the dispute log.
+ */
+export class RefundManager extends EventEmitter {
+  private executor: SplitTransferExecutor;
+  private refundWindowMs: number;
+  private store: JsonFileStore<RefundState>;
+  private disputeLog: JsonLinesLog<DisputeEvent>;
+  private state: RefundState = { payments: {}, refunds: [], disputes: {} };
+  private loaded?: Promise<void>;
+  // Payments with a refund transfer in flight
+  private refunding: Set<string> = new Set();
+
+  constructor(config: RefundConfig) {
+    super();
+    this.executor = config.executor;
+    this.refundWindowMs = (config.refundWindowDays ?? 30) * 24 * 60 * 60 * 1000;
+
+    const dataDir = config.dataDir || DEFAULT_DATA_DIR;
+    this.store = new JsonFileStore(path.join(dataDir, 'refunds.json'), { payments: {}, refunds: [], disputes: {} });
+    this.disputeLog = new JsonLinesLog(path.join(dataDir, 'disputes.jsonl'));
+  }
+
+  async recordPayment(payment: Omit<RefundablePayment, 'refunded' | 'refundedWei'>): Promise<void> {
+    await this.load();
+    if (this.state.payments[payment.transactionHash]) return;
+
+    this.state.payments[payment.transactionHash] = { ...payment, refunded: 0, refundedWei: '0' };
+    await this.persist();
+  }
+
+  async refund(transactionHash: string, request: RefundRequest, disputeId?: string): Promise<Refund> {
+    await this.load();
+
+    const payment = this.state.payments[transactionHash];
+    if (!payment) {
+      throw new Error(`No payment ${transactionHash} to refund`);
+    }
+    if (Date.now() - payment.timestamp > this.refundWindowMs) {
+      throw new Error(`Payment ${transactionHash} is outside the refund window`);
+    }
+    if (this.refunding.has(transactionHash)) {
+      throw new Error(`A refund of ${transactionHash} is already in progress`);
+    }
+
+    // Payments recorded before refundedWei only have the SEI value
+    const refunded = payment.refundedWei !== undefined ? BigInt(payment.refundedWei) : toWei(payment.refunded);
+    const remaining = toWei(payment.amount) - refunded;
+    const amount = request.amount !== undefined ? toWei(request.amount) : remaining;
+    if (amount <= 0n) {
+      throw new Error(`Nothing left to refund on ${transactionHash}`);
+    }
+    if (amount > remaining) {
+      throw new Error(`Refund exceeds the ${ethers.formatEther(remaining)} SEI still refundable on ${transactionHash}`);
+    }
+
+    this.refunding.add(transactionHash);
+    try {
+      const [result] = await this.executor.sendBatch([{ recipient: payment.payer, amount }]);
+      if (!result?.success) {
+        throw new Error(`Refund transfer failed: ${result?.error ?? 'no result'}`);
+      }
+
+      const refund: Refund = {
+        id: `refund_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        transactionHash,
+        amount: parseFloat(ethers.formatEther(amount)),
+        reason: request.reason,
+        note: request.note,
+        refundTransactionHash: result.transactionHash!,
+        disputeId,
+        timestamp: Date.now()
+      };
+      payment.refundedWei = (refunded + amount).toString();
+      payment.refunded = parseFloat(ethers.formatEther(refunded + amount));
+      this.state.refunds.push(refund);
+      await this.persist();
+
+      logger.info(`Refunded ${refund.amount} SEI of ${transactionHash} to ${payment.payer} (${request.reason})`);
+      this.emit('refunded', { ...refund, payer: payment.payer, serviceId: payment.serviceId });
+      return { ...refund };
+    } finally {
+      this.refunding.delete(transactionHash);
+    }
+  }
+
+  async openDispute(transactionHash: string, openedBy: string, reason: string): Promise<Dispute> {
+    await this.load();
+
+    if (!this.state.payments[transactionHash]) {
+      throw new Error(`No payment ${transactionHash} to dispute`);
+    }
+    const existing = Object.values(this.state.disputes)
+      .find(dispute => dispute.transactionHash === transactionHash && dispute.status === 'open');
+    if (existing) {
+      throw new Error(`Payment ${transactionHash} already has open dispute ${existing.id}`);
+    }
+
+    const dispute: Dispute = {
+      id: `dispute_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      transactionHash,
+      openedBy,
+      reason,
+      status: 'open',
+      openedAt: Date.now()
+    };
+    this.state.disputes[dispute.id] = dispute;
+    await this.persist();
+    await this.logDispute(dispute, 'opened', openedBy, reason);
+
+    this.emit('dispute_opened', { ...dispute });
+    return { ...dispute };
+  }
+
+  /**
+   * Settle an open dispute, either refunding (all that is left by default)
+   * or rejecting it.
+   */
+  async resolveDispute(
+    disputeId: string,
+    resolution: { refund: boolean; amount?: number; note: string },
+    actor?: string
+  ): Promise<Dispute> {
+    await this.load();
+
+    const dispute = this.state.disputes[disputeId];
+    if (!dispute) {
+      throw new Error(`Dispute ${disputeId} not found`);
+    }
+    if (dispute.status !== 'open') {
+      throw new Error(`Dispute ${disputeId} is already ${dispute.status}`);
+    }
+
+    if (resolution.refund) {
+      const refund = await this.refund(
+        dispute.transactionHash,
+        { amount: resolution.amount, reason: 'dispute', note: resolution.note },
+        dispute.id
+      );
+      dispute.status = 'refunded';
+      dispute.refundId = refund.id;
+    } else {
+      dispute.status = 'rejected';
+    }
+    dispute.resolution = resolution.note;
+    dispute.resolvedAt = Date.now();
+    await this.persist();
+    await this.logDispute(dispute, dispute.status as 'refunded' | 'rejected', actor, resolution.note);
+
+    this.emit('dispute_resolved', { ...dispute });
+    return { ...dispute };
+  }
+
+  async getRefunds(transactionHash?: string): Promise<Refund[]> {
+    await this.load();
+    return this.state.refunds
+      .filter(refund => !transactionHash || refund.transactionHash === transactionHash)
+      .map(refund => ({ ...refund }));
+  }
+
+  async getDisputes(): Promise<Dispute[]> {
+    await this.load();
+    return Object.values(this.state.disputes).map(dispute => ({ ...dispute }));
+  }
+
+  async getDisputeLog(transactionHash?: string): Promise<DisputeEvent[]> {
+    const events = await this.disputeLog.readAll();
+    return events.filter(event => !transactionHash || event.transactionHash === transactionHash);
+  }
+
+  private async logDispute(
+    dispute: Dispute,
+    type: DisputeEvent['type'],
+    actor: string | undefined,
+    detail: string
+  ): Promise<void> {
+    try {
+      await this.disputeLog.append({
+        disputeId: dispute.id,
+        transactionHash: dispute.transactionHash,
+        type,
+        actor,
+        detail,
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      logger.error(`Failed to log dispute ${dispute.id}:`, error);
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.load().then(state => {
+        this.state = state;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await this.store.save(this.state);
+    } catch (error) {
+      logger.error('Failed to persist refunds:', error);
+    }
+  }
+}
@@ -0,0 +1,349 @@
+import { EventEmitter } from 'events';
+import { ethers } from 'ethers';
+import { toWei } from './tip-assets';
+import { logger } from '../utils/logger';
+
+export interface SplitRule {
+  recipient: string;
+  // Percentage of each payment; a service's rules must total 100
+  share: number;
+  label?: string;
+}
+
+export interface SplitTransfer {
+  recipient: string;
+  // Wei
+  amount: bigint;
+}
+
+export interface SplitTransferResult {
+  recipient: string;
+  success: boolean;
+  transactionHash?: string;
+  error?: string;
+}
+
+/**
+ * Moves a batch of payouts out of the agent wallet.
+ */
+export interface SplitTransferExecutor {
+  sendBatch(transfers: SplitTransfer[]): Promise<SplitTransferResult[]>;
+}
+
+export interface RevenueSplitConfig {
+  executor: SplitTransferExecutor;
+  // How often owed shares are paid out (default 5 minutes)
+  batchIntervalMs?: number;
+  // Shares below this many SEI wait for the next batch (default 0)
+  minimumPayout?: number;
+}
+
+export interface SplitAllocation {
+  recipient: string;
+  label?: string;
+  amount: number;
+  // Kept by the agent wallet rather than transferred
+  retained: boolean;
+}
+
+export interface RecipientEarnings {
+  recipient: string;
+  label?: string;
+  allocated: number;
+  paid: number;
+  pending: number;
+  lastPayout?: number;
+  lastTransactionHash?: string;
+}
+
+// Shares one payment was split into, kept so a refund can reverse them
+interface PaymentSplit {
+  total: bigint;
+  shares: Map<string, bigint>;
+  reversed: bigint;
+}
+
+interface RecipientAccount {
+  recipient: string;
+  label?: string;
+  allocated: bigint;
+  paid: bigint;
+  lastPayout?: number;
+  lastTransactionHash?: string;
+}
+
+export function validateSplitRules(rules: SplitRule[]): void {
+  if (rules.length === 0) {
+    throw new Error('Split rules must name at least one recipient');
+  }
+  for (const rule of rules) {
+    if (!ethers.isAddress(rule.recipient)) {
+      throw new Error(`Invalid split recipient ${rule.recipient}`);
+    }
+    if (!(rule.share > 0)) {
+      throw new Error(`Split share for ${rule.recipient} must be positive`);
+    }
+  }
+
+  const total = rules.reduce((sum, rule) => sum + rule.share, 0);
+  if (Math.abs(total - 100) > 1e-9) {
+    throw new Error(`Split shares must total 100%, got ${total}%`);
+  }
+}
+
+/**
+ * SplitTransferExecutor that sends plain SEI transfers from a wallet. A batch
+ * goes out on consecutive nonces and is awaited together; sending stops at
+ * the first failure so no nonce gap is left behind. Batches from different
+ * callers are sent one after another so they never share a nonce.
+ */
+export class WalletSplitExecutor implements SplitTransferExecutor {
+  private wallet: ethers.Wallet;
+  private confirmations: number;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(privateKey: string, rpcUrl: string, confirmations: number = 1) {
+    // Back-to-back batches need the real pending nonce, not a cached one
+    this.wallet = new ethers.Wallet(privateKey, new ethers.JsonRpcProvider(rpcUrl, undefined, { cacheTimeout: -1 }));
+    this.confirmations = confirmations;
+  }
+
+  async sendBatch(transfers: SplitTransfer[]): Promise<SplitTransferResult[]> {
+    const run = this.queue.then(() => this.send(transfers));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async send(transfers: SplitTransfer[]): Promise<SplitTransferResult[]> {
+    let nonce = await this.wallet.getNonce('pending');
+    const sent: Array<{ recipient: string; tx?: ethers.TransactionResponse; error?: string }> = [];
+
+    for (const transfer of transfers) {
+      try {
+        const tx = await this.wallet.sendTransaction({
+          to: transfer.recipient,
+          value: transfer.amount,
+          nonce: nonce++
+        });
+        sent.push({ recipient: transfer.recipient, tx });
+      } catch (error) {
+        sent.push({ recipient: transfer.recipient, error: error instanceof Error ? error.message : 'Transfer failed' });
+        break;
+      }
+    }
+
+    const results = await Promise.all(sent.map(async ({ recipient, tx, error }): Promise<SplitTransferResult> => {
+      if (!tx) {
+        return { recipient, success: false, error };
+      }
+      try {
+        const receipt = await tx.wait(this.confirmations);
+        return receipt?.status === 1
+          ? { recipient, success: true, transactionHash: tx.hash }
+          : { recipient, success: false, transactionHash: tx.hash, error: 'Transfer reverted' };
+      } catch (waitError) {
+        return {
+          recipient,
+          success: false,
+          transactionHash: tx.hash,
+          error: waitError instanceof Error ? waitError.message : 'Transfer not confirmed'
+        };
+      }
+    }));
+
+    // Transfers never attempted after a failure are reported as such
+    for (const transfer of transfers.slice(sent.length)) {
+      results.push({ recipient: transfer.recipient, success: false, error: 'Skipped after earlier failure' });
+    }
+    return results;
+  }
+}
+
+/**
+ * Divides incoming revenue between recipients by percentage. Shares owed to
+ * other wallets accrue per recipient and are paid out together on a timer,
+ * one transfer per recipient per batch, instead of a transfer per payment.
+ * Shares addressed to the agent's own wallet are simply kept. Rounding dust
+ * also stays with the agent.
+ *
+ * A refunded payment's shares are reversed in proportion to the refund. A
+ * share that was already paid out is held back from the recipient's next
+ * payouts instead.
+ */
+export class RevenueSplitter extends EventEmitter {
+  private agentAddress: string;
+  private executor: SplitTransferExecutor;
+  private batchIntervalMs: number;
+  private minimumPayout: bigint;
+  private accounts: Map<string, RecipientAccount> = new Map();
+  private splits: Map<string, PaymentSplit> = new Map();
+  private timer?: NodeJS.Timeout;
+  private flushing: boolean = false;
+
+  constructor(agentAddress: string, config: RevenueSplitConfig) {
+    super();
+    this.agentAddress = ethers.getAddress(agentAddress);
+    this.executor = config.executor;
+    this.batchIntervalMs = config.batchIntervalMs ?? 5 * 60 * 1000;
+    this.minimumPayout = toWei(config.minimumPayout ?? 0);
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.flush().catch(error => logger.error('Revenue split payout failed:', error));
+    }, this.batchIntervalMs);
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Split `amount` SEI by `rules` and queue the shares owed to others. Pass
+   * the payment's transaction hash to be able to reverse the split later.
+   */
+  allocate(amount: number, rules: SplitRule[], transactionHash?: string): SplitAllocation[] {
+    const total = toWei(amount);
+    const allocations: SplitAllocation[] = [];
+    const shares = new Map<string, bigint>();
+
+    for (const rule of rules) {
+      const recipient = ethers.getAddress(rule.recipient);
+      // Basis points keep the arithmetic in integers
+      const share = total * BigInt(Math.round(rule.share * 100)) / 10000n;
+      const retained = recipient === this.agentAddress;
+
+      const account = this.accounts.get(recipient) || { recipient, label: rule.label, allocated: 0n, paid: 0n };
+      account.allocated += share;
+      account.label = account.label ?? rule.label;
+      this.accounts.set(recipient, account);
+
+      shares.set(recipient, (shares.get(recipient) ?? 0n) + share);
+      allocations.push({ recipient, label: rule.label, amount: parseFloat(ethers.formatEther(share)), retained });
+    }
+
+    if (transactionHash) {
+      this.splits.set(transactionHash, { total, shares, reversed: 0n });
+    }
+    this.start();
+    return allocations;
+  }
+
+  /**
+   * Take back the shares of `amount` SEI refunded from the payment
+   * `transactionHash`, in the proportions it was split. Returns what was
+   * taken from each recipient; nothing if the payment was not split here.
+   */
+  reverse(transactionHash: string, amount: number): SplitAllocation[] {
+    const split = this.splits.get(transactionHash);
+    if (!split || split.total === 0n) return [];
+
+    const remaining = split.total - split.reversed;
+    const requested = toWei(amount);
+    const refunded = requested < remaining ? requested : remaining;
+    const allocations: SplitAllocation[] = [];
+    for (const [recipient, share] of split.shares) {
+      // Reverse what the refunds so far come to, less what was already reversed
+      const before = share * split.reversed / split.total;
+      const after = share * (split.reversed + refunded) / split.total;
+      const account = this.accounts.get(recipient)!;
+      account.allocated -= after - before;
+      allocations.push({
+        recipient,
+        label: account.label,
+        amount: parseFloat(ethers.formatEther(after - before)),
+        retained: recipient === this.agentAddress
+      });
+    }
+    split.reversed += refunded;
+    return allocations;
+  }
+
+  /**
+   * Pay out every share that has reached the minimum. Failed transfers stay
+   * owed and are retried with the next batch.
+   */
+  async flush(): Promise<SplitTransferResult[]> {
+    if (this.flushing) return [];
+    this.flushing = true;
+
+    try {
+      const transfers: SplitTransfer[] = [];
+      for (const account of this.accounts.values()) {
+        const owed = account.allocated - account.paid;
+        if (account.recipient !== this.agentAddress && owed > 0n && owed >= this.minimumPayout) {
+          transfers.push({ recipient: account.recipient, amount: owed });
+        }
+      }
+      if (transfers.length === 0) return [];
+
+      const results = await this.executor.sendBatch(transfers);
+      for (const result of results) {
+        const transfer = transfers.find(t => t.recipient === result.recipient)!;
+        if (!result.success) {
+          logger.warn(`Payout of ${ethers.formatEther(transfer.amount)} SEI to ${result.recipient} failed: ${result.error}`);
+          this.emit('payout_failed', { ...result, amount: parseFloat(ethers.formatEther(transfer.amount)) });
+          continue;
+        }
+
+        const account = this.accounts.get(result.recipient)!;
+        account.paid += transfer.amount;
+        account.lastPayout = Date.now();
+        account.lastTransactionHash = result.transactionHash;
+        this.emit('payout', {
+          recipient: result.recipient,
+          label: account.label,
+          amount: parseFloat(ethers.formatEther(transfer.amount)),
+          transactionHash: result.transactionHash
+        });
+      }
+
+      return results;
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  getRecipientEarnings(): RecipientEarnings[] {
+    return Array.from(this.accounts.values()).map(account => {
+      const retained = account.recipient === this.agentAddress;
+      return {
+        recipient: account.recipient,
+        label: account.label,
+        allocated: parseFloat(ethers.formatEther(account.allocated)),
+        paid: parseFloat(ethers.formatEther(retained ? account.allocated : account.paid)),
+        pending: retained || account.paid >= account.allocated
+          ? 0
+          : parseFloat(ethers.formatEther(account.allocated - account.paid)),
+        lastPayout: account.lastPayout,
+        lastTransactionHash: account.lastTransactionHash
+      };
+    });
+  }
+
+  /**
+   * SEI allocated to wallets other than the agent's, paid out or not.
+   * Payouts since reversed by a refund still count until held back.
+   */
+  getAllocatedToOthers(): number {
+    let total = 0n;
+    for (const account of this.accounts.values()) {
+      if (account.recipient !== this.agentAddress) {
+        total += account.allocated > account.paid ? account.allocated : account.paid;
+      }
+    }
+    return parseFloat(ethers.formatEther(total));
+  }
+
+  getPendingPayouts(): number {
+    let total = 0n;
+    for (const account of this.accounts.values()) {
+      if (account.recipient !== this.agentAddress && account.allocated > account.paid) {
+        total += account.allocated - account.paid;
+      }
+    }
+    return parseFloat(ethers.formatEther(total));
+  }
+}
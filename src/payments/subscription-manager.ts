@@ -0,0 +1,486 @@
+import { EventEmitter } from 'events';
+import path from 'path';
+import { ethers } from 'ethers';
+import { JsonFileStore, DEFAULT_DATA_DIR } from '../storage/file-store';
+import { X402Client } from './x402-client';
+import { toWei } from './tip-assets';
+import type { PaymentPayload, PaymentResult } from './x402-integration';
+import { PlatformAdapter, ResponseType } from '../platforms/platform-sdk';
+import { logger } from '../utils/logger';
+
+export type BillingPeriod = 'hourly' | 'daily' | 'monthly';
+
+export type SubscriptionStatus = 'active' | 'past_due' | 'cancelled' | 'expired';
+
+export interface Subscription {
+  id: string;
+  serviceId: string;
+  subscriber: string;
+  // Where dunning notices go
+  platform?: string;
+  userId?: string;
+  price: number;
+  period: BillingPeriod;
+  status: SubscriptionStatus;
+  currentPeriodStart: number;
+  currentPeriodEnd: number;
+  cancelAtPeriodEnd: boolean;
+  failedAttempts: number;
+  // Set while past due: access continues until then
+  graceUntil?: number;
+  nextAttemptAt?: number;
+  createdAt: number;
+  cancelledAt?: number;
+  lastTransactionHash?: string;
+}
+
+export interface SubscriptionCharge {
+  subscriptionId: string;
+  serviceId: string;
+  amount: number;
+  transactionHash: string;
+  payer: string;
+  periodStart: number;
+  periodEnd: number;
+  timestamp: number;
+}
+
+/**
+ * The subscriber's side: signs an x402 payment for each billing period.
+ */
+export interface SubscriptionPayer {
+  getAddress(): string;
+  createSubscriptionPayment(subscriptionId: string, payee: string, amount: bigint): Promise<PaymentPayload>;
+  // Told when a signed payment was not settled, so it can be reused
+  paymentFailed?(payload: PaymentPayload): void;
+}
+
+export interface SubscriptionNotifier {
+  notify(subscription: Subscription, message: string): Promise<void>;
+}
+
+export interface SubscriptionConfig {
+  // Access kept after a failed renewal (default 72h)
+  gracePeriodHours?: number;
+  // Wait between renewal retries while past due (default 24h)
+  retryIntervalHours?: number;
+  // How often due renewals are swept (default 60s)
+  checkIntervalMs?: number;
+  notifier?: SubscriptionNotifier;
+  dataDir?: string;
+}
+
+export interface SubscribeOptions {
+  platform?: string;
+  userId?: string;
+}
+
+export type SubscriptionCharger = (
+  subscription: Subscription,
+  payload: PaymentPayload,
+  amount: bigint
+) => Promise<PaymentResult>;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function addPeriod(from: number, period: BillingPeriod): number {
+  switch (period) {
+    case 'hourly':
+      return from + HOUR_MS;
+    case 'daily':
+      return from + 24 * HOUR_MS;
+    case 'monthly': {
+      const date = new Date(from);
+      date.setUTCMonth(date.getUTCMonth() + 1);
+      return date.getTime();
+    }
+  }
+}
+
+/**
+ * SubscriptionPayer backed by the agent's own X402Client.
+ */
+export class X402SubscriptionPayer implements SubscriptionPayer {
+  private client: X402Client;
+
+  constructor(client: X402Client) {
+    this.client = client;
+  }
+
+  getAddress(): string {
+    return this.client.getWalletAddress();
+  }
+
+  async createSubscriptionPayment(subscriptionId: string, payee: string, amount: bigint): Promise<PaymentPayload> {
+    return this.client.createPaymentPayload({
+      recipient: payee,
+      amount: parseFloat(ethers.formatEther(amount)),
+      amountWei: amount.toString(),
+      currency: 'SEI',
+      memo: `Subscription ${subscriptionId}`
+    });
+  }
+
+  paymentFailed(payload: PaymentPayload): void {
+    this.client.releasePaymentPayload(payload);
+  }
+}
+
+/**
+ * Sends dunning notices as direct messages through the platform adapter the
+ * subscriber was signed up from. Adapters are looked up when a notice is
+ * sent, so platforms added later are reached too; subscribers without one
+ * just get a log line.
+ */
+export class PlatformSubscriptionNotifier implements SubscriptionNotifier {
+  private adapters: Map<string, PlatformAdapter>;
+
+  constructor(adapters: Map<string, PlatformAdapter>) {
+    this.adapters = adapters;
+  }
+
+  async notify(subscription: Subscription, message: string): Promise<void> {
+    const adapter = subscription.platform ? this.adapters.get(subscription.platform) : undefined;
+    if (!adapter || !subscription.userId) {
+      logger.info(`Subscription ${subscription.id}: ${message}`);
+      return;
+    }
+
+    try {
+      await adapter.executeAction({
+        type: ResponseType.CUSTOM,
+        action: {
+          type: 'direct_message',
+          parameters: { userId: subscription.userId, message }
+        }
+      });
+    } catch (error) {
+      logger.warn(`Could not notify ${subscription.platform}/${subscription.userId}:`, error);
+    }
+  }
+}
+
+/**
+ * Recurring billing for subscription services. The first period is charged
+ * up front; after that a periodic sweep renews subscriptions whose period
+ * has ended. A failed renewal moves the subscription to `past_due` with a
+ * grace period, retried at intervals with a notice each time, and expires it
+ * once grace runs out. Cancellation takes effect at the end of the paid
+ * period unless made immediate.
+ *
+ * Subscriptions are persisted; payers are not, so after a restart each one
+ * needs `attachPayer` before its next renewal or that renewal fails.
+ */
+export class SubscriptionManager extends EventEmitter {
+  private subscriptions: Map<string, Subscription> = new Map();
+  private payers: Map<string, SubscriptionPayer> = new Map();
+  private config: Required<Omit<SubscriptionConfig, 'notifier' | 'dataDir'>>;
+  private store: JsonFileStore<Record<string, Subscription>>;
+  private loaded?: Promise<void>;
+  private notifier?: SubscriptionNotifier;
+  private payee: string;
+  private charge: SubscriptionCharger;
+  private timer?: NodeJS.Timeout;
+  private sweeping: boolean = false;
+
+  constructor(payee: string, charge: SubscriptionCharger, config: SubscriptionConfig = {}) {
+    super();
+    this.payee = payee;
+    this.charge = charge;
+    this.notifier = config.notifier;
+    this.config = {
+      gracePeriodHours: config.gracePeriodHours ?? 72,
+      retryIntervalHours: config.retryIntervalHours ?? 24,
+      checkIntervalMs: config.checkIntervalMs ?? 60000
+    };
+    this.store = new JsonFileStore(
+      path.join(config.dataDir || DEFAULT_DATA_DIR, 'subscriptions.json'),
+      {}
+    );
+  }
+
+  /**
+   * Load stored subscriptions and resume the renewal sweep if any are open
+   */
+  async initialize(): Promise<void> {
+    await this.load();
+    if (this.getOpen().length > 0) {
+      this.start();
+    }
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.processDue().catch(error => logger.error('Subscription sweep failed:', error));
+    }, this.config.checkIntervalMs);
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async subscribe(
+    serviceId: string,
+    price: number,
+    period: BillingPeriod,
+    payer: SubscriptionPayer,
+    options: SubscribeOptions = {}
+  ): Promise<Subscription> {
+    await this.load();
+    const now = Date.now();
+    const subscription: Subscription = {
+      id: `sub_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      serviceId,
+      subscriber: ethers.getAddress(payer.getAddress()),
+      platform: options.platform,
+      userId: options.userId,
+      price,
+      period,
+      status: 'active',
+      currentPeriodStart: now,
+      currentPeriodEnd: addPeriod(now, period),
+      cancelAtPeriodEnd: false,
+      failedAttempts: 0,
+      createdAt: now
+    };
+
+    // No subscription without a paid first period
+    const result = await this.collect(subscription, payer);
+    if (!result.success) {
+      throw new Error(`Initial subscription payment failed: ${result.error}`);
+    }
+
+    this.subscriptions.set(subscription.id, subscription);
+    this.payers.set(subscription.id, payer);
+    await this.persist();
+    this.start();
+
+    this.emit('subscription_created', { ...subscription });
+    return { ...subscription };
+  }
+
+  /**
+   * Give a stored subscription the payer that signs its renewals
+   */
+  async attachPayer(subscriptionId: string, payer: SubscriptionPayer): Promise<void> {
+    await this.load();
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) {
+      throw new Error(`Subscription ${subscriptionId} not found`);
+    }
+    if (ethers.getAddress(payer.getAddress()) !== subscription.subscriber) {
+      throw new Error(`Payer does not match subscriber ${subscription.subscriber}`);
+    }
+    this.payers.set(subscriptionId, payer);
+  }
+
+  async cancel(subscriptionId: string, immediate: boolean = false): Promise<Subscription> {
+    await this.load();
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) {
+      throw new Error(`Subscription ${subscriptionId} not found`);
+    }
+    if (subscription.status === 'cancelled' || subscription.status === 'expired') {
+      return { ...subscription };
+    }
+
+    if (immediate || subscription.status === 'past_due') {
+      this.close(subscription, 'cancelled');
+      await this.persist();
+      await this.notify(subscription, 'Your subscription has been cancelled.');
+    } else {
+      subscription.cancelAtPeriodEnd = true;
+      await this.persist();
+      await this.notify(
+        subscription,
+        `Your subscription will end on ${new Date(subscription.currentPeriodEnd).toISOString()}.`
+      );
+    }
+
+    this.emit('subscription_cancelled', { ...subscription });
+    return { ...subscription };
+  }
+
+  /**
+   * Renew, retry or close every subscription that is due at `now`.
+   */
+  async processDue(now: number = Date.now()): Promise<void> {
+    await this.load();
+    if (this.sweeping) return;
+    this.sweeping = true;
+
+    try {
+      for (const subscription of this.subscriptions.values()) {
+        if (subscription.status === 'active' && subscription.currentPeriodEnd <= now) {
+          if (subscription.cancelAtPeriodEnd) {
+            this.close(subscription, 'cancelled');
+            await this.persist();
+            this.emit('subscription_ended', { ...subscription });
+          } else {
+            await this.renew(subscription, now);
+          }
+        } else if (subscription.status === 'past_due') {
+          if (now >= subscription.graceUntil!) {
+            this.close(subscription, 'expired');
+            await this.persist();
+            await this.notify(subscription, 'Your subscription has expired after repeated failed payments.');
+            this.emit('subscription_expired', { ...subscription });
+          } else if (now >= subscription.nextAttemptAt!) {
+            await this.renew(subscription, now);
+          }
+        }
+      }
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  async getSubscription(subscriptionId: string): Promise<Subscription | undefined> {
+    await this.load();
+    const subscription = this.subscriptions.get(subscriptionId);
+    return subscription ? { ...subscription } : undefined;
+  }
+
+  async getSubscriptions(): Promise<Subscription[]> {
+    await this.load();
+    return Array.from(this.subscriptions.values()).map(subscription => ({ ...subscription }));
+  }
+
+  /**
+   * Whether `subscriber` may use `serviceId` now, grace periods included.
+   */
+  async isEntitled(serviceId: string, subscriber: string, now: number = Date.now()): Promise<boolean> {
+    await this.load();
+    const address = ethers.getAddress(subscriber);
+    return Array.from(this.subscriptions.values()).some(subscription =>
+      subscription.serviceId === serviceId &&
+      subscription.subscriber === address &&
+      (
+        (subscription.status === 'active' && now < subscription.currentPeriodEnd) ||
+        (subscription.status === 'past_due' && now < subscription.graceUntil!)
+      )
+    );
+  }
+
+  private async renew(subscription: Subscription, now: number): Promise<void> {
+    const payer = this.payers.get(subscription.id);
+    const periodStart = subscription.currentPeriodEnd;
+    const result: PaymentResult = payer
+      ? await this.collect(
+        { ...subscription, currentPeriodStart: periodStart, currentPeriodEnd: addPeriod(periodStart, subscription.period) },
+        payer
+      )
+      : { success: false, error: 'No payer attached since the agent restarted' };
+
+    if (result.success) {
+      const wasPastDue = subscription.status === 'past_due';
+      subscription.status = 'active';
+      subscription.currentPeriodStart = periodStart;
+      subscription.currentPeriodEnd = addPeriod(periodStart, subscription.period);
+      subscription.failedAttempts = 0;
+      subscription.graceUntil = undefined;
+      subscription.nextAttemptAt = undefined;
+      subscription.lastTransactionHash = result.transactionHash;
+      await this.persist();
+
+      if (wasPastDue) {
+        await this.notify(subscription, 'Payment received, your subscription is active again.');
+      }
+      this.emit('subscription_renewed', { ...subscription });
+      return;
+    }
+
+    subscription.failedAttempts++;
+    if (subscription.status === 'active') {
+      subscription.status = 'past_due';
+      subscription.graceUntil = subscription.currentPeriodEnd + this.config.gracePeriodHours * HOUR_MS;
+    }
+    subscription.nextAttemptAt = now + this.config.retryIntervalHours * HOUR_MS;
+    await this.persist();
+
+    logger.warn(`Renewal of subscription ${subscription.id} failed: ${result.error}`);
+    await this.notify(
+      subscription,
+      `We could not collect ${subscription.price} SEI for your subscription ` +
+      `(attempt ${subscription.failedAttempts}). Access continues until ` +
+      `${new Date(subscription.graceUntil!).toISOString()}; please top up your wallet.`
+    );
+    this.emit('subscription_past_due', { ...subscription, error: result.error });
+  }
+
+  private async collect(subscription: Subscription, payer: SubscriptionPayer): Promise<PaymentResult> {
+    const amount = toWei(subscription.price);
+
+    let payload: PaymentPayload | undefined;
+    let result: PaymentResult;
+    try {
+      payload = await payer.createSubscriptionPayment(subscription.id, this.payee, amount);
+      result = await this.charge(subscription, payload, amount);
+    } catch (error) {
+      result = { success: false, error: error instanceof Error ? error.message : 'Payment failed' };
+    }
+
+    if (!result.success && payload) {
+      payer.paymentFailed?.(payload);
+    }
+
+    if (result.success) {
+      const charge: SubscriptionCharge = {
+        subscriptionId: subscription.id,
+        serviceId: subscription.serviceId,
+        amount: subscription.price,
+        transactionHash: result.transactionHash!,
+        payer: result.payer || subscription.subscriber,
+        periodStart: subscription.currentPeriodStart,
+        periodEnd: subscription.currentPeriodEnd,
+        timestamp: Date.now()
+      };
+      this.emit('charge', charge);
+    }
+
+    return result;
+  }
+
+  private getOpen(): Subscription[] {
+    return Array.from(this.subscriptions.values())
+      .filter(subscription => subscription.status === 'active' || subscription.status === 'past_due');
+  }
+
+  private close(subscription: Subscription, status: 'cancelled' | 'expired'): void {
+    subscription.status = status;
+    subscription.cancelledAt = Date.now();
+    subscription.graceUntil = undefined;
+    subscription.nextAttemptAt = undefined;
+    this.payers.delete(subscription.id);
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.load().then(stored => {
+        for (const [id, subscription] of Object.entries(stored)) {
+          this.subscriptions.set(id, subscription);
+        }
+      });
+    }
+    return this.loaded;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await this.store.save(Object.fromEntries(this.subscriptions));
+    } catch (error) {
+      logger.error('Failed to persist subscriptions:', error);
+    }
+  }
+
+  private async notify(subscription: Subscription, message: string): Promise<void> {
+    if (!this.notifier) return;
+    try {
+      await this.notifier.notify(subscription, message);
+    } catch (error) {
+      logger.warn(`Subscription notification failed for ${subscription.id}:`, error);
+    }
+  }
+}
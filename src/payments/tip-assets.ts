@@ -0,0 +1,179 @@
+import { ethers } from 'ethers';
+import { SeiDeFiService } from '../blockchain/sei-defi-service';
+import { PriceOracle } from '../blockchain/price-oracle';
+import { logger } from '../utils/logger';
+
+export const NATIVE_ASSET = 'SEI';
+
+export interface TipAsset {
+  symbol: string;
+  // ERC-20 contract; omitted for native SEI
+  address?: string;
+  // Read from the contract when omitted
+  decimals?: number;
+}
+
+// Decimal string of an amount with at most `decimals` fraction digits,
+// rounded down. Never uses exponent notation, which parseUnits rejects.
+export function formatAmount(amount: number, decimals: number): string {
+  // Shortest decimal form of the float: 0.3 stays 0.3, not 0.29999999999999998890
+  const exact = amount.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 });
+  const [whole, fraction = ''] = exact.split('.');
+  const kept = fraction.slice(0, decimals).replace(/0+$/, '');
+  return kept ? `${whole}.${kept}` : whole;
+}
+
+// Base units (wei for SEI) of an amount, without the float error of
+// `amount.toFixed(decimals)`
+export function toWei(amount: number, decimals: number = 18): bigint {
+  return ethers.parseUnits(formatAmount(amount, decimals), decimals);
+}
+
+export interface TipAssetsConfig {
+  // ERC-20s tips may be paid in: USDC, creator tokens, ...
+  tokens?: TipAsset[];
+  // Extra SEI swapped to cover price movement, in percent (default 1)
+  swapSlippage?: number;
+}
+
+/**
+ * The assets tips can be paid in. Values amounts in USD through the price
+ * oracle (by symbol), and makes sure the
+ * agent wallet holds enough of a token before it is sent, swapping SEI for
+ * the shortfall through Symphony when it does not.
+ */
+export class TipAssets {
+  private defi: SeiDeFiService;
+  private oracle: PriceOracle;
+  private assets: Map<string, TipAsset> = new Map();
+  private decimals: Map<string, number> = new Map();
+  private swapSlippage: number;
+
+  constructor(defi: SeiDeFiService, oracle: PriceOracle, config: TipAssetsConfig = {}) {
+    this.defi = defi;
+    this.oracle = oracle;
+    this.swapSlippage = config.swapSlippage ?? 1;
+
+    this.register({ symbol: NATIVE_ASSET, decimals: 18 });
+    for (const token of config.tokens || []) {
+      this.register(token);
+    }
+  }
+
+  register(asset: TipAsset): void {
+    if (asset.address && !ethers.isAddress(asset.address)) {
+      throw new Error(`Invalid token address for ${asset.symbol}: ${asset.address}`);
+    }
+
+    const registered = { ...asset, symbol: asset.symbol.toUpperCase() };
+    this.assets.set(registered.symbol, registered);
+    if (registered.address) {
+      this.assets.set(registered.address.toLowerCase(), registered);
+    }
+  }
+
+  /**
+   * Look an asset up by symbol or token address
+   */
+  get(symbolOrAddress: string): TipAsset {
+    const asset = this.assets.get(symbolOrAddress.toUpperCase()) || this.assets.get(symbolOrAddress.toLowerCase());
+    if (!asset) {
+      throw new Error(`Unknown tip asset ${symbolOrAddress}`);
+    }
+    return asset;
+  }
+
+  has(symbolOrAddress: string): boolean {
+    return this.assets.has(symbolOrAddress.toUpperCase()) || this.assets.has(symbolOrAddress.toLowerCase());
+  }
+
+  isNative(symbolOrAddress: string): boolean {
+    return this.get(symbolOrAddress).symbol === NATIVE_ASSET;
+  }
+
+  async getUsdPrice(symbolOrAddress: string): Promise<number> {
+    return this.oracle.getUsdPrice(this.get(symbolOrAddress).symbol);
+  }
+
+  async toUsd(symbolOrAddress: string, amount: number): Promise<number> {
+    return amount * await this.getUsdPrice(symbolOrAddress);
+  }
+
+  /**
+   * How much of an asset is worth `seiAmount` SEI
+   */
+  async fromSei(symbolOrAddress: string, seiAmount: number): Promise<number> {
+    if (this.isNative(symbolOrAddress)) return seiAmount;
+    return await this.toUsd(NATIVE_ASSET, seiAmount) / await this.getUsdPrice(symbolOrAddress);
+  }
+
+  /**
+   * SEI value of an amount of an asset
+   */
+  async toSei(symbolOrAddress: string, amount: number): Promise<number> {
+    if (this.isNative(symbolOrAddress)) return amount;
+    return await this.toUsd(symbolOrAddress, amount) / await this.getUsdPrice(NATIVE_ASSET);
+  }
+
+  async getDecimals(symbolOrAddress: string): Promise<number> {
+    const asset = this.get(symbolOrAddress);
+    if (asset.decimals !== undefined) return asset.decimals;
+
+    if (!this.decimals.has(asset.symbol)) {
+      this.decimals.set(asset.symbol, Number((await this.defi.getTokenBalance(asset.address!)).decimals));
+    }
+    return this.decimals.get(asset.symbol)!;
+  }
+
+  /**
+   * An amount rounded down to what the asset can represent, so budgets,
+   * the ledger and the transfer all use the same value
+   */
+  async roundAmount(symbolOrAddress: string, amount: number): Promise<number> {
+    return parseFloat(formatAmount(amount, await this.getDecimals(symbolOrAddress)));
+  }
+
+  /**
+   * Make sure the wallet holds `amount` of a token, swapping SEI for any
+   * shortfall. Returns the SEI swapped.
+   */
+  async ensureBalance(symbolOrAddress: string, amount: number): Promise<number> {
+    const asset = this.requireToken(symbolOrAddress);
+
+    const held = parseFloat((await this.defi.getTokenBalance(asset.address!)).balance);
+    if (held >= amount) return 0;
+
+    const seiIn = await this.toSei(asset.symbol, amount - held) * (1 + this.swapSlippage / 100);
+    logger.info(`Treasury holds ${held} ${asset.symbol}, swapping ${seiIn.toFixed(6)} SEI to cover a ${amount} tip`);
+    await this.defi.swapTokens({
+      tokenIn: NATIVE_ASSET,
+      tokenOut: asset.address!,
+      amountIn: seiIn.toFixed(6),
+      slippage: this.swapSlippage
+    });
+
+    const after = parseFloat((await this.defi.getTokenBalance(asset.address!)).balance);
+    if (after < amount) {
+      throw new Error(`Swap left ${after} ${asset.symbol}, short of the ${amount} needed`);
+    }
+    return seiIn;
+  }
+
+  /**
+   * Send a token and return the transaction hash
+   */
+  async transfer(symbolOrAddress: string, recipient: string, amount: number): Promise<string> {
+    const asset = this.requireToken(symbolOrAddress);
+    const decimals = await this.getDecimals(asset.symbol);
+    const tx = await this.defi.transferToken(asset.address!, recipient, formatAmount(amount, decimals));
+    return tx?.hash ?? tx?.transactionHash ?? '';
+  }
+
+  private requireToken(symbolOrAddress: string): TipAsset {
+    const asset = this.get(symbolOrAddress);
+    if (!asset.address) {
+      throw new Error(`${asset.symbol} is not an ERC-20 token`);
+    }
+    return asset;
+  }
+}
@@ -0,0 +1,472 @@
+import { EventEmitter } from 'events';
+import path from 'path';
+import { ethers } from 'ethers';
+import { JsonFileStore, JsonLinesLog, DEFAULT_DATA_DIR } from '../storage/file-store';
+import { toWei } from './tip-assets';
+import { logger } from '../utils/logger';
+
+export interface BatchedTip {
+  id: string;
+  // EVM address
+  recipient: string;
+  // SEI
+  amount: number;
+  contentId: string;
+  qualityScore: number;
+  platform?: string;
+  queuedAt: number;
+}
+
+export interface TipReceipt {
+  tipId: string;
+  batchId: string;
+  // Hash of the batch transaction that paid this tip
+  transactionHash: string;
+  // Position of the tip within the batch
+  index: number;
+  recipient: string;
+  amount: number;
+  contentId: string;
+  platform?: string;
+  settledAt: number;
+}
+
+// 'sending' is persisted before the batch is broadcast
+export type TipBatchStatus = 'sending' | 'settled' | 'unconfirmed';
+
+export interface TipBatch {
+  id: string;
+  // Set once the transaction is signed, before it is broadcast; unknown if
+  // the agent stopped before then
+  transactionHash?: string;
+  // Wallet nonce of the signed transaction
+  nonce?: number;
+  status: TipBatchStatus;
+  total: number;
+  tips: BatchedTip[];
+  createdAt: number;
+  settledAt?: number;
+  error?: string;
+}
+
+export interface TipBatchSettlement {
+  transactionHash?: string;
+  // 'unsent' and 'reverted' moved no funds, so the tips can be retried.
+  // Anything that may have been broadcast is 'unconfirmed' until reconciled.
+  status: 'confirmed' | 'reverted' | 'unsent' | 'unconfirmed';
+  error?: string;
+}
+
+export interface SignedTipBatch {
+  transactionHash: string;
+  nonce: number;
+}
+
+/**
+ * Pays a batch of tips in a single transaction. `settle` must call
+ * `signed` with the transaction's hash and nonce before broadcasting it,
+ * and not broadcast if that throws, so an interrupted batch can always be
+ * found on chain.
+ */
+export interface TipBatchSettler {
+  settle(tips: BatchedTip[], signed: (transaction: SignedTipBatch) => Promise<void>): Promise<TipBatchSettlement>;
+  // Where an unconfirmed batch stands on chain now
+  reconcile(batch: TipBatch): Promise<TipBatchSettlement>;
+}
+
+const HUB_ABI = [
+  'function sendTipBatch(address[] recipients, uint256[] amounts, string[] contentIds, uint256[] qualityScores) payable'
+];
+
+/**
+ * TipBatchSettler that calls `SocialTippingHub.sendTipBatch`, paying every
+ * tip in the batch with one transaction.
+ */
+export class HubBatchSettler implements TipBatchSettler {
+  private wallet: ethers.Wallet;
+  private hub: ethers.Contract;
+  private confirmations: number;
+
+  constructor(privateKey: string, rpcUrl: string, hubAddress: string, confirmations: number = 1) {
+    if (!ethers.isAddress(hubAddress)) {
+      throw new Error(`Invalid SocialTippingHub address ${hubAddress}`);
+    }
+    this.wallet = new ethers.Wallet(privateKey, new ethers.JsonRpcProvider(rpcUrl, undefined, { cacheTimeout: -1 }));
+    this.hub = new ethers.Contract(hubAddress, HUB_ABI, this.wallet);
+    this.confirmations = confirmations;
+  }
+
+  async settle(
+    tips: BatchedTip[],
+    signed: (transaction: SignedTipBatch) => Promise<void>
+  ): Promise<TipBatchSettlement> {
+    const amounts = tips.map(tip => toWei(tip.amount));
+    const total = amounts.reduce((sum, amount) => sum + amount, 0n);
+
+    // Gas estimation (which fails on a revert), signing and recording the
+    // hash all happen before anything is broadcast
+    let transaction: ethers.Transaction;
+    try {
+      const request = await this.hub.sendTipBatch.populateTransaction(
+        tips.map(tip => tip.recipient),
+        amounts,
+        tips.map(tip => tip.contentId),
+        tips.map(tip => Math.round(tip.qualityScore)),
+        { value: total }
+      );
+      transaction = ethers.Transaction.from(await this.wallet.signTransaction(await this.wallet.populateTransaction(request)));
+      await signed({ transactionHash: transaction.hash!, nonce: transaction.nonce });
+    } catch (error) {
+      return { status: 'unsent', error: error instanceof Error ? error.message : 'Batch not sent' };
+    }
+
+    // From here the batch may be on chain even if a call fails
+    try {
+      const tx = await this.wallet.provider!.broadcastTransaction(transaction.serialized);
+      const receipt = await tx.wait(this.confirmations);
+      return receipt?.status === 1
+        ? { transactionHash: transaction.hash!, status: 'confirmed' }
+        : { transactionHash: transaction.hash!, status: 'reverted', error: 'Batch transaction reverted' };
+    } catch (error) {
+      return {
+        transactionHash: transaction.hash!,
+        status: 'unconfirmed',
+        error: error instanceof Error ? error.message : 'Batch not confirmed'
+      };
+    }
+  }
+
+  /**
+   * A batch is settled or reverted once its transaction has a receipt. One
+   * whose nonce has since been used without it was replaced, and can never
+   * be mined.
+   */
+  async reconcile(batch: TipBatch): Promise<TipBatchSettlement> {
+    const provider = this.wallet.provider!;
+    const { transactionHash, nonce } = batch;
+    if (!transactionHash || nonce === undefined) {
+      return { status: 'unsent', error: 'Batch was never signed' };
+    }
+
+    // Read the nonce before the receipt, so a batch mined in between is
+    // never taken for a replaced one
+    const minedNonce = await provider.getTransactionCount(this.wallet.address, 'latest');
+    const receipt = await provider.getTransactionReceipt(transactionHash);
+    if (receipt) {
+      return receipt.status === 1
+        ? { transactionHash, status: 'confirmed' }
+        : { transactionHash, status: 'reverted', error: 'Batch transaction reverted' };
+    }
+    if (minedNonce > nonce) {
+      return { transactionHash, status: 'unsent', error: `Nonce ${nonce} was used by another transaction` };
+    }
+    return { transactionHash, status: 'unconfirmed', error: 'Batch transaction not mined yet' };
+  }
+}
+
+export interface TipBatchConfig {
+  settler: TipBatchSettler;
+  // Longest a queued tip waits before its batch is settled (default 10 minutes)
+  windowMs?: number;
+  // Settle as soon as this many SEI are queued
+  thresholdAmount?: number;
+  // Largest number of tips in one transaction (default 50)
+  maxBatchSize?: number;
+  dataDir?: string;
+}
+
+interface TipBatchState {
+  pending: BatchedTip[];
+  batches: TipBatch[];
+}
+
+/**
+ * Queues small tips and settles them together, one transaction per batch
+ * instead of one per tip. A batch goes out when the oldest queued tip has
+ * waited the window, or as soon as the queue reaches the threshold amount
+ * or the batch size. Each tip gets a receipt naming the batch transaction
+ * that paid it; receipts are appended to a log for accounting.
+ *
+ * A batch is recorded as sending, with its tips off the queue, and then
+ * with its transaction hash and nonce before it is broadcast. Tips in a
+ * batch that was never sent or reverted go back on the queue. A batch that
+ * may have been broadcast but could not be confirmed, or was still sending
+ * when the agent stopped, is recorded as unconfirmed and reconciled
+ * against the chain before the next settlement; its tips are only queued
+ * again once the chain shows it can never be mined, so a tip is never paid
+ * twice.
+ */
+export class TipBatcher extends EventEmitter {
+  private settler: TipBatchSettler;
+  private windowMs: number;
+  private thresholdAmount?: number;
+  private maxBatchSize: number;
+  private store: JsonFileStore<TipBatchState>;
+  private receiptLog: JsonLinesLog<TipReceipt>;
+  private state: TipBatchState = { pending: [], batches: [] };
+  private loaded?: Promise<void>;
+  private timer?: NodeJS.Timeout;
+  private settling: boolean = false;
+
+  constructor(config: TipBatchConfig) {
+    super();
+    this.settler = config.settler;
+    this.windowMs = config.windowMs ?? 10 * 60 * 1000;
+    this.thresholdAmount = config.thresholdAmount;
+    this.maxBatchSize = config.maxBatchSize ?? 50;
+
+    const dataDir = config.dataDir || DEFAULT_DATA_DIR;
+    this.store = new JsonFileStore(path.join(dataDir, 'tip-batches.json'), { pending: [], batches: [] });
+    this.receiptLog = new JsonLinesLog(path.join(dataDir, 'tip-receipts.jsonl'));
+  }
+
+  async initialize(): Promise<void> {
+    await this.load();
+    await this.reconcile();
+    if (this.state.pending.length > 0) {
+      logger.info(`Resuming ${this.state.pending.length} queued tips awaiting batch settlement`);
+    }
+    this.start();
+  }
+
+  start(): void {
+    if (this.timer) return;
+    // Check often enough that no tip waits much beyond the window
+    this.timer = setInterval(() => {
+      this.settleDue().catch(error => logger.error('Tip batch settlement failed:', error));
+    }, Math.min(this.windowMs, 30 * 1000));
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async enqueue(tip: Omit<BatchedTip, 'id' | 'queuedAt'>): Promise<BatchedTip> {
+    await this.load();
+    if (!ethers.isAddress(tip.recipient)) {
+      throw new Error(`Batched tips need an EVM recipient, got ${tip.recipient}`);
+    }
+    if (!(tip.amount > 0)) {
+      throw new Error('Tip amount must be positive');
+    }
+
+    const queued: BatchedTip = {
+      ...tip,
+      recipient: ethers.getAddress(tip.recipient),
+      id: `tip_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      queuedAt: Date.now()
+    };
+    this.state.pending.push(queued);
+    await this.persist();
+
+    logger.info(`Queued ${queued.amount} SEI tip to ${queued.recipient} for batch settlement`);
+    this.emit('tip_queued', { ...queued });
+
+    if (this.isFull()) {
+      this.flush().catch(error => logger.error('Tip batch settlement failed:', error));
+    }
+    return { ...queued };
+  }
+
+  /**
+   * Settle queued tips now, regardless of the window. Returns the batch,
+   * or null when nothing was settled.
+   */
+  async flush(): Promise<TipBatch | null> {
+    await this.load();
+    if (this.settling || this.state.pending.length === 0) return null;
+    this.settling = true;
+
+    try {
+      const tips = this.state.pending.slice(0, this.maxBatchSize);
+      const batch: TipBatch = {
+        id: `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        status: 'sending',
+        total: tips.reduce((sum, tip) => sum + tip.amount, 0),
+        tips,
+        createdAt: Date.now()
+      };
+      const sendingIds = new Set(tips.map(tip => tip.id));
+      this.state.pending = this.state.pending.filter(tip => !sendingIds.has(tip.id));
+      this.state.batches.push(batch);
+      // Never broadcast a batch a restart would not know about
+      try {
+        await this.store.save(this.state);
+      } catch (error) {
+        this.state.batches = this.state.batches.filter(candidate => candidate !== batch);
+        this.state.pending = [...tips, ...this.state.pending];
+        throw error;
+      }
+
+      const settlement = await this.settler.settle(tips, async signed => {
+        batch.transactionHash = signed.transactionHash;
+        batch.nonce = signed.nonce;
+        await this.store.save(this.state);
+      });
+
+      await this.applySettlement(batch, settlement);
+      return batch.status === 'sending' ? null : { ...batch };
+    } finally {
+      this.settling = false;
+    }
+  }
+
+  /**
+   * Check every unconfirmed batch against the chain: settle the ones that
+   * were mined and queue again the tips of those that never can be.
+   */
+  async reconcile(): Promise<void> {
+    await this.load();
+    if (this.settling) return;
+    this.settling = true;
+
+    try {
+      for (const batch of this.state.batches.filter(candidate => candidate.status === 'unconfirmed')) {
+        let settlement: TipBatchSettlement;
+        try {
+          settlement = await this.settler.reconcile(batch);
+        } catch (error) {
+          logger.warn(`Could not reconcile tip batch ${batch.id}:`, error);
+          continue;
+        }
+        if (settlement.status !== 'unconfirmed') {
+          await this.applySettlement(batch, settlement);
+        }
+      }
+    } finally {
+      this.settling = false;
+    }
+  }
+
+  getPending(): BatchedTip[] {
+    return this.state.pending.map(tip => ({ ...tip }));
+  }
+
+  getPendingTotal(): number {
+    return this.state.pending.reduce((sum, tip) => sum + tip.amount, 0);
+  }
+
+  getBatches(): TipBatch[] {
+    return this.state.batches.map(batch => ({ ...batch, tips: batch.tips.map(tip => ({ ...tip })) }));
+  }
+
+  async getReceipts(batchId?: string): Promise<TipReceipt[]> {
+    const receipts = await this.receiptLog.readAll();
+    return receipts.filter(receipt => !batchId || receipt.batchId === batchId);
+  }
+
+  async getReceipt(tipId: string): Promise<TipReceipt | undefined> {
+    const receipts = await this.receiptLog.readAll();
+    return receipts.find(receipt => receipt.tipId === tipId);
+  }
+
+  /**
+   * Record where `batch` ended up. Tips of a batch that moved no funds go
+   * back on the queue and the batch is dropped (its status is left as it
+   * was); settled batches get receipts.
+   */
+  private async applySettlement(batch: TipBatch, settlement: TipBatchSettlement): Promise<void> {
+    const { tips } = batch;
+
+    if (settlement.status === 'unsent' || settlement.status === 'reverted') {
+      this.state.batches = this.state.batches.filter(candidate => candidate !== batch);
+      this.state.pending = [...tips, ...this.state.pending];
+      await this.persist();
+
+      logger.warn(`Tip batch of ${tips.length} (${batch.total} SEI) failed, will retry: ${settlement.error}`);
+      this.emit('batch_failed', { tips: tips.map(tip => ({ ...tip })), total: batch.total, ...settlement });
+      return;
+    }
+
+    batch.transactionHash = settlement.transactionHash ?? batch.transactionHash;
+    batch.status = settlement.status === 'confirmed' ? 'settled' : 'unconfirmed';
+    batch.error = settlement.error;
+    if (batch.status === 'unconfirmed') {
+      await this.persist();
+      logger.error(`Tip batch ${batch.id} (${batch.transactionHash}) could not be confirmed: ${batch.error}`);
+      this.emit('batch_unconfirmed', { batch: { ...batch } });
+      return;
+    }
+
+    batch.settledAt = Date.now();
+    await this.persist();
+
+    const receipts = tips.map((tip, index): TipReceipt => ({
+      tipId: tip.id,
+      batchId: batch.id,
+      transactionHash: batch.transactionHash!,
+      index,
+      recipient: tip.recipient,
+      amount: tip.amount,
+      contentId: tip.contentId,
+      platform: tip.platform,
+      settledAt: batch.settledAt!
+    }));
+    await this.logReceipts(receipts);
+
+    logger.info(`Settled ${tips.length} tips (${batch.total} SEI) in ${batch.transactionHash}`);
+    this.emit('batch_settled', { batch: { ...batch }, receipts });
+  }
+
+  private async settleDue(): Promise<void> {
+    if (this.state.batches.some(batch => batch.status === 'unconfirmed')) {
+      await this.reconcile();
+    }
+    const oldest = this.state.pending[0];
+    if (oldest && (Date.now() - oldest.queuedAt >= this.windowMs || this.isFull())) {
+      await this.flush();
+    }
+  }
+
+  private isFull(): boolean {
+    return this.state.pending.length >= this.maxBatchSize ||
+      (this.thresholdAmount !== undefined && this.getPendingTotal() >= this.thresholdAmount);
+  }
+
+  private async logReceipts(receipts: TipReceipt[]): Promise<void> {
+    try {
+      for (const receipt of receipts) {
+        await this.receiptLog.append(receipt);
+      }
+    } catch (error) {
+      logger.error('Failed to log tip receipts:', error);
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.load().then(async state => {
+        this.state = state;
+        await this.recoverInterrupted();
+      });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * A batch still sending when the agent stopped may or may not have been
+   * broadcast, so it is left for reconcile to look up rather than queued
+   * again
+   */
+  private async recoverInterrupted(): Promise<void> {
+    const interrupted = this.state.batches.filter(batch => batch.status === 'sending');
+    for (const batch of interrupted) {
+      batch.status = 'unconfirmed';
+      batch.error = 'Agent stopped while the batch was being sent';
+      logger.warn(`Tip batch ${batch.id} (${batch.tips.length} tips, ${batch.total} SEI) was interrupted; reconciling it on chain`);
+      this.emit('batch_unconfirmed', { batch: { ...batch } });
+    }
+    if (interrupted.length > 0) {
+      await this.persist();
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await this.store.save(this.state);
+    } catch (error) {
+      logger.error('Failed to persist tip batches:', error);
+    }
+  }
+}
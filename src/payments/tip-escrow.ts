@@ -0,0 +1,218 @@
+import { EventEmitter } from 'events';
+import path from 'path';
+import { JsonFileStore, DEFAULT_DATA_DIR } from '../storage/file-store';
+import { logger } from '../utils/logger';
+
+export interface EscrowRecord {
+  id: string;
+  platform: string;
+  creatorId: string;
+  creatorUsername?: string;
+  contentId: string;
+  amount: number;
+  currency: string;
+  // 'releasing' is persisted before the payout is sent, so a payout that
+  // fails or is interrupted is never retried blindly
+  status: 'held' | 'releasing' | 'released' | 'refunded';
+  createdAt: number;
+  expiresAt: number;
+  settledAt?: number;
+  walletAddress?: string;
+  transactionHash?: string;
+}
+
+export interface EscrowConfig {
+  dataDir?: string;
+  expiryHours: number;
+  claimBaseUrl: string;
+}
+
+export interface EscrowSummary {
+  held: number;
+  heldAmount: number;
+  releasing: number;
+  releasingAmount: number;
+  released: number;
+  releasedAmount: number;
+  refunded: number;
+  refundedAmount: number;
+  nextExpiry?: number;
+  pending: EscrowRecord[];
+}
+
+/**
+ * Holds tips for creators who have not linked a wallet yet. Funds stay in
+ * the agent's wallet; the record reserves them until the creator claims or
+ * the escrow expires and the amount goes back to the tipping reserve.
+ */
+export class TipEscrow extends EventEmitter {
+  private config: EscrowConfig;
+  private store: JsonFileStore<Record<string, EscrowRecord>>;
+  private records: Map<string, EscrowRecord> = new Map();
+  private isInitialized: boolean = false;
+
+  constructor(config: EscrowConfig) {
+    super();
+    this.config = config;
+    this.store = new JsonFileStore(
+      path.join(config.dataDir || DEFAULT_DATA_DIR, 'escrows.json'),
+      {}
+    );
+  }
+
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
+
+    const stored = await this.store.load();
+    for (const record of Object.values(stored)) {
+      this.records.set(record.id, record);
+    }
+
+    this.isInitialized = true;
+    logger.info(`Tip escrow loaded ${this.getHeld().length} held escrows`);
+
+    for (const record of this.getReleasing()) {
+      logger.warn(
+        `Escrow ${record.id} was being released to ${record.walletAddress} when the agent stopped; ` +
+        'check the wallet before settling it by hand'
+      );
+    }
+  }
+
+  async hold(tip: {
+    platform: string;
+    creatorId: string;
+    creatorUsername?: string;
+    contentId: string;
+    amount: number;
+    currency: string;
+  }): Promise<EscrowRecord> {
+    const now = Date.now();
+    const record: EscrowRecord = {
+      id: `escrow_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      ...tip,
+      status: 'held',
+      createdAt: now,
+      expiresAt: now + this.config.expiryHours * 60 * 60 * 1000
+    };
+
+    this.records.set(record.id, record);
+    await this.persist();
+
+    logger.info(
+      `Escrowed ${record.amount} ${record.currency} for ${record.platform} creator ` +
+      `${record.creatorId} until ${new Date(record.expiresAt).toISOString()}`
+    );
+    this.emit('held', record);
+
+    return record;
+  }
+
+  /**
+   * Claim a held escrow for payout to `walletAddress`. Returns false if it
+   * is no longer held, e.g. because another release already claimed it.
+   */
+  async beginRelease(id: string, walletAddress: string): Promise<boolean> {
+    const record = this.records.get(id);
+    if (!record || record.status !== 'held') return false;
+
+    record.status = 'releasing';
+    record.walletAddress = walletAddress;
+    await this.persist();
+    return true;
+  }
+
+  async markReleased(id: string, walletAddress: string, transactionHash: string): Promise<void> {
+    const record = this.getRecord(id, 'releasing');
+    record.status = 'released';
+    record.settledAt = Date.now();
+    record.walletAddress = walletAddress;
+    record.transactionHash = transactionHash;
+    await this.persist();
+
+    this.emit('released', record);
+  }
+
+  async markRefunded(id: string): Promise<void> {
+    const record = this.getRecord(id, 'held');
+    record.status = 'refunded';
+    record.settledAt = Date.now();
+    await this.persist();
+
+    this.emit('refunded', record);
+  }
+
+  getClaimUrl(platform: string, creatorId: string): string {
+    const params = new URLSearchParams({ platform, userId: creatorId });
+    return `${this.config.claimBaseUrl.replace(/\/$/, '')}/claim?${params}`;
+  }
+
+  getHeld(): EscrowRecord[] {
+    return Array.from(this.records.values()).filter(r => r.status === 'held');
+  }
+
+  getReleasing(): EscrowRecord[] {
+    return Array.from(this.records.values()).filter(r => r.status === 'releasing');
+  }
+
+  getHeldFor(platform: string, creatorId: string): EscrowRecord[] {
+    return this.getHeld().filter(r => r.platform === platform && r.creatorId === creatorId);
+  }
+
+  getExpired(now: number = Date.now()): EscrowRecord[] {
+    return this.getHeld().filter(r => r.expiresAt <= now);
+  }
+
+  getSummary(): EscrowSummary {
+    const summary: EscrowSummary = {
+      held: 0,
+      heldAmount: 0,
+      releasing: 0,
+      releasingAmount: 0,
+      released: 0,
+      releasedAmount: 0,
+      refunded: 0,
+      refundedAmount: 0,
+      pending: []
+    };
+
+    for (const record of this.records.values()) {
+      switch (record.status) {
+        case 'held':
+          summary.held++;
+          summary.heldAmount += record.amount;
+          summary.pending.push(record);
+          if (!summary.nextExpiry || record.expiresAt < summary.nextExpiry) {
+            summary.nextExpiry = record.expiresAt;
+          }
+          break;
+        case 'releasing':
+          summary.releasing++;
+          summary.releasingAmount += record.amount;
+          break;
+        case 'released':
+          summary.released++;
+          summary.releasedAmount += record.amount;
+          break;
+        case 'refunded':
+          summary.refunded++;
+          summary.refundedAmount += record.amount;
+          break;
+      }
+    }
+
+    return summary;
+  }
+
+  private getRecord(id: string, status: EscrowRecord['status']): EscrowRecord {
+    const record = this.records.get(id);
+    if (!record || record.status !== status) {
+      throw new Error(`Escrow ${id} is not ${status}`);
+    }
+    return record;
+  }
+
+  private async persist(): Promise<void> {
+    await this.store.save(Object.fromEntries(this.records));
+  }
+}
@@ -0,0 +1,387 @@
+import { EventEmitter } from 'events';
+import path from 'path';
+import { ethers } from 'ethers';
+import type { PaymentResponse, WithdrawalRules } from './x402-integration';
+import { JsonFileStore, JsonLinesLog, DEFAULT_DATA_DIR } from '../storage/file-store';
+import { logger } from '../utils/logger';
+
+export type WithdrawalStatus =
+  | 'pending_approval'
+  | 'time_locked'
+  | 'executing'
+  | 'completed'
+  | 'failed'
+  | 'rejected'
+  | 'cancelled';
+
+export interface WithdrawalRequest {
+  id: string;
+  amount: number;
+  destination: string;
+  status: WithdrawalStatus;
+  requestedBy?: string;
+  approvals: string[];
+  requestedAt: number;
+  // Earliest execution time for time-locked withdrawals
+  unlocksAt?: number;
+  completedAt?: number;
+  transactionHash?: string;
+  reason?: string;
+}
+
+export interface WithdrawalAttempt {
+  requestId: string;
+  action: 'request' | 'approve' | 'execute' | 'cancel';
+  actor?: string;
+  outcome: WithdrawalStatus;
+  amount: number;
+  destination: string;
+  reason?: string;
+  transactionHash?: string;
+  timestamp: number;
+}
+
+/**
+ * Where withdrawals come from: the balance they are checked against and the
+ * transfer that moves them.
+ */
+export interface WithdrawalFunds {
+  getAvailableBalance(): Promise<number>;
+  transfer(amount: number, destination: string): Promise<PaymentResponse>;
+}
+
+export interface WithdrawalManagerConfig {
+  dataDir?: string;
+  // How often time-locked and scheduled withdrawals are checked (default 60s)
+  checkIntervalMs?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FREQUENCY_MS: Record<WithdrawalRules['frequency'], number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+  monthly: 30 * DAY_MS
+};
+
+const OPEN_STATUSES: WithdrawalStatus[] = ['pending_approval', 'time_locked', 'executing'];
+
+/**
+ * Enforces WithdrawalRules on every withdrawal of earnings. A request is
+ * checked for amount, balance, destination and schedule, then waits for
+ * approvals and any time-lock before the funds move. Only one withdrawal may
+ * be open at a time, and `frequency` spaces completed ones apart. With
+ * `autoWithdraw` the balance is swept to `destinationAddress` on that
+ * schedule. Every attempt, including rejected ones, is appended to a log.
+ */
+export class WithdrawalManager extends EventEmitter {
+  private rules: WithdrawalRules;
+  private funds: WithdrawalFunds;
+  private checkIntervalMs: number;
+  private attemptLog: JsonLinesLog<WithdrawalAttempt>;
+  private requestStore: JsonFileStore<Record<string, WithdrawalRequest>>;
+  private requests: Map<string, WithdrawalRequest> = new Map();
+  private attempts: WithdrawalAttempt[] = [];
+  private loaded?: Promise<void>;
+  private timer?: NodeJS.Timeout;
+  private sweeping: boolean = false;
+
+  constructor(rules: WithdrawalRules, funds: WithdrawalFunds, config: WithdrawalManagerConfig = {}) {
+    super();
+    this.rules = rules;
+    this.funds = funds;
+    this.checkIntervalMs = config.checkIntervalMs ?? 60000;
+
+    if ((rules.requiredApprovals ?? 0) > (rules.approvers || []).length) {
+      throw new Error('Withdrawal rules require more approvals than there are approvers');
+    }
+
+    const dataDir = config.dataDir || DEFAULT_DATA_DIR;
+    this.attemptLog = new JsonLinesLog(path.join(dataDir, 'withdrawal-attempts.jsonl'));
+    this.requestStore = new JsonFileStore(path.join(dataDir, 'withdrawals.json'), {});
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.processDue().catch(error => logger.error('Withdrawal sweep failed:', error));
+    }, this.checkIntervalMs);
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Ask to withdraw `amount` SEI (everything available above the gas buffer
+   * if omitted) to `destination` (the configured destination if omitted).
+   */
+  async request(amount?: number, destination?: string, requestedBy?: string): Promise<WithdrawalRequest> {
+    await this.load();
+
+    const now = Date.now();
+    const available = await this.funds.getAvailableBalance();
+    const request: WithdrawalRequest = {
+      id: `wd_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      amount: amount ?? Math.max(0, available - this.rules.gasBuffer),
+      destination: destination || this.rules.destinationAddress,
+      status: 'rejected',
+      requestedBy,
+      approvals: [],
+      requestedAt: now
+    };
+
+    const violation = this.checkRequest(request, available, now);
+    if (violation) {
+      request.reason = violation;
+      await this.save(request, 'request', requestedBy);
+      this.emit('withdrawal_rejected', { ...request });
+      return { ...request };
+    }
+
+    request.destination = ethers.getAddress(request.destination);
+    if (this.isTimeLocked(request.amount)) {
+      request.unlocksAt = now + this.rules.timeLockHours! * 60 * 60 * 1000;
+    }
+    request.status = this.requiredApprovals() > 0
+      ? 'pending_approval'
+      : request.unlocksAt ? 'time_locked' : 'executing';
+    await this.save(request, 'request', requestedBy);
+    this.emit('withdrawal_requested', { ...request });
+
+    if (request.status === 'executing') {
+      await this.execute(request);
+    } else {
+      this.start();
+    }
+    return { ...request };
+  }
+
+  async approve(requestId: string, approver: string): Promise<WithdrawalRequest> {
+    await this.load();
+
+    const request = this.requests.get(requestId);
+    if (!request) {
+      throw new Error(`Withdrawal ${requestId} not found`);
+    }
+    if (request.status !== 'pending_approval') {
+      throw new Error(`Withdrawal ${requestId} is ${request.status}, not awaiting approval`);
+    }
+    if (!(this.rules.approvers || []).includes(approver)) {
+      throw new Error(`${approver} is not an approver for withdrawals`);
+    }
+    if (approver === request.requestedBy) {
+      throw new Error('Withdrawals cannot be approved by their requester');
+    }
+    if (request.approvals.includes(approver)) {
+      throw new Error(`${approver} has already approved withdrawal ${requestId}`);
+    }
+
+    request.approvals.push(approver);
+    if (request.approvals.length >= this.requiredApprovals()) {
+      request.status = request.unlocksAt && Date.now() < request.unlocksAt ? 'time_locked' : 'executing';
+    }
+    await this.save(request, 'approve', approver);
+    this.emit('withdrawal_approved', { ...request, approver });
+
+    if (request.status === 'executing') {
+      await this.execute(request);
+    }
+    return { ...request };
+  }
+
+  /**
+   * Cancel a request that has not executed yet
+   */
+  async cancel(requestId: string, actor?: string): Promise<WithdrawalRequest> {
+    await this.load();
+
+    const request = this.requests.get(requestId);
+    if (!request) {
+      throw new Error(`Withdrawal ${requestId} not found`);
+    }
+    if (request.status !== 'pending_approval' && request.status !== 'time_locked') {
+      throw new Error(`Withdrawal ${requestId} is ${request.status} and can no longer be cancelled`);
+    }
+
+    request.status = 'cancelled';
+    await this.save(request, 'cancel', actor);
+    this.emit('withdrawal_cancelled', { ...request });
+    return { ...request };
+  }
+
+  /**
+   * Execute time-locked withdrawals that have unlocked and, with
+   * autoWithdraw, start a scheduled one when it is due.
+   */
+  async processDue(now: number = Date.now()): Promise<void> {
+    if (this.sweeping) return;
+    this.sweeping = true;
+
+    try {
+      await this.load();
+
+      for (const request of this.requests.values()) {
+        if (request.status === 'time_locked' && now >= request.unlocksAt!) {
+          request.status = 'executing';
+          await this.execute(request);
+        }
+      }
+
+      if (this.rules.autoWithdraw && !this.hasOpenRequest() && now >= this.nextAllowedAt()) {
+        const available = await this.funds.getAvailableBalance();
+        if (available >= this.rules.minimumBalance) {
+          await this.request(undefined, undefined, 'auto');
+        }
+      }
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  async getRequests(): Promise<WithdrawalRequest[]> {
+    await this.load();
+    return Array.from(this.requests.values()).map(request => ({ ...request }));
+  }
+
+  async getAttempts(): Promise<WithdrawalAttempt[]> {
+    await this.load();
+    return [...this.attempts];
+  }
+
+  private checkRequest(request: WithdrawalRequest, available: number, now: number): string | undefined {
+    if (!(request.amount > 0)) {
+      return 'Nothing to withdraw';
+    }
+    if (this.rules.minimumAmount && request.amount < this.rules.minimumAmount) {
+      return `Withdrawals must be at least ${this.rules.minimumAmount} SEI`;
+    }
+    if (available < this.rules.minimumBalance) {
+      return `Balance ${available} SEI is below the ${this.rules.minimumBalance} SEI withdrawal minimum`;
+    }
+    if (request.amount > available - this.rules.gasBuffer) {
+      return `Only ${Math.max(0, available - this.rules.gasBuffer)} SEI can be withdrawn after the gas buffer`;
+    }
+
+    if (!request.destination || !ethers.isAddress(request.destination)) {
+      return 'No valid withdrawal destination';
+    }
+    if (!this.isWhitelisted(request.destination)) {
+      return `Destination ${request.destination} is not whitelisted`;
+    }
+
+    if (this.hasOpenRequest()) {
+      return 'Another withdrawal is already in progress';
+    }
+    const nextAllowedAt = this.nextAllowedAt();
+    if (now < nextAllowedAt) {
+      return `Withdrawals are ${this.rules.frequency}; next allowed at ${new Date(nextAllowedAt).toISOString()}`;
+    }
+
+    return undefined;
+  }
+
+  private async execute(request: WithdrawalRequest): Promise<void> {
+    // Balance may have moved while approvals or the time-lock were pending
+    const available = await this.funds.getAvailableBalance();
+    if (request.amount > available - this.rules.gasBuffer) {
+      request.status = 'failed';
+      request.reason = 'Insufficient balance at execution';
+    } else {
+      try {
+        const result = await this.funds.transfer(request.amount, request.destination);
+        request.status = result.success ? 'completed' : 'failed';
+        request.transactionHash = result.txHash;
+        request.reason = result.error;
+      } catch (error) {
+        request.status = 'failed';
+        request.reason = error instanceof Error ? error.message : 'Transfer failed';
+      }
+    }
+
+    if (request.status === 'completed') {
+      request.completedAt = Date.now();
+    }
+    await this.save(request, 'execute');
+
+    if (request.status === 'completed') {
+      this.emit('withdrawal_completed', { ...request });
+    } else {
+      logger.warn(`Withdrawal ${request.id} failed: ${request.reason}`);
+      this.emit('withdrawal_failed', { ...request });
+    }
+  }
+
+  private async save(request: WithdrawalRequest, action: WithdrawalAttempt['action'], actor?: string): Promise<void> {
+    this.requests.set(request.id, request);
+
+    const attempt: WithdrawalAttempt = {
+      requestId: request.id,
+      action,
+      actor,
+      outcome: request.status,
+      amount: request.amount,
+      destination: request.destination,
+      reason: request.reason,
+      transactionHash: request.transactionHash,
+      timestamp: Date.now()
+    };
+    this.attempts.push(attempt);
+
+    // The audit trail must not be what stops a withdrawal
+    try {
+      await this.attemptLog.append(attempt);
+      await this.requestStore.save(Object.fromEntries(this.requests));
+    } catch (error) {
+      logger.error(`Failed to record withdrawal ${request.id}:`, error);
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        this.attempts = await this.attemptLog.readAll();
+        const stored = await this.requestStore.load();
+        for (const [id, request] of Object.entries(stored)) {
+          // An execution cut short by a restart has unknown outcome
+          if (request.status === 'executing') {
+            request.status = 'failed';
+            request.reason = 'Interrupted during execution; check the chain before retrying';
+          }
+          this.requests.set(id, request);
+        }
+        if (this.rules.autoWithdraw || this.hasOpenRequest()) {
+          this.start();
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private isWhitelisted(destination: string): boolean {
+    const allowed = [this.rules.destinationAddress, ...(this.rules.whitelist || [])]
+      .filter(address => address && ethers.isAddress(address))
+      .map(address => ethers.getAddress(address));
+    return allowed.includes(ethers.getAddress(destination));
+  }
+
+  private isTimeLocked(amount: number): boolean {
+    return !!this.rules.timeLockHours && amount > (this.rules.timeLockAbove ?? 0);
+  }
+
+  private requiredApprovals(): number {
+    return this.rules.requiredApprovals ?? 0;
+  }
+
+  private hasOpenRequest(): boolean {
+    return Array.from(this.requests.values()).some(request => OPEN_STATUSES.includes(request.status));
+  }
+
+  private nextAllowedAt(): number {
+    const completed = Array.from(this.requests.values())
+      .filter(request => request.status === 'completed')
+      .map(request => request.completedAt!);
+    return completed.length === 0 ? 0 : Math.max(...completed) + FREQUENCY_MS[this.rules.frequency];
+  }
+}
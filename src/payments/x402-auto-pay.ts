@@ -0,0 +1,216 @@
+import { EventEmitter } from 'events';
+import { AxiosError, AxiosHeaders, AxiosInstance } from 'axios';
+import { ethers } from 'ethers';
+import { X402Client } from './x402-client';
+import type { PaymentRequirement } from './x402-integration';
+import {
+  AutonomyController,
+  Decision,
+  DecisionType,
+  RiskLevel
+} from '../autonomy/autonomy-controller';
+import { logger } from '../utils/logger';
+
+export interface X402AutoPayOptions {
+  client: X402Client;
+  autonomy: AutonomyController;
+}
+
+// X402Client signs native SEI transfers only; requirements name SEI by
+// symbol or by the zero address
+function isNativeSei(asset: string | undefined): boolean {
+  return !asset || asset.toUpperCase() === 'SEI' || asset === ethers.ZeroAddress;
+}
+
+interface SignedPayment {
+  header: string;
+  payload: Awaited<ReturnType<X402Client['createPaymentPayload']>>;
+}
+
+export interface X402AutoPayment {
+  resource: string;
+  payTo: string;
+  amount: number;
+  decisionId: string;
+}
+
+/**
+ * Pays x402 paywalls on outgoing requests. A 402 response is parsed for an
+ * `exact` native SEI requirement on the client's network, the price is put
+ * to the AutonomyController as a financial decision, and only if it is
+ * approved is a payment for exactly `maxAmountRequired` wei signed with
+ * X402Client and the request retried once with `X-PAYMENT`. If that retry
+ * fails the payment's nonce is released for the next one. Token-denominated
+ * requirements are never paid. Approval counts against the daily limit even
+ * if the seller then refuses the payment, which errs on the side of spending
+ * less.
+ */
+export class X402AutoPayer extends EventEmitter {
+  private client: X402Client;
+  private autonomy: AutonomyController;
+
+  constructor(options: X402AutoPayOptions) {
+    super();
+    this.client = options.client;
+    this.autonomy = options.autonomy;
+  }
+
+  /**
+   * Turn a 402 body into an `X-PAYMENT` header value, or throw if nothing
+   * acceptable is offered or the spend is not approved.
+   */
+  async createPaymentHeader(paymentRequired: any, resource: string): Promise<string> {
+    return (await this.signPayment(paymentRequired, resource)).header;
+  }
+
+  private async signPayment(paymentRequired: any, resource: string): Promise<SignedPayment> {
+    const requirement = this.selectRequirement(paymentRequired, resource);
+
+    // The decision is judged on a float, but the payment signs the exact wei
+    let amountWei: string;
+    let amount: number;
+    let payTo: string;
+    try {
+      amountWei = BigInt(requirement.maxAmountRequired).toString();
+      amount = parseFloat(ethers.formatEther(amountWei));
+      payTo = ethers.getAddress(requirement.payTo);
+    } catch {
+      throw new Error(`Malformed x402 payment requirement from ${resource}`);
+    }
+
+    const decision: Decision = {
+      id: `x402_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type: DecisionType.FINANCIAL_TRANSACTION,
+      description: `x402 payment of ${amount} SEI for ${resource}`,
+      context: {
+        platform: 'x402',
+        target: payTo,
+        amount,
+        currency: 'SEI',
+        urgency: 'low',
+        potential_impact: 'minimal',
+        reversible: false,
+        precedent_exists: true
+      },
+      risk_level: RiskLevel.LOW,
+      estimated_cost: amount,
+      timestamp: Date.now(),
+      confidence: 1
+    };
+
+    const validation = await this.autonomy.validateDecision(decision);
+    if (!validation.approved) {
+      this.emit('payment_denied', { resource, payTo, amount, reason: validation.reason });
+      throw new Error(`x402 payment for ${resource} not approved: ${validation.reason}`);
+    }
+
+    const payload = await this.client.createPaymentPayload({
+      recipient: payTo,
+      amount,
+      amountWei,
+      currency: 'SEI',
+      memo: `x402 payment for ${resource}`
+    });
+
+    const payment: X402AutoPayment = { resource, payTo, amount, decisionId: decision.id };
+    this.emit('payment_signed', payment);
+    logger.info(`Signed x402 payment of ${amount} SEI to ${payTo} for ${resource}`);
+
+    return { header: Buffer.from(JSON.stringify(payload)).toString('base64'), payload };
+  }
+
+  /**
+   * fetch that pays 402s. Pass the URL and init rather than a Request so the
+   * body can be sent again on the paid retry.
+   */
+  wrapFetch(fetchImpl: typeof fetch = fetch): typeof fetch {
+    return (async (input: string | URL | Request, init: RequestInit = {}) => {
+      const response = await fetchImpl(input, init);
+      if (response.status !== 402 || new Headers(init.headers).has('X-PAYMENT')) {
+        return response;
+      }
+
+      const resource = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+      const signed = await this.signPayment(await response.json(), resource);
+
+      const headers = new Headers(init.headers);
+      headers.set('X-PAYMENT', signed.header);
+      let paid: Response;
+      try {
+        paid = await fetchImpl(input, { ...init, headers });
+      } catch (error) {
+        this.client.releasePaymentPayload(signed.payload);
+        throw error;
+      }
+      if (!paid.ok) {
+        this.client.releasePaymentPayload(signed.payload);
+      }
+
+      this.recordSettlement(resource, paid.headers.get('X-PAYMENT-RESPONSE'));
+      return paid;
+    }) as typeof fetch;
+  }
+
+  /**
+   * Add a response interceptor to `instance` that pays 402s. Returns the
+   * interceptor id for `instance.interceptors.response.eject`.
+   */
+  attachToAxios(instance: AxiosInstance): number {
+    return instance.interceptors.response.use(undefined, async (error: AxiosError) => {
+      const response = error.response;
+      const config = error.config;
+      if (!response || response.status !== 402 || !config) {
+        throw error;
+      }
+
+      const headers = AxiosHeaders.from(config.headers);
+      if (headers.has('X-PAYMENT')) {
+        throw error;
+      }
+
+      const resource = instance.getUri(config);
+      const signed = await this.signPayment(response.data, resource);
+      headers.set('X-PAYMENT', signed.header);
+      let paid;
+      try {
+        paid = await instance.request({ ...config, headers });
+      } catch (retryError) {
+        this.client.releasePaymentPayload(signed.payload);
+        throw retryError;
+      }
+
+      this.recordSettlement(resource, paid.headers['x-payment-response']);
+      return paid;
+    });
+  }
+
+  private selectRequirement(paymentRequired: any, resource: string): PaymentRequirement {
+    const accepts: PaymentRequirement[] = Array.isArray(paymentRequired?.accepts)
+      ? paymentRequired.accepts
+      : [];
+
+    const requirement = accepts.find(option =>
+      option.scheme === 'exact' &&
+      option.network === this.client.getNetwork() &&
+      isNativeSei(option.asset)
+    );
+    if (!requirement) {
+      throw new Error(
+        `No native SEI x402 payment option for ${resource} on ${this.client.getNetwork()}`
+      );
+    }
+
+    return requirement;
+  }
+
+  private recordSettlement(resource: string, header: string | null | undefined): void {
+    if (!header) return;
+
+    try {
+      const settlement = JSON.parse(Buffer.from(header, 'base64').toString('utf8'));
+      this.emit('payment_settled', { resource, ...settlement });
+    } catch {
+      logger.warn(`Ignoring malformed X-PAYMENT-RESPONSE from ${resource}`);
+    }
+  }
+}
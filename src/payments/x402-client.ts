@@ -1,14 +1,25 @@
 import axios, { AxiosInstance } from 'axios';
 import { ethers } from 'ethers';
+import { authorizationDigest } from './x402-verification';
+import { toWei } from './tip-assets';
 import { logger } from '../utils/logger';
 
 export interface X402PaymentRequest {
   recipient: string;
   amount: number;
+  // Exact amount in wei, when the caller already has it (e.g. from an x402
+  // requirement); takes precedence over `amount`
+  amountWei?: string;
   currency: string;
   memo?: string;
 }
 
+function requestWei(request: X402PaymentRequest): string {
+  return request.amountWei !== undefined
+    ? BigInt(request.amountWei).toString()
+    : toWei(request.amount).toString();
+}
+
 export interface X402PaymentResponse {
   transactionHash: string;
   status: 'pending' | 'confirmed' | 'failed';
@@ -22,13 +33,20 @@ export interface X402Config {
   privateKey: string;
   network: 'sei-pacific' | 'sei-arctic';
   chainId: number;
+  // Overrides SEI_RPC_URL and the network default
+  rpcUrl?: string;
 }
 
+// Facilitators reject authorizations older than this, so a nonce reserved
+// for longer can no longer be settled and is free to hand out again
+const AUTHORIZATION_TTL_MS = 300 * 1000;
+
 export class X402Client {
   private client: AxiosInstance;
   private wallet: ethers.Wallet;
   private config: X402Config;
-  private nonce: number = 0;
+  // Nonces in issued payloads not yet seen on-chain, with when they were issued
+  private reservedNonces: Map<number, number> = new Map();
 
   constructor(config: Partial<X402Config> = {}) {
     this.config = {
@@ -36,6 +54,7 @@ export class X402Client {
       privateKey: config.privateKey || process.env.SEI_PRIVATE_KEY || '',
       network: config.network || 'sei-arctic',
       chainId: config.chainId || (config.network === 'sei-pacific' ? 1329 : 713715),
+      rpcUrl: config.rpcUrl,
     };
 
     if (!this.config.privateKey) {
@@ -64,10 +83,6 @@ export class X402Client {
       // Get supported payment methods
       const supported = await this.client.get('/supported');
       logger.info('Supported payment schemes:', supported.data);
-
-      // Initialize nonce
-      const provider = new ethers.JsonRpcProvider(this.getRpcUrl());
-      this.nonce = await provider.getTransactionCount(this.wallet.address);
     } catch (error) {
       logger.error('Failed to initialize x402 client:', error);
       throw error;
@@ -75,9 +90,11 @@ export class X402Client {
   }
 
   async sendPayment(request: X402PaymentRequest): Promise<X402PaymentResponse> {
+    let nonce: number | undefined;
     try {
       // Create payment payload
       const payload = await this.createPaymentPayload(request);
+      nonce = payload.payload.authorization.nonce;
       
       // Create payment requirements
       const requirements = this.createPaymentRequirements(request);
@@ -110,38 +127,39 @@ export class X402Client {
         network: this.config.network,
       };
     } catch (error: any) {
+      if (nonce !== undefined) {
+        this.reservedNonces.delete(nonce);
+      }
       logger.error('Payment failed:', error);
       throw error;
     }
   }
 
-  private async createPaymentPayload(request: X402PaymentRequest) {
+  /**
+   * Sign an `exact` payment for `request` without sending it anywhere.
+   */
+  async createPaymentPayload(request: X402PaymentRequest) {
     const timestamp = Math.floor(Date.now() / 1000);
+    const provider = new ethers.JsonRpcProvider(this.getRpcUrl());
+    const nonce = await this.reserveNonce(provider);
     
     // Create authorization object
     const authorization = {
       from: this.wallet.address,
       to: request.recipient,
-      amount: ethers.parseEther(request.amount.toString()).toString(),
-      nonce: this.nonce++,
+      amount: requestWei(request),
+      nonce,
       timestamp,
       chainId: this.config.chainId,
     };
 
     // Sign the payload
-    const message = ethers.solidityPackedKeccak256(
-      ['address', 'address', 'uint256', 'uint256', 'uint256', 'uint256'],
-      [
-        authorization.from,
-        authorization.to,
-        authorization.amount,
-        authorization.nonce,
-        authorization.timestamp,
-        authorization.chainId,
-      ]
+    const signature = await this.wallet.signMessage(
+      ethers.getBytes(authorizationDigest(authorization))
     );
 
-    const signature = await this.wallet.signMessage(ethers.getBytes(message));
+    // The matching transfer, which a facilitator broadcasts to settle
+    const transaction = await this.signSettlementTransaction(provider, authorization);
 
     return {
       x402Version: 1,
@@ -149,18 +167,77 @@ export class X402Client {
       network: this.config.network,
       payload: {
         authorization,
+        transaction,
         memo: request.memo || 'Social tip via Sei Agent',
       },
       signature,
     };
   }
 
+  /**
+   * Give back the nonce of a payload that will not be settled.
+   */
+  releasePaymentPayload(payload: { payload: { authorization: { nonce: number } } }): void {
+    this.reservedNonces.delete(payload.payload.authorization.nonce);
+  }
+
+  /**
+   * Next nonce after the wallet's pending transactions that no unexpired
+   * payload already holds. Payloads that were never settled free their
+   * nonce once they expire, so one failed payment cannot leave a gap that
+   * blocks every later one.
+   */
+  private async reserveNonce(provider: ethers.JsonRpcProvider): Promise<number> {
+    const pendingNonce = await provider.getTransactionCount(this.wallet.address, 'pending');
+    const cutoff = Date.now() - AUTHORIZATION_TTL_MS;
+
+    for (const [nonce, issuedAt] of this.reservedNonces) {
+      if (nonce < pendingNonce || issuedAt < cutoff) {
+        this.reservedNonces.delete(nonce);
+      }
+    }
+
+    let nonce = pendingNonce;
+    while (this.reservedNonces.has(nonce)) {
+      nonce++;
+    }
+    this.reservedNonces.set(nonce, Date.now());
+    return nonce;
+  }
+
+  private async signSettlementTransaction(
+    provider: ethers.JsonRpcProvider,
+    authorization: { to: string; amount: string; nonce: number; chainId: number }
+  ): Promise<string> {
+    const [feeData, gasLimit] = await Promise.all([
+      provider.getFeeData(),
+      provider.estimateGas({
+        from: this.wallet.address,
+        to: authorization.to,
+        value: BigInt(authorization.amount),
+      }),
+    ]);
+
+    const fees = feeData.maxFeePerGas !== null
+      ? { type: 2, maxFeePerGas: feeData.maxFeePerGas, maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? 0n }
+      : { type: 0, gasPrice: feeData.gasPrice ?? 0n };
+
+    return this.wallet.signTransaction({
+      to: authorization.to,
+      value: BigInt(authorization.amount),
+      nonce: authorization.nonce,
+      chainId: authorization.chainId,
+      gasLimit,
+      ...fees,
+    });
+  }
+
   private createPaymentRequirements(request: X402PaymentRequest) {
     return {
       x402Version: 1,
       scheme: 'exact',
       network: this.config.network,
-      requiredAmount: ethers.parseEther(request.amount.toString()).toString(),
+      requiredAmount: requestWei(request),
       recipient: request.recipient,
       currency: request.currency || 'SEI',
       expiryTime: Math.floor(Date.now() / 1000) + 300, // 5 minutes
@@ -175,6 +252,10 @@ export class X402Client {
   }
 
   private getRpcUrl(): string {
+    if (this.config.rpcUrl) {
+      return this.config.rpcUrl;
+    }
+
     // Use environment RPC URL if available
     if (process.env.SEI_RPC_URL) {
       return process.env.SEI_RPC_URL;
@@ -200,4 +281,15 @@ export class X402Client {
   getWalletAddress(): string {
     return this.wallet.address;
   }
+
+  /**
+   * Sign a 32-byte digest as an EIP-191 message with the payment wallet.
+   */
+  async signDigest(digest: string): Promise<string> {
+    return this.wallet.signMessage(ethers.getBytes(digest));
+  }
+
+  getNetwork(): X402Config['network'] {
+    return this.config.network;
+  }
 }
\ No newline at end of file
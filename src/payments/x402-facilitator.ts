@@ -0,0 +1,263 @@
+import http from 'http';
+import path from 'path';
+import { EventEmitter } from 'events';
+import express, { Router } from 'express';
+import { ethers } from 'ethers';
+import { JsonFileStore, DEFAULT_DATA_DIR } from '../storage/file-store';
+import { PaymentVerification, paymentNonceKey, verifyExactPayment } from './x402-verification';
+import { logger } from '../utils/logger';
+
+export interface X402FacilitatorConfig {
+  network: 'sei-pacific' | 'sei-arctic';
+  rpcUrl: string;
+  chainId?: number;
+  dataDir?: string;
+  maxAuthorizationAgeSeconds?: number;
+  // Blocks to wait for before a settlement is reported
+  confirmations?: number;
+  settlementTimeoutMs?: number;
+}
+
+export interface SettledPayment {
+  key: string;
+  payer: string;
+  recipient: string;
+  amount: string;
+  transactionHash: string;
+  settledAt: number;
+}
+
+export interface SettlementResult {
+  success: boolean;
+  transaction?: string;
+  errorReason?: string;
+  network: string;
+  payer?: string;
+}
+
+/**
+ * Self-hosted x402 facilitator for the `exact` scheme on Sei EVM. Payloads
+ * from X402Client carry a signed native transfer alongside the signed
+ * authorization; the facilitator checks both agree, refuses nonces it has
+ * already settled (persisted, and cross-checked against the chain), and
+ * settles by broadcasting the payer's own transaction. It never holds keys.
+ */
+export class X402Facilitator extends EventEmitter {
+  private config: Required<Omit<X402FacilitatorConfig, 'dataDir'>>;
+  private provider: ethers.JsonRpcProvider;
+  private store: JsonFileStore<Record<string, SettledPayment>>;
+  private settled: Map<string, SettledPayment> = new Map();
+  private inFlight: Set<string> = new Set();
+  private server?: http.Server;
+  private isInitialized: boolean = false;
+
+  constructor(config: X402FacilitatorConfig) {
+    super();
+    this.config = {
+      network: config.network,
+      rpcUrl: config.rpcUrl,
+      chainId: config.chainId ?? (config.network === 'sei-pacific' ? 1329 : 713715),
+      maxAuthorizationAgeSeconds: config.maxAuthorizationAgeSeconds ?? 300,
+      confirmations: config.confirmations ?? 1,
+      settlementTimeoutMs: config.settlementTimeoutMs ?? 60000
+    };
+    // Nonce and balance checks must never see a cached answer
+    this.provider = new ethers.JsonRpcProvider(config.rpcUrl, undefined, { cacheTimeout: -1 });
+    this.store = new JsonFileStore(
+      path.join(config.dataDir || DEFAULT_DATA_DIR, 'facilitator-settlements.json'),
+      {}
+    );
+  }
+
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
+
+    const network = await this.provider.getNetwork();
+    if (network.chainId !== BigInt(this.config.chainId)) {
+      throw new Error(
+        `RPC ${this.config.rpcUrl} is on chain ${network.chainId}, expected ${this.config.chainId}`
+      );
+    }
+
+    for (const payment of Object.values(await this.store.load())) {
+      this.settled.set(payment.key, payment);
+    }
+
+    this.isInitialized = true;
+    logger.info(`x402 facilitator loaded ${this.settled.size} settled payments`);
+  }
+
+  async verify(paymentPayload: any, paymentRequirements: any): Promise<PaymentVerification> {
+    const verification = verifyExactPayment(paymentPayload, paymentRequirements, {
+      network: this.config.network,
+      chainId: this.config.chainId,
+      maxAuthorizationAgeSeconds: this.config.maxAuthorizationAgeSeconds
+    });
+    if (!verification.isValid) {
+      return verification;
+    }
+
+    const payer = verification.payer;
+    const reject = (invalidReason: string): PaymentVerification => ({ isValid: false, invalidReason, payer });
+
+    const raw = paymentPayload.payload.transaction;
+    if (!raw) {
+      return reject('missing_transaction');
+    }
+
+    const authorization = paymentPayload.payload.authorization;
+    if (this.settled.has(paymentNonceKey(authorization))) {
+      return reject('nonce_already_used');
+    }
+
+    try {
+      const nonce = BigInt(authorization.nonce);
+      const [confirmedNonce, pendingNonce, balance] = await Promise.all([
+        this.provider.getTransactionCount(authorization.from, 'latest'),
+        this.provider.getTransactionCount(authorization.from, 'pending'),
+        this.provider.getBalance(authorization.from)
+      ]);
+
+      if (nonce < BigInt(confirmedNonce)) {
+        return reject('nonce_already_used');
+      }
+      if (nonce > BigInt(pendingNonce)) {
+        return reject('nonce_too_high');
+      }
+
+      const tx = ethers.Transaction.from(raw);
+      const maxFee = tx.gasLimit * (tx.maxFeePerGas ?? tx.gasPrice ?? 0n);
+      if (balance < tx.value + maxFee) {
+        return reject('insufficient_funds');
+      }
+    } catch (error) {
+      logger.error('Facilitator RPC check failed:', error);
+      return reject('rpc_unavailable');
+    }
+
+    return verification;
+  }
+
+  async settle(paymentPayload: any, paymentRequirements: any): Promise<SettlementResult> {
+    const fail = (errorReason: string, payer?: string): SettlementResult => ({
+      success: false,
+      errorReason,
+      payer,
+      network: this.config.network
+    });
+
+    const authorization = paymentPayload?.payload?.authorization;
+    let key: string;
+    try {
+      key = paymentNonceKey(authorization);
+    } catch {
+      return fail('missing_authorization');
+    }
+
+    // Reserve before any await so a concurrent retry cannot settle twice
+    if (this.inFlight.has(key)) {
+      return fail('settlement_in_progress', authorization.from);
+    }
+    this.inFlight.add(key);
+
+    try {
+      const verification = await this.verify(paymentPayload, paymentRequirements);
+      if (!verification.isValid) {
+        return fail(verification.invalidReason!, verification.payer);
+      }
+
+      const response = await this.provider.broadcastTransaction(paymentPayload.payload.transaction);
+      const receipt = await response.wait(this.config.confirmations, this.config.settlementTimeoutMs);
+      if (!receipt || receipt.status !== 1) {
+        return fail('transaction_failed', verification.payer);
+      }
+
+      const payment: SettledPayment = {
+        key,
+        payer: ethers.getAddress(authorization.from),
+        recipient: ethers.getAddress(authorization.to),
+        amount: authorization.amount.toString(),
+        transactionHash: receipt.hash,
+        settledAt: Date.now()
+      };
+      this.settled.set(key, payment);
+      // The transfer is final on-chain; a failed write must not report failure
+      await this.store.save(Object.fromEntries(this.settled))
+        .catch(error => logger.error('Failed to persist settlement:', error));
+
+      logger.info(
+        `Settled x402 payment of ${ethers.formatEther(payment.amount)} SEI ` +
+        `from ${payment.payer} to ${payment.recipient}: ${payment.transactionHash}`
+      );
+      this.emit('settled', payment);
+
+      return {
+        success: true,
+        transaction: receipt.hash,
+        network: this.config.network,
+        payer: verification.payer
+      };
+    } catch (error) {
+      logger.error('x402 settlement failed:', error);
+      return fail('settlement_failed', authorization.from);
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  getSettledPayments(): SettledPayment[] {
+    return Array.from(this.settled.values());
+  }
+
+  createRouter(): Router {
+    const router = Router();
+
+    router.get('/health', async (_req, res) => {
+      try {
+        const blockNumber = await this.provider.getBlockNumber();
+        res.json({ status: 'healthy', network: this.config.network, blockNumber });
+      } catch {
+        res.status(503).json({ status: 'unhealthy', network: this.config.network });
+      }
+    });
+
+    router.get('/supported', (_req, res) => {
+      res.json({ kinds: [{ x402Version: 1, scheme: 'exact', network: this.config.network }] });
+    });
+
+    router.post('/verify', async (req, res) => {
+      res.json(await this.verify(req.body.paymentPayload, req.body.paymentRequirements));
+    });
+
+    router.post('/settle', async (req, res) => {
+      res.json(await this.settle(req.body.paymentPayload, req.body.paymentRequirements));
+    });
+
+    return router;
+  }
+
+  async listen(port: number = 3001, host: string = '127.0.0.1'): Promise<string> {
+    const app = express();
+    app.use(express.json());
+    app.use(this.createRouter());
+
+    this.server = await new Promise<http.Server>((resolve, reject) => {
+      const server = app.listen(port, host, () => resolve(server));
+      server.once('error', reject);
+    });
+
+    const address = this.server.address() as { port: number };
+    const url = `http://${host}:${address.port}`;
+    logger.info(`x402 facilitator for ${this.config.network} listening at ${url}`);
+    return url;
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    if (server) {
+      this.server = undefined;
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+    this.provider.destroy();
+  }
+}
@@ -1,4 +1,41 @@
 import { EventEmitter } from 'events';
+import { ethers } from 'ethers';
+import { PaymentStream, StreamPayer, StreamCheckpoint } from './payment-stream';
+import {
+  SubscriptionManager,
+  SubscriptionConfig,
+  SubscriptionPayer,
+  SubscribeOptions,
+  Subscription,
+  SubscriptionCharge,
+  BillingPeriod
+} from './subscription-manager';
+import {
+  RevenueSplitter,
+  RevenueSplitConfig,
+  SplitRule,
+  SplitAllocation,
+  SplitTransferResult,
+  SplitTransferExecutor,
+  RecipientEarnings,
+  validateSplitRules
+} from './revenue-splitter';
+import {
+  WithdrawalManager,
+  WithdrawalManagerConfig,
+  WithdrawalRequest,
+  WithdrawalAttempt
+} from './withdrawal-manager';
+import {
+  RefundManager,
+  RefundConfig,
+  RefundRequest,
+  Refund,
+  Dispute,
+  DisputeEvent
+} from './refund-manager';
+import { toWei } from './tip-assets';
+import { logger } from '../utils/logger';
 
 export interface PaymentRequirement {
   scheme: string;
@@ -37,19 +74,43 @@ export interface PaymentResponse {
   networkId?: string;
 }
 
+export interface WithdrawalResult extends PaymentResponse {
+  withdrawal: WithdrawalRequest;
+}
+
 export interface StreamResult {
   streamId: string;
   active: boolean;
+  // Settled on-chain
   totalPaid: number;
+  // Signed for by the payer, settled or not
+  totalVouched: number;
   rate: number;
   startTime: number;
 }
 
+export interface StreamOptions {
+  duration?: number;
+  intervalSeconds?: number;
+  checkpointEvery?: number;
+}
+
 export interface RevenueConfig {
   models: RevenueModel[];
   paymentMethods: string[];
   withdrawalRules: WithdrawalRules;
   facilitator?: FacilitatorConfig;
+  // x402 network advertised in payment requirements (default sei-pacific)
+  network?: string;
+  subscriptions?: SubscriptionConfig;
+  // Required when any model or service splits its revenue
+  splits?: RevenueSplitConfig;
+  withdrawals?: WithdrawalManagerConfig;
+  // Sends withdrawals from the agent wallet; without one every withdrawal
+  // fails rather than being reported as sent
+  withdrawalExecutor?: SplitTransferExecutor;
+  // Required for refunds and disputes
+  refunds?: RefundConfig;
 }
 
 export interface RevenueModel {
@@ -59,14 +120,27 @@ export interface RevenueModel {
   billingCycle: 'per_use' | 'hourly' | 'daily' | 'monthly';
   description: string;
   metadata?: Record<string, any>;
+  // Who shares in this model's revenue, e.g. creator / agent / treasury
+  splits?: SplitRule[];
 }
 
 export interface WithdrawalRules {
+  // Earnings must reach this before anything can be withdrawn
   minimumBalance: number;
+  // At most one completed withdrawal per period
   frequency: 'daily' | 'weekly' | 'monthly';
   destinationAddress: string;
   autoWithdraw: boolean;
+  // SEI always left behind for gas
   gasBuffer: number;
+  minimumAmount?: number;
+  // Destinations allowed besides destinationAddress
+  whitelist?: string[];
+  // Delay before withdrawals above timeLockAbove (default 0) execute
+  timeLockHours?: number;
+  timeLockAbove?: number;
+  approvers?: string[];
+  requiredApprovals?: number;
 }
 
 export interface FacilitatorConfig {
@@ -78,12 +152,15 @@ export interface FacilitatorConfig {
 
 export interface EarningsReport {
   totalEarnings: number;
+  totalRefunded: number;
   dailyEarnings: number;
   weeklyEarnings: number;
   monthlyEarnings: number;
   topRevenueStreams: RevenueStreamSummary[];
+  // Split shares owed to other recipients but not yet paid out
   pendingPayments: number;
   withdrawableBalance: number;
+  recipients: RecipientEarnings[];
 }
 
 export interface RevenueStreamSummary {
@@ -103,6 +180,9 @@ export interface PaymentService {
   billing: 'one_time' | 'subscription' | 'per_use';
   availability: 'public' | 'private' | 'premium';
   requirements?: string[];
+  // Renewal period for subscription billing (default monthly)
+  billingPeriod?: BillingPeriod;
+  splits?: SplitRule[];
 }
 
 export class PaymentSystem extends EventEmitter {
@@ -111,6 +191,10 @@ export class PaymentSystem extends EventEmitter {
   private activeStreams: Map<string, PaymentStream> = new Map();
   private earnings: EarningsTracker;
   private facilitator?: X402Facilitator;
+  private subscriptions: SubscriptionManager;
+  private splitter?: RevenueSplitter;
+  private withdrawals: WithdrawalManager;
+  private refunds?: RefundManager;
   private walletAddress: string;
 
   constructor(config: RevenueConfig, walletAddress: string) {
@@ -122,6 +206,62 @@ export class PaymentSystem extends EventEmitter {
     if (config.facilitator) {
       this.facilitator = new X402Facilitator(config.facilitator);
     }
+
+    this.subscriptions = new SubscriptionManager(
+      walletAddress,
+      (subscription, payload, amount) => {
+        const service = this.services.get(subscription.serviceId)!;
+        return this.settleRecurringPayment(`/subscriptions/${subscription.id}`, service, payload, amount);
+      },
+      config.subscriptions
+    );
+    this.subscriptions.on('charge', (charge: SubscriptionCharge) => {
+      this.recordRevenue({
+        amount: charge.amount,
+        currency: 'SEI',
+        source: charge.serviceId,
+        timestamp: charge.timestamp,
+        transactionHash: charge.transactionHash,
+        payer: charge.payer
+      });
+      this.emit('subscription_payment', charge);
+    });
+    for (const event of ['subscription_past_due', 'subscription_expired', 'subscription_cancelled']) {
+      this.subscriptions.on(event, (subscription: Subscription) => this.emit(event, subscription));
+    }
+
+    if (config.splits) {
+      this.splitter = new RevenueSplitter(walletAddress, config.splits);
+      this.splitter.on('payout', payout => this.emit('split_payout', payout));
+      this.splitter.on('payout_failed', (result: SplitTransferResult) => this.emit('split_payout_failed', result));
+    }
+
+    if (config.refunds) {
+      this.refunds = new RefundManager(config.refunds);
+      this.refunds.on('refunded', (refund: Refund & { payer: string; serviceId: string }) => {
+        this.earnings.recordRefund(refund.amount, refund.refundTransactionHash);
+        this.reverseSplit(refund);
+        this.emit('payment_refunded', refund);
+      });
+      this.refunds.on('dispute_opened', (dispute: Dispute) => this.emit('dispute_opened', dispute));
+      this.refunds.on('dispute_resolved', (dispute: Dispute) => this.emit('dispute_resolved', dispute));
+    }
+
+    this.withdrawals = new WithdrawalManager(
+      config.withdrawalRules,
+      {
+        getAvailableBalance: () => this.getWithdrawableBalance(),
+        transfer: (amount, destination) => this.processWithdrawal(amount, destination)
+      },
+      config.withdrawals
+    );
+    this.withdrawals.on('withdrawal_completed', (request: WithdrawalRequest) => {
+      this.earnings.recordWithdrawal(request.amount, request.transactionHash!);
+      this.emit('withdrawal_completed', { amount: request.amount, txHash: request.transactionHash, withdrawal: request });
+    });
+    for (const event of ['withdrawal_requested', 'withdrawal_rejected', 'withdrawal_failed', 'withdrawal_cancelled']) {
+      this.withdrawals.on(event, (request: WithdrawalRequest) => this.emit(event, request));
+    }
     
     this.initializeServices();
   }
@@ -137,9 +277,12 @@ export class PaymentSystem extends EventEmitter {
         currency: model.currency,
         billing: model.billingCycle === 'per_use' ? 'one_time' : 
                 model.billingCycle === 'monthly' ? 'subscription' : 'per_use',
-        availability: 'public'
+        availability: 'public',
+        billingPeriod: model.billingCycle === 'per_use' ? undefined : model.billingCycle,
+        splits: model.splits
       };
       
+      this.checkSplits(service);
       this.services.set(service.id, service);
     }
   }
@@ -167,7 +310,11 @@ export class PaymentSystem extends EventEmitter {
   /**
    * Set up payment requirement for a specific service
    */
-  async setupPaymentRequirement(serviceId: string, customPrice?: number): Promise<PaymentRequirement> {
+  async setupPaymentRequirement(
+    serviceId: string,
+    customPrice?: number,
+    resource?: string
+  ): Promise<PaymentRequirement> {
     const service = this.services.get(serviceId);
     if (!service) {
       throw new Error(`Service ${serviceId} not found`);
@@ -175,9 +322,10 @@ export class PaymentSystem extends EventEmitter {
 
     const requirement: PaymentRequirement = {
       scheme: 'exact',
-      network: 'sei-mainnet',
-      maxAmountRequired: (customPrice || service.price).toString(),
-      resource: `/services/${serviceId}`,
+      network: this.config.network || 'sei-pacific',
+      // Atomic units (wei), as x402 requirements are denominated
+      maxAmountRequired: toWei(customPrice || service.price).toString(),
+      resource: resource || `/services/${serviceId}`,
       description: service.description,
       mimeType: 'application/json',
       outputSchema: this.getServiceOutputSchema(service),
@@ -186,6 +334,7 @@ export class PaymentSystem extends EventEmitter {
       asset: this.getAssetAddress(service.currency),
       extra: {
         name: service.name,
+        serviceId: service.id,
         serviceType: service.billing,
         metadata: service.requirements
       }
@@ -196,12 +345,16 @@ export class PaymentSystem extends EventEmitter {
   }
 
   /**
-   * Accept a payment and process the service request
+   * Accept a payment and process the service request. When the requirement
+   * the payment answers is given, the payload must satisfy it.
    */
-  async acceptPayment(paymentPayload: PaymentPayload): Promise<PaymentResult> {
+  async acceptPayment(
+    paymentPayload: PaymentPayload,
+    requirement?: PaymentRequirement
+  ): Promise<PaymentResult> {
     try {
       // Validate payment payload
-      const validation = await this.validatePayment(paymentPayload);
+      const validation = await this.validatePayment(paymentPayload, requirement);
       if (!validation.isValid) {
         return {
           success: false,
@@ -212,17 +365,18 @@ export class PaymentSystem extends EventEmitter {
       // Process payment through facilitator or directly
       let result: PaymentResult;
       if (this.facilitator) {
-        result = await this.facilitator.settlePayment(paymentPayload);
+        result = await this.facilitator.settlePayment(paymentPayload, requirement);
       } else {
         result = await this.processDirectPayment(paymentPayload);
       }
 
       if (result.success) {
-        // Record earnings
-        await this.earnings.recordPayment({
+        // Record earnings, splitting them if the service shares revenue
+        const extra = requirement?.extra as { serviceId?: string } | null | undefined;
+        this.recordRevenue({
           amount: result.amount!,
           currency: paymentPayload.payload.currency || 'SEI',
-          source: paymentPayload.payload.serviceId || 'unknown',
+          source: extra?.serviceId || paymentPayload.payload.serviceId || 'unknown',
           timestamp: Date.now(),
           transactionHash: result.transactionHash!,
           payer: result.payer!
@@ -271,42 +425,145 @@ export class PaymentSystem extends EventEmitter {
   }
 
   /**
-   * Start a payment stream for ongoing services
+   * Start a payment stream for ongoing services. `rate` is SEI per hour;
+   * the payer vouches every interval and checkpoints settle through the
+   * facilitator.
    */
-  async streamPayment(serviceId: string, rate: number, duration?: number): Promise<StreamResult> {
+  async streamPayment(
+    serviceId: string,
+    rate: number,
+    payer: StreamPayer,
+    options: StreamOptions = {}
+  ): Promise<StreamResult> {
+    const service = this.services.get(serviceId);
+    if (!service) {
+      throw new Error(`Service ${serviceId} not found`);
+    }
+    if (!this.facilitator) {
+      throw new Error('Streaming payments require a facilitator to settle checkpoints');
+    }
+
     const streamId = `stream_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
-    const stream = new PaymentStream(streamId, serviceId, rate, duration);
+    const stream = new PaymentStream(
+      { id: streamId, serviceId, payee: this.walletAddress, rate, ...options },
+      payer,
+      (payload, amount) => this.settleRecurringPayment(`/streams/${streamId}`, service, payload, amount)
+    );
     this.activeStreams.set(streamId, stream);
     
-    // Start the payment stream
-    await stream.start();
-    
-    stream.on('payment', (payment) => {
-      this.earnings.recordPayment(payment);
-      this.emit('stream_payment', { streamId, payment });
+    stream.on('checkpoint', (checkpoint: StreamCheckpoint) => {
+      this.recordRevenue({
+        amount: checkpoint.amount,
+        currency: 'SEI',
+        source: serviceId,
+        timestamp: checkpoint.timestamp,
+        transactionHash: checkpoint.transactionHash,
+        payer: checkpoint.payer
+      });
+      this.emit('stream_payment', { streamId, checkpoint });
     });
     
-    stream.on('ended', () => {
+    stream.on('ended', (summary) => {
       this.activeStreams.delete(streamId);
-      this.emit('stream_ended', { streamId });
+      this.emit('stream_ended', summary);
     });
     
+    // Start the payment stream
+    await stream.start();
+    
     this.emit('stream_started', { streamId, serviceId, rate });
     
     return {
       streamId,
       active: true,
       totalPaid: 0,
+      totalVouched: 0,
       rate,
-      startTime: Date.now()
+      startTime: stream.getStartTime()
     };
   }
 
+  /**
+   * Subscribe a payer to a subscription service, charging the first period
+   * now and renewing automatically until cancelled
+   */
+  async subscribe(
+    serviceId: string,
+    payer: SubscriptionPayer,
+    options: SubscribeOptions = {}
+  ): Promise<Subscription> {
+    const service = this.services.get(serviceId);
+    if (!service) {
+      throw new Error(`Service ${serviceId} not found`);
+    }
+    if (service.billing !== 'subscription') {
+      throw new Error(`Service ${serviceId} is not sold as a subscription`);
+    }
+    if (!this.facilitator) {
+      throw new Error('Subscriptions require a facilitator to settle renewals');
+    }
+
+    return this.subscriptions.subscribe(
+      serviceId,
+      service.price,
+      service.billingPeriod || 'monthly',
+      payer,
+      options
+    );
+  }
+
+  /**
+   * Cancel at the end of the paid period, or right away
+   */
+  async cancelSubscription(subscriptionId: string, immediate: boolean = false): Promise<Subscription> {
+    return this.subscriptions.cancel(subscriptionId, immediate);
+  }
+
+  async getSubscriptions(): Promise<Subscription[]> {
+    return this.subscriptions.getSubscriptions();
+  }
+
+  async hasActiveSubscription(serviceId: string, subscriber: string): Promise<boolean> {
+    return this.subscriptions.isEntitled(serviceId, subscriber);
+  }
+
+  /**
+   * Reattach the payer of a subscription stored before a restart
+   */
+  async attachSubscriptionPayer(subscriptionId: string, payer: SubscriptionPayer): Promise<void> {
+    await this.subscriptions.attachPayer(subscriptionId, payer);
+  }
+
+  /**
+   * Load stored subscriptions and resume renewing them
+   */
+  async startBilling(): Promise<void> {
+    await this.subscriptions.initialize();
+  }
+
+  /**
+   * Stop the renewal sweep and split payouts (active subscriptions and owed
+   * shares are kept)
+   */
+  stopBilling(): void {
+    this.subscriptions.stop();
+    this.splitter?.stop();
+    this.withdrawals.stop();
+  }
+
+  /**
+   * Pay out owed revenue shares now instead of waiting for the next batch
+   */
+  async flushSplits(): Promise<SplitTransferResult[]> {
+    return this.splitter ? this.splitter.flush() : [];
+  }
+
   /**
    * Add a new service offering
    */
   addService(service: PaymentService): void {
+    this.checkSplits(service);
     this.services.set(service.id, service);
     this.emit('service_added', service);
   }
@@ -331,6 +588,7 @@ export class PaymentSystem extends EventEmitter {
       throw new Error(`Service ${serviceId} not found`);
     }
     
+    this.checkSplits({ ...service, ...updates });
     Object.assign(service, updates);
     this.emit('service_updated', { serviceId, updates });
   }
@@ -339,32 +597,116 @@ export class PaymentSystem extends EventEmitter {
    * Get earnings report
    */
   async getEarningsReport(): Promise<EarningsReport> {
-    return await this.earnings.generateReport();
+    const report = await this.earnings.generateReport();
+    if (!this.splitter) {
+      return report;
+    }
+
+    return {
+      ...report,
+      pendingPayments: this.splitter.getPendingPayouts(),
+      withdrawableBalance: report.withdrawableBalance - this.splitter.getAllocatedToOthers(),
+      recipients: this.splitter.getRecipientEarnings()
+    };
   }
 
   /**
-   * Withdraw accumulated earnings
+   * Withdraw accumulated earnings under the configured withdrawal rules.
+   * Succeeds only if the funds moved now; a withdrawal waiting on approvals
+   * or a time-lock is returned with its status.
    */
-  async withdrawEarnings(amount?: number): Promise<PaymentResponse> {
-    const available = await this.earnings.getWithdrawableBalance();
-    const withdrawAmount = amount || available;
-    
-    if (withdrawAmount > available) {
-      return {
-        success: false,
-        error: 'Insufficient balance'
-      };
+  async withdrawEarnings(amount?: number, destination?: string, requestedBy?: string): Promise<WithdrawalResult> {
+    const withdrawal = await this.withdrawals.request(amount, destination, requestedBy);
+    return this.toWithdrawalResult(withdrawal);
+  }
+
+  async approveWithdrawal(withdrawalId: string, approver: string): Promise<WithdrawalResult> {
+    const withdrawal = await this.withdrawals.approve(withdrawalId, approver);
+    return this.toWithdrawalResult(withdrawal);
+  }
+
+  async cancelWithdrawal(withdrawalId: string, actor?: string): Promise<WithdrawalRequest> {
+    return this.withdrawals.cancel(withdrawalId, actor);
+  }
+
+  async getWithdrawals(): Promise<WithdrawalRequest[]> {
+    return this.withdrawals.getRequests();
+  }
+
+  /**
+   * Every withdrawal attempt with its outcome, rejected ones included
+   */
+  async getWithdrawalAttempts(): Promise<WithdrawalAttempt[]> {
+    return this.withdrawals.getAttempts();
+  }
+
+  /**
+   * Return some or all of a received payment to its payer
+   */
+  async refundPayment(transactionHash: string, request: RefundRequest): Promise<Refund> {
+    return this.requireRefunds().refund(transactionHash, request);
+  }
+
+  /**
+   * Run the service paid for by `transactionHash`, refunding the payment in
+   * full if the handler throws. The error is rethrown either way.
+   */
+  async deliverService<T>(transactionHash: string, handler: () => Promise<T>): Promise<T> {
+    try {
+      return await handler();
+    } catch (error) {
+      await this.refundFailedService(transactionHash, error);
+      throw error;
     }
-    
-    // Process withdrawal through blockchain
-    const result = await this.processWithdrawal(withdrawAmount);
-    
-    if (result.success) {
-      await this.earnings.recordWithdrawal(withdrawAmount, result.txHash!);
-      this.emit('withdrawal_completed', { amount: withdrawAmount, txHash: result.txHash });
+  }
+
+  /**
+   * Refund a payment whose service could not be delivered, logging rather
+   * than throwing if the refund itself fails
+   */
+  async refundFailedService(transactionHash: string, error: unknown): Promise<Refund | undefined> {
+    try {
+      return await this.refundPayment(transactionHash, {
+        reason: 'service_failed',
+        note: error instanceof Error ? error.message : String(error)
+      });
+    } catch (refundError) {
+      logger.error(`Automatic refund of ${transactionHash} failed:`, refundError);
+      this.emit('refund_failed', { transactionHash, error: refundError });
+      return undefined;
     }
-    
-    return result;
+  }
+
+  async openDispute(transactionHash: string, openedBy: string, reason: string): Promise<Dispute> {
+    return this.requireRefunds().openDispute(transactionHash, openedBy, reason);
+  }
+
+  async resolveDispute(
+    disputeId: string,
+    resolution: { refund: boolean; amount?: number; note: string },
+    actor?: string
+  ): Promise<Dispute> {
+    return this.requireRefunds().resolveDispute(disputeId, resolution, actor);
+  }
+
+  async getRefunds(transactionHash?: string): Promise<Refund[]> {
+    return this.refunds ? this.refunds.getRefunds(transactionHash) : [];
+  }
+
+  async getDisputes(): Promise<Dispute[]> {
+    return this.refunds ? this.refunds.getDisputes() : [];
+  }
+
+  async getDisputeLog(transactionHash?: string): Promise<DisputeEvent[]> {
+    return this.refunds ? this.refunds.getDisputeLog(transactionHash) : [];
+  }
+
+  hasRefunds(): boolean {
+    return this.refunds !== undefined;
+  }
+
+  hasFacilitator(): boolean {
+    return this.facilitator !== undefined;
   }
 
   /**
@@ -382,13 +724,14 @@ export class PaymentSystem extends EventEmitter {
       streamId: stream.id,
       active: stream.isActive(),
       totalPaid: stream.getTotalPaid(),
+      totalVouched: stream.getTotalVouched(),
       rate: stream.getRate(),
       startTime: stream.getStartTime()
     }));
   }
 
   /**
-   * Stop a payment stream
+   * Stop a payment stream, settling whatever the payer has vouched for
    */
   async stopStream(streamId: string): Promise<void> {
     const stream = this.activeStreams.get(streamId);
@@ -400,7 +743,55 @@ export class PaymentSystem extends EventEmitter {
   }
 
   // Private helper methods
-  private async validatePayment(payload: PaymentPayload): Promise<{isValid: boolean, error?: string}> {
+  private checkSplits(service: PaymentService): void {
+    if (!service.splits) return;
+    if (!this.splitter) {
+      throw new Error(`Service ${service.id} splits revenue but no split executor is configured`);
+    }
+    validateSplitRules(service.splits);
+  }
+
+  private recordRevenue(payment: PaymentRecord): void {
+    this.earnings.recordPayment(payment);
+    this.refunds?.recordPayment({
+      transactionHash: payment.transactionHash,
+      serviceId: payment.source,
+      payer: payment.payer,
+      amount: payment.amount,
+      timestamp: payment.timestamp
+    }).catch(error => logger.error(`Failed to record ${payment.transactionHash} for refunds:`, error));
+    if (this.config.withdrawalRules.autoWithdraw) {
+      this.withdrawals.start();
+    }
+
+    const rules = this.services.get(payment.source)?.splits;
+    if (!rules || !this.splitter) return;
+
+    const allocations: SplitAllocation[] = this.splitter.allocate(payment.amount, rules, payment.transactionHash);
+    this.emit('revenue_split', {
+      serviceId: payment.source,
+      transactionHash: payment.transactionHash,
+      allocations
+    });
+  }
+
+  // Recipients give back their share of refunded revenue
+  private reverseSplit(refund: Refund & { serviceId: string }): void {
+    const allocations = this.splitter?.reverse(refund.transactionHash, refund.amount) ?? [];
+    if (allocations.length === 0) return;
+
+    this.emit('revenue_split_reversed', {
+      serviceId: refund.serviceId,
+      transactionHash: refund.transactionHash,
+      refundId: refund.id,
+      allocations
+    });
+  }
+
+  private async validatePayment(
+    payload: PaymentPayload,
+    requirement?: PaymentRequirement
+  ): Promise<{isValid: boolean, error?: string}> {
     // Implement payment validation logic
     if (payload.x402Version !== 1) {
       return { isValid: false, error: 'Unsupported x402 version' };
@@ -409,10 +800,91 @@ export class PaymentSystem extends EventEmitter {
     if (!payload.scheme || !payload.network) {
       return { isValid: false, error: 'Invalid payment scheme or network' };
     }
+
+    if (!requirement) {
+      return { isValid: true };
+    }
+
+    if (payload.scheme !== requirement.scheme || payload.network !== requirement.network) {
+      return { isValid: false, error: 'Payment scheme or network does not match requirement' };
+    }
+
+    const authorization = payload.payload?.authorization;
+    if (!authorization) {
+      return { isValid: false, error: 'Missing payment authorization' };
+    }
+
+    try {
+      if (ethers.getAddress(authorization.to) !== ethers.getAddress(requirement.payTo)) {
+        return { isValid: false, error: 'Payment recipient does not match requirement' };
+      }
+      if (BigInt(authorization.amount) < BigInt(requirement.maxAmountRequired)) {
+        return { isValid: false, error: 'Payment amount is below the required amount' };
+      }
+    } catch {
+      return { isValid: false, error: 'Malformed payment authorization' };
+    }
     
     return { isValid: true };
   }
 
+  // Settle a payment the payer signed for a stream checkpoint or renewal
+  private async settleRecurringPayment(
+    resource: string,
+    service: PaymentService,
+    payload: PaymentPayload,
+    amount: bigint
+  ): Promise<PaymentResult> {
+    const requirement: PaymentRequirement = {
+      scheme: 'exact',
+      network: this.config.network || 'sei-pacific',
+      maxAmountRequired: amount.toString(),
+      resource,
+      description: service.description,
+      mimeType: 'application/json',
+      payTo: this.walletAddress,
+      maxTimeoutSeconds: 300,
+      asset: this.getAssetAddress('SEI'),
+      extra: { serviceId: service.id }
+    };
+
+    const validation = await this.validatePayment(payload, requirement);
+    if (!validation.isValid) {
+      return { success: false, error: validation.error };
+    }
+
+    return this.facilitator!.settlePayment(payload, requirement);
+  }
+
+  private requireRefunds(): RefundManager {
+    if (!this.refunds) {
+      throw new Error('Refunds require a refund executor in the revenue config');
+    }
+    return this.refunds;
+  }
+
+  private async getWithdrawableBalance(): Promise<number> {
+    // Shares owed to split recipients are not the agent's to withdraw
+    return await this.earnings.getWithdrawableBalance() -
+      (this.splitter?.getAllocatedToOthers() ?? 0);
+  }
+
+  private toWithdrawalResult(withdrawal: WithdrawalRequest): WithdrawalResult {
+    if (withdrawal.status === 'completed') {
+      return { success: true, txHash: withdrawal.transactionHash, networkId: this.config.network || 'sei-pacific', withdrawal };
+    }
+
+    const pending: Partial<Record<WithdrawalRequest['status'], () => string>> = {
+      pending_approval: () => `Awaiting ${this.config.withdrawalRules.requiredApprovals} approvals`,
+      time_locked: () => `Time-locked until ${new Date(withdrawal.unlocksAt!).toISOString()}`
+    };
+    return {
+      success: false,
+      error: withdrawal.reason || pending[withdrawal.status]?.() || `Withdrawal ${withdrawal.status}`,
+      withdrawal
+    };
+  }
+
   private async processDirectPayment(payload: PaymentPayload): Promise<PaymentResult> {
     // Implement direct payment processing
     // This would interact with the Sei blockchain directly
@@ -470,19 +942,31 @@ export class PaymentSystem extends EventEmitter {
       const paymentResponse = response.headers.get('X-PAYMENT-RESPONSE');
       if (paymentResponse) {
         const decoded = JSON.parse(Buffer.from(paymentResponse, 'base64').toString());
-        return decoded;
+        return {
+          success: decoded.success,
+          error: decoded.errorReason,
+          txHash: decoded.transaction,
+          networkId: decoded.network
+        };
       }
     }
     
     return { success: false, error: 'Payment failed' };
   }
 
-  private async processWithdrawal(amount: number): Promise<PaymentResponse> {
-    // Implement withdrawal to external address
+  private async processWithdrawal(amount: number, destination: string): Promise<PaymentResponse> {
+    const executor = this.config.withdrawalExecutor;
+    if (!executor) {
+      return { success: false, error: 'No withdrawal executor configured' };
+    }
+
+    logger.info(`Withdrawing ${amount} SEI to ${destination}`);
+    const [result] = await executor.sendBatch([{ recipient: destination, amount: toWei(amount) }]);
     return {
-      success: true,
-      txHash: `0x${Math.random().toString(16).substr(2, 64)}`,
-      networkId: 'sei-mainnet'
+      success: result?.success ?? false,
+      error: result ? result.error : 'Withdrawal was not sent',
+      txHash: result?.transactionHash,
+      networkId: this.config.network || 'sei-pacific'
     };
   }
 
@@ -511,7 +995,7 @@ export class PaymentSystem extends EventEmitter {
   private getAssetAddress(currency: string): string {
     // Map currency to asset contract address
     const assets = {
-      'SEI': '0x...',  // SEI native token
+      'SEI': ethers.ZeroAddress,  // SEI native token
       'USDC': '0x...', // USDC contract address
       'USDT': '0x...'  // USDT contract address
     };
@@ -528,7 +1012,7 @@ class X402Facilitator {
     this.config = config;
   }
 
-  async settlePayment(payload: PaymentPayload): Promise<PaymentResult> {
+  async settlePayment(payload: PaymentPayload, requirement?: PaymentRequirement): Promise<PaymentResult> {
     const response = await fetch(`${this.config.url}/settle`, {
       method: 'POST',
       headers: {
@@ -537,103 +1021,32 @@ class X402Facilitator {
       },
       body: JSON.stringify({
         x402Version: payload.x402Version,
-        paymentHeader: Buffer.from(JSON.stringify(payload)).toString('base64'),
-        paymentRequirements: {} // Would include the full requirements
+        paymentPayload: payload,
+        paymentRequirements: requirement || {}
       })
     });
 
-    const result = await response.json();
+    const result: any = await response.json();
+    const authorization = payload.payload?.authorization;
     
     return {
       success: result.success,
-      transactionHash: result.txHash,
-      amount: payload.payload.amount,
-      payer: payload.payload.from,
-      timestamp: Date.now(),
-      error: result.error
-    };
-  }
-}
-
-class PaymentStream extends EventEmitter {
-  public id: string;
-  private serviceId: string;
-  private rate: number;
-  private duration?: number;
-  private startTime: number = 0;
-  private totalPaid: number = 0;
-  private active: boolean = false;
-  private interval?: NodeJS.Timeout;
-
-  constructor(id: string, serviceId: string, rate: number, duration?: number) {
-    super();
-    this.id = id;
-    this.serviceId = serviceId;
-    this.rate = rate;
-    this.duration = duration;
-  }
-
-  async start(): Promise<void> {
-    this.active = true;
-    this.startTime = Date.now();
-    
-    // Process payments at regular intervals
-    this.interval = setInterval(() => {
-      if (this.active) {
-        this.processPayment();
-      }
-    }, 60000); // Every minute
-    
-    // Auto-stop if duration is set
-    if (this.duration) {
-      setTimeout(() => {
-        this.stop();
-      }, this.duration * 1000);
-    }
-  }
-
-  async stop(): Promise<void> {
-    this.active = false;
-    if (this.interval) {
-      clearInterval(this.interval);
-    }
-    this.emit('ended');
-  }
-
-  private processPayment(): void {
-    const payment = {
-      amount: this.rate / 60, // Rate per minute
-      currency: 'SEI',
-      source: this.serviceId,
+      transactionHash: result.transaction ?? result.txHash,
+      // Authorized amounts are in wei; report earnings in whole tokens
+      amount: authorization
+        ? parseFloat(ethers.formatEther(authorization.amount))
+        : payload.payload.amount,
+      payer: result.payer ?? authorization?.from ?? payload.payload.from,
       timestamp: Date.now(),
-      transactionHash: `stream_${this.id}_${Date.now()}`,
-      payer: 'stream_payer'
+      error: result.errorReason ?? result.error
     };
-    
-    this.totalPaid += payment.amount;
-    this.emit('payment', payment);
-  }
-
-  isActive(): boolean {
-    return this.active;
-  }
-
-  getTotalPaid(): number {
-    return this.totalPaid;
-  }
-
-  getRate(): number {
-    return this.rate;
-  }
-
-  getStartTime(): number {
-    return this.startTime;
   }
 }
 
 class EarningsTracker {
   private payments: PaymentRecord[] = [];
   private withdrawals: WithdrawalRecord[] = [];
+  private refunds: WithdrawalRecord[] = [];
 
   async recordPayment(payment: PaymentRecord): Promise<void> {
     this.payments.push(payment);
@@ -647,6 +1060,14 @@ class EarningsTracker {
     });
   }
 
+  async recordRefund(amount: number, txHash: string): Promise<void> {
+    this.refunds.push({
+      amount,
+      timestamp: Date.now(),
+      transactionHash: txHash
+    });
+  }
+
   async generateReport(): Promise<EarningsReport> {
     const now = Date.now();
     const dayMs = 24 * 60 * 60 * 1000;
@@ -655,6 +1076,7 @@ class EarningsTracker {
 
     const totalEarnings = this.payments.reduce((sum, p) => sum + p.amount, 0);
     const totalWithdrawn = this.withdrawals.reduce((sum, w) => sum + w.amount, 0);
+    const totalRefunded = this.refunds.reduce((sum, r) => sum + r.amount, 0);
     
     const dailyEarnings = this.payments
       .filter(p => now - p.timestamp < dayMs)
@@ -672,19 +1094,22 @@ class EarningsTracker {
     
     return {
       totalEarnings,
+      totalRefunded,
       dailyEarnings,
       weeklyEarnings,
       monthlyEarnings,
       topRevenueStreams: streamSummary,
-      pendingPayments: 0, // Would track pending settlements
-      withdrawableBalance: totalEarnings - totalWithdrawn
+      pendingPayments: 0,
+      withdrawableBalance: totalEarnings - totalWithdrawn - totalRefunded,
+      recipients: []
     };
   }
 
   async getWithdrawableBalance(): Promise<number> {
     const totalEarnings = this.payments.reduce((sum, p) => sum + p.amount, 0);
     const totalWithdrawn = this.withdrawals.reduce((sum, w) => sum + w.amount, 0);
-    return totalEarnings - totalWithdrawn;
+    const totalRefunded = this.refunds.reduce((sum, r) => sum + r.amount, 0);
+    return totalEarnings - totalWithdrawn - totalRefunded;
   }
 
   private getRevenueStreamSummary(): RevenueStreamSummary[] {
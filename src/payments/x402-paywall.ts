@@ -0,0 +1,106 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { PaymentSystem, PaymentPayload, PaymentRequirement, PaymentResult } from './x402-integration';
+import { logger } from '../utils/logger';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Settled x402 payment for the current request, set by x402Paywall
+      payment?: PaymentResult;
+    }
+  }
+}
+
+export interface PaywallOptions {
+  // PaymentService whose price and description are advertised
+  serviceId: string;
+  // Overrides the service's price for this route
+  price?: number;
+  // Refund the payment if the route answers with a 5xx (default true when
+  // the PaymentSystem has refunds configured)
+  refundOnError?: boolean;
+}
+
+function decodePaymentHeader(header: string): PaymentPayload | null {
+  try {
+    const payload = JSON.parse(Buffer.from(header, 'base64').toString('utf8'));
+    return payload && typeof payload === 'object' ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+function sendPaymentRequired(res: Response, requirement: PaymentRequirement, error: string): void {
+  res.status(402).json({ x402Version: 1, error, accepts: [requirement] });
+}
+
+/**
+ * Put a route behind an x402 paywall. Requests without an `X-PAYMENT` header
+ * get a 402 listing what to pay; a payment is accepted through the
+ * PaymentSystem against that same requirement and settled before the route
+ * runs, which then sees it on `req.payment`. The settlement is returned to
+ * the caller in `X-PAYMENT-RESPONSE`. If the route then fails with a server
+ * error, the payment is refunded automatically.
+ */
+export function x402Paywall(paymentSystem: PaymentSystem, options: PaywallOptions): RequestHandler {
+  // Without a facilitator PaymentSystem cannot actually settle anything
+  if (!paymentSystem.hasFacilitator()) {
+    throw new Error('x402 paywall requires a PaymentSystem configured with a facilitator');
+  }
+  const refundOnError = options.refundOnError ?? paymentSystem.hasRefunds();
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const requirement = await paymentSystem.setupPaymentRequirement(
+        options.serviceId,
+        options.price,
+        `${req.protocol}://${req.get('host')}${req.originalUrl}`
+      );
+
+      const header = req.header('X-PAYMENT');
+      if (!header) {
+        sendPaymentRequired(res, requirement, 'X-PAYMENT header is required');
+        return;
+      }
+
+      const payload = decodePaymentHeader(header);
+      if (!payload) {
+        sendPaymentRequired(res, requirement, 'Invalid X-PAYMENT header');
+        return;
+      }
+
+      const result = await paymentSystem.acceptPayment(payload, requirement);
+      if (!result.success) {
+        logger.warn(`Rejected x402 payment for ${req.originalUrl}: ${result.error}`);
+        sendPaymentRequired(res, requirement, result.error || 'Payment was not accepted');
+        return;
+      }
+
+      const settlement = {
+        success: true,
+        transaction: result.transactionHash,
+        network: requirement.network,
+        payer: result.payer
+      };
+      res.setHeader('X-PAYMENT-RESPONSE', Buffer.from(JSON.stringify(settlement)).toString('base64'));
+      res.setHeader('Access-Control-Expose-Headers', 'X-PAYMENT-RESPONSE');
+
+      if (refundOnError) {
+        // Errors thrown by the route surface here as the 500 Express sends
+        res.on('finish', () => {
+          if (res.statusCode >= 500) {
+            paymentSystem.refundFailedService(
+              result.transactionHash!,
+              new Error(`${req.method} ${req.originalUrl} responded ${res.statusCode}`)
+            );
+          }
+        });
+      }
+
+      req.payment = result;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
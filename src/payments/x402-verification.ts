@@ -0,0 +1,126 @@
+import { ethers } from 'ethers';
+
+export interface PaymentVerification {
+  isValid: boolean;
+  invalidReason?: string;
+  payer?: string;
+}
+
+export interface ExactVerificationOptions {
+  network: string;
+  chainId: number;
+  // Reject authorizations signed longer ago than this (default 300)
+  maxAuthorizationAgeSeconds?: number;
+  // Unix seconds; defaults to the current time
+  now?: number;
+}
+
+/**
+ * Digest X402Client signs for an `exact` authorization.
+ */
+export function authorizationDigest(authorization: any): string {
+  return ethers.solidityPackedKeccak256(
+    ['address', 'address', 'uint256', 'uint256', 'uint256', 'uint256'],
+    [
+      authorization.from,
+      authorization.to,
+      authorization.amount,
+      authorization.nonce,
+      authorization.timestamp,
+      authorization.chainId
+    ]
+  );
+}
+
+export function paymentNonceKey(authorization: any): string {
+  return `${ethers.getAddress(authorization.from)}:${authorization.nonce}`;
+}
+
+/**
+ * Stateless checks for an `exact` payload from X402Client against the
+ * requirements it was created for: scheme, network, signer, recipient,
+ * amount and freshness. When the payload carries a signed settlement
+ * transaction, that transaction must move exactly what was authorized.
+ * Nonce reuse and balances depend on facilitator state and are left to it.
+ */
+export function verifyExactPayment(
+  paymentPayload: any,
+  paymentRequirements: any,
+  options: ExactVerificationOptions
+): PaymentVerification {
+  const authorization = paymentPayload?.payload?.authorization;
+  if (!authorization || !paymentPayload.signature) {
+    return { isValid: false, invalidReason: 'missing_authorization' };
+  }
+
+  const payer = authorization.from;
+  const reject = (invalidReason: string): PaymentVerification => ({ isValid: false, invalidReason, payer });
+
+  if (paymentPayload.scheme !== 'exact' || paymentRequirements?.scheme !== 'exact') {
+    return reject('unsupported_scheme');
+  }
+  if (paymentPayload.network !== options.network || paymentRequirements.network !== options.network) {
+    return reject('invalid_network');
+  }
+  if (Number(authorization.chainId) !== options.chainId) {
+    return reject('invalid_chain_id');
+  }
+
+  try {
+    const signer = ethers.verifyMessage(
+      ethers.getBytes(authorizationDigest(authorization)),
+      paymentPayload.signature
+    );
+    if (signer !== ethers.getAddress(authorization.from)) {
+      return reject('invalid_signature');
+    }
+  } catch {
+    return reject('invalid_signature');
+  }
+
+  // X402Client names these recipient/requiredAmount; the x402 spec payTo/maxAmountRequired
+  const recipient = paymentRequirements.recipient ?? paymentRequirements.payTo;
+  const requiredAmount = paymentRequirements.requiredAmount ?? paymentRequirements.maxAmountRequired;
+
+  try {
+    if (ethers.getAddress(authorization.to) !== ethers.getAddress(recipient)) {
+      return reject('recipient_mismatch');
+    }
+    if (BigInt(authorization.amount) < BigInt(requiredAmount)) {
+      return reject('insufficient_amount');
+    }
+  } catch {
+    return reject('invalid_requirements');
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (paymentRequirements.expiryTime && paymentRequirements.expiryTime < now) {
+    return reject('expired');
+  }
+  if (now - Number(authorization.timestamp) > (options.maxAuthorizationAgeSeconds ?? 300)) {
+    return reject('authorization_too_old');
+  }
+
+  const transaction = paymentPayload.payload.transaction;
+  if (transaction !== undefined && !settlementMatches(transaction, authorization)) {
+    return reject('transaction_mismatch');
+  }
+
+  return { isValid: true, payer };
+}
+
+function settlementMatches(raw: string, authorization: any): boolean {
+  try {
+    const tx = ethers.Transaction.from(raw);
+    return (
+      tx.from === ethers.getAddress(authorization.from) &&
+      tx.to === ethers.getAddress(authorization.to) &&
+      tx.value === BigInt(authorization.amount) &&
+      BigInt(tx.nonce) === BigInt(authorization.nonce) &&
+      tx.chainId === BigInt(authorization.chainId) &&
+      tx.data === '0x'
+    );
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,155 @@
+import type { AgentConfig } from '../../core/agent-engine';
+import { PersonalityModule } from '../../personality/personality-engine';
+import {
+  PlatformAdapter,
+  PlatformEvent,
+  PlatformUser,
+  PlatformLimits,
+  PlatformFeatures,
+  AuthResult,
+  AgentResponse,
+  ResponseType,
+  EventFilter,
+  EventType,
+  Content,
+  PostResult
+} from '../platform-sdk';
+
+/**
+ * Shared behaviour for adapters that wrap one of the platform clients. The
+ * clients read their credentials from the environment, so the adapter's
+ * config only carries limits and features. Subclasses map the client's raw
+ * messages to PlatformEvents and pass them to `emitEvent`.
+ */
+export abstract class ClientPlatformAdapter extends PlatformAdapter {
+  protected agent: AgentConfig;
+  protected personality: PersonalityModule;
+
+  constructor(
+    name: string,
+    agent: AgentConfig,
+    personality: PersonalityModule,
+    limits: PlatformLimits,
+    features: PlatformFeatures
+  ) {
+    super({ name, credentials: {}, limits, features });
+    this.agent = agent;
+    this.personality = personality;
+  }
+
+  async authenticate(): Promise<AuthResult> {
+    try {
+      if (!this.isConnected) {
+        await this.connect();
+      }
+      return { success: true, user: this.getAccount() };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Authentication failed' };
+    }
+  }
+
+  /**
+   * Events matching any of the filters (all events when there are none),
+   * as they arrive. Stop with `return()`.
+   */
+  listen(filters: EventFilter[]): AsyncIterator<PlatformEvent> {
+    const queue: PlatformEvent[] = [];
+    const waiting: Array<(result: IteratorResult<PlatformEvent>) => void> = [];
+
+    const onEvent = (event: PlatformEvent) => {
+      if (!this.matchesFilters(event, filters)) return;
+      const next = waiting.shift();
+      if (next) {
+        next({ value: event, done: false });
+      } else {
+        queue.push(event);
+      }
+    };
+    this.on('event', onEvent);
+
+    return {
+      next: () => queue.length > 0
+        ? Promise.resolve({ value: queue.shift()!, done: false })
+        : new Promise(resolve => waiting.push(resolve)),
+      return: async () => {
+        this.off('event', onEvent);
+        for (const resolve of waiting.splice(0)) {
+          resolve({ value: undefined, done: true });
+        }
+        return { value: undefined, done: true };
+      }
+    };
+  }
+
+  /**
+   * Respond to an event. Replies without a target reply to the event.
+   */
+  async react(event: PlatformEvent, response: AgentResponse): Promise<void> {
+    if (response.type === ResponseType.REPLY && response.content && !response.content.replyTo) {
+      response = { ...response, content: { ...response.content, replyTo: event.id } };
+    }
+    await this.executeAction(response);
+  }
+
+  /**
+   * Custom actions: `direct_message` ({ userId, message }) on platforms
+   * that support DMs
+   */
+  protected async executeCustomAction(response: AgentResponse): Promise<void> {
+    if (response.action?.type !== 'direct_message') {
+      return super.executeCustomAction(response);
+    }
+    if (!this.sendDirectMessage) {
+      throw new Error(`Direct messages are not supported on ${this.config.name}`);
+    }
+    const { userId, message } = response.action.parameters;
+    await this.sendDirectMessage(userId, message);
+  }
+
+  // Implemented by adapters whose platform has DMs
+  protected sendDirectMessage?(userId: string, message: string): Promise<void>;
+
+  // The account the agent acts as, once connected
+  protected abstract getAccount(): PlatformUser | undefined;
+
+  /**
+   * Post text for content, with hashtags appended, cut to the platform's
+   * maximum length
+   */
+  protected toText(content: Content): string {
+    const hashtags = (content.hashtags || []).map(tag => `#${tag.replace(/^#/, '')}`).join(' ');
+    const text = [content.text, hashtags].filter(Boolean).join(' ').trim();
+    if (!text) {
+      throw new Error(`${this.config.name} posts need text`);
+    }
+
+    const max = this.config.limits.maxContentLength;
+    return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+  }
+
+  protected unsupported(action: string): PostResult {
+    return { success: false, error: `${action} is not supported on ${this.config.name}` };
+  }
+
+  private matchesFilters(event: PlatformEvent, filters: EventFilter[]): boolean {
+    return filters.length === 0 || filters.some(filter => this.matchesFilter(event, filter));
+  }
+
+  private matchesFilter(event: PlatformEvent, filter: EventFilter): boolean {
+    const author = event.data.author;
+    const text = (event.data.content || '').toLowerCase();
+
+    if (filter.type && !filter.type.includes(event.type)) return false;
+    if (filter.author && !(author && (filter.author.includes(author.id) || filter.author.includes(author.username)))) {
+      return false;
+    }
+    if (filter.keywords && !filter.keywords.some(keyword => text.includes(keyword.toLowerCase()))) return false;
+    if (filter.hashtags && !filter.hashtags.some(tag => text.includes(`#${tag.replace(/^#/, '').toLowerCase()}`))) {
+      return false;
+    }
+    if (filter.mentioned && event.type !== EventType.MENTION) return false;
+    if (filter.minFollowers !== undefined && (author?.followerCount ?? 0) < filter.minFollowers) return false;
+    if (filter.verified && !author?.verified) return false;
+    return true;
+  }
+}
@@ -0,0 +1,171 @@
+import type { Message } from 'discord.js';
+import type { AgentConfig } from '../../core/agent-engine';
+import { PersonalityModule } from '../../personality/personality-engine';
+import { DiscordClient } from '../discord-client';
+import { ClientPlatformAdapter } from './client-adapter';
+import {
+  PlatformEvent,
+  PlatformUser,
+  EventType,
+  ContentType,
+  Content,
+  PostResult
+} from '../platform-sdk';
+import { logger } from '../../utils/logger';
+
+/**
+ * Discord through DiscordClient. Direct messages, mentions of the bot and
+ * replies to its messages become events. Posts go to DISCORD_CHANNEL_ID;
+ * shares crosspost announcement-channel messages; direct messages go to
+ * users the bot shares a server with. Discord has no follows.
+ */
+export default class DiscordAdapter extends ClientPlatformAdapter {
+  private client: DiscordClient;
+
+  constructor(agent: AgentConfig, personality: PersonalityModule, client: DiscordClient = new DiscordClient()) {
+    super('discord', agent, personality, {
+      postsPerHour: 120,
+      postsPerDay: 1000,
+      followsPerHour: 0,
+      followsPerDay: 0,
+      maxContentLength: 2000,
+      maxMediaSize: 25 * 1024 * 1024,
+      rateLimitWindow: 60 * 1000
+    }, {
+      supportedContentTypes: [ContentType.TEXT],
+      supportedEventTypes: [EventType.MESSAGE_RECEIVED, EventType.MENTION, EventType.COMMENT],
+      hasDirectMessages: true,
+      hasGroups: true,
+      hasLivestreaming: false,
+      hasPayments: false,
+      hasPolls: true,
+      hasThreads: true,
+      hasReactions: true,
+      hasVerification: false
+    });
+    this.client = client;
+    this.client.on('addressed', (message: Message) => this.emitEvent(this.toEvent(message)));
+  }
+
+  async connect(): Promise<void> {
+    await this.client.connect();
+    await this.client.startMonitoring({ keywords: [] });
+    this.isConnected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.isConnected = false;
+    await this.client.disconnect();
+  }
+
+  async post(content: Content): Promise<PostResult> {
+    const channelId = process.env.DISCORD_CHANNEL_ID;
+    if (!channelId) {
+      return { success: false, error: 'DISCORD_CHANNEL_ID is not set' };
+    }
+    try {
+      const id = await this.client.send(channelId, this.toText(content));
+      return { success: true, postId: id };
+    } catch (error) {
+      logger.error('Failed to post to Discord:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Post failed' };
+    }
+  }
+
+  async getUser(userId: string): Promise<PlatformUser> {
+    const user = await this.client.getUser(userId);
+    return this.toUser(user);
+  }
+
+  async getUserPosts(userId: string, limit: number = 10): Promise<Content[]> {
+    const messages = await this.client.getUserMessages(userId, limit);
+    return messages.map(message => ({
+      id: message.id,
+      type: ContentType.TEXT,
+      text: message.content,
+      metadata: { channelId: message.channelId, createdAt: message.createdTimestamp }
+    }));
+  }
+
+  async deletePost(postId: string): Promise<boolean> {
+    try {
+      await this.client.deleteMessage(postId);
+      return true;
+    } catch (error) {
+      logger.error(`Failed to delete Discord message ${postId}:`, error);
+      return false;
+    }
+  }
+
+  async editPost(postId: string, content: Content): Promise<PostResult> {
+    try {
+      await this.client.editMessage(postId, this.toText(content));
+      return { success: true, postId };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Edit failed' };
+    }
+  }
+
+  protected async reply(content: Content): Promise<PostResult> {
+    if (!content.replyTo) {
+      return this.post(content);
+    }
+    try {
+      const id = await this.client.reply(content.replyTo, this.toText(content));
+      return { success: true, postId: id };
+    } catch (error) {
+      logger.error(`Failed to reply to Discord message ${content.replyTo}:`, error);
+      return { success: false, error: error instanceof Error ? error.message : 'Reply failed' };
+    }
+  }
+
+  protected async addReaction(postId: string, reaction: string): Promise<void> {
+    await this.client.react(postId, reaction);
+  }
+
+  protected async sharePost(postId: string): Promise<void> {
+    await this.client.crosspost(postId);
+  }
+
+  protected async sendDirectMessage(userId: string, message: string): Promise<void> {
+    await this.client.sendDirectMessage(userId, this.toText({ type: ContentType.TEXT, text: message }));
+  }
+
+  protected getAccount(): PlatformUser | undefined {
+    const id = this.client.getBotUserId();
+    return id ? { id, username: this.agent.name } : undefined;
+  }
+
+  private toEvent(message: Message): PlatformEvent {
+    const botId = this.client.getBotUserId();
+    let type = EventType.MENTION;
+    if (message.channel.isDMBased()) {
+      type = EventType.MESSAGE_RECEIVED;
+    } else if (botId && message.mentions.repliedUser?.id === botId) {
+      type = EventType.COMMENT;
+    }
+
+    return {
+      id: message.id,
+      platform: 'discord',
+      type,
+      data: {
+        content: message.content,
+        author: this.toUser(message.author),
+        metadata: { channelId: message.channelId, guildId: message.guildId }
+      },
+      timestamp: message.createdTimestamp,
+      metadata: { replyTo: message.reference?.messageId },
+      source: { id: message.author.id, type: message.author.bot ? 'bot' : 'user', platform: 'discord' }
+    };
+  }
+
+  private toUser(user: Message['author']): PlatformUser {
+    return {
+      id: user.id,
+      username: user.username,
+      displayName: user.globalName ?? undefined,
+      avatar: user.displayAvatarURL()
+    };
+  }
+}
@@ -0,0 +1,187 @@
+import type { AgentConfig } from '../../core/agent-engine';
+import { PersonalityModule } from '../../personality/personality-engine';
+import { LinkedInClient } from '../linkedin-client';
+import { ClientPlatformAdapter } from './client-adapter';
+import {
+  PlatformEvent,
+  PlatformUser,
+  EventType,
+  ContentType,
+  Content,
+  PostResult
+} from '../platform-sdk';
+import { logger } from '../../utils/logger';
+
+// How often comments on the agent's posts are polled
+const POLL_INTERVAL_MS = 60 * 1000;
+
+/**
+ * LinkedIn through LinkedInClient. The API has no push events, so comments
+ * on the agent's recent posts are polled and new ones become events;
+ * comments already there on connect are not replayed. Reactions are likes
+ * and shares are reshares. Members cannot be followed and posts cannot be
+ * edited through the API.
+ */
+export default class LinkedInAdapter extends ClientPlatformAdapter {
+  private client: LinkedInClient;
+  private pollTimer?: NodeJS.Timeout;
+  private seenComments: Set<string> = new Set();
+  // Post each emitted comment belongs to, so replies land on the right post
+  private commentPosts: Map<string, string> = new Map();
+  private polling: boolean = false;
+
+  constructor(agent: AgentConfig, personality: PersonalityModule, client: LinkedInClient = new LinkedInClient()) {
+    super('linkedin', agent, personality, {
+      postsPerHour: 10,
+      postsPerDay: 50,
+      followsPerHour: 0,
+      followsPerDay: 0,
+      maxContentLength: 3000,
+      maxMediaSize: 10 * 1024 * 1024,
+      rateLimitWindow: 24 * 60 * 60 * 1000
+    }, {
+      supportedContentTypes: [ContentType.TEXT],
+      supportedEventTypes: [EventType.COMMENT],
+      hasDirectMessages: false,
+      hasGroups: false,
+      hasLivestreaming: false,
+      hasPayments: false,
+      hasPolls: false,
+      hasThreads: false,
+      hasReactions: true,
+      hasVerification: false
+    });
+    this.client = client;
+  }
+
+  async connect(): Promise<void> {
+    await this.client.connect();
+    if (!this.client.getProfileId()) {
+      throw new Error('LinkedIn access token not configured');
+    }
+
+    // Existing comments are history, not new events
+    await this.pollComments(false);
+    this.pollTimer = setInterval(() => {
+      this.pollComments(true).catch(error => this.emitError(error));
+    }, POLL_INTERVAL_MS);
+    this.isConnected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.isConnected = false;
+    clearInterval(this.pollTimer);
+    this.pollTimer = undefined;
+    await this.client.disconnect();
+  }
+
+  async post(content: Content): Promise<PostResult> {
+    try {
+      const id = await this.client.post(this.toText(content));
+      return { success: true, postId: id };
+    } catch (error) {
+      logger.error('Failed to post to LinkedIn:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Post failed' };
+    }
+  }
+
+  async getUser(userId: string): Promise<PlatformUser> {
+    // Other members' profiles are not readable with a member token
+    return { id: userId, username: userId };
+  }
+
+  async getUserPosts(userId: string, limit: number = 10): Promise<Content[]> {
+    if (userId !== this.client.getProfileId()) return [];
+
+    const posts = await this.client.fetchContent({});
+    return posts.slice(0, limit).map(post => ({
+      id: post.id,
+      type: ContentType.TEXT,
+      text: post.text?.text,
+      metadata: { createdAt: post.created?.time }
+    }));
+  }
+
+  async deletePost(postId: string): Promise<boolean> {
+    try {
+      await this.client.deletePost(postId);
+      return true;
+    } catch (error) {
+      logger.error(`Failed to delete LinkedIn post ${postId}:`, error);
+      return false;
+    }
+  }
+
+  async editPost(): Promise<PostResult> {
+    return this.unsupported('Editing posts');
+  }
+
+  protected async reply(content: Content): Promise<PostResult> {
+    if (!content.replyTo) {
+      return this.post(content);
+    }
+    try {
+      // Replies to a comment are comments on its post
+      const postId = this.commentPosts.get(content.replyTo) ?? content.replyTo;
+      const id = await this.client.reply(postId, this.toText(content));
+      return { success: true, postId: id };
+    } catch (error) {
+      logger.error(`Failed to comment on LinkedIn post ${content.replyTo}:`, error);
+      return { success: false, error: error instanceof Error ? error.message : 'Comment failed' };
+    }
+  }
+
+  protected async addReaction(postId: string): Promise<void> {
+    await this.client.like(postId);
+  }
+
+  protected async sharePost(postId: string): Promise<void> {
+    await this.client.reshare(postId);
+  }
+
+  protected getAccount(): PlatformUser | undefined {
+    const id = this.client.getProfileId();
+    return id ? { id, username: this.agent.name } : undefined;
+  }
+
+  private async pollComments(emit: boolean): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const ownId = this.client.getProfileId();
+      const posts = await this.client.fetchContent({});
+      for (const post of posts) {
+        for (const comment of await this.client.fetchComments(post.id)) {
+          const id = String(comment.id);
+          if (this.seenComments.has(id)) continue;
+          this.seenComments.add(id);
+
+          const authorId = String(comment.actor || '').replace('urn:li:person:', '');
+          if (emit && authorId !== ownId) {
+            this.commentPosts.set(id, post.id);
+            this.emitEvent(this.toEvent(post.id, comment, authorId));
+          }
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private toEvent(postId: string, comment: any, authorId: string): PlatformEvent {
+    return {
+      id: String(comment.id),
+      platform: 'linkedin',
+      type: EventType.COMMENT,
+      data: {
+        content: comment.message?.text,
+        author: { id: authorId, username: authorId },
+        metadata: { postId }
+      },
+      timestamp: comment.created?.time ?? Date.now(),
+      metadata: { postId },
+      source: { id: authorId, type: 'user', platform: 'linkedin' }
+    };
+  }
+}
@@ -0,0 +1,167 @@
+import type { AgentConfig } from '../../core/agent-engine';
+import { PersonalityModule } from '../../personality/personality-engine';
+import { TwitterClient } from '../twitter-client';
+import { ClientPlatformAdapter } from './client-adapter';
+import {
+  PlatformEvent,
+  PlatformUser,
+  EventType,
+  ContentType,
+  Content,
+  PostResult
+} from '../platform-sdk';
+import { logger } from '../../utils/logger';
+
+/**
+ * X/Twitter through TwitterClient. Listens for tweets mentioning the
+ * account: replies to the agent's own tweets arrive as comments, other
+ * mentions as mentions. Reactions are likes and shares are retweets;
+ * tweets cannot be edited.
+ */
+export default class TwitterAdapter extends ClientPlatformAdapter {
+  private client: TwitterClient;
+
+  constructor(agent: AgentConfig, personality: PersonalityModule, client: TwitterClient = new TwitterClient()) {
+    super('twitter', agent, personality, {
+      postsPerHour: 50,
+      postsPerDay: 300,
+      followsPerHour: 20,
+      followsPerDay: 400,
+      maxContentLength: 280,
+      maxMediaSize: 5 * 1024 * 1024,
+      rateLimitWindow: 15 * 60 * 1000
+    }, {
+      supportedContentTypes: [ContentType.TEXT, ContentType.THREAD],
+      supportedEventTypes: [EventType.MENTION, EventType.COMMENT],
+      hasDirectMessages: false,
+      hasGroups: false,
+      hasLivestreaming: false,
+      hasPayments: false,
+      hasPolls: false,
+      hasThreads: true,
+      hasReactions: true,
+      hasVerification: true
+    });
+    this.client = client;
+    this.client.on('newContent', (tweet: any, includes: any) => {
+      const event = this.toEvent(tweet, includes);
+      if (event) this.emitEvent(event);
+    });
+  }
+
+  async connect(): Promise<void> {
+    await this.client.connect();
+    const account = this.client.getAccount()!;
+    await this.client.startMonitoring({ keywords: [`@${account.username}`] });
+    this.isConnected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.isConnected = false;
+    await this.client.disconnect();
+  }
+
+  async post(content: Content): Promise<PostResult> {
+    try {
+      const id = await this.client.post(this.toText(content));
+      return { success: true, postId: id, url: this.tweetUrl(id) };
+    } catch (error) {
+      logger.error('Failed to tweet:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Tweet failed' };
+    }
+  }
+
+  async getUser(userId: string): Promise<PlatformUser> {
+    const user = await this.client.getUser(userId);
+    return {
+      id: user.id,
+      username: user.username,
+      displayName: user.name,
+      avatar: user.profile_image_url,
+      verified: user.verified,
+      followerCount: user.public_metrics?.followers_count,
+      metadata: { description: user.description }
+    };
+  }
+
+  async getUserPosts(userId: string, limit: number = 10): Promise<Content[]> {
+    const tweets = await this.client.getUserTweets(userId, limit);
+    return tweets.map(tweet => ({
+      id: tweet.id,
+      type: ContentType.TEXT,
+      text: tweet.text,
+      metadata: { createdAt: tweet.created_at, metrics: tweet.public_metrics }
+    }));
+  }
+
+  async deletePost(postId: string): Promise<boolean> {
+    return this.client.deleteTweet(postId);
+  }
+
+  async editPost(): Promise<PostResult> {
+    return this.unsupported('Editing tweets');
+  }
+
+  protected async reply(content: Content): Promise<PostResult> {
+    if (!content.replyTo) {
+      return this.post(content);
+    }
+    try {
+      const id = await this.client.reply(content.replyTo, this.toText(content));
+      return { success: true, postId: id, url: this.tweetUrl(id) };
+    } catch (error) {
+      logger.error(`Failed to reply to tweet ${content.replyTo}:`, error);
+      return { success: false, error: error instanceof Error ? error.message : 'Reply failed' };
+    }
+  }
+
+  protected async addReaction(postId: string): Promise<void> {
+    await this.client.like(postId);
+  }
+
+  protected async followUser(userId: string): Promise<void> {
+    await this.client.follow(userId);
+  }
+
+  protected async sharePost(postId: string): Promise<void> {
+    await this.client.retweet(postId);
+  }
+
+  protected getAccount(): PlatformUser | undefined {
+    const account = this.client.getAccount();
+    return account && { id: account.id, username: account.username };
+  }
+
+  private toEvent(tweet: any, includes: any): PlatformEvent | null {
+    const account = this.client.getAccount();
+    if (!account || tweet.author_id === account.id) return null;
+
+    const author = includes?.users?.find((user: any) => user.id === tweet.author_id);
+    const type = tweet.in_reply_to_user_id === account.id ? EventType.COMMENT : EventType.MENTION;
+
+    return {
+      id: tweet.id,
+      platform: 'twitter',
+      type,
+      data: {
+        content: tweet.text,
+        author: {
+          id: tweet.author_id,
+          username: author?.username ?? tweet.author_id,
+          displayName: author?.name,
+          verified: author?.verified,
+          followerCount: author?.public_metrics?.followers_count
+        },
+        metadata: { metrics: tweet.public_metrics, entities: tweet.entities }
+      },
+      timestamp: tweet.created_at ? Date.parse(tweet.created_at) : Date.now(),
+      metadata: { conversationId: tweet.conversation_id },
+      source: { id: tweet.author_id, type: 'user', platform: 'twitter' }
+    };
+  }
+
+  private tweetUrl(id: string): string {
+    const account = this.client.getAccount();
+    return `https://x.com/${account?.username ?? 'i'}/status/${id}`;
+  }
+}
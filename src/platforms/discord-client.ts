@@ -1,5 +1,5 @@
 import { EventEmitter } from 'events';
-import { Client, GatewayIntentBits, Message } from 'discord.js';
+import { Client, GatewayIntentBits, Message, Partials, User } from 'discord.js';
 import { logger } from '../utils/logger';
 
 export class DiscordClient extends EventEmitter {
@@ -12,8 +12,11 @@ export class DiscordClient extends EventEmitter {
         GatewayIntentBits.Guilds,
         GatewayIntentBits.GuildMessages,
         GatewayIntentBits.MessageContent,
-        GatewayIntentBits.GuildMessageReactions
-      ]
+        GatewayIntentBits.GuildMessageReactions,
+        GatewayIntentBits.DirectMessages
+      ],
+      // DM channels are not cached until their first message
+      partials: [Partials.Channel]
     });
 
     await this.client.login(process.env.DISCORD_BOT_TOKEN);
@@ -30,8 +33,13 @@ export class DiscordClient extends EventEmitter {
     this.client.on('messageCreate', (message: Message) => {
       if (message.author.bot) return;
 
+      // Messages to the bot: DMs, mentions and replies to its messages
+      if (this.isAddressedToBot(message)) {
+        this.emit('addressed', message);
+      }
+
       // Check if message contains keywords
-      const hasKeyword = options.keywords.some((keyword: string) => 
+      const hasKeyword = (options.keywords || []).some((keyword: string) => 
         message.content.toLowerCase().includes(keyword.toLowerCase())
       );
 
@@ -64,24 +72,106 @@ export class DiscordClient extends EventEmitter {
     return messages;
   }
 
-  async reply(messageId: string, content: string): Promise<void> {
+  async send(channelId: string, content: string): Promise<string> {
+    if (!this.client) throw new Error('Discord client not connected');
+
+    const channel = await this.client.channels.fetch(channelId);
+    if (!channel || !channel.isSendable()) {
+      throw new Error(`Discord channel ${channelId} cannot be posted to`);
+    }
+    const message = await channel.send(content);
+    return message.id;
+  }
+
+  /**
+   * DM a user; Discord only allows it when the bot shares a server with them
+   */
+  async sendDirectMessage(userId: string, content: string): Promise<string> {
+    const user = await this.getUser(userId);
+    const message = await user.send(content);
+    return message.id;
+  }
+
+  async reply(messageId: string, content: string): Promise<string> {
+    const message = await this.findMessage(messageId);
+    const sent = await message.reply(content);
+    return sent.id;
+  }
+
+  async react(messageId: string, emoji: string): Promise<void> {
+    const message = await this.findMessage(messageId);
+    await message.react(emoji);
+  }
+
+  /**
+   * Publish an announcement-channel message to the servers following it
+   */
+  async crosspost(messageId: string): Promise<void> {
+    const message = await this.findMessage(messageId);
+    if (!message.crosspostable) {
+      throw new Error(`Discord message ${messageId} cannot be crossposted`);
+    }
+    await message.crosspost();
+  }
+
+  async editMessage(messageId: string, content: string): Promise<void> {
+    const message = await this.findMessage(messageId);
+    await message.edit(content);
+  }
+
+  async deleteMessage(messageId: string): Promise<void> {
+    const message = await this.findMessage(messageId);
+    await message.delete();
+  }
+
+  async getUser(userId: string): Promise<User> {
+    if (!this.client) throw new Error('Discord client not connected');
+    return this.client.users.fetch(userId);
+  }
+
+  /**
+   * Recent messages by a user across the guild's text channels
+   */
+  async getUserMessages(userId: string, limit: number = 10): Promise<Message[]> {
+    const messages = await this.fetchContent({});
+    return messages
+      .filter((message: Message) => message.author.id === userId)
+      .sort((a: Message, b: Message) => b.createdTimestamp - a.createdTimestamp)
+      .slice(0, limit);
+  }
+
+  getBotUserId(): string | undefined {
+    return this.client?.user?.id;
+  }
+
+  /**
+   * Find a message across the guild's text channels
+   */
+  private async findMessage(messageId: string): Promise<Message> {
     if (!this.client) throw new Error('Discord client not connected');
 
-    // Find message across all channels
     const guild = this.client.guilds.cache.get(process.env.DISCORD_GUILD_ID!);
     if (guild) {
       for (const channel of guild.channels.cache.values()) {
         if (channel.isTextBased()) {
           try {
-            const message = await channel.messages.fetch(messageId);
-            await message.reply(content);
-            return;
+            return await channel.messages.fetch(messageId);
           } catch {
             // Message not in this channel
           }
         }
       }
     }
+    throw new Error(`Discord message ${messageId} not found`);
+  }
+
+  private isAddressedToBot(message: Message): boolean {
+    const botId = this.client?.user?.id;
+    if (!botId) return false;
+
+    return message.channel.isDMBased() ||
+      message.mentions.users.has(botId) ||
+      message.mentions.repliedUser?.id === botId;
   }
 
   async stopMonitoring(): Promise<void> {
@@ -73,11 +73,83 @@ export class LinkedInClient extends EventEmitter {
     }
   }
 
-  async reply(postId: string, message: string): Promise<void> {
+  async post(message: string): Promise<string> {
+    if (!this.accessToken) throw new Error('LinkedIn not connected');
+
+    const response = await axios.post(
+      'https://api.linkedin.com/v2/shares',
+      {
+        owner: `urn:li:person:${this.profileId}`,
+        text: { text: message },
+        distribution: { linkedInDistributionTarget: {} }
+      },
+      { headers: this.headers() }
+    );
+    return response.data.id;
+  }
+
+  /**
+   * Reshare a post to the agent's feed, optionally with commentary
+   */
+  async reshare(postId: string, message: string = ''): Promise<string> {
+    if (!this.accessToken) throw new Error('LinkedIn not connected');
+
+    const response = await axios.post(
+      'https://api.linkedin.com/v2/shares',
+      {
+        owner: `urn:li:person:${this.profileId}`,
+        resharedShare: `urn:li:share:${postId}`,
+        text: { text: message },
+        distribution: { linkedInDistributionTarget: {} }
+      },
+      { headers: this.headers() }
+    );
+    return response.data.id;
+  }
+
+  async like(postId: string): Promise<void> {
     if (!this.accessToken) throw new Error('LinkedIn not connected');
 
-    // LinkedIn API for comments
     await axios.post(
+      `https://api.linkedin.com/v2/socialActions/urn:li:share:${postId}/likes`,
+      {
+        actor: `urn:li:person:${this.profileId}`,
+        object: `urn:li:share:${postId}`
+      },
+      { headers: this.headers() }
+    );
+  }
+
+  async deletePost(postId: string): Promise<void> {
+    if (!this.accessToken) throw new Error('LinkedIn not connected');
+
+    await axios.delete(`https://api.linkedin.com/v2/shares/${postId}`, { headers: this.headers() });
+  }
+
+  async fetchComments(postId: string): Promise<any[]> {
+    if (!this.accessToken) return [];
+
+    try {
+      const response = await axios.get(
+        `https://api.linkedin.com/v2/socialActions/urn:li:share:${postId}/comments`,
+        { headers: this.headers() }
+      );
+      return response.data.elements || [];
+    } catch (error) {
+      logger.error(`Failed to fetch LinkedIn comments for ${postId}:`, error);
+      return [];
+    }
+  }
+
+  getProfileId(): string | undefined {
+    return this.profileId;
+  }
+
+  async reply(postId: string, message: string): Promise<string> {
+    if (!this.accessToken) throw new Error('LinkedIn not connected');
+
+    // LinkedIn API for comments
+    const response = await axios.post(
       'https://api.linkedin.com/v2/socialActions/urn:li:share:' + postId + '/comments',
       {
         actor: `urn:li:person:${this.profileId}`,
@@ -92,6 +164,7 @@ export class LinkedInClient extends EventEmitter {
         }
       }
     );
+    return response.data.id ?? response.headers['x-restli-id'];
   }
 
   async stopMonitoring(): Promise<void> {
@@ -113,4 +186,12 @@ export class LinkedInClient extends EventEmitter {
       profileId: this.profileId
     };
   }
+
+  private headers(): Record<string, string> {
+    return {
+      'Authorization': `Bearer ${this.accessToken}`,
+      'Content-Type': 'application/json',
+      'X-Restli-Protocol-Version': '2.0.0'
+    };
+  }
 }
\ No newline at end of file
@@ -400,15 +400,8 @@ class UsageCounter {
   }
 }
 
-// Platform-specific adapter implementations would extend PlatformAdapter
-export class DiscordAdapter extends PlatformAdapter {
-  // Discord-specific implementation
-}
-
-export class TwitterAdapter extends PlatformAdapter {
-  // Twitter-specific implementation  
-}
-
+// Platform-specific adapter implementations would extend PlatformAdapter;
+// Twitter, Discord and LinkedIn live in ./adapters
 export class TelegramAdapter extends PlatformAdapter {
   // Telegram-specific implementation
 }
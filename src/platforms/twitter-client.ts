@@ -6,6 +6,7 @@ export class TwitterClient extends EventEmitter {
   private client?: TwitterApi;
   private streamRules: Set<string> = new Set();
   private stream?: any;
+  private account?: { id: string; username: string };
 
   async connect(): Promise<void> {
     this.client = new TwitterApi({
@@ -17,6 +18,7 @@ export class TwitterClient extends EventEmitter {
 
     // Verify credentials
     const user = await this.client.v2.me();
+    this.account = { id: user.data.id, username: user.data.username };
     logger.info(`Connected to Twitter as @${user.data.username}`);
   }
 
@@ -33,13 +35,13 @@ export class TwitterClient extends EventEmitter {
 
     // Start filtered stream
     this.stream = await this.client.v2.searchStream({
-      'tweet.fields': ['author_id', 'created_at', 'public_metrics', 'entities'],
-      'user.fields': ['username', 'description'],
+      'tweet.fields': ['author_id', 'created_at', 'public_metrics', 'entities', 'in_reply_to_user_id', 'conversation_id'],
+      'user.fields': ['username', 'name', 'description', 'verified', 'public_metrics'],
       expansions: ['author_id']
     });
 
     this.stream.on('data', (tweet: any) => {
-      this.emit('newContent', tweet.data);
+      this.emit('newContent', tweet.data, tweet.includes);
     });
   }
 
@@ -57,10 +59,58 @@ export class TwitterClient extends EventEmitter {
     return tweets.data.data || [];
   }
 
-  async reply(tweetId: string, message: string): Promise<void> {
+  async post(message: string): Promise<string> {
     if (!this.client) throw new Error('Twitter client not connected');
 
-    await this.client.v2.reply(message, tweetId);
+    const result = await this.client.v2.tweet(message);
+    return result.data.id;
+  }
+
+  async reply(tweetId: string, message: string): Promise<string> {
+    if (!this.client) throw new Error('Twitter client not connected');
+
+    const result = await this.client.v2.reply(message, tweetId);
+    return result.data.id;
+  }
+
+  async like(tweetId: string): Promise<void> {
+    await this.requireClient().v2.like(this.requireAccount().id, tweetId);
+  }
+
+  async retweet(tweetId: string): Promise<void> {
+    await this.requireClient().v2.retweet(this.requireAccount().id, tweetId);
+  }
+
+  async follow(userId: string): Promise<void> {
+    await this.requireClient().v2.follow(this.requireAccount().id, userId);
+  }
+
+  async deleteTweet(tweetId: string): Promise<boolean> {
+    const result = await this.requireClient().v2.deleteTweet(tweetId);
+    return result.data.deleted;
+  }
+
+  async getUser(userId: string): Promise<any> {
+    const result = await this.requireClient().v2.user(userId, {
+      'user.fields': ['name', 'profile_image_url', 'verified', 'public_metrics', 'description']
+    });
+    return result.data;
+  }
+
+  async getUserTweets(userId: string, limit: number = 10): Promise<any[]> {
+    const timeline = await this.requireClient().v2.userTimeline(userId, {
+      // The API accepts 5-100 per page
+      max_results: Math.min(Math.max(limit, 5), 100),
+      'tweet.fields': ['author_id', 'created_at', 'public_metrics', 'entities']
+    });
+    return (timeline.data.data || []).slice(0, limit);
+  }
+
+  /**
+   * The authenticated account, once connected
+   */
+  getAccount(): { id: string; username: string } | undefined {
+    return this.account;
   }
 
   async stopMonitoring(): Promise<void> {
@@ -85,6 +135,7 @@ export class TwitterClient extends EventEmitter {
   async disconnect(): Promise<void> {
     await this.stopMonitoring();
     this.client = undefined;
+    this.account = undefined;
   }
 
   getStats(): any {
@@ -93,4 +144,14 @@ export class TwitterClient extends EventEmitter {
       streamRules: Array.from(this.streamRules)
     };
   }
+
+  private requireClient(): TwitterApi {
+    if (!this.client) throw new Error('Twitter client not connected');
+    return this.client;
+  }
+
+  private requireAccount(): { id: string; username: string } {
+    if (!this.account) throw new Error('Twitter client not connected');
+    return this.account;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,267 @@
+import { Content } from '../platforms/simple-platform';
+import { ContentEvaluator } from '../ai/content-evaluator';
+import { TipDeduplicator } from '../storage/tip-deduplicator';
+import { utcDayKey } from '../storage/tip-ledger';
+import type { CreatorProfile } from '../core/defi-agent';
+import {
+  InvestmentType,
+  StrategyParameters,
+  planInvestment,
+  updateCreatorQuality
+} from '../core/investment-strategy';
+
+export interface BacktestStrategy extends StrategyParameters {
+  name: string;
+  tipping: StrategyParameters['tipping'] & {
+    dailyBudget: number;
+    creatorCooldownMinutes?: number;
+  };
+}
+
+export interface BacktestOptions {
+  topics: string[];
+  // Shared across runs so each post is only scored once; defaults to offline
+  evaluator?: ContentEvaluator;
+}
+
+export type BacktestSkipReason =
+  | 'duplicate'
+  | 'cooldown'
+  | 'below_investment_score'
+  | 'below_quality_score'
+  | 'budget_exhausted';
+
+export interface BacktestDecision {
+  contentId: string;
+  platform: Content['platform'];
+  creator: string;
+  username: string;
+  qualityScore: number;
+  investmentScore: number;
+  investmentType: InvestmentType;
+  amount: number;
+  timestamp: Date;
+}
+
+export interface BacktestCreatorSummary {
+  platform: string;
+  creator: string;
+  username: string;
+  count: number;
+  amount: number;
+}
+
+export interface BacktestDaySummary {
+  day: string;
+  budget: number;
+  spent: number;
+  count: number;
+  utilization: number;
+  // Post time of the first decision the budget could not cover
+  exhaustedAt?: Date;
+}
+
+export interface BacktestReport {
+  strategy: string;
+  posts: number;
+  totals: {
+    count: number;
+    amount: number;
+    byType: Record<InvestmentType, { count: number; amount: number }>;
+  };
+  creators: BacktestCreatorSummary[];
+  days: BacktestDaySummary[];
+  skipped: Record<BacktestSkipReason, number>;
+  decisions: BacktestDecision[];
+}
+
+/**
+ * Replays a recorded corpus through the same evaluation and investment rules
+ * DeFiAgent uses, with the clock taken from each post's timestamp: cooldowns
+ * and the daily budget are measured in post time, not wall time. Nothing is
+ * paid; treasury availability and wallet linking are not modelled, so a
+ * backtest shows what the agent would have decided, not what would settle.
+ */
+export class Backtester {
+  private corpus: Content[];
+  private options: BacktestOptions;
+  private evaluator: ContentEvaluator;
+
+  constructor(corpus: Content[], options: BacktestOptions) {
+    this.corpus = [...corpus].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    this.options = options;
+    this.evaluator = options.evaluator ?? new ContentEvaluator({ offline: true });
+  }
+
+  async compare(strategies: BacktestStrategy[]): Promise<BacktestReport[]> {
+    const reports: BacktestReport[] = [];
+    for (const strategy of strategies) {
+      reports.push(await this.run(strategy));
+    }
+    return reports;
+  }
+
+  async run(strategy: BacktestStrategy): Promise<BacktestReport> {
+    const claimed = new Set<string>();
+    const lastTipByCreator = new Map<string, number>();
+    const profiles = new Map<string, CreatorProfile>();
+    const dailySpent = new Map<string, BacktestDaySummary>();
+    const decisions: BacktestDecision[] = [];
+    const skipped: Record<BacktestSkipReason, number> = {
+      duplicate: 0,
+      cooldown: 0,
+      below_investment_score: 0,
+      below_quality_score: 0,
+      budget_exhausted: 0
+    };
+    const cooldownMs = (strategy.tipping.creatorCooldownMinutes ?? 0) * 60 * 1000;
+
+    for (const content of this.corpus) {
+      const postTime = content.timestamp.getTime();
+      const creatorKey = `${content.platform}:${content.creator.id}`;
+
+      if (claimed.has(TipDeduplicator.key(content.platform, content.id, content.creator.id))) {
+        skipped.duplicate++;
+        continue;
+      }
+
+      const lastTip = lastTipByCreator.get(creatorKey);
+      if (lastTip !== undefined && postTime - lastTip < cooldownMs) {
+        skipped.cooldown++;
+        continue;
+      }
+
+      const evaluation = await this.evaluator.evaluate(content, {
+        topics: this.options.topics,
+        minQuality: strategy.tipping.minQualityScore
+      });
+
+      const creator = this.getProfile(profiles, creatorKey, content);
+      updateCreatorQuality(creator, evaluation.qualityScore);
+
+      const plan = planInvestment(evaluation.qualityScore, creator, strategy);
+      if (!plan) {
+        skipped.below_investment_score++;
+        continue;
+      }
+
+      // The tip curve only covers scores from minQualityScore upwards
+      if (plan.amount <= 0) {
+        skipped.below_quality_score++;
+        continue;
+      }
+
+      const day = this.getDay(dailySpent, content.timestamp, strategy.tipping.dailyBudget);
+      if (day.spent + plan.amount > day.budget) {
+        day.exhaustedAt = day.exhaustedAt ?? content.timestamp;
+        skipped.budget_exhausted++;
+        continue;
+      }
+
+      day.spent += plan.amount;
+      day.count++;
+      claimed.add(TipDeduplicator.key(content.platform, content.id, content.creator.id));
+      lastTipByCreator.set(creatorKey, postTime);
+
+      decisions.push({
+        contentId: content.id,
+        platform: content.platform,
+        creator: content.creator.id,
+        username: content.creator.username,
+        qualityScore: evaluation.qualityScore,
+        investmentScore: plan.investmentScore,
+        investmentType: plan.investmentType,
+        amount: plan.amount,
+        timestamp: content.timestamp
+      });
+    }
+
+    return {
+      strategy: strategy.name,
+      posts: this.corpus.length,
+      totals: this.summarizeTotals(decisions),
+      creators: this.summarizeCreators(decisions),
+      days: [...dailySpent.values()].map(day => ({
+        ...day,
+        utilization: day.budget > 0 ? day.spent / day.budget : 0
+      })),
+      skipped,
+      decisions
+    };
+  }
+
+  private getProfile(
+    profiles: Map<string, CreatorProfile>,
+    key: string,
+    content: Content
+  ): CreatorProfile {
+    if (!profiles.has(key)) {
+      // Same starting point as a creator the live agent has never seen
+      profiles.set(key, {
+        id: content.creator.id,
+        username: content.creator.username,
+        walletAddress: content.creator.walletAddress,
+        platform: content.platform,
+        contentQuality: 50,
+        engagementRate: 0,
+        totalTipsReceived: 0,
+        totalStaked: 0,
+        investmentScore: 50,
+        hasToken: false
+      });
+    }
+    return profiles.get(key)!;
+  }
+
+  private getDay(
+    days: Map<string, BacktestDaySummary>,
+    timestamp: Date,
+    budget: number
+  ): BacktestDaySummary {
+    const key = utcDayKey(timestamp);
+    if (!days.has(key)) {
+      days.set(key, { day: key, budget, spent: 0, count: 0, utilization: 0 });
+    }
+    return days.get(key)!;
+  }
+
+  private summarizeTotals(decisions: BacktestDecision[]): BacktestReport['totals'] {
+    const byType: BacktestReport['totals']['byType'] = {
+      tip: { count: 0, amount: 0 },
+      stake: { count: 0, amount: 0 },
+      token: { count: 0, amount: 0 },
+      nft: { count: 0, amount: 0 }
+    };
+
+    for (const decision of decisions) {
+      byType[decision.investmentType].count++;
+      byType[decision.investmentType].amount += decision.amount;
+    }
+
+    return {
+      count: decisions.length,
+      amount: decisions.reduce((sum, decision) => sum + decision.amount, 0),
+      byType
+    };
+  }
+
+  private summarizeCreators(decisions: BacktestDecision[]): BacktestCreatorSummary[] {
+    const creators = new Map<string, BacktestCreatorSummary>();
+
+    for (const decision of decisions) {
+      const key = `${decision.platform}:${decision.creator}`;
+      const summary = creators.get(key) ?? {
+        platform: decision.platform,
+        creator: decision.creator,
+        username: decision.username,
+        count: 0,
+        amount: 0
+      };
+      summary.count++;
+      summary.amount += decision.amount;
+      creators.set(key, summary);
+    }
+
+    return [...creators.values()].sort((a, b) => b.amount - a.amount);
+  }
+}
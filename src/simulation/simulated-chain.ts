@@ -0,0 +1,342 @@
+import { EventEmitter } from 'events';
+import http from 'http';
+import express from 'express';
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+
+export interface SimulatedChainConfig {
+  chainId: number;
+  // Unix seconds of the genesis block; later blocks advance one second each
+  genesisTime?: number;
+  gasPrice?: bigint;
+}
+
+export interface SimulatedTransaction {
+  hash: string;
+  from: string;
+  to: string | null;
+  value: bigint;
+  nonce: number;
+  data: string;
+  gasLimit: bigint;
+  gasPrice: bigint;
+  blockNumber: number;
+  index: number;
+  signature?: { r: string; s: string; v: number };
+  // Set for transfers applied by the simulation itself (facilitator
+  // settlements, protocol deposits) rather than signed by the sender
+  system: boolean;
+  memo?: string;
+}
+
+interface SimulatedBlock {
+  number: number;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+  transactions: string[];
+}
+
+const TRANSFER_GAS = 21000n;
+
+/**
+ * A pure TypeScript ledger that behaves like an automining dev node: every
+ * transaction is mined into its own block immediately. It speaks enough of
+ * the Ethereum JSON-RPC API for ethers' JsonRpcProvider (balances, nonces,
+ * native transfers, receipts) so unmodified clients can point at it.
+ * Contract calls are not executed.
+ */
+export class SimulatedChain extends EventEmitter {
+  readonly chainId: number;
+  private gasPrice: bigint;
+  private balances: Map<string, bigint> = new Map();
+  private nonces: Map<string, number> = new Map();
+  private transactions: Map<string, SimulatedTransaction> = new Map();
+  private blocks: SimulatedBlock[] = [];
+  private systemSequence: number = 0;
+  private server?: http.Server;
+
+  constructor(config: SimulatedChainConfig) {
+    super();
+    this.chainId = config.chainId;
+    this.gasPrice = config.gasPrice ?? ethers.parseUnits('1', 'gwei');
+
+    const genesisTime = config.genesisTime ?? Math.floor(Date.now() / 1000);
+    this.blocks.push({
+      number: 0,
+      hash: ethers.id(`sim:${this.chainId}:block:0`),
+      parentHash: ethers.ZeroHash,
+      timestamp: genesisTime,
+      transactions: []
+    });
+  }
+
+  fund(address: string, amount: number): void {
+    const key = ethers.getAddress(address);
+    this.balances.set(key, this.getBalanceWei(key) + ethers.parseEther(amount.toString()));
+  }
+
+  getBalance(address: string): number {
+    return parseFloat(ethers.formatEther(this.getBalanceWei(address)));
+  }
+
+  getBalanceWei(address: string): bigint {
+    return this.balances.get(ethers.getAddress(address)) || 0n;
+  }
+
+  getNonce(address: string): number {
+    return this.nonces.get(ethers.getAddress(address)) || 0;
+  }
+
+  getBlockNumber(): number {
+    return this.blocks.length - 1;
+  }
+
+  getTransaction(hash: string): SimulatedTransaction | undefined {
+    return this.transactions.get(hash.toLowerCase());
+  }
+
+  getTransactions(): SimulatedTransaction[] {
+    return Array.from(this.transactions.values());
+  }
+
+  /**
+   * Move native SEI on behalf of `from` without a signature, the way a dev
+   * node's impersonation does. Used by the local facilitator to settle
+   * verified x402 authorizations and by simulated DeFi protocols.
+   */
+  transfer(from: string, to: string, value: bigint, memo?: string): SimulatedTransaction {
+    const sender = ethers.getAddress(from);
+    const hash = ethers.id(`sim:${this.chainId}:system:${++this.systemSequence}`);
+
+    return this.apply({
+      hash,
+      from: sender,
+      to: ethers.getAddress(to),
+      value,
+      nonce: this.getNonce(sender),
+      data: '0x',
+      gasLimit: TRANSFER_GAS,
+      gasPrice: 0n,
+      system: true,
+      memo
+    });
+  }
+
+  sendRawTransaction(raw: string): string {
+    const tx = ethers.Transaction.from(raw);
+    if (!tx.from || !tx.hash || !tx.signature) {
+      throw new Error('Transaction is not signed');
+    }
+    if (tx.chainId !== BigInt(this.chainId)) {
+      throw new Error(`Wrong chain id ${tx.chainId}, expected ${this.chainId}`);
+    }
+    if (tx.nonce !== this.getNonce(tx.from)) {
+      throw new Error(`Nonce ${tx.nonce} does not match account nonce ${this.getNonce(tx.from)}`);
+    }
+
+    const gasPrice = tx.gasPrice ?? tx.maxFeePerGas ?? this.gasPrice;
+    this.apply({
+      hash: tx.hash,
+      from: ethers.getAddress(tx.from),
+      to: tx.to ? ethers.getAddress(tx.to) : null,
+      value: tx.value,
+      nonce: tx.nonce,
+      data: tx.data,
+      gasLimit: tx.gasLimit,
+      gasPrice,
+      signature: { r: tx.signature.r, s: tx.signature.s, v: tx.signature.v },
+      system: false
+    });
+
+    return tx.hash;
+  }
+
+  /**
+   * Serve the JSON-RPC API on `port` (0 picks a free port). Resolves with
+   * the URL clients should use.
+   */
+  async listen(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    const app = express();
+    app.use(express.json({ limit: '1mb' }));
+    app.post('/', (req, res) => {
+      const body = req.body;
+      res.json(Array.isArray(body) ? body.map(call => this.handleRpc(call)) : this.handleRpc(body));
+    });
+
+    this.server = await new Promise<http.Server>((resolve, reject) => {
+      const server = app.listen(port, host, () => resolve(server));
+      server.once('error', reject);
+    });
+
+    const address = this.server.address() as { port: number };
+    const url = `http://${host}:${address.port}`;
+    logger.info(`Simulated chain ${this.chainId} serving JSON-RPC at ${url}`);
+    return url;
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+
+    this.server = undefined;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  handleRpc(call: { id?: number | string; method: string; params?: any[] }): any {
+    try {
+      return { jsonrpc: '2.0', id: call.id ?? null, result: this.dispatch(call.method, call.params || []) };
+    } catch (error: any) {
+      return { jsonrpc: '2.0', id: call.id ?? null, error: { code: -32000, message: error.message } };
+    }
+  }
+
+  private dispatch(method: string, params: any[]): any {
+    switch (method) {
+      case 'eth_chainId':
+        return ethers.toQuantity(this.chainId);
+      case 'net_version':
+        return String(this.chainId);
+      case 'eth_blockNumber':
+        return ethers.toQuantity(this.getBlockNumber());
+      case 'eth_gasPrice':
+        return ethers.toQuantity(this.gasPrice);
+      case 'eth_maxPriorityFeePerGas':
+        return ethers.toQuantity(0);
+      case 'eth_estimateGas':
+        return ethers.toQuantity(TRANSFER_GAS);
+      case 'eth_getBalance':
+        return ethers.toQuantity(this.getBalanceWei(params[0]));
+      case 'eth_getTransactionCount':
+        return ethers.toQuantity(this.getNonce(params[0]));
+      case 'eth_getCode':
+      case 'eth_call':
+        return '0x';
+      case 'eth_getLogs':
+        return [];
+      case 'eth_sendRawTransaction':
+        return this.sendRawTransaction(params[0]);
+      case 'eth_getBlockByNumber':
+        return this.formatBlock(this.resolveBlock(params[0]));
+      case 'eth_getBlockByHash':
+        return this.formatBlock(this.blocks.find(block => block.hash === params[0]));
+      case 'eth_getTransactionByHash': {
+        const tx = this.getTransaction(params[0]);
+        return tx ? this.formatTransaction(tx) : null;
+      }
+      case 'eth_getTransactionReceipt': {
+        const tx = this.getTransaction(params[0]);
+        return tx ? this.formatReceipt(tx) : null;
+      }
+      default:
+        throw new Error(`Method ${method} is not supported by the simulated chain`);
+    }
+  }
+
+  private apply(
+    tx: Omit<SimulatedTransaction, 'blockNumber' | 'index'>
+  ): SimulatedTransaction {
+    const fee = TRANSFER_GAS * tx.gasPrice;
+    const balance = this.getBalanceWei(tx.from);
+    if (balance < tx.value + fee) {
+      throw new Error(
+        `Insufficient funds: ${tx.from} has ${ethers.formatEther(balance)} SEI, ` +
+        `needs ${ethers.formatEther(tx.value + fee)}`
+      );
+    }
+
+    this.balances.set(tx.from, balance - tx.value - fee);
+    if (tx.to) {
+      this.balances.set(tx.to, this.getBalanceWei(tx.to) + tx.value);
+    }
+    if (!tx.system) {
+      this.nonces.set(tx.from, tx.nonce + 1);
+    }
+
+    const parent = this.blocks[this.blocks.length - 1];
+    const number = parent.number + 1;
+    const mined: SimulatedTransaction = { ...tx, hash: tx.hash.toLowerCase(), blockNumber: number, index: 0 };
+    this.blocks.push({
+      number,
+      hash: ethers.id(`sim:${this.chainId}:block:${number}`),
+      parentHash: parent.hash,
+      timestamp: parent.timestamp + 1,
+      transactions: [mined.hash]
+    });
+    this.transactions.set(mined.hash, mined);
+
+    this.emit('transaction', mined);
+    return mined;
+  }
+
+  private resolveBlock(tag: string): SimulatedBlock | undefined {
+    if (tag === 'latest' || tag === 'pending' || tag === 'safe' || tag === 'finalized') {
+      return this.blocks[this.blocks.length - 1];
+    }
+    if (tag === 'earliest') {
+      return this.blocks[0];
+    }
+    return this.blocks[Number(tag)];
+  }
+
+  private formatBlock(block?: SimulatedBlock): any {
+    if (!block) return null;
+
+    return {
+      number: ethers.toQuantity(block.number),
+      hash: block.hash,
+      parentHash: block.parentHash,
+      timestamp: ethers.toQuantity(block.timestamp),
+      nonce: '0x0000000000000000',
+      difficulty: '0x0',
+      gasLimit: ethers.toQuantity(30_000_000),
+      gasUsed: ethers.toQuantity(TRANSFER_GAS * BigInt(block.transactions.length)),
+      miner: ethers.ZeroAddress,
+      extraData: '0x',
+      baseFeePerGas: ethers.toQuantity(this.gasPrice),
+      transactions: block.transactions
+    };
+  }
+
+  private formatTransaction(tx: SimulatedTransaction): any {
+    const block = this.blocks[tx.blockNumber];
+    return {
+      hash: tx.hash,
+      blockHash: block.hash,
+      blockNumber: ethers.toQuantity(tx.blockNumber),
+      transactionIndex: ethers.toQuantity(tx.index),
+      type: '0x0',
+      from: tx.from,
+      to: tx.to,
+      nonce: ethers.toQuantity(tx.nonce),
+      gas: ethers.toQuantity(tx.gasLimit),
+      gasPrice: ethers.toQuantity(tx.gasPrice),
+      value: ethers.toQuantity(tx.value),
+      input: tx.data,
+      chainId: ethers.toQuantity(this.chainId),
+      r: tx.signature?.r ?? ethers.ZeroHash,
+      s: tx.signature?.s ?? ethers.ZeroHash,
+      v: ethers.toQuantity(tx.signature?.v ?? 27)
+    };
+  }
+
+  private formatReceipt(tx: SimulatedTransaction): any {
+    const block = this.blocks[tx.blockNumber];
+    return {
+      transactionHash: tx.hash,
+      transactionIndex: ethers.toQuantity(tx.index),
+      blockHash: block.hash,
+      blockNumber: ethers.toQuantity(tx.blockNumber),
+      from: tx.from,
+      to: tx.to,
+      contractAddress: null,
+      cumulativeGasUsed: ethers.toQuantity(TRANSFER_GAS),
+      gasUsed: ethers.toQuantity(TRANSFER_GAS),
+      effectiveGasPrice: ethers.toQuantity(tx.gasPrice),
+      logs: [],
+      logsBloom: '0x' + '00'.repeat(256),
+      status: '0x1',
+      type: '0x0'
+    };
+  }
+}
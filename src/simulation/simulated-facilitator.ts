@@ -0,0 +1,139 @@
+import http from 'http';
+import express from 'express';
+import { SimulatedChain } from './simulated-chain';
+import {
+  PaymentVerification,
+  paymentNonceKey,
+  verifyExactPayment
+} from '../payments/x402-verification';
+import { logger } from '../utils/logger';
+
+export interface SimulatedFacilitatorConfig {
+  network: string;
+  // Reject authorizations signed longer ago than this
+  maxAuthorizationAgeSeconds?: number;
+}
+
+/**
+ * In-process x402 facilitator for simulation runs. Applies the same checks
+ * as X402Facilitator to the `exact` payloads produced by X402Client and
+ * settles them on a SimulatedChain, exposing the same `/verify` and
+ * `/settle` endpoints a hosted facilitator would.
+ */
+export class SimulatedFacilitator {
+  private chain: SimulatedChain;
+  private config: SimulatedFacilitatorConfig;
+  private usedNonces: Set<string> = new Set();
+  private server?: http.Server;
+
+  constructor(chain: SimulatedChain, config: SimulatedFacilitatorConfig) {
+    this.chain = chain;
+    this.config = config;
+  }
+
+  verify(paymentPayload: any, paymentRequirements: any): PaymentVerification {
+    const verification = verifyExactPayment(paymentPayload, paymentRequirements, {
+      network: this.config.network,
+      chainId: this.chain.chainId,
+      maxAuthorizationAgeSeconds: this.config.maxAuthorizationAgeSeconds
+    });
+    if (!verification.isValid) {
+      return verification;
+    }
+
+    const authorization = paymentPayload.payload.authorization;
+    const reject = (invalidReason: string): PaymentVerification =>
+      ({ isValid: false, invalidReason, payer: verification.payer });
+
+    if (this.usedNonces.has(paymentNonceKey(authorization))) {
+      return reject('nonce_already_used');
+    }
+    if (this.chain.getBalanceWei(authorization.from) < BigInt(authorization.amount)) {
+      return reject('insufficient_funds');
+    }
+
+    return verification;
+  }
+
+  settle(paymentPayload: any, paymentRequirements: any): any {
+    const verification = this.verify(paymentPayload, paymentRequirements);
+    if (!verification.isValid) {
+      return {
+        success: false,
+        errorReason: verification.invalidReason,
+        payer: verification.payer,
+        network: this.config.network
+      };
+    }
+
+    const authorization = paymentPayload.payload.authorization;
+    this.usedNonces.add(paymentNonceKey(authorization));
+
+    // Broadcast the payer's own transfer when supplied, as the real facilitator does
+    let hash: string;
+    try {
+      hash = paymentPayload.payload.transaction
+        ? this.chain.sendRawTransaction(paymentPayload.payload.transaction)
+        : this.chain.transfer(
+          authorization.from,
+          authorization.to,
+          BigInt(authorization.amount),
+          paymentPayload.payload.memo
+        ).hash;
+    } catch (error: any) {
+      logger.warn(`Simulated settlement failed: ${error.message}`);
+      return {
+        success: false,
+        errorReason: 'settlement_failed',
+        payer: verification.payer,
+        network: this.config.network
+      };
+    }
+
+    return {
+      success: true,
+      transaction: hash,
+      network: this.config.network,
+      payer: verification.payer
+    };
+  }
+
+  async listen(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    const app = express();
+    app.use(express.json());
+
+    app.get('/health', (_req, res) => {
+      res.json({ status: 'healthy', mode: 'simulation', blockNumber: this.chain.getBlockNumber() });
+    });
+
+    app.get('/supported', (_req, res) => {
+      res.json({ kinds: [{ x402Version: 1, scheme: 'exact', network: this.config.network }] });
+    });
+
+    app.post('/verify', (req, res) => {
+      res.json(this.verify(req.body.paymentPayload, req.body.paymentRequirements));
+    });
+
+    app.post('/settle', (req, res) => {
+      res.json(this.settle(req.body.paymentPayload, req.body.paymentRequirements));
+    });
+
+    this.server = await new Promise<http.Server>((resolve, reject) => {
+      const server = app.listen(port, host, () => resolve(server));
+      server.once('error', reject);
+    });
+
+    const address = this.server.address() as { port: number };
+    const url = `http://${host}:${address.port}`;
+    logger.info(`Simulated x402 facilitator listening at ${url}`);
+    return url;
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+
+    this.server = undefined;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+}
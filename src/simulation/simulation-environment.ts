@@ -0,0 +1,111 @@
+import { ethers } from 'ethers';
+import type { DeFiAgentServices } from '../core/defi-agent';
+import { Content } from '../platforms/simple-platform';
+import { ContentEvaluator } from '../ai/content-evaluator';
+import { CreatorRegistry } from '../identity/creator-registry';
+import { PaymentProcessor } from '../payments/payment-processor';
+import { X402Client } from '../payments/x402-client';
+import { PriceOracle, StaticPriceSource } from '../blockchain/price-oracle';
+import { SimulatedChain } from './simulated-chain';
+import { SimulatedFacilitator } from './simulated-facilitator';
+import { SimulatedDeFiService } from './simulated-defi-service';
+import { ScriptedPlatformSDK, loadContentFixtures } from './scripted-platform';
+import { logger } from '../utils/logger';
+
+// Well-known dev node account #0; only ever funded on the simulated chain
+const DEFAULT_SIMULATION_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+export interface SimulationConfig {
+  // Posts to replay: inline records or a path to a JSONL fixture file
+  feed: Content[] | string;
+  feedIntervalMs?: number;
+  // SEI credited to the agent wallet at genesis
+  initialBalance: number;
+  privateKey?: string;
+  network?: 'sei-pacific' | 'sei-arctic';
+  genesisTime?: number;
+  rpcPort?: number;
+  facilitatorPort?: number;
+  // USD prices by symbol (default SEI at $0.50)
+  prices?: Record<string, number>;
+}
+
+export interface SimulationOptions {
+  platforms: string[];
+  dataDir?: string;
+}
+
+/**
+ * Everything DeFiAgent needs to run offline: a SimulatedChain served over
+ * JSON-RPC, a local x402 facilitator, a simulated DeFi service, an offline
+ * content evaluator, fixed prices and a scripted platform feed. Services are built up
+ * front (the ports are fixed) and the servers come up in `start()`.
+ */
+export class SimulationEnvironment {
+  readonly chain: SimulatedChain;
+  readonly facilitator: SimulatedFacilitator;
+  readonly platform: ScriptedPlatformSDK;
+  readonly services: DeFiAgentServices;
+  readonly walletAddress: string;
+  readonly rpcUrl: string;
+  readonly facilitatorUrl: string;
+  private config: SimulationConfig;
+  private isStarted: boolean = false;
+
+  constructor(config: SimulationConfig, options: SimulationOptions) {
+    this.config = config;
+    const network = config.network ?? 'sei-arctic';
+    const privateKey = config.privateKey ?? DEFAULT_SIMULATION_KEY;
+
+    this.chain = new SimulatedChain({
+      chainId: network === 'sei-pacific' ? 1329 : 713715,
+      genesisTime: config.genesisTime
+    });
+    this.facilitator = new SimulatedFacilitator(this.chain, { network });
+    this.rpcUrl = `http://127.0.0.1:${config.rpcPort ?? 8545}`;
+    this.facilitatorUrl = `http://127.0.0.1:${config.facilitatorPort ?? 3402}`;
+
+    this.walletAddress = new ethers.Wallet(privateKey).address;
+    this.chain.fund(this.walletAddress, config.initialBalance);
+
+    const feed = typeof config.feed === 'string' ? loadContentFixtures(config.feed) : config.feed;
+    this.platform = new ScriptedPlatformSDK(options.platforms, feed, config.feedIntervalMs);
+
+    const creatorRegistry = new CreatorRegistry({ dataDir: options.dataDir, rpcUrl: this.rpcUrl });
+    const x402Client = new X402Client({
+      facilitatorUrl: this.facilitatorUrl,
+      privateKey,
+      network,
+      rpcUrl: this.rpcUrl
+    });
+
+    this.services = {
+      platformSDK: this.platform,
+      contentEvaluator: new ContentEvaluator({ offline: true }),
+      defiService: new SimulatedDeFiService(this.chain, privateKey, this.rpcUrl),
+      creatorRegistry,
+      paymentProcessor: new PaymentProcessor(creatorRegistry, x402Client),
+      priceOracle: new PriceOracle({
+        sources: [new StaticPriceSource(config.prices ?? { SEI: 0.5 })]
+      })
+    };
+  }
+
+  async start(): Promise<void> {
+    if (this.isStarted) return;
+
+    await this.chain.listen(this.config.rpcPort ?? 8545);
+    await this.facilitator.listen(this.config.facilitatorPort ?? 3402);
+    this.isStarted = true;
+
+    logger.info(
+      `Simulation started: wallet ${this.walletAddress} funded with ` +
+      `${this.config.initialBalance} SEI`
+    );
+  }
+
+  async stop(): Promise<void> {
+    await Promise.all([this.chain.close(), this.facilitator.close()]);
+    this.isStarted = false;
+  }
+}
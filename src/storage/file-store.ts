@@ -0,0 +1,88 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+
+export const DEFAULT_DATA_DIR = process.env.DATA_DIR || './data';
+
+/**
+ * Small JSON document store backed by a single file.
+ * Writes go to a temp file first and are renamed into place so a crash
+ * mid-write never leaves a truncated document behind.
+ */
+export class JsonFileStore<T> {
+  private filePath: string;
+  private defaults: T;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string, defaults: T) {
+    this.filePath = filePath;
+    this.defaults = defaults;
+  }
+
+  async load(): Promise<T> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(raw) as T;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.error(`Failed to read ${this.filePath}:`, error);
+      }
+      return this.defaults;
+    }
+  }
+
+  async save(data: T): Promise<void> {
+    // Serialize writes so overlapping saves never race on the temp file
+    const contents = JSON.stringify(data, null, 2);
+    const write = this.pendingWrite.then(() => this.writeAtomically(contents));
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+
+  private async writeAtomically(contents: string): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, contents, 'utf8');
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Append-only JSON lines log. Each record is written as one line, so a
+ * partially written final line is simply skipped on the next read.
+ */
+export class JsonLinesLog<T> {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async append(record: T): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, JSON.stringify(record) + '\n', 'utf8');
+  }
+
+  async readAll(): Promise<T[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.error(`Failed to read ${this.filePath}:`, error);
+      }
+      return [];
+    }
+
+    const records: T[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as T);
+      } catch {
+        logger.warn(`Skipping corrupt record in ${this.filePath}`);
+      }
+    }
+    return records;
+  }
+}
@@ -0,0 +1,202 @@
+import path from 'path';
+import { JsonFileStore, DEFAULT_DATA_DIR } from './file-store';
+import { logger } from '../utils/logger';
+
+export interface TipClaim {
+  key: string;
+  platform: string;
+  contentId: string;
+  creatorId: string;
+  status: 'pending' | 'completed' | 'failed';
+  claimedAt: number;
+  settledAt?: number;
+  transactionHash?: string;
+}
+
+export interface DeduplicationConfig {
+  dataDir?: string;
+  creatorCooldownMinutes: number;
+  retentionDays?: number;
+}
+
+export interface DeduplicationCheck {
+  allowed: boolean;
+  reason?: string;
+}
+
+/**
+ * Idempotency layer for tips. A post is claimed (and the claim persisted)
+ * before any payment goes out, so a re-delivered event or a restart can
+ * never pay the same platform + content + creator twice. A claim is
+ * released when its send fails before anything is paid, or its tip is
+ * refunded, so the post can be tipped again; an attempt whose outcome is
+ * unknown stays recorded as failed rather than risking a double pay.
+ *
+ * Claims are kept for `retentionDays`. Content published before that window
+ * is refused outright, so a claim dropped for age cannot let it be tipped
+ * again. Content without a known publish time (manual tips) is only
+ * protected for the window itself.
+ */
+export class TipDeduplicator {
+  private store: JsonFileStore<Record<string, TipClaim>>;
+  private config: Required<Omit<DeduplicationConfig, 'dataDir'>>;
+  private claims: Map<string, TipClaim> = new Map();
+  private lastTipByCreator: Map<string, number> = new Map();
+  private isInitialized: boolean = false;
+
+  constructor(config: DeduplicationConfig) {
+    this.store = new JsonFileStore(
+      path.join(config.dataDir || DEFAULT_DATA_DIR, 'tip-claims.json'),
+      {}
+    );
+    this.config = {
+      creatorCooldownMinutes: config.creatorCooldownMinutes,
+      retentionDays: config.retentionDays ?? 30
+    };
+  }
+
+  static key(platform: string, contentId: string, creatorId: string): string {
+    return `${platform}:${contentId}:${creatorId}`;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
+
+    const cutoff = this.retentionCutoff();
+    const stored = await this.store.load();
+
+    for (const claim of Object.values(stored)) {
+      if (claim.claimedAt < cutoff) continue;
+      this.claims.set(claim.key, claim);
+      this.trackCreator(claim);
+    }
+
+    this.isInitialized = true;
+    logger.info(`Tip deduplicator loaded ${this.claims.size} claims`);
+  }
+
+  /**
+   * Cheap pre-check so duplicates can be dropped before evaluation.
+   */
+  check(platform: string, contentId: string, creatorId: string, publishedAt?: Date | number): DeduplicationCheck {
+    if (publishedAt !== undefined && new Date(publishedAt).getTime() < this.retentionCutoff()) {
+      return { allowed: false, reason: `Content is older than the ${this.config.retentionDays}-day claim retention` };
+    }
+
+    const existing = this.claims.get(TipDeduplicator.key(platform, contentId, creatorId));
+    if (existing) {
+      return { allowed: false, reason: `Content already ${existing.status}` };
+    }
+
+    const lastTip = this.lastTipByCreator.get(`${platform}:${creatorId}`);
+    const cooldownMs = this.config.creatorCooldownMinutes * 60 * 1000;
+    if (lastTip !== undefined && Date.now() - lastTip < cooldownMs) {
+      return { allowed: false, reason: 'Creator is in cooldown' };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Reserve a post for tipping. The in-memory reservation happens before any
+   * await, so concurrent deliveries of the same event cannot both succeed.
+   */
+  async claim(platform: string, contentId: string, creatorId: string, publishedAt?: Date | number): Promise<boolean> {
+    const check = this.check(platform, contentId, creatorId, publishedAt);
+    if (!check.allowed) {
+      logger.info(`Skipping tip for ${platform}/${contentId}: ${check.reason}`);
+      return false;
+    }
+
+    const claim: TipClaim = {
+      key: TipDeduplicator.key(platform, contentId, creatorId),
+      platform,
+      contentId,
+      creatorId,
+      status: 'pending',
+      claimedAt: Date.now()
+    };
+
+    this.claims.set(claim.key, claim);
+    this.trackCreator(claim);
+    await this.persist();
+
+    return true;
+  }
+
+  async complete(
+    platform: string,
+    contentId: string,
+    creatorId: string,
+    transactionHash?: string
+  ): Promise<void> {
+    await this.settle(platform, contentId, creatorId, 'completed', transactionHash);
+  }
+
+  /**
+   * The attempt failed after funds may have moved: keep the claim so the
+   * post is never paid again.
+   */
+  async fail(platform: string, contentId: string, creatorId: string, transactionHash?: string): Promise<void> {
+    await this.settle(platform, contentId, creatorId, 'failed', transactionHash);
+  }
+
+  /**
+   * Drop a claim whose send failed before anything was paid, or whose tip
+   * was refunded, so the post can be tipped again.
+   */
+  async release(platform: string, contentId: string, creatorId: string): Promise<void> {
+    const key = TipDeduplicator.key(platform, contentId, creatorId);
+    if (!this.claims.delete(key)) return;
+
+    // The released attempt no longer counts towards the creator's cooldown
+    const creatorKey = `${platform}:${creatorId}`;
+    this.lastTipByCreator.delete(creatorKey);
+    for (const claim of this.claims.values()) {
+      if (claim.platform === platform && claim.creatorId === creatorId) {
+        this.trackCreator(claim);
+      }
+    }
+
+    await this.persist();
+    logger.info(`Released tip claim for ${platform}/${contentId}`);
+  }
+
+  setCreatorCooldown(minutes: number): void {
+    this.config.creatorCooldownMinutes = minutes;
+  }
+
+  getClaim(platform: string, contentId: string, creatorId: string): TipClaim | undefined {
+    return this.claims.get(TipDeduplicator.key(platform, contentId, creatorId));
+  }
+
+  private async settle(
+    platform: string,
+    contentId: string,
+    creatorId: string,
+    status: 'completed' | 'failed',
+    transactionHash?: string
+  ): Promise<void> {
+    const claim = this.claims.get(TipDeduplicator.key(platform, contentId, creatorId));
+    if (!claim) return;
+
+    claim.status = status;
+    claim.settledAt = Date.now();
+    claim.transactionHash = transactionHash;
+    await this.persist();
+  }
+
+  private retentionCutoff(): number {
+    return Date.now() - this.config.retentionDays * 24 * 60 * 60 * 1000;
+  }
+
+  private trackCreator(claim: TipClaim): void {
+    const creatorKey = `${claim.platform}:${claim.creatorId}`;
+    const previous = this.lastTipByCreator.get(creatorKey) || 0;
+    this.lastTipByCreator.set(creatorKey, Math.max(previous, claim.claimedAt));
+  }
+
+  private async persist(): Promise<void> {
+    await this.store.save(Object.fromEntries(this.claims));
+  }
+}
@@ -0,0 +1,147 @@
+import { EventEmitter } from 'events';
+import path from 'path';
+import { InvestmentDecision, CreatorProfile } from '../core/defi-agent';
+import { JsonFileStore, JsonLinesLog, DEFAULT_DATA_DIR } from './file-store';
+import { logger } from '../utils/logger';
+
+export interface DailySpendSnapshot {
+  day: string;
+  // SEI spent on SEI-denominated investments
+  spent: number;
+  count: number;
+  // USD value of everything spent, across assets
+  spentUsd: number;
+  byAsset: Record<string, { amount: number; usd: number }>;
+}
+
+type StoredDecision = Omit<InvestmentDecision, 'timestamp'> & { timestamp: string };
+
+/**
+ * UTC calendar day key (YYYY-MM-DD) used to bucket spending.
+ */
+export function utcDayKey(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function emptySnapshot(day: string): DailySpendSnapshot {
+  return { day, spent: 0, count: 0, spentUsd: 0, byAsset: {} };
+}
+
+/**
+ * Durable record of every investment decision the agent executes, plus the
+ * creator profiles built up along the way. Daily spend is derived from the
+ * decision log, so it survives restarts and is always bucketed by UTC day.
+ * Spend is kept per asset and in USD at the value recorded on each decision.
+ */
+export class TipLedger extends EventEmitter {
+  private decisionLog: JsonLinesLog<StoredDecision>;
+  private creatorStore: JsonFileStore<Record<string, CreatorProfile>>;
+  private decisions: InvestmentDecision[] = [];
+  private dailyTotals: Map<string, DailySpendSnapshot> = new Map();
+  private creatorProfiles: Map<string, CreatorProfile> = new Map();
+  private currentDay: string = utcDayKey();
+  private isInitialized: boolean = false;
+
+  constructor(dataDir: string = DEFAULT_DATA_DIR) {
+    super();
+    this.decisionLog = new JsonLinesLog(path.join(dataDir, 'investments.jsonl'));
+    this.creatorStore = new JsonFileStore(path.join(dataDir, 'creators.json'), {});
+  }
+
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
+
+    const stored = await this.decisionLog.readAll();
+    for (const record of stored) {
+      this.applyDecision({ ...record, timestamp: new Date(record.timestamp) });
+    }
+
+    const creators = await this.creatorStore.load();
+    for (const [key, profile] of Object.entries(creators)) {
+      this.creatorProfiles.set(key, profile);
+    }
+
+    this.currentDay = utcDayKey();
+    this.isInitialized = true;
+
+    logger.info(
+      `Tip ledger loaded: ${this.decisions.length} decisions, ` +
+      `${this.creatorProfiles.size} creators, ` +
+      `${this.getDailySpent().toFixed(4)} SEI spent today (UTC)`
+    );
+  }
+
+  async record(decision: InvestmentDecision): Promise<void> {
+    await this.decisionLog.append({
+      ...decision,
+      timestamp: decision.timestamp.toISOString()
+    });
+    this.applyDecision(decision);
+    this.emit('recorded', decision);
+  }
+
+  async saveCreatorProfile(key: string, profile: CreatorProfile): Promise<void> {
+    this.creatorProfiles.set(key, profile);
+    await this.creatorStore.save(Object.fromEntries(this.creatorProfiles));
+  }
+
+  getCreatorProfiles(): Map<string, CreatorProfile> {
+    return new Map(this.creatorProfiles);
+  }
+
+  getHistory(): InvestmentDecision[] {
+    return [...this.decisions];
+  }
+
+  getDailySpent(day: string = utcDayKey()): number {
+    return this.dailyTotals.get(day)?.spent || 0;
+  }
+
+  getDailySpentUsd(day: string = utcDayKey()): number {
+    return this.dailyTotals.get(day)?.spentUsd || 0;
+  }
+
+  getDailySnapshot(day: string = utcDayKey()): DailySpendSnapshot {
+    return this.dailyTotals.get(day) || emptySnapshot(day);
+  }
+
+  /**
+   * Close out the day that was active until now and start a new one.
+   * Spend is already keyed by UTC day, so this only reports the closed day.
+   */
+  rollover(now: Date = new Date()): DailySpendSnapshot {
+    const closed = this.getDailySnapshot(this.currentDay);
+    this.currentDay = utcDayKey(now);
+
+    logger.info(
+      `Daily budget rollover: ${closed.day} closed at ${closed.spent.toFixed(4)} SEI ` +
+      `($${closed.spentUsd.toFixed(2)} across assets) over ${closed.count} investments`
+    );
+    this.emit('rollover', closed);
+
+    return closed;
+  }
+
+  private applyDecision(decision: InvestmentDecision): void {
+    this.decisions.push(decision);
+
+    const day = utcDayKey(decision.timestamp);
+    const snapshot = this.dailyTotals.get(day) || emptySnapshot(day);
+    // Decisions recorded before multi-asset tipping are SEI without a USD value
+    const asset = decision.asset || 'SEI';
+    const usd = decision.usdValue ?? 0;
+
+    if (asset === 'SEI') {
+      snapshot.spent += decision.amount;
+    }
+    snapshot.spentUsd += usd;
+    snapshot.count += 1;
+
+    const assetTotal = snapshot.byAsset[asset] || { amount: 0, usd: 0 };
+    assetTotal.amount += decision.amount;
+    assetTotal.usd += usd;
+    snapshot.byAsset[asset] = assetTotal;
+
+    this.dailyTotals.set(day, snapshot);
+  }
+}
@@ -1,5 +1,6 @@
 import { EventEmitter } from 'events';
 import { SeiDeFiService } from '../blockchain/sei-defi-service';
+import { PriceOracle } from '../blockchain/price-oracle';
 import { logger } from '../utils/logger';
 
 export interface TreasuryConfig {
@@ -24,10 +25,17 @@ export interface TreasuryPosition {
   risk: 'low' | 'medium' | 'high';
   startDate: Date;
   value: number;
+  // Trading positions are marked to market against the SEI price they opened at
+  entryPrice?: number;
+  side?: 'long' | 'short';
+  leverage?: number;
 }
 
 export interface TreasuryMetrics {
   totalValue: number;
+  // Unset until the price oracle has answered
+  totalValueUsd?: number;
+  seiUsdPrice?: number;
   totalAPY: number;
   positions: TreasuryPosition[];
   dailyRevenue: number;
@@ -38,16 +46,18 @@ export interface TreasuryMetrics {
 
 export class TreasuryManager extends EventEmitter {
   private defi: SeiDeFiService;
+  private priceOracle?: PriceOracle;
   private config: TreasuryConfig;
   private positions: Map<string, TreasuryPosition> = new Map();
   private rebalanceTimer?: NodeJS.Timeout;
   private metrics: TreasuryMetrics;
   private isInitialized: boolean = false;
 
-  constructor(config: TreasuryConfig) {
+  constructor(config: TreasuryConfig, defi?: SeiDeFiService, priceOracle?: PriceOracle) {
     super();
     this.config = config;
-    this.defi = new SeiDeFiService({
+    this.priceOracle = priceOracle;
+    this.defi = defi ?? new SeiDeFiService({
       privateKey: process.env.SEI_PRIVATE_KEY!,
       rpcUrl: process.env.SEI_RPC_URL!,
       chainId: process.env.SEI_CHAIN_ID || 'arctic-1',
@@ -208,11 +218,14 @@ export class TreasuryManager extends EventEmitter {
     const market = await this.selectTradingMarket();
     
     if (market) {
+      const side = market.sentiment === 'bullish' ? 'long' : 'short';
+      const leverage = this.config.riskTolerance === 'aggressive' ? 3 : 2;
+      const entryPrice = await this.getSeiUsdPrice();
       await this.defi.openPosition({
         market: market.symbol,
-        side: market.sentiment === 'bullish' ? 'long' : 'short',
+        side,
         size: amount.toString(),
-        leverage: this.config.riskTolerance === 'aggressive' ? 3 : 2
+        leverage
       });
       
       this.positions.set('citrex-trading', {
@@ -222,7 +235,10 @@ export class TreasuryManager extends EventEmitter {
         apy: 0, // Variable based on performance
         risk: 'high',
         startDate: new Date(),
-        value: amount
+        value: amount,
+        entryPrice,
+        side,
+        leverage
       });
       
       logger.info(`Opened ${market.sentiment} position on ${market.symbol}`);
@@ -284,15 +300,38 @@ export class TreasuryManager extends EventEmitter {
   }
 
   private async updatePositionValues(): Promise<void> {
-    for (const [id, position] of this.positions) {
-      // Update position values based on current market prices
-      // and accumulated interest/rewards
+    const price = await this.getSeiUsdPrice();
+
+    for (const position of this.positions.values()) {
+      if (position.type === 'trading' && position.entryPrice && price) {
+        // Leveraged PnL on the SEI price move, never below zero
+        const move = price / position.entryPrice - 1;
+        const direction = position.side === 'short' ? -1 : 1;
+        position.value = Math.max(0, position.amount * (1 + direction * (position.leverage ?? 1) * move));
+        continue;
+      }
+
+      // Lending and staking accrue yield in SEI
       const daysSinceStart = (Date.now() - position.startDate.getTime()) / (1000 * 60 * 60 * 24);
       const interest = position.amount * (position.apy / 100) * (daysSinceStart / 365);
       position.value = position.amount + interest;
     }
   }
 
+  /**
+   * Current SEI/USD price, or undefined when there is no oracle or it
+   * cannot price SEI right now
+   */
+  private async getSeiUsdPrice(): Promise<number | undefined> {
+    if (!this.priceOracle) return undefined;
+    try {
+      return await this.priceOracle.getUsdPrice('SEI');
+    } catch (error) {
+      logger.warn('Treasury could not price SEI:', error);
+      return undefined;
+    }
+  }
+
   private needsRebalancing(): boolean {
     const currentAllocations = this.getCurrentAllocations();
     const targetAllocations = this.config.allocationStrategy;
@@ -383,9 +422,12 @@ export class TreasuryManager extends EventEmitter {
     const positions = Array.from(this.positions.values());
     const totalValue = this.getTotalValue();
     const totalAPY = this.calculateTotalAPY();
+    const seiUsdPrice = await this.getSeiUsdPrice();
     
     this.metrics = {
       totalValue,
+      totalValueUsd: seiUsdPrice !== undefined ? totalValue * seiUsdPrice : undefined,
+      seiUsdPrice,
       totalAPY,
       positions,
       dailyRevenue: (totalValue * totalAPY / 100) / 365,
@@ -462,6 +504,27 @@ export class TreasuryManager extends EventEmitter {
     }
   }
 
+  async refundToTipping(amount: number, reason: string = 'refund'): Promise<void> {
+    const tippingReserve = this.positions.get('tipping-reserve');
+    
+    if (tippingReserve) {
+      tippingReserve.value += amount;
+      tippingReserve.amount += amount;
+    } else {
+      this.positions.set('tipping-reserve', {
+        protocol: 'Tipping Pool',
+        type: 'liquidity',
+        amount,
+        apy: 0,
+        risk: 'low',
+        startDate: new Date(),
+        value: amount
+      });
+    }
+    
+    this.emit('deposit', { amount, purpose: 'tipping', reason });
+  }
+
   private async emergencyWithdraw(amount: number): Promise<void> {
     // Withdraw from liquid positions first
     const liquidPosition = this.positions.get('liquidity');
@@ -0,0 +1,167 @@
+import { ethers } from 'ethers';
+import { Request, Response } from 'express';
+import { describe, test, expect, vi } from 'vitest';
+import {
+  Authenticator,
+  Principal,
+  Role,
+  buildSignedRequestMessage,
+  loadAuthConfig,
+  requireRole
+} from '../src/api/auth';
+
+/**
+ * API authentication: keys and wallet signatures resolve to roles, roles
+ * gate routes, and a signed request cannot be replayed.
+ */
+describe('API auth', () => {
+  const ownerWallet = ethers.Wallet.createRandom();
+  const strangerWallet = ethers.Wallet.createRandom();
+
+  const authenticator = new Authenticator(loadAuthConfig({
+    API_KEYS: 'dashboard:viewer:view-key,ops:operator:ops-key',
+    AUTH_WALLETS: `${ownerWallet.address}:owner,${strangerWallet.address.toLowerCase()}:viewer`,
+    AUTH_SIGNATURE_MAX_AGE: '300'
+  }));
+
+  function fakeRequest(options: {
+    headers?: Record<string, string>;
+    method?: string;
+    url?: string;
+    body?: string;
+    query?: Record<string, string>;
+  } = {}): Request {
+    const headers = Object.fromEntries(
+      Object.entries(options.headers || {}).map(([name, value]) => [name.toLowerCase(), value])
+    );
+    return {
+      method: options.method || 'GET',
+      originalUrl: options.url || '/stats',
+      query: options.query || {},
+      rawBody: options.body !== undefined ? Buffer.from(options.body) : undefined,
+      header: (name: string) => headers[name.toLowerCase()]
+    } as unknown as Request;
+  }
+
+  async function signedRequest(
+    wallet: ethers.HDNodeWallet,
+    options: { method?: string; url?: string; body?: string; timestamp?: number } = {}
+  ): Promise<Request> {
+    const method = options.method || 'POST';
+    const url = options.url || '/withdraw';
+    const timestamp = String(options.timestamp ?? Date.now());
+    const body = options.body !== undefined ? Buffer.from(options.body) : undefined;
+    const signature = await wallet.signMessage(buildSignedRequestMessage(method, url, timestamp, body));
+
+    return fakeRequest({
+      method,
+      url,
+      body: options.body,
+      headers: {
+        'X-Wallet-Address': wallet.address,
+        'X-Wallet-Timestamp': timestamp,
+        'X-Wallet-Signature': signature
+      }
+    });
+  }
+
+  function checkRole(principal: Principal | undefined, role: Role): number | undefined {
+    let status: number | undefined;
+    const res = {
+      status: (code: number) => {
+        status = code;
+        return res;
+      },
+      json: () => res
+    } as unknown as Response;
+    const next = vi.fn();
+
+    requireRole(role)({ principal } as Request, res, next);
+    return next.mock.calls.length > 0 ? 200 : status;
+  }
+
+  test('API keys resolve to their named role', () => {
+    expect(authenticator.authenticate(fakeRequest({ headers: { Authorization: 'Bearer ops-key' } })))
+      .toEqual({ id: 'ops', role: 'operator', method: 'api_key' });
+    expect(authenticator.authenticate(fakeRequest({ headers: { 'X-API-Key': 'view-key' } })))
+      .toEqual({ id: 'dashboard', role: 'viewer', method: 'api_key' });
+    expect(() => authenticator.authenticate(fakeRequest({ headers: { 'X-API-Key': 'wrong' } })))
+      .toThrow('Invalid API key');
+  });
+
+  test('query keys are only read where allowed', () => {
+    const request = fakeRequest({ url: '/events', query: { api_key: 'view-key' } });
+
+    expect(authenticator.authenticate(request)).toBeUndefined();
+    expect(authenticator.authenticate(request, true)?.id).toBe('dashboard');
+  });
+
+  test('roles rank viewer < operator < owner', () => {
+    const viewer: Principal = { id: 'dashboard', role: 'viewer', method: 'api_key' };
+    const operator: Principal = { id: 'ops', role: 'operator', method: 'api_key' };
+    const owner: Principal = { id: ownerWallet.address, role: 'owner', method: 'wallet_signature' };
+
+    expect(checkRole(undefined, 'viewer')).toBe(401);
+    expect(checkRole(viewer, 'viewer')).toBe(200);
+    expect(checkRole(viewer, 'operator')).toBe(403);
+    expect(checkRole(operator, 'operator')).toBe(200);
+    expect(checkRole(operator, 'owner')).toBe(403);
+    expect(checkRole(owner, 'owner')).toBe(200);
+  });
+
+  test('a signed request authenticates its wallet once', async () => {
+    const request = await signedRequest(ownerWallet, { body: '{"amount":1}' });
+
+    expect(authenticator.authenticate(request)).toEqual({
+      id: ownerWallet.address,
+      role: 'owner',
+      method: 'wallet_signature'
+    });
+    expect(() => authenticator.authenticate(request)).toThrow('Wallet signature has already been used');
+  });
+
+  test('signatures are bound to the method, path and body', async () => {
+    const request = await signedRequest(ownerWallet, { body: '{"amount":1}' });
+    const tampered = fakeRequest({
+      method: 'POST',
+      url: '/withdraw',
+      body: '{"amount":100}',
+      headers: {
+        'X-Wallet-Address': request.header('x-wallet-address')!,
+        'X-Wallet-Timestamp': request.header('x-wallet-timestamp')!,
+        'X-Wallet-Signature': request.header('x-wallet-signature')!
+      }
+    });
+
+    expect(() => authenticator.authenticate(tampered)).toThrow('Wallet signature does not match address');
+  });
+
+  test('stale, unknown and mismatched wallets are rejected', async () => {
+    const stale = await signedRequest(ownerWallet, { timestamp: Date.now() - 301 * 1000 });
+    expect(() => authenticator.authenticate(stale)).toThrow('outside the allowed window');
+
+    const unknown = await signedRequest(ethers.Wallet.createRandom());
+    expect(() => authenticator.authenticate(unknown)).toThrow('Wallet is not authorized');
+
+    const impersonation = await signedRequest(strangerWallet);
+    const forged = fakeRequest({
+      method: 'POST',
+      url: '/withdraw',
+      headers: {
+        'X-Wallet-Address': ownerWallet.address,
+        'X-Wallet-Timestamp': impersonation.header('x-wallet-timestamp')!,
+        'X-Wallet-Signature': impersonation.header('x-wallet-signature')!
+      }
+    });
+    expect(() => authenticator.authenticate(forged)).toThrow('Wallet signature does not match address');
+
+    // Lower-case addresses in AUTH_WALLETS still match the signer
+    expect(authenticator.authenticate(await signedRequest(strangerWallet))?.role).toBe('viewer');
+  });
+
+  test('malformed key and wallet entries are refused at startup', () => {
+    expect(() => loadAuthConfig({ API_KEYS: 'dashboard:admin:key' })).toThrow('Invalid API_KEYS entry');
+    expect(() => loadAuthConfig({ API_KEYS: 'dashboard:viewer:' })).toThrow('Invalid API_KEYS entry');
+    expect(() => loadAuthConfig({ AUTH_WALLETS: 'not-an-address:owner' })).toThrow('Invalid AUTH_WALLETS entry');
+  });
+});
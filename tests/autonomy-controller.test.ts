@@ -0,0 +1,83 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AutonomyController, AutonomyLevel, Decision, DecisionType, RiskLevel } from '../src/autonomy/autonomy-controller';
+
+/**
+ * Daily spending limits cover the current UTC day, and spends that never
+ * went out stop counting against them.
+ */
+describe('AutonomyController spending', () => {
+  let autonomy: AutonomyController;
+  let nextId = 0;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-01T23:00:00Z'));
+    autonomy = new AutonomyController(AutonomyLevel.AUTONOMOUS, {
+      dailyLimit: 2,
+      perTransactionLimit: 1,
+      platformLimits: { twitter: 1.5 },
+      approvalRequiredAbove: 1,
+      currencyLimits: {}
+    });
+  });
+
+  afterEach(() => {
+    autonomy.shutdown();
+    vi.useRealTimers();
+  });
+
+  function spend(amount: number, platform?: string): Decision {
+    return {
+      id: `spend_${nextId++}`,
+      type: DecisionType.FINANCIAL_TRANSACTION,
+      description: `Tip ${amount} SEI`,
+      context: { amount, currency: 'SEI', platform, urgency: 'low', potential_impact: 'minimal', reversible: false, precedent_exists: true },
+      risk_level: RiskLevel.LOW,
+      estimated_cost: amount,
+      timestamp: Date.now(),
+      confidence: 0.9
+    };
+  }
+
+  test('counters reset at midnight UTC, not a day after start', async () => {
+    expect((await autonomy.validateDecision(spend(1))).approved).toBe(true);
+    expect((await autonomy.validateDecision(spend(1))).approved).toBe(true);
+    expect((await autonomy.validateDecision(spend(1))).approved).toBe(false);
+
+    vi.setSystemTime(new Date('2026-03-02T00:00:01Z'));
+
+    expect(autonomy.getDailySpending()).toBe(0);
+    expect((await autonomy.validateDecision(spend(1))).approved).toBe(true);
+  });
+
+  test('a released spend frees its share of the daily and platform limits', async () => {
+    const failed = spend(1, 'twitter');
+    expect((await autonomy.validateDecision(failed)).approved).toBe(true);
+    expect((await autonomy.validateDecision(spend(1, 'twitter'))).approved).toBe(false);
+
+    expect(autonomy.releaseSpending(failed.id)).toBe(true);
+    // Only once
+    expect(autonomy.releaseSpending(failed.id)).toBe(false);
+
+    expect(autonomy.getDailySpending()).toBe(0);
+    expect((await autonomy.validateDecision(spend(1, 'twitter'))).approved).toBe(true);
+  });
+
+  test('spends from a previous day are not released into today', async () => {
+    const yesterday = spend(1);
+    await autonomy.validateDecision(yesterday);
+    vi.setSystemTime(new Date('2026-03-02T08:00:00Z'));
+    await autonomy.validateDecision(spend(1));
+
+    expect(autonomy.releaseSpending(yesterday.id)).toBe(false);
+    expect(autonomy.getDailySpending()).toBe(1);
+  });
+
+  test('restored spending counts against the limits', async () => {
+    autonomy.restoreDailySpending(1.5, 'SEI', 'twitter');
+
+    expect((await autonomy.validateDecision(spend(0.6))).approved).toBe(false);
+    expect((await autonomy.validateDecision(spend(0.5, 'twitter'))).approved).toBe(false);
+    expect((await autonomy.validateDecision(spend(0.5, 'discord'))).approved).toBe(true);
+  });
+});
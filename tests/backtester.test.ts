@@ -0,0 +1,99 @@
+import path from 'path';
+import { describe, test, expect } from 'vitest';
+import { Backtester, BacktestStrategy } from '../src/simulation/backtester';
+import { loadContentFixtures } from '../src/simulation/scripted-platform';
+import { ContentEvaluator } from '../src/ai/content-evaluator';
+import { Content } from '../src/platforms/simple-platform';
+
+/**
+ * Backtests replay a corpus in post time through the live investment rules,
+ * applying dedup, cooldowns and the daily budget, and report why each post
+ * was or was not tipped.
+ */
+describe('Backtester', () => {
+  const strategy: BacktestStrategy = {
+    name: 'tips-only',
+    tipping: { dailyBudget: 1, minQualityScore: 70, maxTipAmount: 1, creatorCooldownMinutes: 60 },
+    investment: { nftRewardsEnabled: false, stakingEnabled: false, minInvestmentScore: 40 }
+  };
+
+  function post(id: string, creator: string, timestamp: string): Content {
+    return {
+      id,
+      platform: 'twitter',
+      creator: { id: creator, username: `@${creator}` },
+      text: `post ${id}`,
+      metrics: { likes: 0, shares: 0, comments: 0 },
+      timestamp: new Date(timestamp),
+      url: `https://x.com/${creator}/status/${id}`
+    };
+  }
+
+  // Scores are fixed per post so the outcome only depends on the rules
+  const scores: Record<string, number> = { p1: 100, p2: 85, p3: 100, p4: 55, p5: 10, p6: 85 };
+  const evaluator = {
+    evaluate: async (content: Content) => ({ qualityScore: scores[content.id] })
+  } as unknown as ContentEvaluator;
+
+  const corpus = [
+    post('p6', 'bob', '2024-05-02T09:00:00Z'),
+    post('p1', 'alice', '2024-05-01T10:00:00Z'),
+    post('p2', 'bob', '2024-05-01T10:30:00Z'),
+    post('p3', 'alice', '2024-05-01T10:45:00Z'),
+    post('p1', 'alice', '2024-05-01T11:00:00Z'),
+    post('p4', 'carol', '2024-05-01T12:00:00Z'),
+    post('p5', 'dave', '2024-05-01T13:00:00Z')
+  ];
+
+  test('reports what was tipped, what was skipped and why', async () => {
+    const report = await new Backtester(corpus, { topics: ['sei'], evaluator }).run(strategy);
+
+    expect(report.posts).toBe(7);
+    expect(report.decisions.map(decision => [decision.contentId, decision.amount])).toEqual([
+      ['p1', 1],
+      ['p6', 0.505]
+    ]);
+    expect(report.skipped).toEqual({
+      duplicate: 1,
+      cooldown: 1,
+      below_investment_score: 1,
+      below_quality_score: 1,
+      budget_exhausted: 1
+    });
+    expect(report.totals.byType.tip).toEqual({ count: 2, amount: 1.505 });
+    expect(report.creators.map(creator => creator.username)).toEqual(['@alice', '@bob']);
+  });
+
+  test('budgets are per UTC day of the posts, not of the run', async () => {
+    const report = await new Backtester(corpus, { topics: ['sei'], evaluator }).run(strategy);
+
+    expect(report.days).toEqual([
+      { day: '2024-05-01', budget: 1, spent: 1, count: 1, utilization: 1, exhaustedAt: new Date('2024-05-01T10:30:00Z') },
+      { day: '2024-05-02', budget: 1, spent: 0.505, count: 1, utilization: 0.505 }
+    ]);
+  });
+
+  test('compares strategies over the same corpus', async () => {
+    const generous: BacktestStrategy = {
+      ...strategy,
+      name: 'generous',
+      tipping: { ...strategy.tipping, dailyBudget: 5, creatorCooldownMinutes: 0 }
+    };
+
+    const [tight, loose] = await new Backtester(corpus, { topics: ['sei'], evaluator }).compare([strategy, generous]);
+
+    expect(tight.strategy).toBe('tips-only');
+    expect(loose.decisions.map(decision => decision.contentId)).toEqual(['p1', 'p2', 'p3', 'p6']);
+    expect(loose.skipped.duplicate).toBe(1);
+  });
+
+  test('the bundled sample feed replays the same way every time', async () => {
+    const feed = loadContentFixtures(path.join(__dirname, '..', 'scripts', 'fixtures', 'sample-feed.jsonl'));
+
+    const first = await new Backtester(feed, { topics: ['sei', 'defi'] }).run(strategy);
+    const second = await new Backtester(feed, { topics: ['sei', 'defi'] }).run(strategy);
+
+    expect(first.posts).toBe(feed.length);
+    expect(second).toEqual(first);
+  });
+});
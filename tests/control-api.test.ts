@@ -0,0 +1,118 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { describe, test, expect, vi, beforeEach, afterEach, Mock } from 'vitest';
+import { createControlApi } from '../src/api/control-api';
+import { Authenticator, authenticate, loadAuthConfig } from '../src/api/auth';
+import { DeFiAgent } from '../src/core/defi-agent';
+import {
+  AutonomyController,
+  AutonomyLevel,
+  Decision,
+  DecisionType,
+  RiskLevel
+} from '../src/autonomy/autonomy-controller';
+
+/**
+ * The control API validates request bodies, enforces roles per route, and
+ * never lets the operator who asked for an escalated tip approve it.
+ */
+describe('Control API', () => {
+  let server: Server;
+  let baseUrl: string;
+  let agent: {
+    sendManualTip: Mock<[unknown], Promise<unknown>>;
+    getPendingApprovals: Mock<[], unknown[]>;
+    processApproval: Mock<[string, boolean, string, string | undefined], Promise<void>>;
+  };
+
+  beforeEach(async () => {
+    agent = {
+      sendManualTip: vi.fn(async (_request: unknown): Promise<unknown> =>
+        ({ decision: {}, payment: { transactionHash: '0xabc' } })),
+      getPendingApprovals: vi.fn((): unknown[] => [{ id: 'approval_1', decision: { requested_by: 'alice' }, status: 'pending' }]),
+      processApproval: vi.fn(async (_id: string, _approved: boolean, _approver: string, _notes: string | undefined): Promise<void> => undefined)
+    };
+    const authenticator = new Authenticator(loadAuthConfig({
+      API_KEYS: 'dashboard:viewer:view-key,alice:operator:alice-key,bob:operator:bob-key'
+    }));
+
+    const app = express();
+    app.use(express.json());
+    app.use(authenticate(authenticator));
+    app.use(createControlApi(agent as unknown as DeFiAgent));
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function post(path: string, key: string, body: unknown): Promise<Response> {
+    return fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-API-Key': key },
+      body: JSON.stringify(body)
+    });
+  }
+
+  test('manual tips need an operator and a valid body, and record who sent them', async () => {
+    const tip = { recipient: '0x' + '1'.repeat(40), platform: 'twitter', amount: 0.5 };
+
+    expect((await post('/tip', 'view-key', tip)).status).toBe(403);
+    expect((await post('/tip', 'alice-key', { ...tip, amount: -1 })).status).toBe(400);
+
+    const response = await post('/tip', 'alice-key', { ...tip, requestedBy: 'bob' });
+    expect(response.status).toBe(200);
+    expect(agent.sendManualTip).toHaveBeenCalledWith({ ...tip, requestedBy: 'alice' });
+  });
+
+  test('the requester cannot approve their own escalated tip', async () => {
+    const response = await post('/approvals/approval_1', 'alice-key', { approved: true });
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).error).toBe('Approval requests cannot be approved by their requester');
+    expect(agent.processApproval).not.toHaveBeenCalled();
+  });
+
+  test('another operator can approve it, and the requester can still withdraw it', async () => {
+    expect((await post('/approvals/approval_1', 'bob-key', { approved: true })).status).toBe(200);
+    expect(agent.processApproval).toHaveBeenCalledWith('approval_1', true, 'bob', undefined);
+
+    expect((await post('/approvals/approval_1', 'alice-key', { approved: false, notes: 'sent by mistake' })).status).toBe(200);
+    expect(agent.processApproval).toHaveBeenLastCalledWith('approval_1', false, 'alice', 'sent by mistake');
+  });
+
+  test('the autonomy layer refuses self-approval on its own', async () => {
+    const autonomy = new AutonomyController(AutonomyLevel.SUPERVISED, {
+      dailyLimit: 10,
+      perTransactionLimit: 1,
+      platformLimits: {},
+      approvalRequiredAbove: 0,
+      currencyLimits: {}
+    });
+    const decision: Decision = {
+      id: 'spend_1',
+      type: DecisionType.FINANCIAL_TRANSACTION,
+      description: 'Manual tip',
+      context: { urgency: 'low', potential_impact: 'minimal', reversible: false, precedent_exists: true },
+      risk_level: RiskLevel.LOW,
+      requested_by: 'alice',
+      timestamp: Date.now(),
+      confidence: 1
+    };
+    const processed = vi.fn();
+    autonomy.on('approval_processed', processed);
+    const request = await autonomy.requestApproval(decision);
+
+    await expect(autonomy.processApprovalResponse(request.id, true, 'alice'))
+      .rejects.toThrow('cannot be approved by their requester');
+    expect(autonomy.getPendingApprovals()).toHaveLength(1);
+
+    await autonomy.processApprovalResponse(request.id, true, 'bob');
+    expect(processed).toHaveBeenCalledWith(expect.objectContaining({ approved: true, approver: 'bob' }));
+    autonomy.shutdown();
+  });
+});
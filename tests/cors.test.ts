@@ -0,0 +1,71 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { allowOrigins, loadCorsOrigins } from '../src/api/cors';
+import { Authenticator, authenticate, loadAuthConfig, requireRole } from '../src/api/auth';
+
+/**
+ * Only the configured dashboard origins get CORS headers; their preflights
+ * are answered before authentication, and the real requests still need a key.
+ */
+describe('CORS', () => {
+  const dashboard = 'https://dashboard.example.com';
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    const app = express();
+    app.use(allowOrigins(loadCorsOrigins({ DASHBOARD_ORIGINS: `${dashboard}/, http://localhost:3001` })));
+    app.use(authenticate(new Authenticator(loadAuthConfig({ API_KEYS: 'dashboard:viewer:view-key' }))));
+    app.get('/stats', requireRole('viewer'), (_req, res) => {
+      res.json({ ok: true });
+    });
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function preflight(origin: string): Promise<Response> {
+    return fetch(`${baseUrl}/stats`, {
+      method: 'OPTIONS',
+      headers: { Origin: origin, 'Access-Control-Request-Method': 'GET', 'Access-Control-Request-Headers': 'x-api-key' }
+    });
+  }
+
+  test('answers preflights from the dashboard without credentials', async () => {
+    const response = await preflight(dashboard);
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('access-control-allow-origin')).toBe(dashboard);
+    expect(response.headers.get('access-control-allow-headers')).toContain('X-API-Key');
+    expect(response.headers.get('vary')).toContain('Origin');
+  });
+
+  test('dashboard requests still need a key', async () => {
+    const anonymous = await fetch(`${baseUrl}/stats`, { headers: { Origin: dashboard } });
+    expect(anonymous.status).toBe(401);
+
+    const keyed = await fetch(`${baseUrl}/stats`, { headers: { Origin: dashboard, 'X-API-Key': 'view-key' } });
+    expect(keyed.status).toBe(200);
+    expect(keyed.headers.get('access-control-allow-origin')).toBe(dashboard);
+  });
+
+  test('other origins get no CORS headers', async () => {
+    const response = await preflight('https://evil.example.com');
+    expect(response.headers.get('access-control-allow-origin')).toBeNull();
+
+    const keyed = await fetch(`${baseUrl}/stats`, { headers: { Origin: 'https://evil.example.com', 'X-API-Key': 'view-key' } });
+    expect(keyed.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  test('origins must be bare scheme://host[:port]', () => {
+    expect(loadCorsOrigins({})).toEqual([]);
+    expect(() => loadCorsOrigins({ DASHBOARD_ORIGINS: 'dashboard.example.com' })).toThrow('Invalid DASHBOARD_ORIGINS entry');
+    expect(() => loadCorsOrigins({ DASHBOARD_ORIGINS: `${dashboard}/admin` })).toThrow('Invalid DASHBOARD_ORIGINS entry');
+  });
+});
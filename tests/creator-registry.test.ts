@@ -0,0 +1,80 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CreatorRegistry } from '../src/identity/creator-registry';
+import { fromBech32 } from '../src/blockchain/sei-address';
+
+/**
+ * Creators link a wallet by posting a challenge's proof from their social
+ * account and signing its message with the wallet; links persist and
+ * resolve to either address form.
+ */
+describe('CreatorRegistry', () => {
+  let dataDir: string;
+  let registry: CreatorRegistry;
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'creator-registry-test-'));
+    registry = new CreatorRegistry({ dataDir, claimTtlSeconds: 60 });
+    await registry.initialize();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await registry.shutdown();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test('links the signing wallet once the account has posted the proof', async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const challenge = registry.createClaimChallenge('twitter', '42');
+    const signature = await wallet.signMessage(challenge.message);
+
+    await expect(registry.verifyClaim(challenge.nonce, signature)).rejects.toThrow(`Post "${challenge.proof}"`);
+
+    // A post from another account proves nothing
+    expect(registry.recordAccountPost('twitter', '43', challenge.proof)).toBe(false);
+    expect(registry.recordAccountPost('twitter', '42', `gm ${challenge.proof}`)).toBe(true);
+
+    const linked = await registry.verifyClaim(challenge.nonce, signature);
+    expect(linked).toEqual(expect.objectContaining({ platform: 'twitter', userId: '42', source: 'signed_claim' }));
+    expect(linked.evmAddress).toBe(wallet.address);
+    expect(fromBech32(linked.seiAddress!).prefix).toBe('sei');
+    expect(await registry.resolveAddress('twitter', '42', 'sei')).toBe(linked.seiAddress);
+
+    await expect(registry.verifyClaim(challenge.nonce, signature)).rejects.toThrow('already used');
+  });
+
+  test('expired challenges cannot be claimed', async () => {
+    vi.useFakeTimers();
+    const challenge = registry.createClaimChallenge('discord', '7');
+    registry.recordAccountPost('discord', '7', challenge.proof);
+
+    vi.advanceTimersByTime(61 * 1000);
+
+    const signature = await ethers.Wallet.createRandom().signMessage(challenge.message);
+    await expect(registry.verifyClaim(challenge.nonce, signature)).rejects.toThrow('expired');
+    expect(registry.get('discord', '7')).toBeUndefined();
+  });
+
+  test('hub registrations are kept across restarts', async () => {
+    const wallet = ethers.Wallet.createRandom().address.toLowerCase();
+    const hash = `0x${'8'.repeat(64)}`;
+
+    await registry.registerFromEvent('99', wallet, 'linkedin', 'ada', hash);
+
+    const reloaded = new CreatorRegistry({ dataDir });
+    await reloaded.initialize();
+    expect(reloaded.get('linkedin', '99')).toEqual(expect.objectContaining({
+      username: 'ada',
+      evmAddress: ethers.getAddress(wallet),
+      source: 'contract',
+      transactionHash: hash
+    }));
+    // Without an RPC the other address form cannot be looked up
+    expect(await reloaded.resolveAddress('linkedin', '99', 'sei')).toBeUndefined();
+    await reloaded.shutdown();
+  });
+});
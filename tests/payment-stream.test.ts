@@ -0,0 +1,108 @@
+import { ethers } from 'ethers';
+import { describe, test, expect, vi, beforeEach, afterEach, Mock } from 'vitest';
+import {
+  PaymentStream,
+  StreamPayer,
+  UnsignedStreamVoucher,
+  X402StreamPayer,
+  streamVoucherDigest
+} from '../src/payments/payment-stream';
+import { X402Client } from '../src/payments/x402-client';
+import type { PaymentPayload, PaymentResult } from '../src/payments/x402-integration';
+
+/**
+ * Streams accrue a wei-exact amount per interval, settle what was vouched at
+ * each checkpoint and on close, and close when the payer stops vouching.
+ */
+describe('PaymentStream', () => {
+  const payee = ethers.Wallet.createRandom().address;
+  let wallet: ethers.HDNodeWallet;
+  let vouchLimit: bigint;
+  let payer: StreamPayer;
+  let settle: Mock<[PaymentPayload, bigint], Promise<PaymentResult>>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    wallet = ethers.Wallet.createRandom();
+    vouchLimit = ethers.MaxUint256;
+    payer = {
+      getAddress: () => wallet.address,
+      async signVoucher(voucher: UnsignedStreamVoucher) {
+        if (BigInt(voucher.cumulativeAmount) > vouchLimit) {
+          throw new Error('out of funds');
+        }
+        const unsigned = { ...voucher, payer: wallet.address };
+        return { ...unsigned, signature: await wallet.signMessage(ethers.getBytes(streamVoucherDigest(unsigned))) };
+      },
+      createCheckpointPayment: async (streamId: string) =>
+        ({ x402Version: 1, scheme: 'exact', network: 'sei-arctic', payload: { streamId } }) as PaymentPayload
+    };
+    settle = vi.fn(async (_payload: PaymentPayload, _amount: bigint): Promise<PaymentResult> =>
+      ({ success: true, transactionHash: `0x${'5'.repeat(64)}` }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function createStream(checkpointEvery: number = 2): PaymentStream {
+    return new PaymentStream({ id: 'stream-1', serviceId: 'analysis', payee, rate: 0.3, checkpointEvery }, payer, settle);
+  }
+
+  test('settles the exact wei vouched at each checkpoint and on close', async () => {
+    const stream = createStream();
+    const ended = vi.fn();
+    stream.on('ended', ended);
+
+    await stream.start();
+    await vi.advanceTimersByTimeAsync(3 * 60 * 1000);
+    await stream.stop();
+
+    // 0.3 SEI an hour is 0.005 SEI a minute
+    expect(settle.mock.calls.map(([, amount]) => amount)).toEqual([
+      ethers.parseEther('0.01'),
+      ethers.parseEther('0.005')
+    ]);
+    expect(stream.getCheckpoints().map(checkpoint => checkpoint.final)).toEqual([false, true]);
+    expect(ended).toHaveBeenCalledWith(expect.objectContaining({ reason: 'stopped', totalPaid: 0.015, unsettled: 0 }));
+  });
+
+  test('closes and settles when the payer stops vouching', async () => {
+    vouchLimit = ethers.parseEther('0.01');
+    const stream = createStream(10);
+    const ended = new Promise(resolve => stream.once('ended', resolve));
+
+    await stream.start();
+    await vi.advanceTimersByTimeAsync(3 * 60 * 1000);
+
+    expect(await ended).toEqual(expect.objectContaining({ reason: 'payer_exhausted', totalPaid: 0.01 }));
+    expect(stream.isActive()).toBe(false);
+    expect(settle).toHaveBeenCalledTimes(1);
+  });
+
+  test('rejects rates too small for the voucher interval', () => {
+    expect(() => new PaymentStream({ id: 's', serviceId: 'analysis', payee, rate: 1e-17 }, payer, settle))
+      .toThrow('Stream rate is too small');
+  });
+
+  test('the x402 payer vouches up to exactly its balance and pays checkpoints to the wei', async () => {
+    const client = {
+      getWalletAddress: () => wallet.address,
+      getBalance: async () => 0.3,
+      signDigest: (digest: string) => wallet.signMessage(ethers.getBytes(digest)),
+      createPaymentPayload: vi.fn(async () => ({}))
+    };
+    const streamPayer = new X402StreamPayer(client as unknown as X402Client);
+    const voucher = { streamId: 'stream-1', payee, sequence: 1, timestamp: 0 };
+
+    await expect(streamPayer.signVoucher({ ...voucher, cumulativeAmount: ethers.parseEther('0.3').toString() }))
+      .resolves.toEqual(expect.objectContaining({ payer: wallet.address }));
+    await expect(streamPayer.signVoucher({ ...voucher, cumulativeAmount: (ethers.parseEther('0.3') + 1n).toString() }))
+      .rejects.toThrow('Insufficient balance');
+
+    await streamPayer.createCheckpointPayment('stream-1', payee, ethers.parseEther('0.3'));
+    expect(client.createPaymentPayload).toHaveBeenCalledWith(
+      expect.objectContaining({ recipient: payee, amountWei: ethers.parseEther('0.3').toString() })
+    );
+  });
+});
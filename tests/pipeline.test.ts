@@ -0,0 +1,129 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import { AgentPipeline, autonomyGuard, executor } from '../src/core/pipeline';
+import { SocialTippingAgent } from '../src/core/simple-agent';
+import { AutonomyController, AutonomyLevel, Decision, DecisionType, RiskLevel } from '../src/autonomy/autonomy-controller';
+
+/**
+ * Pipelines run stages phase by phase, execute only what a guard approved,
+ * and always run their record stages.
+ */
+describe('AgentPipeline', () => {
+  const cleanup: Array<() => unknown> = [];
+
+  afterEach(async () => {
+    for (const step of cleanup.splice(0)) {
+      await step();
+    }
+  });
+
+  function controller(): AutonomyController {
+    const autonomy = new AutonomyController(AutonomyLevel.AUTONOMOUS, {
+      dailyLimit: 10,
+      perTransactionLimit: 1,
+      platformLimits: {},
+      approvalRequiredAbove: 1,
+      currencyLimits: {}
+    });
+    cleanup.push(() => autonomy.shutdown());
+    return autonomy;
+  }
+
+  function spend(amount: number): Decision {
+    return {
+      id: `spend_${amount}`,
+      type: DecisionType.FINANCIAL_TRANSACTION,
+      description: `Tip ${amount} SEI`,
+      context: { amount, currency: 'SEI', urgency: 'low', potential_impact: 'minimal', reversible: false, precedent_exists: true },
+      risk_level: RiskLevel.LOW,
+      estimated_cost: amount,
+      timestamp: Date.now(),
+      confidence: 0.9
+    };
+  }
+
+  test('decisions no guard reviewed are blocked, not executed', async () => {
+    const handler = vi.fn(async () => 'sent');
+    const pipeline = new AgentPipeline<number>('unguarded')
+      .use({ name: 'decide', phase: 'decide', run: async run => { run.propose('tip', { amount: run.input }); } })
+      .use(executor('pay', ['tip'], handler));
+    const blocked = vi.fn();
+    pipeline.on('decision_blocked', blocked);
+
+    const run = await pipeline.process(0.5);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(run.decisions[0]).toEqual(expect.objectContaining({ status: 'blocked', reason: 'Not reviewed by a guard' }));
+    expect(blocked).toHaveBeenCalledTimes(1);
+  });
+
+  test('the autonomy guard approves within limits and blocks the rest', async () => {
+    const handler = vi.fn(async () => 'sent');
+    const pipeline = new AgentPipeline<number[]>('guarded')
+      .use({
+        name: 'decide',
+        phase: 'decide',
+        run: async run => {
+          for (const amount of run.input) run.propose('tip', { amount }, { autonomy: spend(amount) });
+          // Says nothing the guard could check
+          run.propose('tip', { amount: 0.1 });
+        }
+      })
+      .use(autonomyGuard(controller()))
+      .use(executor('pay', ['tip'], handler));
+
+    const run = await pipeline.process([0.5, 5]);
+
+    expect(run.decisions.map(decision => decision.status)).toEqual(['executed', 'blocked', 'blocked']);
+    expect(run.decisions[2].reason).toBe('Nothing for the autonomy guard to validate');
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  test('a failing stage halts the run but record stages still run', async () => {
+    const recorded = vi.fn();
+    const pipeline = new AgentPipeline('halting')
+      .use({ name: 'evaluate', phase: 'evaluate', run: async () => { throw new Error('model unavailable'); } })
+      .use({ name: 'decide', phase: 'decide', run: async run => { run.propose('tip', {}); } })
+      .use({ name: 'record', phase: 'record', run: async run => recorded(run.halted) });
+
+    const run = await pipeline.process({});
+
+    expect(run.decisions).toEqual([]);
+    expect(recorded).toHaveBeenCalledWith({ stage: 'evaluate', reason: 'model unavailable' });
+  });
+
+  test('the tipping agent records earnings for each tip it sends', async () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pipeline-test-'));
+    cleanup.push(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+    vi.stubEnv('SEI_PRIVATE_KEY', ethers.Wallet.createRandom().privateKey);
+    // Never called: evaluation and payment are replaced below
+    vi.stubEnv('OPENAI_API_KEY', 'unused');
+    cleanup.push(() => vi.unstubAllEnvs());
+    const agent = new SocialTippingAgent({
+      dailyBudget: 10,
+      minQualityScore: 70,
+      maxTipAmount: 1,
+      dataDir,
+      platforms: [],
+      preferences: { topics: [], creators: [], keywords: [] }
+    });
+    cleanup.push(() => agent.getAutonomyController().shutdown());
+    const hash = `0x${'b'.repeat(64)}`;
+    agent.getPipeline()
+      .replace('content-evaluation', {
+        name: 'content-evaluation',
+        phase: 'evaluate',
+        run: async run => { run.state.evaluation = { qualityScore: 100, reason: 'great' }; }
+      })
+      .replace('tip-execution', executor('tip-execution', ['tip'], async () => ({ transactionHash: hash })));
+    const earnings = vi.fn();
+    agent.on('earnings_recorded', earnings);
+
+    await agent.getPipeline().process({ id: 'post-1', platform: 'twitter', creator: { id: 'u1' } });
+
+    expect(earnings).toHaveBeenCalledWith(expect.objectContaining({ amount: 1, currency: 'SEI', source: 'tip', transactionHash: hash }));
+  });
+});
@@ -0,0 +1,136 @@
+import { EventEmitter } from 'events';
+import { describe, test, expect, vi, Mock } from 'vitest';
+import TwitterAdapter from '../src/platforms/adapters/twitter-adapter';
+import DiscordAdapter from '../src/platforms/adapters/discord-adapter';
+import { TwitterClient } from '../src/platforms/twitter-client';
+import { DiscordClient } from '../src/platforms/discord-client';
+import { PersonalityModule } from '../src/personality/personality-engine';
+import type { AgentConfig } from '../src/core/agent-engine';
+import {
+  ContentType,
+  EventType,
+  PlatformAdapter,
+  PlatformEvent,
+  ResponseType
+} from '../src/platforms/platform-sdk';
+
+/**
+ * Adapters turn client traffic into PlatformEvents, filter them for
+ * listeners, act through the client with platform limits applied, and load
+ * by platform name the way AgentCore loads them.
+ */
+describe('Platform adapters', () => {
+  const agent = { id: 'agent-1', name: 'Tipper' } as AgentConfig;
+  const personality = {} as PersonalityModule;
+
+  function twitterClient() {
+    return Object.assign(new EventEmitter(), {
+      connect: vi.fn(async () => undefined),
+      disconnect: vi.fn(async () => undefined),
+      getAccount: () => ({ id: 'agent-id', username: 'tipper' }),
+      startMonitoring: vi.fn(async (_options: { keywords: string[] }) => undefined),
+      post: vi.fn(async (_text: string) => '100'),
+      reply: vi.fn(async (_tweetId: string, _text: string) => '101')
+    });
+  }
+
+  function tweet(id: string, authorId: string, text: string, inReplyTo?: string) {
+    return { id, author_id: authorId, text, in_reply_to_user_id: inReplyTo, created_at: '2024-05-01T10:00:00Z' };
+  }
+
+  test('twitter mentions and replies become events for matching listeners', async () => {
+    const client = twitterClient();
+    const adapter = new TwitterAdapter(agent, personality, client as unknown as TwitterClient);
+    await adapter.connect();
+    expect(client.startMonitoring).toHaveBeenCalledWith({ keywords: ['@tipper'] });
+
+    const replies = adapter.listen([{ type: [EventType.COMMENT] }]);
+    const sei = adapter.listen([{ keywords: ['sei'] }]);
+    const includes = { users: [{ id: 'u1', username: 'ada', public_metrics: { followers_count: 10 } }] };
+
+    client.emit('newContent', tweet('1', 'agent-id', '@tipper talking to myself'), includes);
+    client.emit('newContent', tweet('2', 'u1', '@tipper what about Sei?'), includes);
+    client.emit('newContent', tweet('3', 'u1', 'thanks!', 'agent-id'), includes);
+
+    const comment = (await replies.next()).value as PlatformEvent;
+    expect(comment).toEqual(expect.objectContaining({ id: '3', type: EventType.COMMENT }));
+    const mention = (await sei.next()).value as PlatformEvent;
+    expect(mention).toEqual(expect.objectContaining({ id: '2', type: EventType.MENTION }));
+    expect(mention.data.author).toEqual(expect.objectContaining({ id: 'u1', username: 'ada', followerCount: 10 }));
+
+    await replies.return!();
+    await sei.return!();
+  });
+
+  test('twitter replies go to the event and are cut to the length limit', async () => {
+    const client = twitterClient();
+    const adapter = new TwitterAdapter(agent, personality, client as unknown as TwitterClient);
+    const event = { id: '2', platform: 'twitter', type: EventType.MENTION } as PlatformEvent;
+    const response = { type: ResponseType.REPLY, content: { type: ContentType.TEXT, text: 'x'.repeat(300) } };
+
+    await expect(adapter.react(event, response)).rejects.toThrow('Platform not connected');
+
+    await adapter.connect();
+    await adapter.react(event, response);
+    const [replyTo, text] = client.reply.mock.calls[0];
+    expect(replyTo).toBe('2');
+    expect(text).toHaveLength(280);
+    expect(text.endsWith('…')).toBe(true);
+
+    expect(await adapter.post({ type: ContentType.TEXT, text: 'gm', hashtags: ['sei', '#defi'] }))
+      .toEqual({ success: true, postId: '100', url: 'https://x.com/tipper/status/100' });
+    expect(client.post).toHaveBeenCalledWith('gm #sei #defi');
+    expect(await adapter.editPost()).toEqual({ success: false, error: 'Editing tweets is not supported on twitter' });
+  });
+
+  test('discord direct messages, replies to the bot and bot authors are told apart', async () => {
+    const sendDirectMessage: Mock<[string, string], Promise<void>> =
+      vi.fn(async (_userId: string, _text: string): Promise<void> => undefined);
+    const client = Object.assign(new EventEmitter(), {
+      connect: async () => undefined,
+      startMonitoring: async () => undefined,
+      getBotUserId: () => 'bot-id',
+      sendDirectMessage
+    });
+    const adapter = new DiscordAdapter(agent, personality, client as unknown as DiscordClient);
+    await adapter.connect();
+    const events: PlatformEvent[] = [];
+    adapter.on('event', event => events.push(event));
+
+    function message(id: string, dm: boolean, repliedTo?: string, bot: boolean = false) {
+      return {
+        id,
+        content: 'hello',
+        channelId: 'c1',
+        guildId: dm ? null : 'g1',
+        createdTimestamp: 1,
+        channel: { isDMBased: () => dm },
+        mentions: { repliedUser: repliedTo ? { id: repliedTo } : null },
+        reference: null,
+        author: { id: `user-${id}`, username: `user${id}`, bot, globalName: null, displayAvatarURL: () => '' }
+      };
+    }
+    client.emit('addressed', message('1', true));
+    client.emit('addressed', message('2', false, 'bot-id'));
+    client.emit('addressed', message('3', false, undefined, true));
+
+    expect(events.map(event => [event.type, event.source.type])).toEqual([
+      [EventType.MESSAGE_RECEIVED, 'user'],
+      [EventType.COMMENT, 'user'],
+      [EventType.MENTION, 'bot']
+    ]);
+
+    await adapter.react(events[0], {
+      type: ResponseType.CUSTOM,
+      action: { type: 'direct_message', parameters: { userId: 'user-1', message: 'tipped you 1 SEI' } }
+    });
+    expect(sendDirectMessage).toHaveBeenCalledWith('user-1', 'tipped you 1 SEI');
+  });
+
+  test('each platform loads by name from the adapters directory', async () => {
+    for (const platform of ['twitter', 'discord', 'linkedin']) {
+      const { default: AdapterClass } = await import(`../src/platforms/adapters/${platform}-adapter`);
+      expect(AdapterClass.prototype).toBeInstanceOf(PlatformAdapter);
+    }
+  });
+});
@@ -0,0 +1,106 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, test, expect, vi, beforeEach, afterEach, Mock } from 'vitest';
+import {
+  PriceOracle,
+  PriceQuote,
+  PriceSource,
+  StaticPriceSource,
+  createPriceOracle
+} from '../src/blockchain/price-oracle';
+
+/**
+ * The oracle takes the first fresh, positive quote from its sources in
+ * order, caches it, falls back to the last good quote for a while when
+ * every source fails, and fails loudly after that.
+ */
+describe('PriceOracle', () => {
+  const MINUTE = 60 * 1000;
+
+  function source(name: string): PriceSource & { getPrice: Mock<[string], Promise<PriceQuote | null>> } {
+    return {
+      name,
+      getPrice: vi.fn(async (symbol: string): Promise<PriceQuote | null> =>
+        ({ symbol, usd: 0.5, timestamp: Date.now(), source: name }))
+    };
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('falls through to the next source on a missing, invalid or stale quote', async () => {
+    const feed = source('onchain');
+    const twap = source('dex-twap');
+    const fixed = source('static');
+    const oracle = new PriceOracle({ sources: [feed, twap, fixed], maxAgeMs: 10 * MINUTE });
+    const failed = vi.fn();
+    oracle.on('source_failed', failed);
+
+    feed.getPrice.mockResolvedValueOnce(null);
+    twap.getPrice.mockResolvedValueOnce({ symbol: 'SEI', usd: 0, timestamp: Date.now(), source: 'dex-twap' });
+    expect(await oracle.getPrice('sei')).toEqual(expect.objectContaining({ usd: 0.5, source: 'static' }));
+    expect(failed).toHaveBeenCalledWith(expect.objectContaining({ source: 'dex-twap', error: 'invalid price 0' }));
+
+    vi.advanceTimersByTime(2 * MINUTE);
+    feed.getPrice.mockResolvedValueOnce({ symbol: 'SEI', usd: 0.4, timestamp: Date.now() - 11 * MINUTE, source: 'onchain' });
+    expect(await oracle.getPrice('SEI')).toEqual(expect.objectContaining({ source: 'dex-twap' }));
+    expect(failed).toHaveBeenLastCalledWith(expect.objectContaining({ source: 'onchain', error: expect.stringContaining('stale') }));
+  });
+
+  test('caches quotes and shares concurrent lookups', async () => {
+    const feed = source('onchain');
+    const oracle = new PriceOracle({ sources: [feed], cacheTtlMs: MINUTE });
+
+    const [first, second] = await Promise.all([oracle.getUsdPrice('SEI'), oracle.getUsdPrice('sei')]);
+    expect([first, second]).toEqual([0.5, 0.5]);
+    expect(await oracle.toUsd('SEI', 3)).toBe(1.5);
+    expect(feed.getPrice).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(MINUTE);
+    await oracle.getPrice('SEI');
+    expect(feed.getPrice).toHaveBeenCalledTimes(2);
+  });
+
+  test('serves the last good price for a while when every source fails, then refuses', async () => {
+    const feed = source('onchain');
+    const oracle = new PriceOracle({ sources: [feed], cacheTtlMs: MINUTE, fallbackMaxAgeMs: 60 * MINUTE });
+    const fallback = vi.fn();
+    oracle.on('fallback', fallback);
+    await oracle.getPrice('SEI');
+
+    feed.getPrice.mockRejectedValue(new Error('rpc down'));
+    vi.advanceTimersByTime(30 * MINUTE);
+    expect(await oracle.getUsdPrice('SEI')).toBe(0.5);
+    expect(fallback).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(31 * MINUTE);
+    await expect(oracle.getPrice('SEI')).rejects.toThrow('No usable USD price for SEI');
+    await expect(oracle.getPrice('USDC')).rejects.toThrow('No usable USD price for USDC');
+  });
+
+  test('static prices can come from a file and never go stale without a date', async () => {
+    vi.useRealTimers();
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'price-oracle-test-'));
+    try {
+      const file = path.join(dir, 'prices.json');
+      fs.writeFileSync(file, JSON.stringify({ sei: 0.42, USDC: 1 }));
+
+      const oracle = createPriceOracle({ staticPrices: file });
+      expect(await oracle.getUsdPrice('SEI')).toBe(0.42);
+      expect(await new StaticPriceSource({ USDC: 1 }).getPrice('atom')).toBeNull();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('on-chain sources need an RPC and at least one source is required', () => {
+    expect(() => createPriceOracle({ feeds: { SEI: '0x' + '1'.repeat(40) } })).toThrow('need an rpcUrl');
+    expect(() => createPriceOracle({})).toThrow('at least one price source');
+  });
+});
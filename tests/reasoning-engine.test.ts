@@ -0,0 +1,129 @@
+import { describe, test, expect, vi } from 'vitest';
+import { ReasoningEngine } from '../src/core/reasoning-engine';
+import { PersonalityModule } from '../src/personality/personality-engine';
+import { Memory, MemorySystem, MemoryType } from '../src/memory/memory-system';
+import { DecisionType, RiskLevel } from '../src/autonomy/autonomy-controller';
+import { EventType, PlatformEvent, ResponseType } from '../src/platforms/platform-sdk';
+
+/**
+ * Offline, the engine replies in character with a confidence shaped by past
+ * outcomes, posts on a personality-scaled interval, and proposes dialling
+ * back assertiveness after a run of failures.
+ */
+describe('ReasoningEngine', () => {
+  function personality(socialEnergy: number, confidence: number = 0.7) {
+    return {
+      getPersonalityState: () => ({
+        traits: { social_energy: socialEnergy, creativity: 0.8 },
+        communication: { verbosity: 'concise', tone: 'friendly', formality: 'casual' }
+      }),
+      generateResponse: vi.fn(async () => ({ content: 'Thanks for the shout-out!', confidence, requires_approval: false }))
+    };
+  }
+
+  function memories(...entries: Array<{ tags: string[]; platform?: string; content?: unknown }>): MemorySystem {
+    const stored: Memory[] = entries.map((entry, index) => ({
+      id: `memory_${index}`,
+      type: MemoryType.EPISODIC,
+      content: entry.content ?? {},
+      timestamp: Date.now() - index * 1000,
+      importance: 0.8,
+      tags: entry.tags,
+      metadata: { platform: entry.platform }
+    }));
+    return { retrieve: async () => stored } as unknown as MemorySystem;
+  }
+
+  function engine(
+    module: ReturnType<typeof personality>,
+    memory: MemorySystem,
+    options: ConstructorParameters<typeof ReasoningEngine>[2] = {}
+  ): ReasoningEngine {
+    return new ReasoningEngine(module as unknown as PersonalityModule, memory, { offline: true, ...options });
+  }
+
+  function event(type: EventType, sourceType: 'user' | 'bot' = 'user'): PlatformEvent {
+    return {
+      id: 'event_1',
+      platform: 'twitter',
+      type,
+      data: { content: '@agent great thread on Sei', author: { id: 'u42', username: 'ada' } },
+      timestamp: Date.now(),
+      metadata: {},
+      source: { id: 'u42', type: sourceType, platform: 'twitter' }
+    };
+  }
+
+  test('replies to mentions, with more confidence after good exchanges with the author', async () => {
+    const withHistory = engine(personality(0.6), memories(
+      { tags: ['twitter', 'outcome', 'success'], content: { author: 'u42' } },
+      { tags: ['twitter', 'outcome', 'success'], content: { author: 'u42' } }
+    ));
+
+    const reply = await withHistory.processEvent(event(EventType.MENTION));
+
+    expect(reply).toEqual(expect.objectContaining({
+      type: ResponseType.REPLY,
+      platform: 'twitter',
+      public: true,
+      reasoning: 'Rule-based reply to mention with 2/2 prior successes'
+    }));
+    expect(reply!.content).toEqual(expect.objectContaining({ text: 'Thanks for the shout-out!', replyTo: 'event_1', mentions: ['ada'] }));
+    expect(reply!.confidence).toBeCloseTo(0.8);
+  });
+
+  test('ignores bots, non-conversational events and replies it is unsure of', async () => {
+    const memory = memories();
+
+    expect(await engine(personality(0.6), memory).processEvent(event(EventType.MENTION, 'bot'))).toBeNull();
+    expect(await engine(personality(0.6), memory).processEvent(event(EventType.REACTION))).toBeNull();
+    expect(await engine(personality(0.6, 0.2), memory).processEvent(event(EventType.MENTION))).toBeNull();
+  });
+
+  test('a reserved personality lets mentions pass but still answers direct messages', async () => {
+    const reserved = engine(personality(0.2), memories());
+
+    expect(await reserved.processEvent(event(EventType.MENTION))).toBeNull();
+    expect(await reserved.processEvent(event(EventType.MESSAGE_RECEIVED)))
+      .toEqual(expect.objectContaining({ public: false, urgency: 'medium' }));
+  });
+
+  test('plans monetized posts about recent topics on the busiest platform, once per interval', async () => {
+    const planner = engine(personality(0.5), memories(
+      { tags: ['discord', 'defi'], platform: 'discord' },
+      { tags: ['discord', 'defi', 'staking'], platform: 'discord' },
+      { tags: ['twitter', 'defi'], platform: 'twitter' }
+    ), { platforms: ['twitter', 'discord'], contentPrice: 0.25 });
+
+    const [post] = await planner.generateDecisions();
+
+    expect(post).toEqual(expect.objectContaining({
+      type: DecisionType.CONTENT_CREATION,
+      platform: 'discord',
+      monetize: true,
+      price: 0.25,
+      risk_level: RiskLevel.MEDIUM
+    }));
+    expect(post.description).toContain('about defi, staking');
+    expect(await planner.generateDecisions()).toEqual([]);
+  });
+
+  test('proposes lowering assertiveness after mostly failed interactions, once', async () => {
+    const outcomes = memories(
+      { tags: ['outcome', 'failure'] },
+      { tags: ['outcome', 'failure'] },
+      { tags: ['outcome', 'failure'] },
+      { tags: ['outcome', 'success'] },
+      { tags: ['outcome', 'success'] }
+    );
+    const learner = engine(personality(0.5), outcomes);
+
+    const [adaptation] = await learner.generateDecisions();
+
+    expect(adaptation).toEqual(expect.objectContaining({
+      type: DecisionType.LEARNING_ADAPTATION,
+      feedback: expect.objectContaining({ aspect: 'assertiveness', direction: 'decrease', intensity: 0.6 })
+    }));
+    expect(await learner.generateDecisions()).toEqual([]);
+  });
+});
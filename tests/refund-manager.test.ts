@@ -0,0 +1,185 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { describe, test, expect, vi, beforeEach, afterEach, Mock } from 'vitest';
+import { RefundManager } from '../src/payments/refund-manager';
+import { SplitTransfer, SplitTransferResult } from '../src/payments/revenue-splitter';
+import { PaymentSystem } from '../src/payments/x402-integration';
+
+/**
+ * Refunds never exceed what was paid, stay inside the refund window, and
+ * only count once the transfer back to the payer has gone through.
+ */
+describe('RefundManager', () => {
+  const payer = ethers.Wallet.createRandom().address;
+  let dataDir: string;
+  let executor: { sendBatch: Mock<[SplitTransfer[]], Promise<SplitTransferResult[]>> };
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'refund-test-'));
+    executor = {
+      sendBatch: vi.fn(async (transfers: SplitTransfer[]): Promise<SplitTransferResult[]> =>
+        transfers.map(transfer => ({ recipient: transfer.recipient, success: true, transactionHash: `0x${'2'.repeat(64)}` }))
+      )
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  async function createManager(timestamp: number = Date.now()): Promise<RefundManager> {
+    const refunds = new RefundManager({ executor, dataDir, refundWindowDays: 7 });
+    await refunds.recordPayment({ transactionHash: '0xpaid', serviceId: 'analysis', payer, amount: 1, timestamp });
+    return refunds;
+  }
+
+  test('partial refunds add up to no more than the payment', async () => {
+    const refunds = await createManager();
+
+    await refunds.refund('0xpaid', { amount: 0.3, reason: 'unsatisfactory' });
+    await refunds.refund('0xpaid', { amount: 0.4, reason: 'unsatisfactory' });
+
+    await expect(refunds.refund('0xpaid', { amount: 0.31, reason: 'other' }))
+      .rejects.toThrow('Refund exceeds the 0.3 SEI still refundable on 0xpaid');
+
+    const rest = await refunds.refund('0xpaid', { reason: 'service_failed' });
+    expect(rest.amount).toBe(0.3);
+    await expect(refunds.refund('0xpaid', { reason: 'other' })).rejects.toThrow('Nothing left to refund');
+
+    // Everything refunded adds up to the payment to the wei
+    const sent = executor.sendBatch.mock.calls.map(([transfers]) => transfers[0].amount as bigint);
+    expect(sent.reduce((sum, amount) => sum + amount, 0n)).toBe(ethers.parseEther('1'));
+    expect(await refunds.getRefunds('0xpaid')).toHaveLength(3);
+  });
+
+  test('refunded amounts are remembered across restarts', async () => {
+    const first = await createManager();
+    await first.refund('0xpaid', { amount: 0.75, reason: 'not_delivered' });
+
+    const restarted = new RefundManager({ executor, dataDir, refundWindowDays: 7 });
+    await expect(restarted.refund('0xpaid', { amount: 0.5, reason: 'other' }))
+      .rejects.toThrow('Refund exceeds the 0.25 SEI still refundable');
+  });
+
+  test('payments outside the refund window cannot be refunded', async () => {
+    const refunds = await createManager(Date.now() - 8 * 24 * 60 * 60 * 1000);
+
+    await expect(refunds.refund('0xpaid', { reason: 'other' })).rejects.toThrow('outside the refund window');
+    expect(executor.sendBatch).not.toHaveBeenCalled();
+  });
+
+  test('unknown payments cannot be refunded', async () => {
+    const refunds = await createManager();
+
+    await expect(refunds.refund('0xunknown', { reason: 'other' })).rejects.toThrow('No payment 0xunknown to refund');
+  });
+
+  test('one refund of a payment at a time', async () => {
+    const refunds = await createManager();
+
+    const results = await Promise.allSettled([
+      refunds.refund('0xpaid', { amount: 0.5, reason: 'duplicate_payment' }),
+      refunds.refund('0xpaid', { amount: 0.5, reason: 'duplicate_payment' })
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason.message).toMatch(/already in progress/);
+  });
+
+  test('a failed transfer does not count against the payment', async () => {
+    const refunds = await createManager();
+    executor.sendBatch.mockResolvedValueOnce([{ recipient: payer, success: false, error: 'out of gas' }]);
+
+    await expect(refunds.refund('0xpaid', { reason: 'service_failed' })).rejects.toThrow('Refund transfer failed: out of gas');
+
+    const refund = await refunds.refund('0xpaid', { reason: 'service_failed' });
+    expect(refund.amount).toBe(1);
+  });
+
+  test('resolving a dispute with a refund logs each step', async () => {
+    const refunds = await createManager();
+    const dispute = await refunds.openDispute('0xpaid', payer, 'Never delivered');
+    await expect(refunds.openDispute('0xpaid', payer, 'Again')).rejects.toThrow('already has open dispute');
+
+    const resolved = await refunds.resolveDispute(dispute.id, { refund: true, amount: 0.5, note: 'Half back' }, 'owner');
+
+    expect(resolved.status).toBe('refunded');
+    expect((await refunds.getDisputeLog('0xpaid')).map(event => event.type)).toEqual(['opened', 'refunded']);
+  });
+
+  function createSplitPayments() {
+    const agent = ethers.Wallet.createRandom().address;
+    const creator = ethers.Wallet.createRandom().address;
+    const payments = new PaymentSystem({
+      models: [{
+        type: 'service',
+        rate: 1,
+        currency: 'SEI',
+        billingCycle: 'per_use',
+        description: 'Answers',
+        splits: [{ recipient: creator, share: 70, label: 'creator' }, { recipient: agent, share: 30, label: 'agent' }]
+      }],
+      paymentMethods: ['x402'],
+      withdrawalRules: { minimumBalance: 0, frequency: 'daily', destinationAddress: agent, autoWithdraw: false, gasBuffer: 0 },
+      withdrawals: { dataDir },
+      splits: { executor, batchIntervalMs: 60 * 60 * 1000 },
+      refunds: { executor, dataDir, refundWindowDays: 7 }
+    }, agent);
+
+    const pay = async () => {
+      const result = await payments.acceptPayment({
+        x402Version: 1,
+        scheme: 'exact',
+        network: 'sei-pacific',
+        payload: { amount: '1', from: payer, serviceId: 'service_service' }
+      });
+      // Recorded for refunds in the background
+      await vi.waitFor(() => expect(fs.readFileSync(path.join(dataDir, 'refunds.json'), 'utf8')).toContain(result.transactionHash));
+      return result.transactionHash!;
+    };
+    const refund = (transactionHash: string) => payments.refundFailedService(transactionHash, new Error('500'));
+    const creatorEarnings = async () => (await payments.getEarningsReport()).recipients!.find(r => r.recipient === creator)!;
+    const paidTo = (recipient: string) => executor.sendBatch.mock.calls
+      .flatMap(([transfers]) => transfers)
+      .filter(transfer => transfer.recipient === recipient)
+      .map(transfer => transfer.amount);
+
+    return { payments, creator, pay, refund, creatorEarnings, paidTo };
+  }
+
+  test('refunding a split payment takes back the shares not yet paid out', async () => {
+    const { payments, creator, pay, refund, creatorEarnings, paidTo } = createSplitPayments();
+    const reversed = vi.fn();
+    payments.on('revenue_split_reversed', reversed);
+
+    const transactionHash = await pay();
+    await refund(transactionHash);
+
+    expect(reversed).toHaveBeenCalledWith(expect.objectContaining({
+      transactionHash,
+      allocations: expect.arrayContaining([expect.objectContaining({ recipient: creator, amount: 0.7 })])
+    }));
+    expect(await creatorEarnings()).toEqual(expect.objectContaining({ allocated: 0, pending: 0 }));
+    expect(await payments.flushSplits()).toEqual([]);
+    expect(paidTo(payer)).toEqual([ethers.parseEther('1')]);
+  });
+
+  test('a share already paid out is held back from the next payouts', async () => {
+    const { payments, creator, pay, refund, creatorEarnings, paidTo } = createSplitPayments();
+
+    const transactionHash = await pay();
+    await payments.flushSplits();
+    await refund(transactionHash);
+
+    // The next payment's share only covers what the creator was overpaid
+    await pay();
+    expect(await payments.flushSplits()).toEqual([]);
+    expect(await creatorEarnings()).toEqual(expect.objectContaining({ allocated: 0.7, paid: 0.7, pending: 0 }));
+
+    await pay();
+    await payments.flushSplits();
+    expect(paidTo(creator)).toEqual([ethers.parseEther('0.7'), ethers.parseEther('0.7')]);
+  });
+});
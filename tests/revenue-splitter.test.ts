@@ -0,0 +1,93 @@
+import { ethers } from 'ethers';
+import { describe, test, expect, vi, beforeEach, afterEach, Mock } from 'vitest';
+import { RevenueSplitter, SplitTransfer, SplitTransferResult, validateSplitRules } from '../src/payments/revenue-splitter';
+
+/**
+ * Revenue splits are worked out in wei, shares owed to others are paid in
+ * one batch, the agent's own share is kept, and failed payouts stay owed.
+ */
+describe('RevenueSplitter', () => {
+  const agent = ethers.Wallet.createRandom().address;
+  const creator = ethers.Wallet.createRandom().address;
+  const treasury = ethers.Wallet.createRandom().address;
+  let executor: { sendBatch: Mock<[SplitTransfer[]], Promise<SplitTransferResult[]>> };
+  let splitter: RevenueSplitter;
+
+  beforeEach(() => {
+    executor = {
+      sendBatch: vi.fn(async (transfers: SplitTransfer[]): Promise<SplitTransferResult[]> =>
+        transfers.map(transfer => ({ recipient: transfer.recipient, success: true, transactionHash: `0x${'4'.repeat(64)}` }))
+      )
+    };
+  });
+
+  afterEach(() => {
+    splitter?.stop();
+  });
+
+  const rules = [
+    { recipient: creator, share: 50, label: 'creator' },
+    { recipient: treasury, share: 30, label: 'treasury' },
+    { recipient: agent, share: 20, label: 'agent' }
+  ];
+
+  test('splits a payment to the wei', () => {
+    splitter = new RevenueSplitter(agent, { executor });
+
+    const allocations = splitter.allocate(0.3, rules);
+
+    expect(allocations.map(allocation => [allocation.label, allocation.amount, allocation.retained])).toEqual([
+      ['creator', 0.15, false],
+      ['treasury', 0.09, false],
+      ['agent', 0.06, true]
+    ]);
+    expect(splitter.getAllocatedToOthers()).toBe(0.24);
+  });
+
+  test('pays the shares owed to others in one batch and keeps its own', async () => {
+    splitter = new RevenueSplitter(agent, { executor });
+    splitter.allocate(0.3, rules);
+    splitter.allocate(0.1, rules);
+
+    await splitter.flush();
+
+    expect(executor.sendBatch).toHaveBeenCalledTimes(1);
+    expect(executor.sendBatch.mock.calls[0][0]).toEqual([
+      { recipient: creator, amount: ethers.parseEther('0.2') },
+      { recipient: treasury, amount: ethers.parseEther('0.12') }
+    ]);
+    expect(splitter.getPendingPayouts()).toBe(0);
+  });
+
+  test('shares below the minimum payout wait for the next batch', async () => {
+    splitter = new RevenueSplitter(agent, { executor, minimumPayout: 0.15 });
+    splitter.allocate(0.3, rules);
+
+    await splitter.flush();
+
+    // Exactly the minimum is paid; the treasury's 0.09 waits
+    expect(executor.sendBatch.mock.calls[0][0]).toEqual([{ recipient: creator, amount: ethers.parseEther('0.15') }]);
+    expect(splitter.getPendingPayouts()).toBe(0.09);
+  });
+
+  test('a failed payout stays owed and is retried', async () => {
+    splitter = new RevenueSplitter(agent, { executor });
+    splitter.allocate(1, rules);
+    executor.sendBatch.mockImplementationOnce(async transfers =>
+      transfers.map(transfer => ({ recipient: transfer.recipient, success: transfer.recipient !== treasury, error: 'reverted' }))
+    );
+
+    await splitter.flush();
+    expect(splitter.getPendingPayouts()).toBe(0.3);
+
+    await splitter.flush();
+    expect(executor.sendBatch.mock.calls[1][0]).toEqual([{ recipient: treasury, amount: ethers.parseEther('0.3') }]);
+    expect(splitter.getPendingPayouts()).toBe(0);
+  });
+
+  test('rules must name valid recipients and total 100%', () => {
+    expect(() => validateSplitRules([])).toThrow('at least one recipient');
+    expect(() => validateSplitRules([{ recipient: 'nobody', share: 100 }])).toThrow('Invalid split recipient');
+    expect(() => validateSplitRules([{ recipient: creator, share: 60 }])).toThrow('must total 100%');
+  });
+});
@@ -0,0 +1,98 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { DeFiAgent } from '../src/core/defi-agent';
+
+/**
+ * The full agent loop replayed offline: the sample feed runs through
+ * evaluation, dedupe, budgets, payment and escrow against the simulated
+ * chain and facilitator, and always ends in the same place.
+ */
+describe('Simulation run', () => {
+  const feed = path.join(__dirname, '..', 'scripts', 'fixtures', 'sample-feed.jsonl');
+  let dataDir: string;
+  let agent: DeFiAgent;
+
+  beforeAll(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'simulation-test-'));
+    agent = new DeFiAgent({
+      treasury: {
+        initialBalance: 100,
+        targetAPY: 15,
+        riskTolerance: 'moderate',
+        allocationStrategy: { tipping: 40, lending: 20, staking: 20, trading: 10, liquidity: 10 },
+        rebalancePeriod: 24
+      },
+      tipping: {
+        dailyBudget: 10,
+        minQualityScore: 70,
+        maxTipAmount: 1,
+        creatorCooldownMinutes: 60,
+        escrowExpiryHours: 168
+      },
+      investment: {
+        creatorTokensEnabled: false,
+        nftRewardsEnabled: false,
+        stakingEnabled: true,
+        minInvestmentScore: 55
+      },
+      platforms: ['twitter', 'discord'],
+      preferences: {
+        topics: ['sei', 'blockchain', 'web3', 'defi', 'ai'],
+        creators: [],
+        keywords: ['#sei', '#defi', '#web3']
+      },
+      dataDir,
+      simulation: {
+        feed,
+        initialBalance: 100,
+        genesisTime: 1717200000,
+        rpcPort: 18545,
+        facilitatorPort: 13402
+      }
+    });
+
+    await agent.initialize();
+    const finished = new Promise(resolve => agent.getSimulation()!.platform.once('feedExhausted', resolve));
+    await agent.startMonitoring();
+    await finished;
+  }, 60000);
+
+  afterAll(async () => {
+    await agent?.shutdown();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test('tips the qualifying posts once each', () => {
+    const history = agent.getInvestmentHistory({ limit: 500, offset: 0 });
+
+    expect(history.total).toBe(4);
+    expect(history.items.map(inv => `${inv.platform}/${inv.creator}`).sort()).toEqual([
+      'discord/erin_research',
+      'twitter/alice_creator',
+      'twitter/bob_builder',
+      'twitter/carol_dev'
+    ]);
+    expect(history.items.every(inv => inv.investmentType === 'tip' && inv.amount <= 1)).toBe(true);
+  });
+
+  test('spends within the daily budget and accounts for every SEI', async () => {
+    const analytics = await agent.getAnalytics();
+    const simulation = agent.getSimulation()!;
+
+    expect(analytics.investments.totalAmount).toBeCloseTo(3.505, 6);
+    expect(analytics.investments.totalAmount).toBeLessThanOrEqual(10);
+    expect(simulation.chain.getBalance(simulation.walletAddress)).toBeCloseTo(67.4949, 4);
+  });
+
+  test('escrows the tip for the creator without a wallet and replies to each post', async () => {
+    const analytics = await agent.getAnalytics();
+    const simulation = agent.getSimulation()!;
+
+    expect(analytics.escrow.held).toBe(1);
+    expect(analytics.escrow.heldAmount).toBeCloseTo(1);
+    expect(simulation.platform.getReplies()).toHaveLength(4);
+    expect(simulation.chain.getTransactions()).toHaveLength(5);
+  });
+});
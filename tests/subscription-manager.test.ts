@@ -0,0 +1,117 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { describe, test, expect, vi, beforeEach, afterEach, Mock } from 'vitest';
+import { SubscriptionManager, SubscriptionPayer, X402SubscriptionPayer } from '../src/payments/subscription-manager';
+import { X402Client } from '../src/payments/x402-client';
+import type { PaymentPayload, PaymentResult } from '../src/payments/x402-integration';
+
+/**
+ * Subscriptions charge the exact price up front and each period, fall into a
+ * grace period when a renewal fails, and expire or end when they should.
+ */
+describe('SubscriptionManager', () => {
+  const HOUR = 60 * 60 * 1000;
+  const payee = ethers.Wallet.createRandom().address;
+  const subscriber = ethers.Wallet.createRandom().address;
+  let dataDir: string;
+  let payer: SubscriptionPayer & { paymentFailed: Mock };
+  let charge: Mock<[unknown, PaymentPayload, bigint], Promise<PaymentResult>>;
+  let manager: SubscriptionManager;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'subscription-test-'));
+    payer = {
+      getAddress: () => subscriber,
+      createSubscriptionPayment: async (subscriptionId: string) =>
+        ({ x402Version: 1, scheme: 'exact', network: 'sei-arctic', payload: { subscriptionId } }),
+      paymentFailed: vi.fn()
+    };
+    charge = vi.fn(async (_subscription: unknown, _payload: PaymentPayload, _amount: bigint): Promise<PaymentResult> =>
+      ({ success: true, transactionHash: `0x${'6'.repeat(64)}` }));
+    manager = new SubscriptionManager(payee, charge, { dataDir, gracePeriodHours: 72, retryIntervalHours: 24 });
+  });
+
+  afterEach(() => {
+    manager.stop();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test('charges exactly the price for the first period', async () => {
+    const subscription = await manager.subscribe('premium', 0.3, 'daily', payer);
+
+    expect(charge.mock.calls[0][2]).toBe(ethers.parseEther('0.3'));
+    expect(subscription.status).toBe('active');
+    expect(subscription.currentPeriodEnd - subscription.currentPeriodStart).toBe(24 * HOUR);
+    expect(await manager.isEntitled('premium', subscriber)).toBe(true);
+  });
+
+  test('no subscription is created when the first payment fails', async () => {
+    charge.mockResolvedValueOnce({ success: false, error: 'insufficient funds' });
+
+    await expect(manager.subscribe('premium', 0.3, 'daily', payer)).rejects.toThrow('insufficient funds');
+    expect(payer.paymentFailed).toHaveBeenCalledTimes(1);
+    expect(await manager.getSubscriptions()).toHaveLength(0);
+  });
+
+  test('a failed renewal keeps access through the grace period and recovers on retry', async () => {
+    const subscription = await manager.subscribe('premium', 0.3, 'daily', payer);
+    const periodEnd = subscription.currentPeriodEnd;
+
+    charge.mockResolvedValueOnce({ success: false, error: 'insufficient funds' });
+    await manager.processDue(periodEnd);
+
+    const pastDue = (await manager.getSubscription(subscription.id))!;
+    expect(pastDue.status).toBe('past_due');
+    expect(pastDue.graceUntil).toBe(periodEnd + 72 * HOUR);
+    expect(await manager.isEntitled('premium', subscriber, periodEnd + HOUR)).toBe(true);
+
+    // Not retried before the retry interval
+    await manager.processDue(periodEnd + HOUR);
+    expect(charge).toHaveBeenCalledTimes(2);
+
+    await manager.processDue(periodEnd + 24 * HOUR);
+    const renewed = (await manager.getSubscription(subscription.id))!;
+    expect(renewed.status).toBe('active');
+    expect(renewed.currentPeriodStart).toBe(periodEnd);
+    expect(charge.mock.calls.map(([, , amount]) => amount)).toEqual(Array(3).fill(ethers.parseEther('0.3')));
+  });
+
+  test('expires once the grace period runs out', async () => {
+    const subscription = await manager.subscribe('premium', 0.3, 'daily', payer);
+    charge.mockResolvedValue({ success: false, error: 'insufficient funds' });
+
+    await manager.processDue(subscription.currentPeriodEnd);
+    await manager.processDue(subscription.currentPeriodEnd + 72 * HOUR);
+
+    expect((await manager.getSubscription(subscription.id))!.status).toBe('expired');
+    expect(await manager.isEntitled('premium', subscriber, subscription.currentPeriodEnd + 72 * HOUR)).toBe(false);
+  });
+
+  test('cancelling ends the subscription at the end of the paid period', async () => {
+    const subscription = await manager.subscribe('premium', 0.3, 'daily', payer);
+
+    await manager.cancel(subscription.id);
+    expect(await manager.isEntitled('premium', subscriber)).toBe(true);
+
+    await manager.processDue(subscription.currentPeriodEnd);
+    expect((await manager.getSubscription(subscription.id))!.status).toBe('cancelled');
+    expect(charge).toHaveBeenCalledTimes(1);
+  });
+
+  test('the x402 payer signs the exact wei of each charge', async () => {
+    const client = {
+      getWalletAddress: () => subscriber,
+      createPaymentPayload: vi.fn(async () => ({})),
+      releasePaymentPayload: vi.fn()
+    };
+    const x402Payer = new X402SubscriptionPayer(client as unknown as X402Client);
+
+    await x402Payer.createSubscriptionPayment('sub_1', payee, ethers.parseEther('0.3'));
+
+    expect(client.createPaymentPayload).toHaveBeenCalledWith(
+      expect.objectContaining({ recipient: payee, amountWei: ethers.parseEther('0.3').toString() })
+    );
+  });
+});
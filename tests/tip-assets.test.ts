@@ -0,0 +1,85 @@
+import { ethers } from 'ethers';
+import { describe, test, expect, vi } from 'vitest';
+import { TipAssets, formatAmount, toWei } from '../src/payments/tip-assets';
+import { PriceOracle, StaticPriceSource } from '../src/blockchain/price-oracle';
+import { SeiDeFiService } from '../src/blockchain/sei-defi-service';
+
+/**
+ * Multi-asset tips: amounts convert to base units without float error,
+ * assets are valued through the price oracle, and a token shortfall is
+ * covered by swapping SEI before the tip goes out.
+ */
+describe('TipAssets', () => {
+  const usdc = ethers.Wallet.createRandom().address;
+
+  function createAssets(held: number = 0) {
+    const balances = new Map<string, number>([[usdc.toLowerCase(), held]]);
+    const defi = {
+      getTokenBalance: vi.fn(async (address: string) => ({
+        symbol: 'USDC',
+        balance: String(balances.get(address.toLowerCase()) ?? 0),
+        decimals: 6,
+        address
+      })),
+      swapTokens: vi.fn(async (params: { tokenOut: string; amountIn: string }) => {
+        // SEI at $0.50 buys half a USDC
+        const key = params.tokenOut.toLowerCase();
+        balances.set(key, (balances.get(key) ?? 0) + parseFloat(params.amountIn) * 0.5);
+      }),
+      transferToken: vi.fn(async () => ({ hash: '0xabc' }))
+    };
+    const oracle = new PriceOracle({ sources: [new StaticPriceSource({ SEI: 0.5, USDC: 1 })] });
+    const assets = new TipAssets(defi as unknown as SeiDeFiService, oracle, {
+      tokens: [{ symbol: 'usdc', address: usdc }],
+      swapSlippage: 1
+    });
+    return { assets, defi };
+  }
+
+  test('amounts convert to base units exactly', () => {
+    expect(toWei(0.1)).toBe(ethers.parseEther('0.1'));
+    expect(toWei(0.3)).toBe(ethers.parseEther('0.3'));
+    expect(toWei(1e-7)).toBe(ethers.parseEther('0.0000001'));
+    expect(toWei(1.2345678, 6)).toBe(1234567n);
+    expect(formatAmount(0.1 + 0.2, 18)).toBe('0.30000000000000004');
+    expect(formatAmount(2.5e-8, 6)).toBe('0');
+  });
+
+  test('assets are found by symbol or address', () => {
+    const { assets } = createAssets();
+
+    expect(assets.get('USDC').address).toBe(usdc);
+    expect(assets.get(usdc.toLowerCase()).symbol).toBe('USDC');
+    expect(assets.isNative('sei')).toBe(true);
+    expect(() => assets.get('DOGE')).toThrow('Unknown tip asset DOGE');
+  });
+
+  test('values assets in USD and SEI through the oracle', async () => {
+    const { assets } = createAssets();
+
+    expect(await assets.toUsd('USDC', 3)).toBe(3);
+    expect(await assets.toSei('USDC', 3)).toBe(6);
+    expect(await assets.fromSei('USDC', 6)).toBe(3);
+    expect(await assets.toSei('SEI', 2)).toBe(2);
+  });
+
+  test('rounds amounts down to the token decimals', async () => {
+    const { assets } = createAssets();
+
+    expect(await assets.roundAmount('USDC', 1.23456789)).toBe(1.234567);
+    expect(await assets.roundAmount('SEI', 0.3)).toBe(0.3);
+  });
+
+  test('swaps SEI for a token shortfall before tipping', async () => {
+    const { assets, defi } = createAssets(1);
+
+    const swapped = await assets.ensureBalance('USDC', 3);
+
+    expect(swapped).toBeCloseTo(4 * 1.01);
+    expect(defi.swapTokens).toHaveBeenCalledWith(expect.objectContaining({ tokenIn: 'SEI', tokenOut: usdc }));
+    expect(await assets.ensureBalance('USDC', 3)).toBe(0);
+
+    await assets.transfer('USDC', usdc, 1.5);
+    expect(defi.transferToken).toHaveBeenCalledWith(usdc, usdc, '1.5');
+  });
+});
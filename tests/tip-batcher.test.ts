@@ -0,0 +1,169 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  TipBatcher,
+  HubBatchSettler,
+  TipBatch,
+  TipBatchSettler,
+  TipBatchSettlement,
+  BatchedTip,
+  SignedTipBatch
+} from '../src/payments/tip-batcher';
+import { SimulatedChain } from '../src/simulation/simulated-chain';
+
+/**
+ * Batched tips go out in one transaction each batch. A batch that moved no
+ * funds is retried, one that may have been broadcast is only retried once
+ * the chain shows it can never be mined.
+ */
+describe('TipBatcher', () => {
+  const recipient = ethers.Wallet.createRandom().address;
+  let dataDir: string;
+  let outcomes: TipBatchSettlement['status'][];
+  let onChain: Map<string, TipBatchSettlement['status']>;
+  let settler: TipBatchSettler & { sent: BatchedTip[][] };
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tip-batcher-test-'));
+    outcomes = [];
+    onChain = new Map();
+    let nonce = 0;
+    settler = {
+      sent: [],
+      async settle(tips: BatchedTip[], signed: (transaction: SignedTipBatch) => Promise<void>) {
+        const transactionHash = ethers.id(`batch-${nonce}`);
+        await signed({ transactionHash, nonce: nonce++ });
+        settler.sent.push(tips);
+        const status = outcomes.shift() ?? 'confirmed';
+        return { transactionHash, status };
+      },
+      async reconcile(batch: TipBatch) {
+        return { transactionHash: batch.transactionHash, status: onChain.get(batch.transactionHash!) ?? 'unconfirmed' };
+      }
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  async function createBatcher(): Promise<TipBatcher> {
+    const batcher = new TipBatcher({ settler, dataDir, maxBatchSize: 10 });
+    await batcher.initialize();
+    batcher.stop();
+    return batcher;
+  }
+
+  function tip(contentId: string, amount: number = 0.1) {
+    return { recipient, amount, contentId, qualityScore: 80 };
+  }
+
+  test('settles queued tips in one batch with a receipt each', async () => {
+    const batcher = await createBatcher();
+    await batcher.enqueue(tip('post-1'));
+    await batcher.enqueue(tip('post-2', 0.2));
+
+    const batch = await batcher.flush();
+
+    expect(batch?.status).toBe('settled');
+    expect(settler.sent).toHaveLength(1);
+    expect(batcher.getPending()).toHaveLength(0);
+    const receipts = await batcher.getReceipts(batch!.id);
+    expect(receipts.map(receipt => [receipt.contentId, receipt.index])).toEqual([['post-1', 0], ['post-2', 1]]);
+  });
+
+  test('tips of a batch that was never sent go back on the queue', async () => {
+    const batcher = await createBatcher();
+    await batcher.enqueue(tip('post-1'));
+    outcomes.push('unsent');
+
+    expect(await batcher.flush()).toBeNull();
+    expect(batcher.getPending().map(pending => pending.contentId)).toEqual(['post-1']);
+    expect(batcher.getBatches()).toHaveLength(0);
+  });
+
+  test('an unconfirmed batch is not resent until the chain shows it was replaced', async () => {
+    const batcher = await createBatcher();
+    await batcher.enqueue(tip('post-1'));
+    outcomes.push('unconfirmed');
+
+    const batch = await batcher.flush();
+    expect(batch?.status).toBe('unconfirmed');
+    expect(await batcher.getReceipts()).toHaveLength(0);
+
+    // Still pending on chain: nothing is queued again
+    await batcher.reconcile();
+    expect(batcher.getPending()).toHaveLength(0);
+
+    onChain.set(batch!.transactionHash!, 'unsent');
+    await batcher.reconcile();
+    expect(batcher.getPending().map(pending => pending.contentId)).toEqual(['post-1']);
+
+    expect((await batcher.flush())?.status).toBe('settled');
+    expect(settler.sent).toHaveLength(2);
+  });
+
+  test('an unconfirmed batch that was mined is settled without paying again', async () => {
+    const batcher = await createBatcher();
+    await batcher.enqueue(tip('post-1'));
+    outcomes.push('unconfirmed');
+    const batch = await batcher.flush();
+
+    onChain.set(batch!.transactionHash!, 'confirmed');
+    await batcher.reconcile();
+
+    expect(batcher.getBatches()[0].status).toBe('settled');
+    expect(batcher.getPending()).toHaveLength(0);
+    expect((await batcher.getReceipts())[0].transactionHash).toBe(batch!.transactionHash);
+    expect(settler.sent).toHaveLength(1);
+  });
+
+  test('a batch interrupted after signing is found by its hash on restart', async () => {
+    const first = await createBatcher();
+    await first.enqueue(tip('post-1'));
+    // Stop the agent mid-broadcast: the hash was recorded, the result never arrived
+    const settle = settler.settle;
+    settler.settle = (tips, signed) => settle(tips, signed).then(() => new Promise<never>(() => {}));
+    void first.flush();
+    await vi.waitFor(() => expect(settler.sent).toHaveLength(1));
+    settler.settle = settle;
+
+    const [interrupted] = JSON.parse(fs.readFileSync(path.join(dataDir, 'tip-batches.json'), 'utf8')).batches;
+    onChain.set(interrupted.transactionHash, 'confirmed');
+    const restarted = await createBatcher();
+
+    expect(restarted.getBatches()[0].status).toBe('settled');
+    expect(restarted.getPending()).toHaveLength(0);
+    expect(settler.sent).toHaveLength(1);
+  });
+
+  test('the hub settler reconciles a batch by its receipt or its nonce', async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const chain = new SimulatedChain({ chainId: 713715 });
+    chain.fund(wallet.address, 10);
+    const rpcUrl = await chain.listen(0);
+    try {
+      const hub = new HubBatchSettler(wallet.privateKey, rpcUrl, ethers.Wallet.createRandom().address);
+      const batch = (transactionHash: string): TipBatch => ({
+        id: 'batch_1', transactionHash, nonce: 0, status: 'unconfirmed', total: 0.1, tips: [], createdAt: Date.now()
+      });
+
+      // Nonce 0 not used yet: the batch may still be mined
+      expect((await hub.reconcile(batch(ethers.id('lost')))).status).toBe('unconfirmed');
+
+      const provider = new ethers.JsonRpcProvider(rpcUrl);
+      const sent = await wallet.connect(provider).sendTransaction({ to: recipient, value: 1n, nonce: 0 });
+      await sent.wait();
+
+      expect((await hub.reconcile(batch(sent.hash))).status).toBe('confirmed');
+      // Another transaction took nonce 0, so this batch can never be mined
+      expect((await hub.reconcile(batch(ethers.id('lost')))).status).toBe('unsent');
+      provider.destroy();
+    } finally {
+      await chain.close();
+    }
+  });
+});
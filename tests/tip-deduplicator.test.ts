@@ -0,0 +1,103 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { TipDeduplicator } from '../src/storage/tip-deduplicator';
+
+/**
+ * Tip deduplication: one claim per platform + content + creator, across
+ * concurrent deliveries and restarts, released only when nothing was paid,
+ * plus the per-creator cooldown and the retention window.
+ */
+describe('TipDeduplicator', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tip-dedupe-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  async function createDeduplicator(creatorCooldownMinutes: number = 0): Promise<TipDeduplicator> {
+    const deduplicator = new TipDeduplicator({ dataDir, creatorCooldownMinutes });
+    await deduplicator.initialize();
+    return deduplicator;
+  }
+
+  test('only one of several concurrent deliveries claims a post', async () => {
+    const deduplicator = await createDeduplicator();
+
+    const claims = await Promise.all([
+      deduplicator.claim('twitter', 'post-1', 'alice'),
+      deduplicator.claim('twitter', 'post-1', 'alice'),
+      deduplicator.claim('twitter', 'post-1', 'alice')
+    ]);
+
+    expect(claims.filter(Boolean)).toHaveLength(1);
+    expect(deduplicator.getClaim('twitter', 'post-1', 'alice')?.status).toBe('pending');
+  });
+
+  test('claims survive a restart', async () => {
+    const first = await createDeduplicator();
+    expect(await first.claim('twitter', 'post-1', 'alice')).toBe(true);
+    await first.complete('twitter', 'post-1', 'alice', '0xabc');
+
+    const restarted = await createDeduplicator();
+    expect(await restarted.claim('twitter', 'post-1', 'alice')).toBe(false);
+    expect(restarted.check('twitter', 'post-1', 'alice')).toEqual({
+      allowed: false,
+      reason: 'Content already completed'
+    });
+  });
+
+  test('a failure after funds may have moved keeps its claim rather than risking a double payment', async () => {
+    const deduplicator = await createDeduplicator();
+    await deduplicator.claim('discord', 'msg-1', 'bob');
+    await deduplicator.fail('discord', 'msg-1', 'bob', '0xabc');
+
+    expect(await deduplicator.claim('discord', 'msg-1', 'bob')).toBe(false);
+    expect(deduplicator.getClaim('discord', 'msg-1', 'bob')).toEqual(
+      expect.objectContaining({ status: 'failed', transactionHash: '0xabc' })
+    );
+  });
+
+  test('a released claim lets the post be tipped again, across a restart', async () => {
+    const first = await createDeduplicator(60);
+    await first.claim('discord', 'msg-1', 'bob');
+    await first.release('discord', 'msg-1', 'bob');
+
+    const restarted = await createDeduplicator(60);
+    expect(restarted.getClaim('discord', 'msg-1', 'bob')).toBeUndefined();
+    // The released attempt does not put the creator in cooldown either
+    expect(await restarted.claim('discord', 'msg-1', 'bob')).toBe(true);
+  });
+
+  test('content older than the retention window is refused', async () => {
+    const deduplicator = new TipDeduplicator({ dataDir, creatorCooldownMinutes: 0, retentionDays: 7 });
+    await deduplicator.initialize();
+    const day = 24 * 60 * 60 * 1000;
+
+    expect(deduplicator.check('twitter', 'old-post', 'alice', new Date(Date.now() - 8 * day))).toEqual({
+      allowed: false,
+      reason: 'Content is older than the 7-day claim retention'
+    });
+    expect(await deduplicator.claim('twitter', 'old-post', 'alice', Date.now() - 8 * day)).toBe(false);
+    expect(await deduplicator.claim('twitter', 'new-post', 'alice', new Date(Date.now() - day))).toBe(true);
+  });
+
+  test('the creator cooldown blocks other posts by the same creator', async () => {
+    const deduplicator = await createDeduplicator(60);
+    expect(await deduplicator.claim('twitter', 'post-1', 'alice')).toBe(true);
+
+    expect(deduplicator.check('twitter', 'post-2', 'alice')).toEqual({
+      allowed: false,
+      reason: 'Creator is in cooldown'
+    });
+    expect(await deduplicator.claim('twitter', 'post-2', 'carol')).toBe(true);
+
+    deduplicator.setCreatorCooldown(0);
+    expect(await deduplicator.claim('twitter', 'post-2', 'alice')).toBe(true);
+  });
+});
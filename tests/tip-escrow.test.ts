@@ -0,0 +1,86 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { TipEscrow } from '../src/payments/tip-escrow';
+
+/**
+ * Escrowed tips are claimed as releasing before the payout goes out, so a
+ * record can only ever be released once and never refunded mid-payout.
+ */
+describe('TipEscrow', () => {
+  const wallet = '0x000000000000000000000000000000000000dEaD';
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tip-escrow-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  async function createEscrow(): Promise<TipEscrow> {
+    const escrow = new TipEscrow({ dataDir, expiryHours: 24, claimBaseUrl: 'http://localhost:3000/' });
+    await escrow.initialize();
+    return escrow;
+  }
+
+  function holdTip(escrow: TipEscrow, amount: number = 0.5) {
+    return escrow.hold({ platform: 'twitter', creatorId: 'alice', contentId: 'post-1', amount, currency: 'SEI' });
+  }
+
+  test('a held tip is released once', async () => {
+    const escrow = await createEscrow();
+    const record = await holdTip(escrow);
+
+    const starts = await Promise.all([
+      escrow.beginRelease(record.id, wallet),
+      escrow.beginRelease(record.id, wallet)
+    ]);
+    expect(starts.filter(Boolean)).toHaveLength(1);
+    expect(escrow.getHeld()).toHaveLength(0);
+    expect(escrow.getReleasing()).toHaveLength(1);
+
+    await escrow.markReleased(record.id, wallet, '0xabc');
+    expect(await escrow.beginRelease(record.id, wallet)).toBe(false);
+
+    const summary = escrow.getSummary();
+    expect(summary.released).toBe(1);
+    expect(summary.releasedAmount).toBeCloseTo(0.5);
+    expect(summary.releasing).toBe(0);
+  });
+
+  test('only releasing records can be marked released', async () => {
+    const escrow = await createEscrow();
+    const record = await holdTip(escrow);
+
+    await expect(escrow.markReleased(record.id, wallet, '0xabc')).rejects.toThrow();
+  });
+
+  test('a tip being released cannot be refunded', async () => {
+    const escrow = await createEscrow();
+    const record = await holdTip(escrow);
+    await escrow.beginRelease(record.id, wallet);
+
+    await expect(escrow.markRefunded(record.id)).rejects.toThrow();
+  });
+
+  test('an interrupted release stays releasing after a restart', async () => {
+    const first = await createEscrow();
+    const record = await holdTip(first, 1);
+    await first.beginRelease(record.id, wallet);
+
+    const restarted = await createEscrow();
+    expect(restarted.getHeld()).toHaveLength(0);
+    expect(restarted.getReleasing()).toEqual([
+      expect.objectContaining({ id: record.id, status: 'releasing', walletAddress: wallet })
+    ]);
+    expect(await restarted.beginRelease(record.id, wallet)).toBe(false);
+  });
+
+  test('claim links carry the platform and creator', async () => {
+    const escrow = await createEscrow();
+    expect(escrow.getClaimUrl('twitter', 'alice')).toBe('http://localhost:3000/claim?platform=twitter&userId=alice');
+  });
+});
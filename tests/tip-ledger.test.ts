@@ -0,0 +1,100 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TipLedger, utcDayKey } from '../src/storage/tip-ledger';
+import { InvestmentDecision } from '../src/core/defi-agent';
+
+/**
+ * Daily spend is bucketed by UTC day, derived from the decision log, and
+ * the midnight rollover reports the day that just closed.
+ */
+describe('TipLedger', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tip-ledger-test-'));
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  function tip(amount: number, timestamp: string, extra: Partial<InvestmentDecision> = {}): InvestmentDecision {
+    return {
+      contentId: `post-${timestamp}`,
+      platform: 'twitter',
+      creator: 'alice',
+      qualityScore: 80,
+      investmentType: 'tip',
+      amount,
+      expectedReturn: 0,
+      riskLevel: 'low',
+      reason: 'test',
+      timestamp: new Date(timestamp),
+      ...extra
+    };
+  }
+
+  test('utcDayKey uses the UTC calendar day regardless of offset', () => {
+    expect(utcDayKey(new Date('2024-06-02T01:30:00+02:00'))).toBe('2024-06-01');
+    expect(utcDayKey(new Date('2024-06-01T23:59:59Z'))).toBe('2024-06-01');
+    expect(utcDayKey(new Date('2024-06-02T00:00:00Z'))).toBe('2024-06-02');
+  });
+
+  test('spend either side of UTC midnight lands on separate days', async () => {
+    vi.setSystemTime(new Date('2024-06-01T23:30:00Z'));
+    const ledger = new TipLedger(dataDir);
+    await ledger.initialize();
+
+    await ledger.record(tip(1.5, '2024-06-01T23:45:00Z'));
+    await ledger.record(tip(0.25, '2024-06-02T01:15:00+02:00'));
+    await ledger.record(tip(2, '2024-06-02T00:05:00Z'));
+
+    expect(ledger.getDailySpent('2024-06-01')).toBeCloseTo(1.75);
+    expect(ledger.getDailySpent('2024-06-02')).toBeCloseTo(2);
+    expect(ledger.getDailySpent()).toBeCloseTo(1.75);
+  });
+
+  test('rollover reports the closed day and starts the next', async () => {
+    vi.setSystemTime(new Date('2024-06-01T22:00:00Z'));
+    const ledger = new TipLedger(dataDir);
+    await ledger.initialize();
+    await ledger.record(tip(1, '2024-06-01T22:00:00Z', { asset: 'SEI', usdValue: 0.5 }));
+    await ledger.record(tip(3, '2024-06-01T22:10:00Z', { asset: 'USDC', usdValue: 3 }));
+
+    const rolledOver = vi.fn();
+    ledger.on('rollover', rolledOver);
+    vi.setSystemTime(new Date('2024-06-02T00:00:00Z'));
+    const closed = ledger.rollover();
+
+    expect(closed.day).toBe('2024-06-01');
+    expect(closed.spent).toBeCloseTo(1);
+    expect(closed.spentUsd).toBeCloseTo(3.5);
+    expect(closed.count).toBe(2);
+    expect(closed.byAsset.USDC).toEqual({ amount: 3, usd: 3 });
+    expect(rolledOver).toHaveBeenCalledWith(closed);
+    expect(ledger.getDailySpent()).toBe(0);
+
+    // A second run on the same day closes the new, still empty day
+    expect(ledger.rollover().day).toBe('2024-06-02');
+  });
+
+  test('a restart rebuilds daily totals from the decision log', async () => {
+    vi.setSystemTime(new Date('2024-06-01T12:00:00Z'));
+    const first = new TipLedger(dataDir);
+    await first.initialize();
+    await first.record(tip(0.5, '2024-06-01T11:00:00Z'));
+    await first.record(tip(0.75, '2024-05-31T23:59:00Z'));
+
+    const restarted = new TipLedger(dataDir);
+    await restarted.initialize();
+
+    expect(restarted.getDailySpent()).toBeCloseTo(0.5);
+    expect(restarted.getDailySpent('2024-05-31')).toBeCloseTo(0.75);
+    expect(restarted.getHistory()).toHaveLength(2);
+    expect(restarted.getHistory()[0].timestamp).toBeInstanceOf(Date);
+  });
+});
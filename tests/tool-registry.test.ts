@@ -0,0 +1,133 @@
+import { describe, test, expect, vi, beforeEach, afterEach, Mock } from 'vitest';
+import { z } from 'zod';
+import { ToolRegistry, defineTool } from '../src/core/tool-registry';
+import { AutonomyController, AutonomyLevel, DecisionType, RiskLevel } from '../src/autonomy/autonomy-controller';
+import { PriceOracle, StaticPriceSource } from '../src/blockchain/price-oracle';
+import { SeiBlockchainService } from '../src/blockchain/sei-integration';
+import { SeiDeFiService } from '../src/blockchain/sei-defi-service';
+
+/**
+ * Tools load by toolset, describe themselves to the reasoning layer, and
+ * every call that is not read-only is valued in SEI and approved by the
+ * AutonomyController before it runs.
+ */
+describe('ToolRegistry', () => {
+  let autonomy: AutonomyController;
+  let blockchain: {
+    transferTokens: Mock<[string, number], Promise<unknown>>;
+    getBalance: Mock<[string | undefined], Promise<number>>;
+  };
+  let defi: { swapTokens: Mock<[unknown], Promise<unknown>> };
+  let registry: ToolRegistry;
+
+  beforeEach(() => {
+    autonomy = new AutonomyController(AutonomyLevel.AUTONOMOUS, {
+      dailyLimit: 10,
+      perTransactionLimit: 1,
+      platformLimits: {},
+      approvalRequiredAbove: 1,
+      currencyLimits: {}
+    });
+    blockchain = {
+      transferTokens: vi.fn(async (_recipient: string, _amount: number): Promise<unknown> =>
+        ({ success: true, transactionHash: `0x${'9'.repeat(64)}` })),
+      getBalance: vi.fn(async (_token: string | undefined) => 12.5)
+    };
+    defi = { swapTokens: vi.fn(async (_params: unknown): Promise<unknown> => ({ hash: `0x${'a'.repeat(64)}` })) };
+    registry = new ToolRegistry({
+      autonomy,
+      services: {
+        blockchain: blockchain as unknown as SeiBlockchainService,
+        defi: defi as unknown as SeiDeFiService,
+        priceOracle: new PriceOracle({ sources: [new StaticPriceSource({ SEI: 0.5, USDC: 1 })] })
+      }
+    });
+  });
+
+  afterEach(() => {
+    autonomy.shutdown();
+  });
+
+  test('loads toolsets and describes their tools', async () => {
+    expect(await registry.loadToolset('tipping')).toBe(2);
+    // Shared tools load once without conflict
+    expect(await registry.loadToolset('defi-protocols')).toBe(3);
+    expect(await registry.loadToolset('teleportation')).toBe(0);
+
+    expect(registry.getLoadedToolsets()).toEqual(['tipping', 'defi-protocols']);
+    expect(registry.listTools().find(tool => tool.name === 'tip')).toEqual({
+      name: 'tip',
+      description: 'Send a SEI tip to a creator wallet',
+      toolset: 'tipping',
+      decisionType: DecisionType.FINANCIAL_TRANSACTION,
+      riskLevel: RiskLevel.MEDIUM,
+      reversible: false,
+      readOnly: false,
+      costly: true,
+      parameters: { recipient: 'string', amount: 'number' }
+    });
+    expect(registry.listTools().find(tool => tool.name === 'swap')!.parameters)
+      .toEqual({ tokenIn: 'string', tokenOut: 'string', amountIn: 'number', slippage: 'number?' });
+  });
+
+  test('a tool cannot be replaced by a different one of the same name', async () => {
+    registry.registerToolset('custom', [defineTool({
+      name: 'tip',
+      description: 'Not the real tip',
+      input: z.object({}),
+      output: z.object({}),
+      decisionType: DecisionType.FINANCIAL_TRANSACTION,
+      riskLevel: RiskLevel.LOW,
+      reversible: true,
+      run: async () => ({})
+    })]);
+    await registry.loadToolset('tipping');
+
+    await expect(registry.loadToolset('custom')).rejects.toThrow('Tool tip from custom conflicts with the one from tipping');
+  });
+
+  test('runs approved calls and blocks those over the spending limits', async () => {
+    await registry.loadToolset('tipping');
+    const blocked = vi.fn();
+    registry.on('tool_blocked', blocked);
+
+    await expect(registry.execute('tip', { recipient: '0xcreator', amount: 0.5 }))
+      .resolves.toEqual({ success: true, transactionHash: `0x${'9'.repeat(64)}` });
+    expect(blockchain.transferTokens).toHaveBeenCalledWith('0xcreator', 0.5);
+
+    await expect(registry.execute('tip', { recipient: '0xcreator', amount: 5 })).rejects.toThrow('Tool tip was not approved');
+    expect(blocked).toHaveBeenCalledTimes(1);
+    expect(blockchain.transferTokens).toHaveBeenCalledTimes(1);
+
+    // Read-only tools are not gated
+    expect(await registry.execute('query-balance', {})).toEqual({ token: 'SEI', balance: 12.5 });
+  });
+
+  test('values swaps of other tokens in SEI for the limits', async () => {
+    await registry.loadToolset('defi-protocols');
+
+    // 0.4 USDC is 0.8 SEI at $0.50
+    await registry.execute('swap', { tokenIn: 'USDC', tokenOut: 'SEI', amountIn: 0.4 });
+    expect(defi.swapTokens).toHaveBeenCalledWith({ tokenIn: 'USDC', tokenOut: 'SEI', amountIn: '0.4', slippage: undefined });
+
+    // 0.6 USDC is 1.2 SEI, over the per-transaction limit
+    await expect(registry.execute('swap', { tokenIn: 'USDC', tokenOut: 'SEI', amountIn: 0.6 })).rejects.toThrow('not approved');
+    expect(defi.swapTokens).toHaveBeenCalledTimes(1);
+  });
+
+  test('rejects bad input, missing services and output that breaks the contract', async () => {
+    await registry.loadToolset('tipping');
+    await registry.loadToolset('social-media');
+    const failed = vi.fn();
+    registry.on('tool_failed', failed);
+
+    await expect(registry.execute('tip', { recipient: '', amount: -1 })).rejects.toThrow('Invalid input for tip');
+    await expect(registry.execute('stake', { amount: 1 })).rejects.toThrow('Tool stake is not loaded');
+    await expect(registry.execute('post', { platform: 'twitter', text: 'gm' })).rejects.toThrow('Tool post needs the platforms service');
+    expect(failed).toHaveBeenCalledWith(expect.objectContaining({ tool: 'post' }));
+
+    blockchain.transferTokens.mockResolvedValueOnce({ success: 'yes' });
+    await expect(registry.execute('tip', { recipient: '0xcreator', amount: 0.1 })).rejects.toThrow();
+    expect(failed).toHaveBeenLastCalledWith(expect.objectContaining({ tool: 'tip' }));
+  });
+});
@@ -0,0 +1,189 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WithdrawalManager, WithdrawalFunds } from '../src/payments/withdrawal-manager';
+import { PaymentSystem, WithdrawalRules } from '../src/payments/x402-integration';
+import { SplitTransferExecutor } from '../src/payments/revenue-splitter';
+
+/**
+ * Withdrawal rules: whitelisted destinations, balance and gas buffer,
+ * approvals, time-locks, frequency, and an attempt log that includes
+ * rejected requests.
+ */
+describe('WithdrawalManager', () => {
+  const destination = ethers.Wallet.createRandom().address;
+  const backup = ethers.Wallet.createRandom().address;
+  let dataDir: string;
+  let balance: number;
+  let funds: WithdrawalFunds;
+  let managers: WithdrawalManager[];
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'withdrawal-test-'));
+    balance = 100;
+    funds = {
+      getAvailableBalance: vi.fn(async () => balance),
+      transfer: vi.fn(async (amount: number) => {
+        balance -= amount;
+        return { success: true, txHash: `0x${'1'.repeat(64)}` };
+      })
+    };
+    managers = [];
+  });
+
+  afterEach(() => {
+    managers.forEach(manager => manager.stop());
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  function createManager(rules: Partial<WithdrawalRules> = {}): WithdrawalManager {
+    const manager = new WithdrawalManager({
+      minimumBalance: 10,
+      frequency: 'daily',
+      destinationAddress: destination,
+      autoWithdraw: false,
+      gasBuffer: 1,
+      whitelist: [backup],
+      ...rules
+    }, funds, { dataDir });
+    managers.push(manager);
+    return manager;
+  }
+
+  test('withdraws to the destination and whitelisted addresses', async () => {
+    const manager = createManager();
+
+    const withdrawal = await manager.request(20, backup.toLowerCase(), 'owner');
+
+    expect(withdrawal.status).toBe('completed');
+    expect(withdrawal.destination).toBe(backup);
+    expect(funds.transfer).toHaveBeenCalledWith(20, backup);
+  });
+
+  test('rejects and logs destinations off the whitelist', async () => {
+    const manager = createManager();
+    const stranger = ethers.Wallet.createRandom().address;
+
+    const withdrawal = await manager.request(5, stranger, 'owner');
+
+    expect(withdrawal.status).toBe('rejected');
+    expect(withdrawal.reason).toBe(`Destination ${stranger} is not whitelisted`);
+    expect(funds.transfer).not.toHaveBeenCalled();
+    expect(await manager.getAttempts()).toEqual([
+      expect.objectContaining({ requestId: withdrawal.id, action: 'request', outcome: 'rejected', actor: 'owner' })
+    ]);
+  });
+
+  test('keeps the gas buffer and the minimum balance', async () => {
+    const manager = createManager();
+
+    expect((await manager.request(99.5)).reason).toBe('Only 99 SEI can be withdrawn after the gas buffer');
+
+    balance = 5;
+    expect((await manager.request(1)).reason).toBe('Balance 5 SEI is below the 10 SEI withdrawal minimum');
+    expect(funds.transfer).not.toHaveBeenCalled();
+  });
+
+  test('waits for approvals from someone other than the requester', async () => {
+    const manager = createManager({ approvers: ['alice', 'bob'], requiredApprovals: 1 });
+
+    const withdrawal = await manager.request(10, undefined, 'alice');
+    expect(withdrawal.status).toBe('pending_approval');
+
+    await expect(manager.approve(withdrawal.id, 'alice')).rejects.toThrow('cannot be approved by their requester');
+    await expect(manager.approve(withdrawal.id, 'mallory')).rejects.toThrow('is not an approver');
+    expect(funds.transfer).not.toHaveBeenCalled();
+
+    const approved = await manager.approve(withdrawal.id, 'bob');
+    expect(approved.status).toBe('completed');
+    expect(approved.approvals).toEqual(['bob']);
+  });
+
+  test('holds withdrawals above the threshold until the time-lock expires', async () => {
+    const manager = createManager({ timeLockHours: 24, timeLockAbove: 50 });
+
+    const locked = await manager.request(60);
+    expect(locked.status).toBe('time_locked');
+    expect(locked.unlocksAt).toBe(locked.requestedAt + 24 * 60 * 60 * 1000);
+
+    await manager.processDue(locked.unlocksAt! - 1);
+    expect((await manager.getRequests())[0].status).toBe('time_locked');
+    expect(funds.transfer).not.toHaveBeenCalled();
+
+    await manager.processDue(locked.unlocksAt!);
+    expect((await manager.getRequests())[0].status).toBe('completed');
+    expect(funds.transfer).toHaveBeenCalledWith(60, destination);
+  });
+
+  test('allows one open withdrawal and one completed withdrawal per period', async () => {
+    const manager = createManager({ approvers: ['bob'], requiredApprovals: 1 });
+
+    const first = await manager.request(10, undefined, 'alice');
+    expect((await manager.request(10, undefined, 'alice')).reason).toBe('Another withdrawal is already in progress');
+
+    await manager.cancel(first.id, 'alice');
+    const second = await manager.request(10, undefined, 'alice');
+    await manager.approve(second.id, 'bob');
+
+    const third = await manager.request(10, undefined, 'alice');
+    expect(third.status).toBe('rejected');
+    expect(third.reason).toMatch(/^Withdrawals are daily/);
+  });
+
+  test('marks a withdrawal interrupted mid-transfer as failed on restart', async () => {
+    funds.transfer = vi.fn(() => new Promise<never>(() => undefined));
+    const manager = createManager();
+    manager.request(10);
+    await vi.waitFor(() => expect(funds.transfer).toHaveBeenCalled());
+
+    const restarted = createManager();
+    const [withdrawal] = await restarted.getRequests();
+    expect(withdrawal.status).toBe('failed');
+    expect(withdrawal.reason).toMatch(/^Interrupted during execution/);
+  });
+
+  test('refuses rules needing more approvals than there are approvers', () => {
+    expect(() => createManager({ approvers: ['bob'], requiredApprovals: 2 })).toThrow();
+  });
+
+  async function createPaymentSystem(withdrawalExecutor?: SplitTransferExecutor): Promise<PaymentSystem> {
+    const payments = new PaymentSystem({
+      models: [{ type: 'service', rate: 1, currency: 'SEI', billingCycle: 'per_use', description: 'Answers' }],
+      paymentMethods: ['x402'],
+      withdrawalRules: { minimumBalance: 0, frequency: 'daily', destinationAddress: destination, autoWithdraw: false, gasBuffer: 0 },
+      withdrawals: { dataDir },
+      withdrawalExecutor
+    }, ethers.Wallet.createRandom().address);
+    // Earn 20 SEI to withdraw
+    await payments.acceptPayment({ x402Version: 1, scheme: 'exact', network: 'sei-pacific', payload: { amount: '20', from: backup } });
+    return payments;
+  }
+
+  test('earnings withdrawals fail without a way to send them', async () => {
+    const payments = await createPaymentSystem();
+
+    const result = await payments.withdrawEarnings(5, undefined, 'owner');
+
+    expect(result.success).toBe(false);
+    expect(result.txHash).toBeUndefined();
+    expect(result.withdrawal.status).toBe('failed');
+    expect(result.withdrawal.reason).toBe('No withdrawal executor configured');
+  });
+
+  test('earnings withdrawals send the exact wei through the executor', async () => {
+    const executor = {
+      sendBatch: vi.fn(async (transfers: { recipient: string; amount: bigint }[]) =>
+        transfers.map(transfer => ({ recipient: transfer.recipient, success: true, transactionHash: `0x${'3'.repeat(64)}` }))
+      )
+    };
+    const payments = await createPaymentSystem(executor);
+
+    const result = await payments.withdrawEarnings(0.3, undefined, 'owner');
+
+    expect(result.success).toBe(true);
+    expect(result.txHash).toBe(`0x${'3'.repeat(64)}`);
+    expect(executor.sendBatch).toHaveBeenCalledWith([{ recipient: destination, amount: ethers.parseEther('0.3') }]);
+  });
+});
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { ethers } from 'ethers';
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { X402AutoPayer } from '../src/payments/x402-auto-pay';
+import { X402Client } from '../src/payments/x402-client';
+import { X402Facilitator } from '../src/payments/x402-facilitator';
+import { x402Paywall } from '../src/payments/x402-paywall';
+import { PaymentSystem } from '../src/payments/x402-integration';
+import { AutonomyController, AutonomyLevel } from '../src/autonomy/autonomy-controller';
+import { SimulatedChain } from '../src/simulation/simulated-chain';
+
+/**
+ * Auto-pay answers a paywall's 402 with exactly the wei it asks for, within
+ * the autonomy limits, and hands the nonce back when the paid retry fails.
+ */
+describe('X402AutoPayer', () => {
+  const network = 'sei-arctic';
+  const payerKey = ethers.Wallet.createRandom().privateKey;
+  const seller = ethers.Wallet.createRandom().address;
+  let dataDir: string;
+  let chain: SimulatedChain;
+  let facilitator: X402Facilitator;
+  let server: Server;
+  let url: string;
+  let client: X402Client;
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'x402-auto-pay-test-'));
+    chain = new SimulatedChain({ chainId: 713715 });
+    chain.fund(new ethers.Wallet(payerKey).address, 10);
+    const rpcUrl = await chain.listen(0);
+    facilitator = new X402Facilitator({ network, rpcUrl, dataDir });
+    const facilitatorUrl = await facilitator.listen(0);
+    client = new X402Client({ privateKey: payerKey, network, rpcUrl, facilitatorUrl });
+
+    const payments = new PaymentSystem({
+      models: [{ type: 'content', rate: 1, currency: 'SEI', billingCycle: 'per_use', description: 'Reports' }],
+      paymentMethods: ['x402'],
+      withdrawalRules: { minimumBalance: 0, frequency: 'daily', destinationAddress: seller, autoWithdraw: false, gasBuffer: 0 },
+      facilitator: { url: facilitatorUrl, supportedSchemes: ['exact'], supportedNetworks: [network] },
+      network
+    }, seller);
+
+    const app = express();
+    app.get('/report', x402Paywall(payments, { serviceId: 'content_service', price: 0.3 }), (req, res) => {
+      res.json({ paidBy: req.payment?.payer });
+    });
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/report`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await facilitator.close();
+    await chain.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  function createPayer(dailyLimit: number = 5): X402AutoPayer {
+    const autonomy = new AutonomyController(AutonomyLevel.AUTONOMOUS, {
+      dailyLimit,
+      perTransactionLimit: 1,
+      platformLimits: {},
+      approvalRequiredAbove: 1,
+      currencyLimits: {}
+    });
+    return new X402AutoPayer({ client, autonomy });
+  }
+
+  test('pays a 0.3 SEI paywall for exactly its wei', async () => {
+    const payer = createPayer();
+    const settled = vi.fn();
+    payer.on('payment_settled', settled);
+
+    const response = await payer.wrapFetch()(url);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ paidBy: client.getWalletAddress() });
+    expect(chain.getBalanceWei(seller)).toBe(ethers.parseEther('0.3'));
+    expect(settled).toHaveBeenCalledWith(expect.objectContaining({ success: true, resource: url }));
+  });
+
+  test('does not pay beyond the daily limit', async () => {
+    const payer = createPayer(0.2);
+
+    await expect(payer.wrapFetch()(url)).rejects.toThrow('not approved');
+    expect(chain.getBalanceWei(seller)).toBe(0n);
+  });
+
+  test('a failed paid retry releases the nonce it reserved', async () => {
+    const payer = createPayer();
+    const release = vi.spyOn(client, 'releasePaymentPayload');
+    const fetchImpl = vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+      if (new Headers(init?.headers).has('X-PAYMENT')) {
+        throw new Error('connection reset');
+      }
+      return fetch(input, init);
+    }) as unknown as typeof fetch;
+
+    await expect(payer.wrapFetch(fetchImpl)(url)).rejects.toThrow('connection reset');
+
+    expect(release).toHaveBeenCalledTimes(1);
+    const next = await client.createPaymentPayload({ recipient: seller, amount: 0.3, currency: 'SEI' });
+    expect(next.payload.authorization.nonce).toBe(0);
+  });
+});
@@ -0,0 +1,65 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { X402Client } from '../src/payments/x402-client';
+import { X402Facilitator } from '../src/payments/x402-facilitator';
+import { SimulatedChain } from '../src/simulation/simulated-chain';
+
+/**
+ * Payments signed by X402Client carry exactly the wei of the requested
+ * amount, so sellers pricing in ordinary decimals are never under-paid.
+ */
+describe('X402Client', () => {
+  const network = 'sei-arctic';
+  const payerKey = ethers.Wallet.createRandom().privateKey;
+  let dataDir: string;
+  let chain: SimulatedChain;
+  let facilitator: X402Facilitator;
+  let client: X402Client;
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'x402-client-test-'));
+    chain = new SimulatedChain({ chainId: 713715 });
+    chain.fund(new ethers.Wallet(payerKey).address, 10);
+    const rpcUrl = await chain.listen(0);
+    facilitator = new X402Facilitator({ network, rpcUrl, dataDir });
+    const facilitatorUrl = await facilitator.listen(0);
+    client = new X402Client({ privateKey: payerKey, network, rpcUrl, facilitatorUrl });
+  });
+
+  afterEach(async () => {
+    await facilitator.close();
+    await chain.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test.each(['0.1', '0.3', '0.0000001'])('signs exactly %s SEI', async amount => {
+    const recipient = ethers.Wallet.createRandom().address;
+    const payload = await client.createPaymentPayload({ recipient, amount: Number(amount), currency: 'SEI' });
+
+    expect(payload.payload.authorization.amount).toBe(ethers.parseEther(amount).toString());
+    expect(ethers.Transaction.from(payload.payload.transaction).value).toBe(ethers.parseEther(amount));
+  });
+
+  test.each(['0.1', '0.3'])('pays exactly %s SEI through the facilitator', async amount => {
+    const recipient = ethers.Wallet.createRandom().address;
+
+    const response = await client.sendPayment({ recipient, amount: Number(amount), currency: 'SEI' });
+
+    expect(response.status).toBe('confirmed');
+    expect(chain.getBalanceWei(recipient)).toBe(ethers.parseEther(amount));
+    expect(facilitator.getSettledPayments()[0].amount).toBe(ethers.parseEther(amount).toString());
+  });
+
+  test('consecutive payments use consecutive nonces', async () => {
+    const recipient = ethers.Wallet.createRandom().address;
+
+    await client.sendPayment({ recipient, amount: 0.1, currency: 'SEI' });
+    await client.sendPayment({ recipient, amount: 0.2, currency: 'SEI' });
+
+    expect(chain.getBalanceWei(recipient)).toBe(ethers.parseEther('0.3'));
+    expect(chain.getNonce(client.getWalletAddress())).toBe(2);
+  });
+});
@@ -0,0 +1,125 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { X402Facilitator } from '../src/payments/x402-facilitator';
+import { X402Client } from '../src/payments/x402-client';
+import { SimulatedChain } from '../src/simulation/simulated-chain';
+
+/**
+ * The self-hosted facilitator against a simulated chain: payloads signed by
+ * X402Client verify and settle once, and anything that does not match its
+ * requirements or reuses a nonce is refused.
+ */
+describe('X402Facilitator', () => {
+  const network = 'sei-arctic';
+  const payerKey = ethers.Wallet.createRandom().privateKey;
+  const recipient = ethers.Wallet.createRandom().address;
+  let dataDir: string;
+  let chain: SimulatedChain;
+  let rpcUrl: string;
+  let client: X402Client;
+  let facilitators: X402Facilitator[];
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'facilitator-test-'));
+    chain = new SimulatedChain({ chainId: 713715 });
+    chain.fund(new ethers.Wallet(payerKey).address, 10);
+    rpcUrl = await chain.listen(0);
+    client = new X402Client({ privateKey: payerKey, network, rpcUrl, facilitatorUrl: 'http://127.0.0.1:1' });
+    facilitators = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(facilitators.map(facilitator => facilitator.close()));
+    await chain.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  async function createFacilitator(): Promise<X402Facilitator> {
+    const facilitator = new X402Facilitator({ network, rpcUrl, dataDir });
+    facilitators.push(facilitator);
+    await facilitator.initialize();
+    return facilitator;
+  }
+
+  function requirements(amount: number, payTo: string = recipient) {
+    return {
+      scheme: 'exact',
+      network,
+      recipient: payTo,
+      requiredAmount: ethers.parseEther(amount.toString()).toString()
+    };
+  }
+
+  test('verifies and settles a signed payment', async () => {
+    const facilitator = await createFacilitator();
+    const payload = await client.createPaymentPayload({ recipient, amount: 1.5, currency: 'SEI' });
+
+    expect(await facilitator.verify(payload, requirements(1.5))).toEqual({ isValid: true, payer: client.getWalletAddress() });
+
+    const settlement = await facilitator.settle(payload, requirements(1.5));
+    expect(settlement).toMatchObject({ success: true, network, payer: client.getWalletAddress() });
+    expect(chain.getBalance(recipient)).toBe(1.5);
+    expect(facilitator.getSettledPayments()).toEqual([
+      expect.objectContaining({ recipient, transactionHash: settlement.transaction })
+    ]);
+  });
+
+  test('a payment settles only once, even after a restart', async () => {
+    const facilitator = await createFacilitator();
+    const payload = await client.createPaymentPayload({ recipient, amount: 1, currency: 'SEI' });
+
+    const settlements = await Promise.all([
+      facilitator.settle(payload, requirements(1)),
+      facilitator.settle(payload, requirements(1))
+    ]);
+    expect(settlements.filter(settlement => settlement.success)).toHaveLength(1);
+    expect(settlements.find(settlement => !settlement.success)?.errorReason).toBe('settlement_in_progress');
+
+    expect((await facilitator.settle(payload, requirements(1))).errorReason).toBe('nonce_already_used');
+
+    const restarted = await createFacilitator();
+    expect(await restarted.verify(payload, requirements(1))).toMatchObject({
+      isValid: false,
+      invalidReason: 'nonce_already_used'
+    });
+    expect(chain.getBalance(recipient)).toBe(1);
+  });
+
+  test('rejects payments that do not meet the requirements', async () => {
+    const facilitator = await createFacilitator();
+    const payload = await client.createPaymentPayload({ recipient, amount: 1, currency: 'SEI' });
+
+    expect((await facilitator.verify(payload, requirements(2))).invalidReason).toBe('insufficient_amount');
+    expect((await facilitator.verify(payload, requirements(1, ethers.Wallet.createRandom().address))).invalidReason)
+      .toBe('recipient_mismatch');
+    expect((await facilitator.verify(payload, { ...requirements(1), network: 'sei-pacific' })).invalidReason)
+      .toBe('invalid_network');
+  });
+
+  test('rejects tampered authorizations and transactions', async () => {
+    const facilitator = await createFacilitator();
+    const payload = await client.createPaymentPayload({ recipient, amount: 1, currency: 'SEI' });
+
+    const inflated = structuredClone(payload);
+    inflated.payload.authorization.amount = ethers.parseEther('5').toString();
+    expect((await facilitator.verify(inflated, requirements(5))).invalidReason).toBe('invalid_signature');
+
+    const other = await new X402Client({ privateKey: payerKey, network, rpcUrl, facilitatorUrl: 'http://127.0.0.1:1' })
+      .createPaymentPayload({ recipient, amount: 2, currency: 'SEI' });
+    const swapped = structuredClone(payload);
+    swapped.payload.transaction = other.payload.transaction;
+    expect((await facilitator.verify(swapped, requirements(1))).invalidReason).toBe('transaction_mismatch');
+  });
+
+  test('rejects payers that cannot cover the transfer', async () => {
+    const facilitator = await createFacilitator();
+    const payload = await client.createPaymentPayload({ recipient, amount: 20, currency: 'SEI' });
+
+    expect((await facilitator.verify(payload, requirements(20))).invalidReason).toBe('insufficient_funds');
+    expect((await facilitator.settle(payload, requirements(20))).success).toBe(false);
+    expect(chain.getBalance(recipient)).toBe(0);
+  });
+});
@@ -0,0 +1,134 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { ethers } from 'ethers';
+import { describe, test, expect, vi, beforeEach, afterEach, Mock } from 'vitest';
+import { X402Client } from '../src/payments/x402-client';
+import { X402Facilitator } from '../src/payments/x402-facilitator';
+import { x402Paywall } from '../src/payments/x402-paywall';
+import { PaymentSystem } from '../src/payments/x402-integration';
+import { SplitTransfer, SplitTransferResult } from '../src/payments/revenue-splitter';
+import { SimulatedChain } from '../src/simulation/simulated-chain';
+
+/**
+ * The paywall answers unpaid requests with a 402 priced to the wei, lets
+ * through requests whose payment settles, and refunds a payment when the
+ * route then fails.
+ */
+describe('x402Paywall', () => {
+  const network = 'sei-arctic';
+  const payerKey = ethers.Wallet.createRandom().privateKey;
+  const seller = ethers.Wallet.createRandom().address;
+  let dataDir: string;
+  let chain: SimulatedChain;
+  let facilitator: X402Facilitator;
+  let server: Server;
+  let baseUrl: string;
+  let client: X402Client;
+  let refundExecutor: { sendBatch: Mock<[SplitTransfer[]], Promise<SplitTransferResult[]>> };
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'x402-paywall-test-'));
+    chain = new SimulatedChain({ chainId: 713715 });
+    chain.fund(new ethers.Wallet(payerKey).address, 10);
+    const rpcUrl = await chain.listen(0);
+    facilitator = new X402Facilitator({ network, rpcUrl, dataDir });
+    const facilitatorUrl = await facilitator.listen(0);
+    client = new X402Client({ privateKey: payerKey, network, rpcUrl, facilitatorUrl });
+    refundExecutor = {
+      sendBatch: vi.fn(async (transfers: SplitTransfer[]): Promise<SplitTransferResult[]> =>
+        transfers.map(transfer => ({ recipient: transfer.recipient, success: true, transactionHash: `0x${'7'.repeat(64)}` }))
+      )
+    };
+
+    const payments = new PaymentSystem({
+      models: [{ type: 'content', rate: 1, currency: 'SEI', billingCycle: 'per_use', description: 'Reports' }],
+      paymentMethods: ['x402'],
+      withdrawalRules: { minimumBalance: 0, frequency: 'daily', destinationAddress: seller, autoWithdraw: false, gasBuffer: 0 },
+      withdrawals: { dataDir },
+      facilitator: { url: facilitatorUrl, supportedSchemes: ['exact'], supportedNetworks: [network] },
+      refunds: { executor: refundExecutor, dataDir },
+      network
+    }, seller);
+
+    const app = express();
+    app.get('/report', x402Paywall(payments, { serviceId: 'content_service', price: 0.3 }), (req, res) => {
+      res.json({ paidBy: req.payment?.payer });
+    });
+    app.get('/tiny', x402Paywall(payments, { serviceId: 'content_service', price: 1e-7 }), (_req, res) => {
+      res.json({ ok: true });
+    });
+    app.get('/broken', x402Paywall(payments, { serviceId: 'content_service', price: 0.3 }), () => {
+      throw new Error('model unavailable');
+    });
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await facilitator.close();
+    await chain.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  // Payments and refunds are recorded in the background; let them land
+  // before the data directory goes
+  function recorded(text: string): Promise<void> {
+    return vi.waitFor(() => expect(fs.readFileSync(path.join(dataDir, 'refunds.json'), 'utf8')).toContain(text));
+  }
+
+  async function paymentHeader(amount: number): Promise<string> {
+    const payload = await client.createPaymentPayload({ recipient: seller, amount, currency: 'SEI' });
+    return Buffer.from(JSON.stringify(payload)).toString('base64');
+  }
+
+  test('asks for payment in wei, including prices written in exponent form', async () => {
+    const response = await fetch(`${baseUrl}/tiny`);
+
+    expect(response.status).toBe(402);
+    const body = await response.json();
+    expect(body.accepts[0]).toEqual(expect.objectContaining({
+      scheme: 'exact',
+      network,
+      payTo: seller,
+      maxAmountRequired: ethers.parseEther('0.0000001').toString()
+    }));
+  });
+
+  test('lets a settled payment through and returns the settlement', async () => {
+    const response = await fetch(`${baseUrl}/report`, { headers: { 'X-PAYMENT': await paymentHeader(0.3) } });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ paidBy: client.getWalletAddress() });
+    const settlement = JSON.parse(Buffer.from(response.headers.get('X-PAYMENT-RESPONSE')!, 'base64').toString('utf8'));
+    expect(settlement).toEqual(expect.objectContaining({ success: true, network, payer: client.getWalletAddress() }));
+    expect(chain.getBalanceWei(seller)).toBe(ethers.parseEther('0.3'));
+    await recorded(settlement.transaction);
+  });
+
+  test('rejects payments that are short or unreadable', async () => {
+    const short = await fetch(`${baseUrl}/report`, { headers: { 'X-PAYMENT': await paymentHeader(0.2) } });
+    expect(short.status).toBe(402);
+    expect((await short.json()).error).toBe('Payment amount is below the required amount');
+
+    const garbled = await fetch(`${baseUrl}/report`, { headers: { 'X-PAYMENT': 'not-a-payment' } });
+    expect(garbled.status).toBe(402);
+    expect((await garbled.json()).error).toBe('Invalid X-PAYMENT header');
+    expect(chain.getBalanceWei(seller)).toBe(0n);
+  });
+
+  test('refunds the payment when the route fails', async () => {
+    const response = await fetch(`${baseUrl}/broken`, { headers: { 'X-PAYMENT': await paymentHeader(0.3) } });
+
+    expect(response.status).toBe(500);
+    await vi.waitFor(() => expect(refundExecutor.sendBatch).toHaveBeenCalledWith([
+      { recipient: client.getWalletAddress(), amount: ethers.parseEther('0.3') }
+    ]));
+    await recorded('service_failed');
+  });
+});